@@ -1,23 +1,29 @@
 /**
  * @fileoverview
- * This middleware function validates JWT tokens from the Authorization header
- * and attaches authenticated user information to the request object.
+ * This middleware function validates JWT tokens from the Authorization header or from the
+ * session cookie, and attaches authenticated user information to the request object.
  * 
  * Key features:
+ * - Accepts a Bearer token (API clients) or the HttpOnly access token cookie (the web application).
+ * - Requires a valid CSRF token for the requests authenticated by cookie that modify data (403 otherwise).
  * - Verifies the JWT token using the verifyToken function from authService.
- * - Attaches the decoded user information (user_id, username, email) to the request.
- * - Returns a 401 Unauthorized error if no token is provided or if the token is invalid.
+ * - Attaches the decoded user information (user_id, username, email) and the session to the request.
+ * - Rejects the tokens of revoked sessions (logout, reused refresh token) with isSessionActive.
+ * - Returns a 401 Unauthorized error if no token is provided, if the token is invalid or if its
+ *   session has been revoked.
  * 
  * @dependencies
  * - Next.js types for API requests and responses.
  * - backend/services/authService for token verification.
+ * - backend/utils/authCookies for the session cookie and the CSRF check.
  * 
  * @notes
  * - This middleware should wrap any API endpoint that requires authentication.
  */
 
 import { NextApiRequest, NextApiResponse, NextApiHandler } from 'next';
-import { verifyToken } from '../services/authService';
+import { isSessionActive, verifyToken, AccessTokenPayload } from '../services/authService';
+import { ACCESS_TOKEN_COOKIE, isCsrfValid } from '../utils/authCookies';
 
 // Define a custom interface that extends NextApiRequest to include user information
 export interface AuthenticatedNextApiRequest extends NextApiRequest {
@@ -25,43 +31,65 @@ export interface AuthenticatedNextApiRequest extends NextApiRequest {
     user_id: string;
     username: string;
     email: string;
+    // The session of the access token, revoked at logout
+    sid: string;
   };
 }
 
 /**
  * Higher-order function that wraps an API handler with authentication.
- * It validates the JWT token from the Authorization header and attaches the user to the request.
+ * It validates the JWT token from the Authorization header (or, without it, from the session cookie),
+ * checks that its session has not been revoked and attaches the user to the request.
  * 
  * @param handler - The original API handler to wrap.
  * @returns A new API handler that requires authentication.
  */
 export function withAuth(handler: NextApiHandler) {
   return async (req: NextApiRequest, res: NextApiResponse) => {
+    let decoded: AccessTokenPayload;
     try {
       const authHeader = req.headers.authorization;
-      if (!authHeader) {
+      const cookieToken = req.cookies?.[ACCESS_TOKEN_COOKIE];
+      if (!authHeader && !cookieToken) {
         return res.status(401).json({ error: 'Autorizzazione mancante. Effettua il login.' });
       }
-      
-      // Expect the token to be in the format "Bearer <token>"
-      const token = authHeader.split(' ')[1];
+
+      // Expect the header to be in the format "Bearer <token>"
+      const token = authHeader ? authHeader.split(' ')[1] : cookieToken;
       if (!token) {
         return res.status(401).json({ error: 'Token non fornito.' });
       }
 
-      // Verify the token and attach the decoded user to the request
-      const decoded = verifyToken(token);
-      // Type assertion: assuming decoded has the required fields
-      (req as AuthenticatedNextApiRequest).user = {
-        user_id: decoded.user_id,
-        username: decoded.username,
-        email: decoded.email,
-      };
+      // The browser sends the cookie by itself, even for requests started by other sites
+      if (!authHeader && !isCsrfValid(req)) {
+        return res.status(403).json({ error: 'Token CSRF mancante o non valido. Ricarica la pagina.' });
+      }
 
-      return handler(req, res);
+      // Verify the token; the user is attached to the request once its session has been checked
+      decoded = verifyToken(token);
     } catch (error) {
       console.error('Errore di autenticazione:', error);
       return res.status(401).json({ error: 'Token non valido o scaduto.' });
     }
+
+    // Tokens issued before the sessions were introduced carry no session and are rejected
+    try {
+      if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+        return res.status(401).json({ error: 'Sessione terminata. Effettua di nuovo il login.' });
+      }
+    } catch (error) {
+      console.error('Errore nella verifica della sessione:', error);
+      return res.status(500).json({ error: 'Errore interno del server durante la verifica della sessione.' });
+    }
+
+    // Type assertion: assuming decoded has the required fields
+    (req as AuthenticatedNextApiRequest).user = {
+      user_id: decoded.user_id,
+      username: decoded.username,
+      email: decoded.email,
+      sid: decoded.sid,
+    };
+
+    return handler(req, res);
   };
 }
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview
+ * This middleware function restricts an API endpoint to some roles and attaches the role and the
+ * imprint of the user to the request object. It composes with withAuth, which must run first:
+ * `export default withAuth(withRole(['admin'], handler));`
+ *
+ * Key features:
+ * - Loads the role and the imprint of the authenticated user with getUserAccess.
+ * - Returns a 403 Forbidden error if the role of the user is not among the allowed roles.
+ * - Returns a 401 Unauthorized error if the user no longer exists.
+ *
+ * @dependencies
+ * - Next.js types for API requests and responses.
+ * - backend/middleware/authMiddleware for the authenticated request.
+ * - backend/services/accessService for the roles.
+ *
+ * @notes
+ * - Endpoints open to every role use `withRole(userRoles, handler)` to receive the access of the user,
+ *   which the file queries need to decide what the user can see.
+ * - Endpoints whose methods need different roles check authReq.user.role in the handler.
+ */
+
+import { NextApiRequest, NextApiResponse, NextApiHandler } from 'next';
+import { AuthenticatedNextApiRequest } from './authMiddleware';
+import { getUserAccess, UserAccess, UserRole } from '../services/accessService';
+
+// The authenticated request with the role and the imprint of the user
+export interface AuthorizedNextApiRequest extends AuthenticatedNextApiRequest {
+  user: AuthenticatedNextApiRequest['user'] & UserAccess;
+}
+
+/**
+ * Higher-order function that wraps an API handler with a role check.
+ *
+ * @param roles - The roles allowed to call the endpoint.
+ * @param handler - The original API handler to wrap.
+ * @returns A new API handler, to be wrapped by withAuth.
+ */
+export function withRole(roles: UserRole[], handler: NextApiHandler) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const authReq = req as AuthenticatedNextApiRequest;
+
+    let access: UserAccess | null;
+    try {
+      access = await getUserAccess(authReq.user.user_id);
+    } catch (error) {
+      console.error('Errore nella verifica dei permessi:', error);
+      return res.status(500).json({ error: 'Errore interno del server durante la verifica dei permessi.' });
+    }
+
+    if (!access) {
+      return res.status(401).json({ error: 'Utente non trovato. Effettua di nuovo il login.' });
+    }
+    if (!roles.includes(access.role)) {
+      return res.status(403).json({ error: 'Non hai i permessi per questa operazione.' });
+    }
+
+    (req as AuthorizedNextApiRequest).user = { ...authReq.user, ...access };
+    return handler(req, res);
+  };
+}
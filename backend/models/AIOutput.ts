@@ -7,6 +7,8 @@
  * - Defines a UUID primary key.
  * - Associates each AI output with a file via file_id.
  * - Stores various types of AI-generated content (blurb, description, keywords, etc.).
+ * - Flags the versions edited by the user, as opposed to the ones produced by the model.
+ * - Records the language the content is written in (ISO 639-1 code, Italian by default).
  * 
  * @dependencies
  * - drizzle-orm/pg-core for table and column definitions.
@@ -15,7 +17,7 @@
  * - Ensure that the application logic maintains the foreign key relationship between AIOutputs and Files.
  */
 
-import { pgTable, uuid, text, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, jsonb, boolean, varchar } from 'drizzle-orm/pg-core';
 
 export const AIOutputs = pgTable('AIOutputs', {
   output_id: uuid('output_id').primaryKey().defaultRandom(),
@@ -26,5 +28,7 @@ export const AIOutputs = pgTable('AIOutputs', {
   categories: jsonb('categories'),
   foreword: text('foreword'),
   analysis: text('analysis'),
+  edited: boolean('edited').default(false).notNull(),
+  language: varchar('language', { length: 5 }).default('it').notNull(),
   generated_at: timestamp('generated_at').defaultNow(),
 });
@@ -6,6 +6,7 @@
  * Key features:
  * - Defines a UUID primary key.
  * - Stores category data as JSON.
+ * - Records the classification scheme (BISAC, Thema or custom) and a version number per scheme.
  * - Includes a timestamp for when the catalog was last updated.
  * 
  * @dependencies
@@ -13,12 +14,24 @@
  * 
  * @notes
  * - The JSON structure should match the expected format for the catalog.
+ * - Every import creates a new snapshot row; the version is incremented per scheme, and a unique
+ *   index keeps two snapshots of a scheme from getting the same version.
+ * - Snapshots are never changed once stored.
  */
 
-import { pgTable, uuid, jsonb, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, jsonb, timestamp, integer, pgEnum, uniqueIndex } from 'drizzle-orm/pg-core';
 
-export const Catalog = pgTable('Catalog', {
-  catalog_id: uuid('catalog_id').primaryKey().defaultRandom(),
-  category_data: jsonb('category_data').notNull(),
-  last_updated: timestamp('last_updated').defaultNow(),
-});
+// Define the enum for the classification scheme of the catalog
+export const catalogSchemeEnum = pgEnum('catalog_scheme', ['bisac', 'thema', 'custom']);
+
+export const Catalog = pgTable(
+  'Catalog',
+  {
+    catalog_id: uuid('catalog_id').primaryKey().defaultRandom(),
+    scheme: catalogSchemeEnum('scheme').default('custom').notNull(),
+    version: integer('version').default(1).notNull(),
+    category_data: jsonb('category_data').notNull(),
+    last_updated: timestamp('last_updated').defaultNow(),
+  },
+  (table) => [uniqueIndex('idx_catalog_scheme_version').on(table.scheme, table.version)]
+);
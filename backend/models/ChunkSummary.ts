@@ -0,0 +1,34 @@
+/**
+ * @fileoverview 
+ * This file defines the ChunkSummary model using Drizzle ORM.
+ * It maps the ChunkSummaries table which caches the summaries of the chunks of long manuscripts.
+ * 
+ * Key features:
+ * - Defines a UUID primary key.
+ * - Associates each summary with a file via file_id.
+ * - Identifies the summarised chunk by the SHA-256 hash of its text.
+ * 
+ * @dependencies
+ * - drizzle-orm/pg-core for table and column definitions.
+ * 
+ * @notes
+ * - Keying the cache on the chunk hash keeps it valid even if the chunking parameters change:
+ *   only chunks whose text actually changed are summarised again.
+ * - The index on the file and the chunk hash is unique, so two generations running at the same time
+ *   store a single summary of each chunk.
+ */
+
+import { pgTable, uuid, varchar, text, integer, timestamp, uniqueIndex } from 'drizzle-orm/pg-core';
+
+export const ChunkSummaries = pgTable(
+  'ChunkSummaries',
+  {
+    summary_id: uuid('summary_id').primaryKey().defaultRandom(),
+    file_id: uuid('file_id').notNull(),
+    chunk_index: integer('chunk_index').notNull(),
+    chunk_hash: varchar('chunk_hash', { length: 64 }).notNull(),
+    summary: text('summary').notNull(),
+    created_at: timestamp('created_at').defaultNow(),
+  },
+  (table) => [uniqueIndex('idx_chunk_summaries_file_hash').on(table.file_id, table.chunk_hash)]
+);
@@ -6,7 +6,15 @@
  * Key features:
  * - Defines a UUID primary key.
  * - Stores file metadata such as file name, type, size, and storage path.
+ * - storage_path holds the content-addressed key of the file in the storage backend
+ *   (see backend/services/storage.ts) and content_hash the SHA-256 hash of its bytes.
  * - Includes a processing_status field defined as an enum.
+ * - Revisions of a book are linked to its first version: version_of holds the file_id of the
+ *   first version (null for the first version itself) and version the version number, from 1.
+ *   text_signature holds the MinHash signature of the extracted text used to recognize them
+ *   (see backend/services/duplicateService.ts).
+ * - ocr holds, for the scanned PDFs, the pages recognized with the OCR and its confidence
+ *   (see backend/services/ocrService.ts).
  * 
  * @dependencies
  * - drizzle-orm/pg-core for table and column definitions.
@@ -15,19 +23,42 @@
  * - The processing_status enum matches the database enum definition.
  */
 
-import { pgTable, uuid, varchar, integer, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { pgTable, uuid, varchar, integer, timestamp, pgEnum, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import type { OcrSummary } from '../services/ocrService';
 
 // Define the enum for processing_status to match ('pending', 'processing', 'complete', 'error')
 export const processingStatusEnum = pgEnum('processing_status', ['pending', 'processing', 'complete', 'error']);
 
-export const Files = pgTable('Files', {
-  file_id: uuid('file_id').primaryKey().defaultRandom(),
-  user_id: uuid('user_id').notNull(),
-  file_name: varchar('file_name', { length: 255 }).notNull(),
-  file_type: varchar('file_type', { length: 50 }).notNull(),
-  file_size: integer('file_size').notNull(),
-  storage_path: varchar('storage_path', { length: 255 }).notNull(),
-  upload_date: timestamp('upload_date').defaultNow(),
-  // Use the defined enum for processing_status with a default value of 'pending'
-  processing_status: processingStatusEnum('processing_status').default('pending').notNull(),
-});
+export const Files = pgTable(
+  'Files',
+  {
+    file_id: uuid('file_id').primaryKey().defaultRandom(),
+    user_id: uuid('user_id').notNull(),
+    file_name: varchar('file_name', { length: 255 }).notNull(),
+    // Long enough for the MIME types of office formats (DOCX is 71 characters)
+    file_type: varchar('file_type', { length: 100 }).notNull(),
+    file_size: integer('file_size').notNull(),
+    storage_path: varchar('storage_path', { length: 255 }).notNull(),
+    content_hash: varchar('content_hash', { length: 64 }),
+    upload_date: timestamp('upload_date').defaultNow(),
+    // Use the defined enum for processing_status with a default value of 'pending'
+    processing_status: processingStatusEnum('processing_status').default('pending').notNull(),
+    // Null unless the text was recognized with the OCR
+    ocr: jsonb('ocr').$type<OcrSummary>(),
+    // First version of the book, null for a first version
+    version_of: uuid('version_of'),
+    version: integer('version').default(1).notNull(),
+    // Null until the text has been extracted
+    text_signature: jsonb('text_signature').$type<number[]>(),
+  },
+  (table) => [
+    // Lookup of the exact duplicates of an upload
+    index('idx_files_user_content_hash').on(table.user_id, table.content_hash),
+    index('idx_files_version_of').on(table.version_of),
+    // A single file per version number of a book
+    uniqueIndex('idx_files_book_version')
+      .on(table.version_of, table.version)
+      .where(sql`${table.version_of} IS NOT NULL`),
+  ]
+);
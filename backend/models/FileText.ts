@@ -0,0 +1,44 @@
+/**
+ * @fileoverview
+ * This file defines the FileText model using Drizzle ORM.
+ * It maps the FileTexts table, which keeps the text extracted from each file with its structure,
+ * so that the content can be generated again and searched without the client sending the manuscript.
+ *
+ * Key features:
+ * - One row per file, keyed by the file_id of the Files table.
+ * - Stores the extracted text and its structure (title, author, table of contents, chapters,
+ *   front and back matter).
+ * - search_vector is computed by the database from the text with the Italian text search
+ *   configuration, and indexed with GIN for the full-text search.
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core for table and column definitions.
+ * - drizzle-orm for the SQL expression of the generated column.
+ *
+ * @notes
+ * - The text is kept apart from the Files table, so that listing files does not load whole manuscripts.
+ * - PostgreSQL limits a tsvector to 1MB of lexemes and positions, well above the size of a novel.
+ */
+
+import { sql } from 'drizzle-orm';
+import { pgTable, uuid, text, jsonb, timestamp, index, customType } from 'drizzle-orm/pg-core';
+import type { DocumentStructure } from '../services/documentStructure';
+
+// PostgreSQL text search vector, which drizzle does not define
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+export const FileTexts = pgTable(
+  'FileTexts',
+  {
+    file_id: uuid('file_id').primaryKey(),
+    extracted_text: text('extracted_text').notNull(),
+    structure: jsonb('structure').$type<DocumentStructure>().notNull(),
+    search_vector: tsvector('search_vector').generatedAlwaysAs(sql`to_tsvector('italian', extracted_text)`),
+    updated_at: timestamp('updated_at').defaultNow(),
+  },
+  (table) => [index('idx_file_texts_search').using('gin', table.search_vector)]
+);
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview 
+ * This file defines the Job model using Drizzle ORM.
+ * It maps the Jobs table, a Postgres-backed queue of background tasks
+ * (such as parsing and analysing an uploaded file) processed by the worker.
+ * 
+ * Key features:
+ * - Defines a UUID primary key.
+ * - Stores the job type, its JSON payload and, once completed, its JSON result.
+ * - Tracks the state of the job with the job_status enum, its progress (0-100) and the last error.
+ * - Supports retries through attempts, max_attempts and run_at (the earliest time the job can run).
+ * 
+ * @dependencies
+ * - drizzle-orm/pg-core for table and column definitions.
+ * 
+ * @notes
+ * - locked_at records when a worker claimed the job, so that jobs left running by a crashed
+ *   worker can be claimed again.
+ * - The index on (status, run_at) supports the query used by the workers to claim the next job.
+ */
+
+import { pgTable, uuid, varchar, text, integer, timestamp, jsonb, pgEnum, index } from 'drizzle-orm/pg-core';
+
+// Define the enum for the state of a job
+export const jobStatusEnum = pgEnum('job_status', ['queued', 'running', 'completed', 'failed']);
+
+export const Jobs = pgTable(
+  'Jobs',
+  {
+    job_id: uuid('job_id').primaryKey().defaultRandom(),
+    type: varchar('type', { length: 50 }).notNull(),
+    // The file the job works on, if any, used to report the processing status of uploads
+    file_id: uuid('file_id'),
+    payload: jsonb('payload').notNull(),
+    status: jobStatusEnum('status').default('queued').notNull(),
+    progress: integer('progress').default(0).notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    max_attempts: integer('max_attempts').default(3).notNull(),
+    error: text('error'),
+    result: jsonb('result'),
+    run_at: timestamp('run_at').defaultNow().notNull(),
+    locked_at: timestamp('locked_at'),
+    created_at: timestamp('created_at').defaultNow(),
+    updated_at: timestamp('updated_at').defaultNow(),
+  },
+  (table) => [
+    index('idx_jobs_status_run_at').on(table.status, table.run_at),
+    index('idx_jobs_file_id').on(table.file_id),
+  ]
+);
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview 
+ * This file defines the PromptTemplate model using Drizzle ORM.
+ * It maps the PromptTemplates table which stores the custom prompts used for content generation.
+ * 
+ * Key features:
+ * - Defines a UUID primary key.
+ * - Each template belongs either to a user or to an imprint, as defined by its scope.
+ * - Stores one template text per generation type and output language, with {{variable}} placeholders.
+ * 
+ * @dependencies
+ * - drizzle-orm/pg-core for table and column definitions.
+ * 
+ * @notes
+ * - For the "user" scope user_id is set, for the "imprint" scope imprint is set.
+ * - One unique index per scope guarantees a single template per owner, generation type and language:
+ *   a single index over both owner columns would not, since Postgres treats the NULL owner of the other
+ *   scope as distinct from every other value.
+ */
+
+import { sql } from 'drizzle-orm';
+import { pgTable, uuid, varchar, text, timestamp, pgEnum, uniqueIndex } from 'drizzle-orm/pg-core';
+
+// Define the enum for the owner of the template
+export const templateScopeEnum = pgEnum('template_scope', ['user', 'imprint']);
+
+export const PromptTemplates = pgTable(
+  'PromptTemplates',
+  {
+    template_id: uuid('template_id').primaryKey().defaultRandom(),
+    scope: templateScopeEnum('scope').notNull(),
+    user_id: uuid('user_id'),
+    imprint: varchar('imprint', { length: 100 }),
+    generation_type: varchar('generation_type', { length: 50 }).notNull(),
+    language: varchar('language', { length: 5 }).default('it').notNull(),
+    template: text('template').notNull(),
+    created_at: timestamp('created_at').defaultNow(),
+    updated_at: timestamp('updated_at').defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('idx_prompt_templates_user_type')
+      .on(table.user_id, table.generation_type, table.language)
+      .where(sql`${table.scope} = 'user'`),
+    uniqueIndex('idx_prompt_templates_imprint_type')
+      .on(table.imprint, table.generation_type, table.language)
+      .where(sql`${table.scope} = 'imprint'`),
+  ]
+);
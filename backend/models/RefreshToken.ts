@@ -0,0 +1,43 @@
+/**
+ * @fileoverview
+ * This file defines the RefreshToken model using Drizzle ORM.
+ * It maps the RefreshTokens table, which keeps the refresh tokens issued at login, so that
+ * short-lived access tokens can be renewed and sessions can be revoked.
+ *
+ * Key features:
+ * - Defines a UUID primary key and associates each token with a user.
+ * - Stores only the SHA-256 hash of the token, never the token itself.
+ * - Groups the tokens of a session in a family (family_id): each refresh replaces the token
+ *   with a new one of the same family, recorded in replaced_by.
+ * - Tracks the expiry of the token and when it was revoked (used, logged out or reused).
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core for table and column definitions.
+ *
+ * @notes
+ * - The family_id is also the session identifier ("sid") carried by the access tokens: a session
+ *   is active while its family has a token that is neither revoked nor expired.
+ * - The unique index on token_hash supports the lookup of a presented token.
+ */
+
+import { pgTable, uuid, varchar, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+
+export const RefreshTokens = pgTable(
+  'RefreshTokens',
+  {
+    token_id: uuid('token_id').primaryKey().defaultRandom(),
+    user_id: uuid('user_id').notNull(),
+    family_id: uuid('family_id').notNull(),
+    token_hash: varchar('token_hash', { length: 64 }).notNull(),
+    expires_at: timestamp('expires_at').notNull(),
+    revoked_at: timestamp('revoked_at'),
+    // The token issued in exchange for this one, when it was used for a refresh
+    replaced_by: uuid('replaced_by'),
+    created_at: timestamp('created_at').defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('idx_refresh_tokens_hash').on(table.token_hash),
+    index('idx_refresh_tokens_family').on(table.family_id),
+    index('idx_refresh_tokens_user').on(table.user_id),
+  ]
+);
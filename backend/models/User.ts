@@ -6,6 +6,9 @@
  * Key features:
  * - Defines a UUID primary key with a default random value.
  * - Specifies username, hashed_password, and email as required fields.
+ * - Optionally associates the user with a publishing imprint.
+ * - Assigns a role (admin, editor or author; author by default) that decides what the user can see and manage.
+ * - Records when the email address was verified (null until the user opens the verification link).
  * - Includes created_at and updated_at timestamps.
  * 
  * @dependencies
@@ -16,13 +19,18 @@
  * - Unique constraints on username and email are enforced at the database level.
  */
 
-import { pgTable, uuid, varchar, timestamp } from 'drizzle-orm/pg-core';
+import { pgEnum, pgTable, uuid, varchar, timestamp } from 'drizzle-orm/pg-core';
+
+export const userRoleEnum = pgEnum('user_role', ['admin', 'editor', 'author']);
 
 export const Users = pgTable('Users', {
   user_id: uuid('user_id').primaryKey().defaultRandom(),
   username: varchar('username', { length: 255 }).notNull(),
   hashed_password: varchar('hashed_password', { length: 255 }).notNull(),
   email: varchar('email', { length: 255 }).notNull(),
+  imprint: varchar('imprint', { length: 100 }),
+  role: userRoleEnum('role').notNull().default('author'),
+  email_verified_at: timestamp('email_verified_at'),
   created_at: timestamp('created_at').defaultNow(),
   updated_at: timestamp('updated_at').defaultNow(),
 });
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview
+ * This file defines the UserToken model using Drizzle ORM.
+ * It maps the UserTokens table, which keeps the single-use tokens sent by email to the users:
+ * the verification of the email address and the reset of the password.
+ *
+ * Key features:
+ * - Defines a UUID primary key and associates each token with a user.
+ * - Stores the purpose of the token with the user_token_purpose enum.
+ * - Stores only the SHA-256 hash of the token, never the token itself.
+ * - Tracks the expiry of the token and when it was used.
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core for table and column definitions.
+ *
+ * @notes
+ * - A token can be used once: used_at is set when it is consumed, and issuing a new token
+ *   for the same purpose invalidates the previous ones of the user.
+ * - The unique index on token_hash supports the lookup of a presented token.
+ */
+
+import { pgTable, uuid, varchar, timestamp, pgEnum, index, uniqueIndex } from 'drizzle-orm/pg-core';
+
+// Define the enum for the purpose of a token
+export const userTokenPurposeEnum = pgEnum('user_token_purpose', ['email_verification', 'password_reset']);
+
+export const UserTokens = pgTable(
+  'UserTokens',
+  {
+    token_id: uuid('token_id').primaryKey().defaultRandom(),
+    user_id: uuid('user_id').notNull(),
+    purpose: userTokenPurposeEnum('purpose').notNull(),
+    token_hash: varchar('token_hash', { length: 64 }).notNull(),
+    expires_at: timestamp('expires_at').notNull(),
+    used_at: timestamp('used_at'),
+    created_at: timestamp('created_at').defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('idx_user_tokens_hash').on(table.token_hash),
+    index('idx_user_tokens_user_purpose').on(table.user_id, table.purpose),
+  ]
+);
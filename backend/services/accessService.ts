@@ -0,0 +1,169 @@
+/**
+ * @fileoverview
+ * This module implements the role-based access control of the application.
+ * Every user has a role: authors work on their own manuscripts, editors on the manuscripts of
+ * their imprint, and admins manage the catalog, the prompt templates, the users and the global log.
+ *
+ * Key features:
+ * - getUserAccess: Loads the role and the imprint of a user, as checked by withRole.
+ * - fileAccessCondition: The condition matching the files a user can see, used by the file queries.
+ * - canDeleteFile: Only the owner of a file and the admins can delete it.
+ * - listUsers, updateUserAccess and setUserRoleByEmail: User management for the admins.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations on the Users and Files tables.
+ * - The database connection instance from backend/db.ts.
+ *
+ * @notes
+ * - The role is read from the database on every request, so a change applies at once without
+ *   waiting for the access tokens to expire.
+ * - An editor without an imprint only sees their own files, like an author.
+ */
+
+import { asc, eq, inArray, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { Files } from '../models/File';
+import { Users } from '../models/User';
+
+export type UserRole = (typeof Users.$inferSelect)['role'];
+
+export const userRoles: UserRole[] = ['admin', 'editor', 'author'];
+
+/**
+ * The role and the imprint of a user, which decide what the user can see and manage.
+ */
+export interface UserAccess {
+  user_id: string;
+  role: UserRole;
+  imprint: string | null;
+}
+
+/**
+ * A user as listed to the admins.
+ */
+export interface UserAccount extends UserAccess {
+  username: string;
+  email: string;
+  email_verified_at: Date | null;
+  created_at: Date | null;
+}
+
+const userAccountColumns = {
+  user_id: Users.user_id,
+  username: Users.username,
+  email: Users.email,
+  role: Users.role,
+  imprint: Users.imprint,
+  email_verified_at: Users.email_verified_at,
+  created_at: Users.created_at,
+};
+
+/**
+ * Retrieves the role and the imprint of a user.
+ *
+ * @param userId - The unique identifier of the user.
+ * @returns A promise that resolves to the access of the user, or null if the user does not exist.
+ */
+export async function getUserAccess(userId: string): Promise<UserAccess | null> {
+  try {
+    const records = await db
+      .select({ user_id: Users.user_id, role: Users.role, imprint: Users.imprint })
+      .from(Users)
+      .where(eq(Users.user_id, userId));
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching user access:', error);
+    throw new Error('Unable to retrieve user access.');
+  }
+}
+
+/**
+ * Builds the condition matching the files a user can see: all of them for an admin, the files of the
+ * users of the same imprint for an editor, and the user's own files otherwise.
+ *
+ * @param access - The access of the user.
+ * @returns The condition on the Files table, or undefined when every file is visible.
+ */
+export function fileAccessCondition(access: UserAccess): SQL | undefined {
+  if (access.role === 'admin') {
+    return undefined;
+  }
+  if (access.role === 'editor' && access.imprint) {
+    return inArray(
+      Files.user_id,
+      db.select({ user_id: Users.user_id }).from(Users).where(eq(Users.imprint, access.imprint))
+    );
+  }
+  return eq(Files.user_id, access.user_id);
+}
+
+/**
+ * Tells whether a user can delete a file: editors can work on the files of their imprint, but only
+ * the owner and the admins can delete them.
+ *
+ * @param file - The owner of the file.
+ * @param access - The access of the user.
+ * @returns True if the user can delete the file.
+ */
+export function canDeleteFile(file: { user_id: string }, access: UserAccess): boolean {
+  return access.role === 'admin' || file.user_id === access.user_id;
+}
+
+/**
+ * Lists all the users, oldest first.
+ *
+ * @returns A promise that resolves to the users.
+ */
+export async function listUsers(): Promise<UserAccount[]> {
+  try {
+    return await db.select(userAccountColumns).from(Users).orderBy(asc(Users.created_at));
+  } catch (error) {
+    console.error('Error listing users:', error);
+    throw new Error('Unable to list users.');
+  }
+}
+
+/**
+ * Changes the role and/or the imprint of a user.
+ *
+ * @param userId - The unique identifier of the user.
+ * @param changes - The new role and the new imprint (null to remove it); missing fields are not changed.
+ * @returns A promise that resolves to the updated user, or null if not found.
+ */
+export async function updateUserAccess(
+  userId: string,
+  changes: { role?: UserRole; imprint?: string | null }
+): Promise<UserAccount | null> {
+  try {
+    const result = await db
+      .update(Users)
+      .set({ ...changes, updated_at: new Date() })
+      .where(eq(Users.user_id, userId))
+      .returning(userAccountColumns);
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Error updating user access:', error);
+    throw new Error('Unable to update user access.');
+  }
+}
+
+/**
+ * Assigns a role to the user with the given email address; used to appoint the first admin.
+ *
+ * @param email - The email address of the user.
+ * @param role - The new role.
+ * @returns A promise that resolves to the updated user, or null if no user has that address.
+ */
+export async function setUserRoleByEmail(email: string, role: UserRole): Promise<UserAccount | null> {
+  try {
+    const result = await db
+      .update(Users)
+      .set({ role, updated_at: new Date() })
+      .where(eq(Users.email, email.trim()))
+      .returning(userAccountColumns);
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Error setting user role:', error);
+    throw new Error('Unable to set user role.');
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * @fileoverview
+ * This module manages the account flows that go through the email of the user: the verification
+ * of the email address and the reset of a forgotten password.
+ *
+ * Key features:
+ * - validatePassword: Checks the minimum requirements of a new password.
+ * - isEmailVerificationRequired: Tells whether login is blocked until the email is verified.
+ * - sendVerificationEmail, resendVerificationEmail and verifyEmail: Send the verification link and
+ *   confirm the address.
+ * - requestPasswordReset and resetPassword: Send the reset link and set the new password, ending
+ *   all the sessions of the user.
+ * - createUserToken and consumeUserToken: Single-use, expiring tokens stored as SHA-256 hashes.
+ * - waitForAccountEmailResponse: Gives the endpoints that send a link the same response time.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations on the UserTokens and Users tables.
+ * - backend/services/mailer.ts for sending the emails.
+ * - backend/services/authService.ts for hashing the password and revoking the sessions.
+ *
+ * @notes
+ * - REQUIRE_EMAIL_VERIFICATION ("true" to block login until the email is verified) and APP_URL
+ *   (the base URL of the links in the emails, default "http://localhost:3000") are read from the environment.
+ * - requestPasswordReset and resendVerificationEmail do not tell whether the address is registered,
+ *   so that the endpoints cannot be used to find the accounts.
+ * - They send at most one email every TOKEN_EMAIL_COOLDOWN_SECONDS for the same address and purpose,
+ *   so that the endpoints cannot be used to flood a mailbox. The cooldown is checked under a lock on
+ *   the row of the user, so simultaneous requests cannot both pass it.
+ */
+
+import crypto from 'crypto';
+import { and, eq, gt, isNull, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { Users } from '../models/User';
+import { UserTokens } from '../models/UserToken';
+import { getMailer } from './mailer';
+import { hashPassword, revokeUserSessions } from './authService';
+
+export type UserTokenPurpose = 'email_verification' | 'password_reset';
+
+// Lifetime of the tokens sent by email, in minutes
+export const TOKEN_TTL_MINUTES: Record<UserTokenPurpose, number> = {
+  email_verification: 48 * 60,
+  password_reset: 60,
+};
+
+// Minimum time between two emails with a link for the same purpose to the same user, in seconds
+export const TOKEN_EMAIL_COOLDOWN_SECONDS = 60;
+
+// Minimum duration of the responses of the endpoints that send a link by email, in milliseconds
+export const ACCOUNT_EMAIL_RESPONSE_MS = 2000;
+
+// Minimum length of a password
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * The user data needed to send an account email.
+ */
+export interface AccountUser {
+  user_id: string;
+  username: string;
+  email: string;
+}
+
+/**
+ * Hashes a token for storage and lookup.
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Builds an absolute link to a page of the application.
+ */
+function buildAppLink(pathname: string, token: string): string {
+  const baseUrl = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${baseUrl}${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Waits until ACCOUNT_EMAIL_RESPONSE_MS have passed since a request started, so that the time of the
+ * response does not tell whether an email has been sent.
+ *
+ * @param startedAt - The start of the request, as returned by Date.now().
+ */
+export async function waitForAccountEmailResponse(startedAt: number): Promise<void> {
+  const remaining = ACCOUNT_EMAIL_RESPONSE_MS - (Date.now() - startedAt);
+  if (remaining > 0) {
+    await new Promise((resolve) => setTimeout(resolve, remaining));
+  }
+}
+
+/**
+ * Checks the minimum requirements of a new password.
+ *
+ * @param password - The password chosen by the user.
+ * @returns An error message for the client, or null if the password is acceptable.
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `La password deve contenere almeno ${MIN_PASSWORD_LENGTH} caratteri.`;
+  }
+  return null;
+}
+
+/**
+ * Tells whether login is blocked until the email address is verified.
+ */
+export function isEmailVerificationRequired(): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+}
+
+/**
+ * Invalidates the unused tokens of a user with the given purpose and stores a new one.
+ *
+ * @returns The token to send to the user.
+ */
+async function storeUserToken(
+  executor: Pick<typeof db, 'insert' | 'update'>,
+  userId: string,
+  purpose: UserTokenPurpose
+): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await executor
+    .update(UserTokens)
+    .set({ used_at: new Date() })
+    .where(and(eq(UserTokens.user_id, userId), eq(UserTokens.purpose, purpose), isNull(UserTokens.used_at)));
+  await executor.insert(UserTokens).values({
+    user_id: userId,
+    purpose,
+    token_hash: hashToken(token),
+    expires_at: new Date(Date.now() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000),
+  });
+  return token;
+}
+
+/**
+ * Issues a single-use token for a user, invalidating the unused tokens with the same purpose.
+ *
+ * @param userId - The unique identifier of the user.
+ * @param purpose - What the token is for.
+ * @returns A promise that resolves to the token to send to the user.
+ */
+export async function createUserToken(userId: string, purpose: UserTokenPurpose): Promise<string> {
+  try {
+    return await db.transaction((tx) => storeUserToken(tx, userId, purpose));
+  } catch (error) {
+    console.error('Error creating user token:', error);
+    throw new Error('Unable to create user token.');
+  }
+}
+
+/**
+ * Issues a single-use token for a user, unless a token with the same purpose was issued less than
+ * TOKEN_EMAIL_COOLDOWN_SECONDS ago. The row of the user is locked while the recent tokens are checked,
+ * so that of two simultaneous requests only the first one issues a token.
+ *
+ * @returns The token to send to the user, or null during the cooldown.
+ */
+async function createUserTokenAfterCooldown(userId: string, purpose: UserTokenPurpose): Promise<string | null> {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.select({ user_id: Users.user_id }).from(Users).where(eq(Users.user_id, userId)).for('update');
+      const recent = await tx
+        .select({ token_id: UserTokens.token_id })
+        .from(UserTokens)
+        .where(
+          and(
+            eq(UserTokens.user_id, userId),
+            eq(UserTokens.purpose, purpose),
+            gt(UserTokens.created_at, new Date(Date.now() - TOKEN_EMAIL_COOLDOWN_SECONDS * 1000))
+          )
+        );
+      return recent.length > 0 ? null : storeUserToken(tx, userId, purpose);
+    });
+  } catch (error) {
+    console.error('Error creating user token:', error);
+    throw new Error('Unable to create user token.');
+  }
+}
+
+/**
+ * Consumes a token: it is accepted once, if it has the given purpose and has not expired.
+ *
+ * @param token - The token received by the user.
+ * @param purpose - What the token must be for.
+ * @returns A promise that resolves to the identifier of the user, or null if the token is not valid.
+ */
+export async function consumeUserToken(token: string, purpose: UserTokenPurpose): Promise<string | null> {
+  try {
+    const consumed = await db
+      .update(UserTokens)
+      .set({ used_at: new Date() })
+      .where(
+        and(
+          eq(UserTokens.token_hash, hashToken(token)),
+          eq(UserTokens.purpose, purpose),
+          isNull(UserTokens.used_at),
+          gt(UserTokens.expires_at, new Date())
+        )
+      )
+      .returning({ user_id: UserTokens.user_id });
+    return consumed[0]?.user_id ?? null;
+  } catch (error) {
+    console.error('Error consuming user token:', error);
+    throw new Error('Unable to verify user token.');
+  }
+}
+
+/**
+ * Sends an issued verification token to a user.
+ */
+async function sendVerificationLink(user: AccountUser, token: string): Promise<void> {
+  const hours = TOKEN_TTL_MINUTES.email_verification / 60;
+  await getMailer().send({
+    to: user.email,
+    subject: 'Conferma il tuo indirizzo email - YCP Servizi',
+    text: [
+      `Ciao ${user.username},`,
+      '',
+      'per confermare il tuo indirizzo email apri questo link:',
+      buildAppLink('/verify-email', token),
+      '',
+      `Il link scade tra ${hours} ore. Se non hai creato un account su YCP Servizi, ignora questo messaggio.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Sends the link that verifies the email address of a user.
+ *
+ * @param user - The user to verify.
+ */
+export async function sendVerificationEmail(user: AccountUser): Promise<void> {
+  await sendVerificationLink(user, await createUserToken(user.user_id, 'email_verification'));
+}
+
+/**
+ * Sends again the verification link to a registered address that is not verified yet; does nothing
+ * for an unknown or verified address, or if a link was sent less than TOKEN_EMAIL_COOLDOWN_SECONDS ago.
+ *
+ * @param email - The address entered by the user.
+ */
+export async function resendVerificationEmail(email: string): Promise<void> {
+  const user = await findUserByEmail(email);
+  if (!user || user.email_verified_at) {
+    return;
+  }
+  const token = await createUserTokenAfterCooldown(user.user_id, 'email_verification');
+  if (token) {
+    await sendVerificationLink(user, token);
+  }
+}
+
+/**
+ * Confirms the email address of the user the token was sent to.
+ *
+ * @param token - The token of the verification link.
+ * @returns A promise that resolves to true if the address has been verified, false if the token is not valid.
+ */
+export async function verifyEmail(token: string): Promise<boolean> {
+  const userId = await consumeUserToken(token, 'email_verification');
+  if (!userId) {
+    return false;
+  }
+  try {
+    await db
+      .update(Users)
+      .set({ email_verified_at: sql`coalesce(${Users.email_verified_at}, now())`, updated_at: new Date() })
+      .where(eq(Users.user_id, userId));
+    return true;
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    throw new Error('Unable to verify email.');
+  }
+}
+
+/**
+ * Finds a user by email address.
+ *
+ * @param email - The email address.
+ * @returns A promise that resolves to the user and the verification date, or null if there is none.
+ */
+export async function findUserByEmail(
+  email: string
+): Promise<(AccountUser & { email_verified_at: Date | null }) | null> {
+  try {
+    const records = await db
+      .select({
+        user_id: Users.user_id,
+        username: Users.username,
+        email: Users.email,
+        email_verified_at: Users.email_verified_at,
+      })
+      .from(Users)
+      .where(eq(Users.email, email.trim()));
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching user by email:', error);
+    throw new Error('Unable to retrieve user.');
+  }
+}
+
+/**
+ * Sends the password reset link to a registered address; does nothing for an unknown address,
+ * or if a link was sent less than TOKEN_EMAIL_COOLDOWN_SECONDS ago.
+ *
+ * @param email - The address entered by the user.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await findUserByEmail(email);
+  if (!user) {
+    return;
+  }
+  const token = await createUserTokenAfterCooldown(user.user_id, 'password_reset');
+  if (!token) {
+    return;
+  }
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reimposta la tua password - YCP Servizi',
+    text: [
+      `Ciao ${user.username},`,
+      '',
+      'abbiamo ricevuto una richiesta di reimpostare la password del tuo account. Per scegliere una nuova password apri questo link:',
+      buildAppLink('/reset-password', token),
+      '',
+      `Il link scade tra ${TOKEN_TTL_MINUTES.password_reset} minuti e può essere usato una sola volta.`,
+      'Se non hai richiesto tu la reimpostazione, ignora questo messaggio: la password attuale resta valida.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Sets a new password for the user the reset token was sent to, and ends all the sessions of the user.
+ * The email address is verified too, since the user has received the link.
+ *
+ * @param token - The token of the reset link.
+ * @param password - The new password, already validated with validatePassword.
+ * @returns A promise that resolves to true if the password has been changed, false if the token is not valid.
+ */
+export async function resetPassword(token: string, password: string): Promise<boolean> {
+  const userId = await consumeUserToken(token, 'password_reset');
+  if (!userId) {
+    return false;
+  }
+  try {
+    const hashedPassword = await hashPassword(password);
+    await db
+      .update(Users)
+      .set({
+        hashed_password: hashedPassword,
+        email_verified_at: sql`coalesce(${Users.email_verified_at}, now())`,
+        updated_at: new Date(),
+      })
+      .where(eq(Users.user_id, userId));
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    throw new Error('Unable to reset password.');
+  }
+  await revokeUserSessions(userId);
+  return true;
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview
+ * This module persists AI-generated content in the AIOutputs table and
+ * retrieves the history of generated versions for a file.
+ *
+ * Key features:
+ * - saveAIOutput: Inserts a new AIOutputs row holding the content for a single generation type,
+ *   either produced by the model or edited by the user.
+ * - getOutputHistory: Retrieves every stored version for a file, grouped by generation type.
+ * - validateEditedContent: Checks a version edited by the user with the rules applied to the model replies.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations.
+ * - The AIOutputs model.
+ * - The database connection instance from backend/db.ts.
+ * - backend/services/keywordService.ts and backend/services/catalogService.ts for the checks of the edits.
+ *
+ * @notes
+ * - Every generation creates a new row: previous versions are never overwritten,
+ *   so editors can go back to any earlier result.
+ * - Each row only fills the column matching its generation type; the others stay null.
+ * - Each row records the language of its content, so translated editions keep their own versions.
+ * - Edited keywords must respect the KDP rules and edited categories must belong to the current catalog,
+ *   like the generated ones.
+ */
+
+import { db } from '../db';
+import { AIOutputs } from '../models/AIOutput';
+import { desc, eq } from 'drizzle-orm';
+import { formatKeywords, validateKeywords } from './keywordService';
+import { getCurrentCatalog, validateCategoryAssignment } from './catalogService';
+import type { GenerationType, OutputLanguage } from './openaiService';
+
+export const generationTypes: GenerationType[] = [
+  'blurb',
+  'description',
+  'keywords',
+  'categories',
+  'foreword',
+  'analysis',
+];
+
+/**
+ * A single stored version of a generated content.
+ */
+export interface AIOutputVersion {
+  output_id: string;
+  content: unknown;
+  edited: boolean;
+  language: string;
+  generated_at: string;
+}
+
+export type OutputHistory = Record<GenerationType, AIOutputVersion[]>;
+
+/**
+ * Result of the check of a version edited by the user.
+ */
+export interface EditedContentValidationResult {
+  valid: boolean;
+  // The content to store, normalized like the generated content of the same type
+  content?: string;
+  errors: string[];
+}
+
+/**
+ * Converts the raw model output to the value stored in the column for the given type.
+ * Categories are stored as JSONB, so the JSON reply is parsed when possible.
+ */
+function toColumnValue(type: GenerationType, output: string): unknown {
+  if (type !== 'categories') {
+    return output;
+  }
+  try {
+    return JSON.parse(output);
+  } catch {
+    return output;
+  }
+}
+
+/**
+ * Inserts a generated content in the AIOutputs table.
+ *
+ * @param fileId - The unique identifier of the file the content was generated for.
+ * @param type - The generation type, which selects the column to fill.
+ * @param output - The generated content.
+ * @param edited - Whether the content was edited by the user rather than produced by the model.
+ * @param language - The language the content is written in.
+ * @returns A promise that resolves to the inserted AIOutputs record.
+ */
+export async function saveAIOutput(
+  fileId: string,
+  type: GenerationType,
+  output: string,
+  edited: boolean = false,
+  language: OutputLanguage = 'it'
+): Promise<typeof AIOutputs.$inferSelect> {
+  try {
+    const result = await db
+      .insert(AIOutputs)
+      .values({
+        file_id: fileId,
+        edited,
+        language,
+        [type]: toColumnValue(type, output),
+      })
+      .returning();
+    return result[0];
+  } catch (error) {
+    console.error('Error saving AI output:', error);
+    throw new Error('Unable to save AI output.');
+  }
+}
+
+/**
+ * Retrieves every stored version of the generated content for a file,
+ * grouped by generation type and ordered from the most recent.
+ *
+ * @param fileId - The unique identifier of the file.
+ * @returns A promise that resolves to the output history for the file.
+ */
+export async function getOutputHistory(fileId: string): Promise<OutputHistory> {
+  try {
+    const records = await db
+      .select()
+      .from(AIOutputs)
+      .where(eq(AIOutputs.file_id, fileId))
+      .orderBy(desc(AIOutputs.generated_at));
+
+    const history = Object.fromEntries(
+      generationTypes.map((type) => [type, [] as AIOutputVersion[]])
+    ) as OutputHistory;
+
+    for (const record of records) {
+      for (const type of generationTypes) {
+        const content = record[type];
+        if (content === null || content === undefined) {
+          continue;
+        }
+        history[type].push({
+          output_id: record.output_id,
+          content,
+          edited: record.edited,
+          language: record.language,
+          generated_at: record.generated_at ? record.generated_at.toISOString() : '',
+        });
+      }
+    }
+
+    return history;
+  } catch (error) {
+    console.error('Error fetching AI output history:', error);
+    throw new Error('Unable to retrieve AI output history.');
+  }
+}
+
+/**
+ * Checks a version edited by the user. Keywords (one phrase per line) must respect the KDP rules and
+ * categories (JSON with "main" and "sub") must belong to the current catalog; the other types are free text.
+ *
+ * @param type - The generation type of the content.
+ * @param content - The content edited by the user.
+ * @param title - The title of the book, whose words cannot be repeated in the keywords.
+ * @returns A promise that resolves to the validation result, with the content to store if valid.
+ */
+export async function validateEditedContent(
+  type: GenerationType,
+  content: string,
+  title?: string
+): Promise<EditedContentValidationResult> {
+  if (type === 'keywords') {
+    const phrases = content.split('\n').filter((phrase) => phrase.trim());
+    const result = validateKeywords(JSON.stringify(phrases), { title });
+    return result.valid && result.keywords
+      ? { valid: true, content: formatKeywords(result.keywords), errors: [] }
+      : { valid: false, errors: result.errors };
+  }
+
+  if (type === 'categories') {
+    const catalog = await getCurrentCatalog();
+    if (!catalog) {
+      return { valid: false, errors: ['Nessun catalogo delle categorie disponibile.'] };
+    }
+    const result = validateCategoryAssignment(content, catalog);
+    return result.valid && result.assignment
+      ? { valid: true, content: JSON.stringify(result.assignment), errors: [] }
+      : { valid: false, errors: result.errors };
+  }
+
+  return { valid: true, content, errors: [] };
+}
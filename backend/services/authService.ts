@@ -1,29 +1,93 @@
 /**
  * @fileoverview
  * This file provides utility functions for handling authentication tasks,
- * including password hashing, password comparison, JWT token generation, and verification.
+ * including password hashing, password comparison, JWT token generation, and verification,
+ * and the sessions built on them: rotating refresh tokens, logout and revocation.
  *
  * Key features:
  * - Secure password hashing and comparison using bcrypt.
  * - JWT token generation and verification using jsonwebtoken.
+ * - createSession: Issues a short-lived access token and a refresh token for a user.
+ * - refreshSession: Exchanges a refresh token for a new pair of tokens; each refresh token can be
+ *   used once, and reusing one revokes the whole session.
+ * - revokeSession, revokeUserSessions and isSessionActive: Logout and the revocation check of withAuth.
  *
  * @dependencies
  * - bcrypt: Used for hashing and comparing passwords.
  * - jsonwebtoken: Used for generating and verifying JWT tokens.
+ * - crypto: Used for generating and hashing the refresh tokens.
+ * - Drizzle ORM for database operations on the RefreshTokens and Users tables.
  *
  * @notes
- * - Ensure that the environment variable JWT_SECRET is set in your .env file.
- * - In production, use a strong secret and implement robust error handling.
+ * - JWT_SECRET must be set in production: the module fails to load without it. In development
+ *   and tests a fixed fallback secret is used.
+ * - Refresh tokens are random strings stored as SHA-256 hashes; the tokens of a session share a
+ *   family, whose identifier is the session identifier ("sid") carried by the access tokens.
  */
 
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../db';
+import { RefreshTokens } from '../models/RefreshToken';
+import { Users } from '../models/User';
 
 // Constant for bcrypt salt rounds used during hashing
 const SALT_ROUNDS = 10;
 
-// Retrieve JWT secret from environment variables; use a fallback for development only.
-const JWT_SECRET: string = process.env.JWT_SECRET || 'default_jwt_secret';
+// Lifetime of the access tokens, in seconds, and of the refresh tokens, in days
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Secret used outside production when JWT_SECRET is not set
+const DEVELOPMENT_JWT_SECRET = 'default_jwt_secret';
+
+/**
+ * The user data carried by the access tokens.
+ */
+export interface TokenUser {
+  user_id: string;
+  username: string;
+  email: string;
+}
+
+/**
+ * The payload of an access token: the user and the session it belongs to.
+ */
+export interface AccessTokenPayload extends TokenUser {
+  sid: string;
+}
+
+/**
+ * The tokens of a session, as returned to the client.
+ */
+export interface SessionTokens {
+  token: string;
+  refresh_token: string;
+  // Lifetime of the access token, in seconds
+  expires_in: number;
+}
+
+/**
+ * Returns the secret used to sign the JWT tokens.
+ *
+ * @param {NodeJS.ProcessEnv} [env=process.env] - The environment variables to read.
+ * @returns {string} JWT_SECRET, or a development fallback outside production.
+ * @throws If JWT_SECRET is not set in production.
+ */
+export function getJwtSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.JWT_SECRET) {
+    return env.JWT_SECRET;
+  }
+  if (env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production.');
+  }
+  return DEVELOPMENT_JWT_SECRET;
+}
+
+// Read once, so that a missing secret in production stops the server at startup
+const JWT_SECRET: string = getJwtSecret();
 
 /**
  * Hashes a plain text password using bcrypt.
@@ -73,3 +137,198 @@ export function verifyToken(token: string): any {
   // Verify and decode the token using the JWT_SECRET.
   return jwt.verify(token, JWT_SECRET);
 }
+
+/**
+ * Hashes a refresh token for storage and lookup.
+ *
+ * @param {string} refreshToken - The refresh token given to the client.
+ * @returns {string} The SHA-256 hash of the token, in hexadecimal.
+ */
+export function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+/**
+ * Stores a new refresh token of a session.
+ *
+ * @returns The identifier of the stored token and the token to give to the client.
+ */
+async function storeRefreshToken(
+  executor: Pick<typeof db, 'insert'>,
+  userId: string,
+  familyId: string
+): Promise<{ tokenId: string; refreshToken: string }> {
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+  const [record] = await executor
+    .insert(RefreshTokens)
+    .values({
+      user_id: userId,
+      family_id: familyId,
+      token_hash: hashRefreshToken(refreshToken),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    })
+    .returning({ token_id: RefreshTokens.token_id });
+  return { tokenId: record.token_id, refreshToken };
+}
+
+/**
+ * Signs the access token of a session.
+ */
+function signAccessToken(user: TokenUser, sessionId: string): string {
+  const payload: AccessTokenPayload = {
+    user_id: user.user_id,
+    username: user.username,
+    email: user.email,
+    sid: sessionId,
+  };
+  return generateToken(payload, `${ACCESS_TOKEN_TTL_SECONDS}s`);
+}
+
+/**
+ * Starts a new session for a user, e.g. at login or registration.
+ *
+ * @param {TokenUser} user - The authenticated user.
+ * @returns {Promise<SessionTokens>} The access token and the refresh token of the new session.
+ */
+export async function createSession(user: TokenUser): Promise<SessionTokens> {
+  try {
+    const sessionId = crypto.randomUUID();
+    const { refreshToken } = await storeRefreshToken(db, user.user_id, sessionId);
+    return {
+      token: signAccessToken(user, sessionId),
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  } catch (error) {
+    console.error('Error creating session:', error);
+    throw new Error('Unable to create session.');
+  }
+}
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token of the same session.
+ * The presented token is revoked; presenting a token that was already exchanged is treated as a
+ * theft and revokes the whole session.
+ *
+ * @param {string} refreshToken - The refresh token given to the client.
+ * @returns {Promise<SessionTokens | null>} The new tokens, or null if the refresh token is unknown,
+ *   expired or revoked.
+ */
+export async function refreshSession(refreshToken: string): Promise<SessionTokens | null> {
+  try {
+    const [stored] = await db
+      .select()
+      .from(RefreshTokens)
+      .where(eq(RefreshTokens.token_hash, hashRefreshToken(refreshToken)));
+    if (!stored) {
+      return null;
+    }
+    if (stored.revoked_at) {
+      if (stored.replaced_by) {
+        await revokeSession(stored.family_id);
+      }
+      return null;
+    }
+    if (stored.expires_at.getTime() <= Date.now()) {
+      return null;
+    }
+
+    const [user] = await db
+      .select({ user_id: Users.user_id, username: Users.username, email: Users.email })
+      .from(Users)
+      .where(eq(Users.user_id, stored.user_id));
+    if (!user) {
+      return null;
+    }
+
+    const rotated = await db.transaction(async (tx) => {
+      // Claims the token, so that two concurrent refreshes cannot both use it
+      const claimed = await tx
+        .update(RefreshTokens)
+        .set({ revoked_at: new Date() })
+        .where(and(eq(RefreshTokens.token_id, stored.token_id), isNull(RefreshTokens.revoked_at)))
+        .returning({ token_id: RefreshTokens.token_id });
+      if (claimed.length === 0) {
+        return null;
+      }
+      const next = await storeRefreshToken(tx, user.user_id, stored.family_id);
+      await tx
+        .update(RefreshTokens)
+        .set({ replaced_by: next.tokenId })
+        .where(eq(RefreshTokens.token_id, stored.token_id));
+      return next.refreshToken;
+    });
+    if (!rotated) {
+      return null;
+    }
+
+    return {
+      token: signAccessToken(user, stored.family_id),
+      refresh_token: rotated,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    throw new Error('Unable to refresh session.');
+  }
+}
+
+/**
+ * Revokes a session: its refresh tokens can no longer be used and its access tokens are rejected.
+ *
+ * @param {string} sessionId - The session identifier ("sid" of the access tokens).
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  try {
+    await db
+      .update(RefreshTokens)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(RefreshTokens.family_id, sessionId), isNull(RefreshTokens.revoked_at)));
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    throw new Error('Unable to revoke session.');
+  }
+}
+
+/**
+ * Revokes all the sessions of a user, e.g. to log out from every device.
+ *
+ * @param {string} userId - The unique identifier of the user.
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  try {
+    await db
+      .update(RefreshTokens)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(RefreshTokens.user_id, userId), isNull(RefreshTokens.revoked_at)));
+  } catch (error) {
+    console.error('Error revoking user sessions:', error);
+    throw new Error('Unable to revoke user sessions.');
+  }
+}
+
+/**
+ * Checks whether a session is still active: it has a refresh token that is neither revoked nor expired.
+ *
+ * @param {string} sessionId - The session identifier ("sid" of the access tokens).
+ * @returns {Promise<boolean>} True if the session can still be used.
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  try {
+    const records = await db
+      .select({ token_id: RefreshTokens.token_id })
+      .from(RefreshTokens)
+      .where(
+        and(
+          eq(RefreshTokens.family_id, sessionId),
+          isNull(RefreshTokens.revoked_at),
+          gt(RefreshTokens.expires_at, new Date())
+        )
+      )
+      .limit(1);
+    return records.length > 0;
+  } catch (error) {
+    console.error('Error checking session:', error);
+    throw new Error('Unable to check session.');
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * @fileoverview
+ * This module converts BISAC or Thema category lists, provided as CSV or JSON,
+ * into the catalog tree stored in the Catalog table, and checks its structure.
+ *
+ * Key features:
+ * - parseCatalogCsv: Reads "code,label[,parent]" rows, with support for quoted fields.
+ * - parseCatalogJson: Accepts either a nested tree ({ categories: [...] }) or a flat list of rows.
+ * - buildCatalogTree: Rebuilds the hierarchy from flat rows, inferring parents when missing.
+ * - validateCatalogRows: Checks the rows before the tree is built, including duplicate codes and parents
+ *   that form a cycle.
+ * - importCatalog: Parses and validates the input, returning the tree or the list of errors.
+ *
+ * @dependencies
+ * - backend/services/catalogService.ts for the catalog types.
+ *
+ * @notes
+ * - When the parent is not provided, Thema parents are inferred from the longest code prefix,
+ *   while BISAC codes are grouped under their three-letter subject heading.
+ * - Validation errors are returned instead of thrown, so the API can report all of them at once.
+ */
+
+import type { CatalogData, CatalogNode } from './catalogService';
+
+export type CatalogScheme = 'bisac' | 'thema' | 'custom';
+export type CatalogFormat = 'csv' | 'json';
+
+/**
+ * A single row of a flat category list.
+ */
+export interface CatalogRow {
+  code: string;
+  label: string;
+  parent?: string;
+}
+
+/**
+ * Result of a catalog import.
+ */
+export interface CatalogImportResult {
+  valid: boolean;
+  catalog?: CatalogData;
+  errors: string[];
+}
+
+// Accepted code formats for each scheme
+const codePatterns: Record<CatalogScheme, RegExp> = {
+  // BISAC subject codes (e.g. FIC022000) and their three-letter headings (e.g. FIC)
+  bisac: /^[A-Z]{3}(\d{6})?$/,
+  // Thema subject and qualifier codes (e.g. FF, FFJ, 1DST-IT-V)
+  thema: /^[0-9A-Z][0-9A-Z-]*$/,
+  custom: /^\S+$/,
+};
+
+/**
+ * Splits a CSV document into rows of fields, honouring double-quoted fields
+ * that may contain commas, escaped quotes ("") and line breaks.
+ */
+function splitCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Parses a CSV category list. The first row must be a header containing
+ * the "code" and "label" columns and, optionally, a "parent" column.
+ *
+ * @param content - The CSV document.
+ * @returns The list of rows.
+ * @throws If the header does not contain the required columns.
+ */
+export function parseCatalogCsv(content: string): CatalogRow[] {
+  const [header, ...rows] = splitCsv(content.replace(/^\uFEFF/, ''));
+  const columns = (header || []).map((name) => name.trim().toLowerCase());
+  const codeIndex = columns.indexOf('code');
+  const labelIndex = columns.indexOf('label');
+  const parentIndex = columns.indexOf('parent');
+
+  if (codeIndex === -1 || labelIndex === -1) {
+    throw new Error('Il CSV deve contenere le colonne "code" e "label".');
+  }
+
+  return rows.map((fields) => ({
+    code: (fields[codeIndex] || '').trim(),
+    label: (fields[labelIndex] || '').trim(),
+    parent: parentIndex !== -1 ? (fields[parentIndex] || '').trim() || undefined : undefined,
+  }));
+}
+
+/**
+ * Parses a JSON category list, either as a nested tree or as a flat list of rows.
+ *
+ * @param content - The JSON document, as a string or already parsed.
+ * @returns Either the nested tree or the flat list of rows.
+ * @throws If the document is not valid JSON or has an unknown shape.
+ */
+export function parseCatalogJson(content: unknown): CatalogData | CatalogRow[] {
+  let parsed = content;
+  if (typeof content === 'string') {
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error('Il documento JSON non è valido.');
+    }
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed as CatalogRow[];
+  }
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as CatalogData).categories)) {
+    return { categories: (parsed as CatalogData).categories };
+  }
+  throw new Error('Il JSON deve essere un array di categorie o un oggetto con la proprietà "categories".');
+}
+
+/**
+ * Finds the parent of a code when the input does not specify it.
+ */
+function inferParent(code: string, scheme: CatalogScheme, codes: Set<string>): string | undefined {
+  if (scheme === 'bisac') {
+    const heading = code.slice(0, 3);
+    return heading !== code ? heading : undefined;
+  }
+  if (scheme === 'thema') {
+    // Thema is hierarchical by prefix: FFJ is a child of FF, which is a child of F.
+    for (let length = code.length - 1; length > 0; length--) {
+      const prefix = code.slice(0, length).replace(/-$/, '');
+      if (prefix !== code && codes.has(prefix)) {
+        return prefix;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Creates the nodes of a flat list of rows and finds the parent of each one, explicit or inferred.
+ * Missing BISAC headings are created from the first segment of the label ("FICTION / ...").
+ */
+function resolveParents(
+  rows: CatalogRow[],
+  scheme: CatalogScheme
+): { nodes: Map<string, CatalogNode>; parents: Map<string, string | undefined> } {
+  const nodes = new Map<string, CatalogNode>();
+  const parents = new Map<string, string | undefined>();
+
+  for (const row of rows) {
+    nodes.set(row.code, { code: row.code, label: row.label });
+  }
+
+  if (scheme === 'bisac') {
+    for (const row of rows) {
+      const heading = row.code.slice(0, 3);
+      if (!row.parent && heading !== row.code && !nodes.has(heading)) {
+        nodes.set(heading, { code: heading, label: row.label.split(' / ')[0].trim() });
+      }
+    }
+  }
+
+  const codes = new Set(nodes.keys());
+  const explicitParents = new Map(rows.map((row) => [row.code, row.parent]));
+  for (const code of codes) {
+    parents.set(code, explicitParents.get(code) || inferParent(code, scheme, codes));
+  }
+  return { nodes, parents };
+}
+
+/**
+ * Rebuilds the catalog tree from a flat list of rows, already checked with validateCatalogRows.
+ * Missing BISAC headings are created from the first segment of the label ("FICTION / ...").
+ *
+ * @param rows - The flat list of rows.
+ * @param scheme - The classification scheme, used to infer missing parents.
+ * @returns The catalog tree.
+ */
+export function buildCatalogTree(rows: CatalogRow[], scheme: CatalogScheme): CatalogData {
+  const { nodes, parents } = resolveParents(rows, scheme);
+
+  const categories: CatalogNode[] = [];
+  for (const [code, node] of nodes) {
+    const parent = parents.get(code);
+    const parentNode = parent ? nodes.get(parent) : undefined;
+    if (parentNode) {
+      parentNode.children = parentNode.children || [];
+      parentNode.children.push(node);
+    } else {
+      categories.push(node);
+    }
+  }
+
+  return { categories };
+}
+
+/**
+ * Finds the rows whose chain of parents leads back to the row itself: such categories could not be
+ * reached from the top of the tree.
+ */
+function findParentCycles(rows: CatalogRow[], scheme: CatalogScheme): string[] {
+  const { parents } = resolveParents(rows, scheme);
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const path = [row.code];
+    const visited = new Set(path);
+    let parent = parents.get(row.code);
+    while (parent && !visited.has(parent)) {
+      path.push(parent);
+      visited.add(parent);
+      parent = parents.get(parent);
+    }
+    if (parent !== row.code) {
+      return;
+    }
+    if (path.length === 1) {
+      errors.push(`Riga ${index + 1}: la categoria non può essere padre di se stessa (${row.code}).`);
+    } else {
+      errors.push(`Riga ${index + 1}: le categorie padre formano un ciclo (${[...path, row.code].join(' > ')}).`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Checks the rows of a flat category list before the tree is built:
+ * every row must have a unique code and a label, explicit parents must exist in the list,
+ * and no category can be its own ancestor.
+ *
+ * @param rows - The flat list of rows.
+ * @param scheme - The classification scheme, used to infer missing parents.
+ * @returns The list of problems found; an empty list means the rows are valid.
+ */
+export function validateCatalogRows(rows: CatalogRow[], scheme: CatalogScheme): string[] {
+  const errors: string[] = [];
+  const codes = new Set(rows.map((row) => row?.code));
+  // Line of the first row of each code
+  const firstRows = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    if (!row || typeof row.code !== 'string' || !row.code) {
+      errors.push(`Riga ${index + 1}: codice mancante.`);
+      return;
+    }
+    const firstRow = firstRows.get(row.code);
+    if (firstRow !== undefined) {
+      errors.push(`Riga ${index + 1}: codice duplicato (${row.code}, già presente alla riga ${firstRow}).`);
+    } else {
+      firstRows.set(row.code, index + 1);
+    }
+    if (typeof row.label !== 'string' || !row.label) {
+      errors.push(`Riga ${index + 1}: etichetta mancante.`);
+    }
+    if (row.parent && !codes.has(row.parent)) {
+      errors.push(`Riga ${index + 1}: categoria padre sconosciuta (${row.parent}).`);
+    }
+  });
+
+  // The parents can only be followed once every row has a code
+  if (errors.length > 0) {
+    return errors;
+  }
+  return findParentCycles(rows, scheme);
+}
+
+/**
+ * Checks the structure of a catalog tree: every node must have a code in the scheme format,
+ * a non-empty label and a code that is unique in the whole tree.
+ *
+ * @param catalog - The catalog tree to check.
+ * @param scheme - The classification scheme, used to check the code format.
+ * @returns The list of problems found; an empty list means the tree is valid.
+ */
+export function validateCatalogTree(catalog: CatalogData, scheme: CatalogScheme): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  if (!Array.isArray(catalog.categories) || catalog.categories.length === 0) {
+    return ['Il catalogo non contiene categorie.'];
+  }
+
+  const visit = (nodes: unknown, path: string) => {
+    if (!Array.isArray(nodes)) {
+      errors.push(`"children" deve essere un array (${path}).`);
+      return;
+    }
+    nodes.forEach((node: CatalogNode, index) => {
+      const location = node && typeof node.code === 'string' && node.code ? node.code : `${path}[${index}]`;
+      if (!node || typeof node.code !== 'string' || !node.code.trim()) {
+        errors.push(`Codice mancante (${location}).`);
+        return;
+      }
+      if (!codePatterns[scheme].test(node.code)) {
+        errors.push(`Codice non valido per lo schema ${scheme}: ${node.code}.`);
+      }
+      if (typeof node.label !== 'string' || !node.label.trim()) {
+        errors.push(`Etichetta mancante (${location}).`);
+      }
+      if (seen.has(node.code)) {
+        errors.push(`Codice duplicato: ${node.code}.`);
+      }
+      seen.add(node.code);
+      if (node.children !== undefined) {
+        visit(node.children, node.code);
+      }
+    });
+  };
+  visit(catalog.categories, 'categories');
+
+  return errors;
+}
+
+/**
+ * Parses and validates a BISAC or Thema category list.
+ *
+ * @param content - The CSV or JSON document.
+ * @param format - The format of the document.
+ * @param scheme - The classification scheme of the list.
+ * @returns The import result, with the catalog tree if valid or the list of errors otherwise.
+ */
+export function importCatalog(content: unknown, format: CatalogFormat, scheme: CatalogScheme): CatalogImportResult {
+  let parsed: CatalogData | CatalogRow[];
+  try {
+    if (format === 'csv') {
+      if (typeof content !== 'string') {
+        return { valid: false, errors: ['Il contenuto CSV deve essere una stringa.'] };
+      }
+      parsed = parseCatalogCsv(content);
+    } else {
+      parsed = parseCatalogJson(content);
+    }
+  } catch (error: any) {
+    return { valid: false, errors: [error.message] };
+  }
+
+  let catalog: CatalogData;
+  if (Array.isArray(parsed)) {
+    const rowErrors = validateCatalogRows(parsed, scheme);
+    if (rowErrors.length > 0) {
+      return { valid: false, errors: rowErrors };
+    }
+    catalog = buildCatalogTree(parsed, scheme);
+  } else {
+    catalog = parsed;
+  }
+
+  const errors = validateCatalogTree(catalog, scheme);
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, catalog, errors };
+}
@@ -0,0 +1,331 @@
+/**
+ * @fileoverview
+ * This module provides access to the category taxonomy stored in the Catalog table
+ * and the helpers needed to constrain the AI category assignment to it.
+ *
+ * Key features:
+ * - getCurrentCatalog: Loads the highest version of the catalog of a scheme from the database.
+ * - listCatalogs, getCatalogById, createCatalogSnapshot, deleteCatalog:
+ *   Manage the versioned catalog snapshots.
+ * - flattenCatalog: Builds a lookup of every valid category code.
+ * - formatCatalogForPrompt: Renders the tree, or its first levels, as an indented list of codes for the prompt.
+ * - parseCatalogBranches and selectCatalogBranches: Narrow a large tree to the top-level categories
+ *   picked by the model, so that the categories prompt only lists their subtrees.
+ * - validateCategoryAssignment: Checks the JSON reply of the model ("main", "sub[]") against the tree.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations.
+ * - The Catalog model.
+ * - The database connection instance from backend/db.ts.
+ *
+ * @notes
+ * - The category_data column is expected to contain an object with a "categories" array
+ *   of nodes shaped as { code, label, children? }.
+ * - Snapshots are immutable: a change to a taxonomy is stored as a new version of its scheme.
+ */
+
+import { db } from '../db';
+import { Catalog } from '../models/Catalog';
+import { desc, eq, max } from 'drizzle-orm';
+import { isUniqueViolation } from '../utils/dbErrors';
+import type { CatalogScheme } from './catalogImporter';
+
+/**
+ * A single category of the taxonomy, with its optional subcategories.
+ */
+export interface CatalogNode {
+  code: string;
+  label: string;
+  children?: CatalogNode[];
+}
+
+/**
+ * The structure stored in the category_data column of the Catalog table.
+ */
+export interface CatalogData {
+  categories: CatalogNode[];
+}
+
+export type CatalogRecord = typeof Catalog.$inferSelect;
+
+/**
+ * Summary of a catalog snapshot, without the full category tree.
+ */
+export interface CatalogSummary {
+  catalog_id: string;
+  scheme: CatalogScheme;
+  version: number;
+  category_count: number;
+  last_updated: Date | null;
+}
+
+/**
+ * A category assignment as returned by the model.
+ */
+export interface CategoryAssignment {
+  main: string;
+  sub: string[];
+}
+
+/**
+ * Result of the validation of a category assignment.
+ */
+export interface CategoryValidationResult {
+  valid: boolean;
+  assignment?: CategoryAssignment;
+  errors: string[];
+}
+
+// Number of subcategories requested to the model
+export const SUBCATEGORY_COUNT = 2;
+
+// Attempts to store a snapshot when concurrent imports of the same scheme take the same version
+const MAX_SNAPSHOT_ATTEMPTS = 3;
+
+/**
+ * Loads the current catalog tree from the Catalog table: the highest version of the given scheme
+ * or, without a scheme, of the scheme imported last.
+ *
+ * @param scheme - The classification scheme of the catalog.
+ * @returns A promise that resolves to the catalog data, or null if no catalog has been stored.
+ */
+export async function getCurrentCatalog(scheme?: CatalogScheme): Promise<CatalogData | null> {
+  try {
+    const latestScheme = db
+      .select({ scheme: Catalog.scheme })
+      .from(Catalog)
+      .orderBy(desc(Catalog.last_updated))
+      .limit(1);
+    const records = await db
+      .select()
+      .from(Catalog)
+      .where(eq(Catalog.scheme, scheme ?? latestScheme))
+      .orderBy(desc(Catalog.version))
+      .limit(1);
+    if (records.length === 0) {
+      return null;
+    }
+    return records[0].category_data as CatalogData;
+  } catch (error) {
+    console.error('Error fetching catalog:', error);
+    throw new Error('Unable to retrieve catalog.');
+  }
+}
+
+/**
+ * Lists the stored catalog snapshots, from the most recently updated.
+ *
+ * @returns A promise that resolves to the summaries of the catalog snapshots.
+ */
+export async function listCatalogs(): Promise<CatalogSummary[]> {
+  try {
+    const records = await db.select().from(Catalog).orderBy(desc(Catalog.last_updated));
+    return records.map((record) => ({
+      catalog_id: record.catalog_id,
+      scheme: record.scheme,
+      version: record.version,
+      category_count: flattenCatalog(record.category_data as CatalogData).size,
+      last_updated: record.last_updated,
+    }));
+  } catch (error) {
+    console.error('Error listing catalogs:', error);
+    throw new Error('Unable to list catalogs.');
+  }
+}
+
+/**
+ * Retrieves a catalog snapshot with its full category tree.
+ *
+ * @param catalogId - The unique identifier of the catalog snapshot.
+ * @returns A promise that resolves to the catalog record, or null if not found.
+ */
+export async function getCatalogById(catalogId: string): Promise<CatalogRecord | null> {
+  try {
+    const records = await db.select().from(Catalog).where(eq(Catalog.catalog_id, catalogId));
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching catalog:', error);
+    throw new Error('Unable to retrieve catalog.');
+  }
+}
+
+/**
+ * Stores a new catalog snapshot, with the next version number for its scheme.
+ * If a concurrent import takes the same version first, the next free one is used.
+ *
+ * @param scheme - The classification scheme of the catalog.
+ * @param catalog - The validated catalog tree.
+ * @returns A promise that resolves to the inserted catalog record.
+ */
+export async function createCatalogSnapshot(scheme: CatalogScheme, catalog: CatalogData): Promise<CatalogRecord> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const [{ latestVersion }] = await db
+        .select({ latestVersion: max(Catalog.version) })
+        .from(Catalog)
+        .where(eq(Catalog.scheme, scheme));
+
+      const result = await db
+        .insert(Catalog)
+        .values({
+          scheme,
+          version: (latestVersion ?? 0) + 1,
+          category_data: catalog,
+          last_updated: new Date(),
+        })
+        .returning();
+      return result[0];
+    } catch (error) {
+      if (isUniqueViolation(error) && attempt < MAX_SNAPSHOT_ATTEMPTS) {
+        continue;
+      }
+      console.error('Error creating catalog snapshot:', error);
+      throw new Error('Unable to create catalog snapshot.');
+    }
+  }
+}
+
+/**
+ * Deletes a catalog snapshot.
+ *
+ * @param catalogId - The unique identifier of the catalog snapshot.
+ * @returns A promise that resolves to true if the snapshot was deleted, false if not found.
+ */
+export async function deleteCatalog(catalogId: string): Promise<boolean> {
+  try {
+    const result = await db.delete(Catalog).where(eq(Catalog.catalog_id, catalogId)).returning();
+    return result.length > 0;
+  } catch (error) {
+    console.error('Error deleting catalog:', error);
+    throw new Error('Unable to delete catalog.');
+  }
+}
+
+/**
+ * Flattens the catalog tree into a map from category code to label.
+ *
+ * @param catalog - The catalog tree.
+ * @returns A map containing every category code of the tree, at any depth.
+ */
+export function flattenCatalog(catalog: CatalogData): Map<string, string> {
+  const codes = new Map<string, string>();
+  const visit = (nodes: CatalogNode[]) => {
+    for (const node of nodes) {
+      codes.set(node.code, node.label);
+      if (node.children) {
+        visit(node.children);
+      }
+    }
+  };
+  visit(catalog.categories);
+  return codes;
+}
+
+/**
+ * Renders the catalog tree as an indented list of "CODE - Label" lines
+ * to be included in the categories prompt.
+ *
+ * @param catalog - The catalog tree.
+ * @param maxDepth - The number of levels to render; all of them when omitted.
+ * @returns The textual representation of the tree.
+ */
+export function formatCatalogForPrompt(catalog: CatalogData, maxDepth = Infinity): string {
+  const lines: string[] = [];
+  const visit = (nodes: CatalogNode[], depth: number) => {
+    for (const node of nodes) {
+      lines.push(`${'  '.repeat(depth)}${node.code} - ${node.label}`);
+      if (node.children && depth + 1 < maxDepth) {
+        visit(node.children, depth + 1);
+      }
+    }
+  };
+  visit(catalog.categories, 0);
+  return lines.join('\n');
+}
+
+/**
+ * Reads the top-level categories picked by the model from its JSON reply, an array of codes.
+ * Unknown codes and the codes of subcategories are ignored.
+ *
+ * @param reply - The raw text returned by the model.
+ * @param catalog - The catalog tree.
+ * @param maxCount - The maximum number of categories to keep.
+ * @returns The distinct top-level codes, in the order of the reply; empty if the reply is not valid.
+ */
+export function parseCatalogBranches(reply: string, catalog: CatalogData, maxCount: number): string[] {
+  const json = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const topLevel = new Set(catalog.categories.map((node) => node.code));
+  const codes = parsed.filter((code): code is string => typeof code === 'string' && topLevel.has(code));
+  return Array.from(new Set(codes)).slice(0, maxCount);
+}
+
+/**
+ * Keeps only the given top-level categories of the tree, with all their subcategories.
+ *
+ * @param catalog - The catalog tree.
+ * @param codes - The codes of the top-level categories to keep.
+ * @returns The narrowed tree.
+ */
+export function selectCatalogBranches(catalog: CatalogData, codes: string[]): CatalogData {
+  return { categories: catalog.categories.filter((node) => codes.includes(node.code)) };
+}
+
+/**
+ * Validates the JSON reply of the model against the catalog tree.
+ * The reply must contain a "main" code and a "sub" array with SUBCATEGORY_COUNT distinct codes,
+ * all of them present in the catalog.
+ *
+ * @param reply - The raw text returned by the model.
+ * @param catalog - The catalog tree used to check the codes.
+ * @returns The validation result, with the parsed assignment if valid.
+ */
+export function validateCategoryAssignment(reply: string, catalog: CatalogData): CategoryValidationResult {
+  // Models often wrap JSON answers in markdown code fences: strip them before parsing.
+  const json = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { valid: false, errors: ['La risposta non è un JSON valido.'] };
+  }
+
+  const { main, sub } = (parsed ?? {}) as Partial<Record<keyof CategoryAssignment, unknown>>;
+  if (typeof main !== 'string' || !Array.isArray(sub) || !sub.every((code) => typeof code === 'string')) {
+    return { valid: false, errors: ['La risposta deve contenere "main" (stringa) e "sub" (array di stringhe).'] };
+  }
+
+  const codes = flattenCatalog(catalog);
+  const errors: string[] = [];
+
+  if (!codes.has(main)) {
+    errors.push(`Categoria principale sconosciuta: ${main}.`);
+  }
+  for (const code of sub as string[]) {
+    if (!codes.has(code)) {
+      errors.push(`Sottocategoria sconosciuta: ${code}.`);
+    }
+  }
+  if (sub.length !== SUBCATEGORY_COUNT) {
+    errors.push(`Sono richieste esattamente ${SUBCATEGORY_COUNT} sottocategorie.`);
+  }
+  if (new Set([main, ...sub]).size !== sub.length + 1) {
+    errors.push('Le categorie assegnate devono essere distinte.');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, assignment: { main, sub: sub as string[] }, errors };
+}
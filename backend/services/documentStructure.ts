@@ -0,0 +1,339 @@
+/**
+ * @fileoverview
+ * This module turns the blocks extracted from a manuscript (headings and paragraphs) into a
+ * structured document: title, author, table of contents, front matter, chapters and back matter.
+ * The parsers in backend/services/fileParser.ts produce the blocks; formats without headings
+ * (PDF, RTF) are split into blocks by textToBlocks, which recognizes the usual chapter headings.
+ *
+ * Key features:
+ * - buildStructuredDocument: Builds the plain text of the manuscript and its structure.
+ * - textToBlocks: Splits a flat text into paragraphs and recognizes the heading lines.
+ * - getSectionText: Returns the text of a section (e.g. a single chapter).
+ *
+ * @dependencies
+ * - None: the module only relies on native JavaScript methods (backend/services/ocrService.ts is
+ *   imported for the type of the OCR summary only).
+ *
+ * @notes
+ * - Sections are stored as offsets into the plain text, so the structure does not duplicate the text.
+ * - The chapter level is the shallowest heading level used at least twice, ignoring the levels made
+ *   only of part headings ("Parte prima", "Part I"...); deeper headings stay inside the chapters.
+ * - Front matter is the text before the first chapter and the leading sections with a front matter
+ *   heading (dedication, preface...); back matter the trailing sections with a back matter heading
+ *   (acknowledgements, appendix...). Prologues and epilogues count as chapters.
+ */
+
+import type { OcrSummary } from './ocrService';
+
+export type SectionKind = 'front_matter' | 'chapter' | 'back_matter';
+
+/**
+ * A block of the manuscript, as extracted by a parser.
+ */
+export interface DocumentBlock {
+  type: 'heading' | 'paragraph';
+  text: string;
+  // Heading level, from 1 (the most important)
+  level?: number;
+}
+
+/**
+ * Metadata stored in the file, if any (e.g. the document properties of a DOCX).
+ */
+export interface DocumentMetadata {
+  title?: string | null;
+  author?: string | null;
+}
+
+/**
+ * An entry of the table of contents.
+ */
+export interface TocEntry {
+  heading: string;
+  level: number;
+  // Offset of the heading in the plain text
+  start: number;
+}
+
+/**
+ * A section of the manuscript, as offsets into the plain text.
+ */
+export interface DocumentSection {
+  kind: SectionKind;
+  // Null for the untitled text before the first chapter
+  heading: string | null;
+  start: number;
+  end: number;
+  wordCount: number;
+}
+
+/**
+ * Structure of a manuscript.
+ */
+export interface DocumentStructure {
+  title: string | null;
+  author: string | null;
+  toc: TocEntry[];
+  frontMatter: DocumentSection[];
+  chapters: DocumentSection[];
+  backMatter: DocumentSection[];
+}
+
+/**
+ * A parsed manuscript: its plain text and its structure.
+ */
+export interface StructuredDocument {
+  text: string;
+  structure: DocumentStructure;
+  // Pages without text (numbered from 1), for the formats with pages (PDF)
+  emptyPages?: number[];
+  // Pages recognized with the OCR and their confidence, for the scanned PDFs
+  ocr?: OcrSummary;
+}
+
+// Separator between two blocks in the plain text
+const BLOCK_SEPARATOR = '\n\n';
+
+// Longest line that can be recognized as a heading in a flat text
+const MAX_HEADING_LENGTH = 80;
+
+// Headings of the parts grouping several chapters
+const PART_HEADING = /^(?:parte|part|libro|book|teil|partie)\s+\S+/i;
+
+// Headings of numbered chapters
+const CHAPTER_HEADING = /^(?:capitolo|chapter|cap\.|cap[ií]tulo|kapitel|chapitre)\s+\S+/i;
+
+// Headings of the front matter sections, compared without accents and final punctuation
+const FRONT_MATTER_HEADINGS = [
+  'dedica', 'epigrafe', 'indice', 'sommario', 'prefazione', 'premessa', 'introduzione', 'nota dell\'autore',
+  'nota dell\'editore', 'copyright', 'colophon', 'frontespizio', 'dedication', 'epigraph', 'contents',
+  'table of contents', 'preface', 'foreword', 'introduction', 'author\'s note', 'title page',
+];
+
+// Headings of the back matter sections
+const BACK_MATTER_HEADINGS = [
+  'ringraziamenti', 'postfazione', 'appendice', 'bibliografia', 'note', 'glossario', 'indice analitico',
+  'l\'autore', 'biografia', 'sull\'autore', 'nota sull\'autore', 'acknowledgments', 'acknowledgements',
+  'afterword', 'appendix', 'bibliography', 'notes', 'glossary', 'index', 'about the author',
+];
+
+// Headings recognized in a flat text besides the numbered chapters
+const STANDALONE_HEADINGS = [...FRONT_MATTER_HEADINGS, ...BACK_MATTER_HEADINGS, 'prologo', 'epilogo', 'prologue', 'epilogue'];
+
+/**
+ * Lowercases a heading and removes accents, typographic apostrophes and final punctuation.
+ */
+function normalizeHeading(heading: string): string {
+  return heading
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, '\'')
+    .replace(/[\s.:;]+$/, '')
+    .trim();
+}
+
+/**
+ * Counts the words of a text.
+ */
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/**
+ * Returns the kind of a section from its heading.
+ */
+function classifyHeading(heading: string): SectionKind {
+  const normalized = normalizeHeading(heading);
+  if (FRONT_MATTER_HEADINGS.includes(normalized)) {
+    return 'front_matter';
+  }
+  if (BACK_MATTER_HEADINGS.includes(normalized)) {
+    return 'back_matter';
+  }
+  return 'chapter';
+}
+
+/**
+ * Recognizes the heading lines of a flat text.
+ *
+ * @returns The heading level (1 for parts, 2 for chapters and other sections), or null.
+ */
+function getHeadingLevel(line: string): number | null {
+  if (line.length > MAX_HEADING_LENGTH) {
+    return null;
+  }
+  if (PART_HEADING.test(line)) {
+    return 1;
+  }
+  if (CHAPTER_HEADING.test(line) || STANDALONE_HEADINGS.includes(normalizeHeading(line))) {
+    return 2;
+  }
+  return null;
+}
+
+/**
+ * Splits a flat text (e.g. extracted from a PDF) into paragraphs and headings.
+ * Paragraphs are separated by empty lines; heading lines are recognized even inside a paragraph,
+ * since PDF text rarely has empty lines around them.
+ *
+ * @param text - The flat text.
+ * @returns The blocks of the text.
+ */
+export function textToBlocks(text: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+    const level = getHeadingLevel(line);
+    if (level !== null) {
+      flush();
+      blocks.push({ type: 'heading', text: line, level });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Selects the heading level of the chapters.
+ */
+function findChapterLevel(headings: Array<{ text: string; level: number }>): number | null {
+  if (headings.length === 0) {
+    return null;
+  }
+  const levels = Array.from(new Set(headings.map((heading) => heading.level))).sort((a, b) => a - b);
+  const candidate = levels.find((level) => {
+    const atLevel = headings.filter((heading) => heading.level === level);
+    return atLevel.length >= 2 && !atLevel.every((heading) => PART_HEADING.test(heading.text));
+  });
+  return candidate ?? levels[levels.length - 1];
+}
+
+/**
+ * Builds the plain text and the structure of a manuscript from its blocks.
+ *
+ * @param blocks - The headings and paragraphs of the manuscript, in reading order.
+ * @param metadata - The title and author stored in the file, if any.
+ * @returns The structured document.
+ */
+export function buildStructuredDocument(blocks: DocumentBlock[], metadata: DocumentMetadata = {}): StructuredDocument {
+  // Lay out the blocks in the plain text, remembering where each one starts
+  const laidOut: Array<DocumentBlock & { start: number; end: number }> = [];
+  let text = '';
+  for (const block of blocks) {
+    const blockText = block.text.trim();
+    if (!blockText) {
+      continue;
+    }
+    if (text) {
+      text += BLOCK_SEPARATOR;
+    }
+    laidOut.push({ ...block, text: blockText, start: text.length, end: text.length + blockText.length });
+    text += blockText;
+  }
+
+  const headings = laidOut
+    .filter((block) => block.type === 'heading')
+    .map((block) => ({ ...block, level: block.level ?? 1 }));
+  const chapterLevel = findChapterLevel(headings);
+
+  // A heading above the chapter level, alone at its level and before the first chapter, is the title
+  const firstChapterStart = headings.find((heading) => heading.level === chapterLevel)?.start ?? text.length;
+  const titleHeading =
+    chapterLevel === null
+      ? undefined
+      : headings.find(
+          (heading) =>
+            heading.level < chapterLevel &&
+            heading.start < firstChapterStart &&
+            !PART_HEADING.test(heading.text) &&
+            headings.filter((other) => other.level === heading.level).length === 1
+        );
+
+  const sections: DocumentSection[] = [];
+  if (chapterLevel !== null) {
+    let current: DocumentSection | null = null;
+    let preambleStart: number | null = null;
+
+    const close = (end: number) => {
+      if (current) {
+        current.end = end;
+        sections.push(current);
+        current = null;
+      }
+    };
+
+    for (const block of laidOut) {
+      const isBoundary = block.type === 'heading' && (block.level ?? 1) <= chapterLevel;
+      if (isBoundary) {
+        close(block.start);
+        if (block.level === chapterLevel) {
+          current = { kind: classifyHeading(block.text), heading: block.text, start: block.start, end: block.end, wordCount: 0 };
+        }
+      } else if (!current && sections.length === 0 && preambleStart === null) {
+        preambleStart = block.start;
+      }
+    }
+    close(text.length);
+
+    // Text before the first chapter, such as the title page or the copyright notice
+    if (preambleStart !== null && sections.length > 0 && preambleStart < sections[0].start) {
+      sections.unshift({ kind: 'front_matter', heading: null, start: preambleStart, end: sections[0].start, wordCount: 0 });
+    }
+
+    for (const section of sections) {
+      section.end = text.slice(0, section.end).trimEnd().length;
+      section.wordCount = countWords(text.slice(section.start, section.end));
+    }
+  }
+
+  // Front matter headings only count before the story begins, back matter ones only after it ends
+  let frontCount = 0;
+  while (frontCount < sections.length && sections[frontCount].kind === 'front_matter') {
+    frontCount++;
+  }
+  let backStart = sections.length;
+  while (backStart > frontCount && sections[backStart - 1].kind === 'back_matter') {
+    backStart--;
+  }
+
+  return {
+    text,
+    structure: {
+      title: metadata.title?.trim() || titleHeading?.text || null,
+      author: metadata.author?.trim() || null,
+      toc: headings
+        .filter((heading) => heading !== titleHeading)
+        .map((heading) => ({ heading: heading.text, level: heading.level, start: heading.start })),
+      frontMatter: sections.slice(0, frontCount),
+      chapters: sections.slice(frontCount, backStart).map((section) => ({ ...section, kind: 'chapter' })),
+      backMatter: sections.slice(backStart),
+    },
+  };
+}
+
+/**
+ * Returns the text of a section of a structured document.
+ *
+ * @param text - The plain text of the document.
+ * @param section - The section, e.g. one of structure.chapters.
+ * @returns The text of the section, heading included.
+ */
+export function getSectionText(text: string, section: DocumentSection): string {
+  return text.slice(section.start, section.end);
+}
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview
+ * This module recognizes the manuscripts a user uploads more than once: identical files, from their
+ * content hash, and revised versions of a book, from the similarity of their extracted text.
+ *
+ * Key features:
+ * - findDuplicateUpload: Finds a previous upload of the user with the same bytes, so that the
+ *   upload is not stored and processed again; an upload whose processing failed is not reused.
+ * - findMostSimilar: Picks the candidate whose MinHash signature is the closest to a given one.
+ * - detectRevision: Stores the signature of a processed file and, when another file of the user
+ *   is similar enough, links the file as a new version of that book.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations on the Files table.
+ * - backend/utils/textSimilarity.ts for the MinHash signatures.
+ *
+ * @notes
+ * - Only the files of the same user are compared.
+ * - The versions of a book all point to its first version (version_of); the version number of a
+ *   revision follows the highest one of the book. A unique index keeps two revisions processed at the
+ *   same time from getting the same number: the one that loses the race takes the next number.
+ */
+
+import { and, asc, eq, isNotNull, max, ne, or } from 'drizzle-orm';
+import { db } from '../db';
+import { Files } from '../models/File';
+import { isUniqueViolation } from '../utils/dbErrors';
+import { computeMinHash, estimateSimilarity } from '../utils/textSimilarity';
+import type { FileRecord } from './fileService';
+
+// Lowest estimated similarity for a file to be considered a revision of another one
+export const REVISION_SIMILARITY_THRESHOLD = 0.5;
+
+// Attempts to number a revision when other revisions of the same book take the same number
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * A previous upload recognized as an earlier version of a file.
+ */
+export interface RevisionMatch {
+  // The most similar file among the previous uploads
+  file_id: string;
+  file_name: string;
+  // Estimated similarity of the texts, from 0 to 1
+  similarity: number;
+  // Version number given to the new file
+  version: number;
+}
+
+/**
+ * A file compared with a new upload.
+ */
+export interface SimilarityCandidate {
+  file_id: string;
+  file_name: string;
+  version_of: string | null;
+  text_signature: number[] | null;
+}
+
+/**
+ * Finds a previous upload of the user with the same content, skipping the uploads whose processing
+ * failed: the same bytes uploaded again are stored and processed from scratch.
+ *
+ * @param userId - The unique identifier of the user.
+ * @param contentHash - The SHA-256 hash of the uploaded bytes.
+ * @returns A promise that resolves to the first usable upload with that content, or null if there is none.
+ */
+export async function findDuplicateUpload(userId: string, contentHash: string): Promise<FileRecord | null> {
+  try {
+    const records = await db
+      .select()
+      .from(Files)
+      .where(
+        and(eq(Files.user_id, userId), eq(Files.content_hash, contentHash), ne(Files.processing_status, 'error'))
+      )
+      .orderBy(asc(Files.upload_date))
+      .limit(1);
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error looking for duplicate uploads:', error);
+    throw new Error('Unable to check for duplicate uploads.');
+  }
+}
+
+/**
+ * Picks the candidate whose signature is the most similar to the given one.
+ *
+ * @param signature - The MinHash signature of the new text.
+ * @param candidates - The files to compare; those without a signature are skipped.
+ * @returns The most similar candidate with its similarity, or null if no candidate can be compared.
+ */
+export function findMostSimilar<T extends SimilarityCandidate>(
+  signature: number[],
+  candidates: T[]
+): { candidate: T; similarity: number } | null {
+  let best: { candidate: T; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    if (!candidate.text_signature) {
+      continue;
+    }
+    const similarity = estimateSimilarity(signature, candidate.text_signature);
+    if (similarity > 0 && (!best || similarity > best.similarity)) {
+      best = { candidate, similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Links a file to the first version of a book, with the version number that follows the highest one
+ * of the book; retries with the next number when a concurrent revision has just taken it.
+ *
+ * @returns A promise that resolves to the version number of the file.
+ */
+async function linkRevision(fileId: string, firstVersionId: string): Promise<number> {
+  for (let attempt = 1; ; attempt++) {
+    const [{ latest }] = await db
+      .select({ latest: max(Files.version) })
+      .from(Files)
+      .where(
+        and(or(eq(Files.file_id, firstVersionId), eq(Files.version_of, firstVersionId)), ne(Files.file_id, fileId))
+      );
+    const version = (latest ?? 1) + 1;
+    try {
+      await db.update(Files).set({ version_of: firstVersionId, version }).where(eq(Files.file_id, fileId));
+      return version;
+    } catch (error) {
+      if (!isUniqueViolation(error) || attempt >= MAX_VERSION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Stores the MinHash signature of a processed file and links the file as a new version of the
+ * most similar file of the same user, if their similarity reaches REVISION_SIMILARITY_THRESHOLD.
+ * Running it again for the same file (e.g. on a retry of its processing) gives the same result.
+ *
+ * @param file - The file record of the new upload.
+ * @param text - The text extracted from the file.
+ * @returns A promise that resolves to the previous version found, or null if the file is a new book.
+ */
+export async function detectRevision(file: FileRecord, text: string): Promise<RevisionMatch | null> {
+  const signature = computeMinHash(text);
+  try {
+    await db
+      .update(Files)
+      .set({ text_signature: signature.length > 0 ? signature : null })
+      .where(eq(Files.file_id, file.file_id));
+    if (signature.length === 0) {
+      return null;
+    }
+
+    const candidates = await db
+      .select({
+        file_id: Files.file_id,
+        file_name: Files.file_name,
+        version_of: Files.version_of,
+        text_signature: Files.text_signature,
+      })
+      .from(Files)
+      .where(and(eq(Files.user_id, file.user_id), ne(Files.file_id, file.file_id), isNotNull(Files.text_signature)));
+
+    // The later versions of the file itself cannot be its earlier versions
+    const match = findMostSimilar(
+      signature,
+      candidates.filter((candidate) => candidate.version_of !== file.file_id)
+    );
+    if (!match || match.similarity < REVISION_SIMILARITY_THRESHOLD) {
+      return null;
+    }
+
+    const version = await linkRevision(file.file_id, match.candidate.version_of ?? match.candidate.file_id);
+
+    return {
+      file_id: match.candidate.file_id,
+      file_name: match.candidate.file_name,
+      similarity: Math.round(match.similarity * 100) / 100,
+      version,
+    };
+  } catch (error) {
+    console.error('Error detecting file revisions:', error);
+    throw new Error('Unable to detect file revisions.');
+  }
+}
@@ -6,40 +6,101 @@
  * - Conteggio dei caratteri
  * - Conteggio delle frasi
  * - Lunghezza media delle parole
+ * - Numero di capitoli e lunghezza di ciascun capitolo, se la struttura del documento è disponibile
+ * - Indici di leggibilità per l'italiano (Gulpease e Flesch-Vacca)
+ * - Distribuzione della lunghezza delle frasi, quota di dialogo e varietà lessicale (type-token ratio)
+ * - Termini più frequenti, escluse le parole vuote, e tempo di lettura stimato
  *
  * Queste informazioni possono essere utili per fornire feedback tecnici agli utenti
- * sui loro file, ad esempio per identificare possibili problemi di formattazione o complessità del testo.
+ * sui loro file, ad esempio sulla complessità del testo. I problemi di formattazione, con la loro
+ * posizione, sono invece elencati dal report di controllo (backend/services/manuscriptLint.ts).
  *
  * @dependencies
  * - Nessuna libreria esterna, utilizza solo metodi JavaScript nativi.
+ * - backend/services/documentStructure.ts: per il tipo DocumentStructure.
+ * - backend/utils/textMetrics.ts: per la suddivisione in frasi e le metriche di leggibilità e stile.
  *
  * @notes
- * - L'analisi si basa esclusivamente sul testo estratto.
+ * - L'analisi si basa sul testo estratto e, per i capitoli, sulla struttura individuata dal parser.
+ * - Le frasi non vengono spezzate su abbreviazioni ("Sig.", "ecc."), iniziali puntate, numeri decimali ed ellissi.
  * - In caso di input vuoto o non valido, tutti i valori restituiti saranno pari a zero.
  */
 
-export interface DocumentAnalysis {
+import type { DocumentStructure } from './documentStructure';
+import {
+  dialogueRatio,
+  estimateReadingTime,
+  fleschVaccaIndex,
+  gulpeaseIndex,
+  ReadabilityScores,
+  sentenceLengthStats,
+  SentenceLengthStats,
+  splitSentences,
+  TermFrequency,
+  tokenizeWords,
+  topTerms,
+  typeTokenRatio,
+} from '../utils/textMetrics';
+
+  /**
+   * Lunghezza di un capitolo.
+   */
+  export interface ChapterLength {
+    heading: string | null;
+    wordCount: number;
+  }
+
+  export interface DocumentAnalysis {
     wordCount: number;
     characterCount: number;
     sentenceCount: number;
     averageWordLength: number;
+    chapterCount: number;
+    chapters: ChapterLength[];
+    readability: ReadabilityScores;
+    sentenceLength: SentenceLengthStats;
+    // Quota delle parole in forma di dialogo, da 0 a 1
+    dialogueRatio: number;
+    // Parole distinte sulle parole totali (type-token ratio), da 0 a 1
+    lexicalDiversity: number;
+    topTerms: TermFrequency[];
+    readingTimeMinutes: number;
   }
   
   /**
    * Analizza il testo di un documento e restituisce statistiche di base.
    *
    * @param extractedText - Il testo estratto dal file del documento.
+   * @param structure - La struttura del documento, se disponibile, per le statistiche sui capitoli.
    * @returns Un oggetto di tipo DocumentAnalysis contenente:
    *  - wordCount: Numero totale di parole.
    *  - characterCount: Numero totale di caratteri.
    *  - sentenceCount: Numero di frasi individuate.
    *  - averageWordLength: Lunghezza media delle parole.
+   *  - chapterCount e chapters: Numero di capitoli e lunghezza in parole di ciascuno.
+   *  - readability: Indici Gulpease e Flesch-Vacca.
+   *  - sentenceLength: Media, mediana, deviazione standard, massimo e distribuzione della lunghezza delle frasi.
+   *  - dialogueRatio, lexicalDiversity e topTerms: Quota di dialogo, varietà lessicale e termini più frequenti.
+   *  - readingTimeMinutes: Tempo di lettura stimato in minuti.
    */
-  export function analyzeDocument(extractedText: string): DocumentAnalysis {
+  export function analyzeDocument(extractedText: string, structure?: DocumentStructure): DocumentAnalysis {
     // Rimuove eventuali spazi bianchi in eccesso.
     const text = extractedText.trim();
     if (!text) {
-      return { wordCount: 0, characterCount: 0, sentenceCount: 0, averageWordLength: 0 };
+      return {
+        wordCount: 0,
+        characterCount: 0,
+        sentenceCount: 0,
+        averageWordLength: 0,
+        chapterCount: 0,
+        chapters: [],
+        readability: { gulpease: 0, fleschVacca: 0 },
+        sentenceLength: sentenceLengthStats([]),
+        dialogueRatio: 0,
+        lexicalDiversity: 0,
+        topTerms: [],
+        readingTimeMinutes: 0,
+      };
     }
   
     // Conta il numero totale di caratteri.
@@ -53,15 +114,35 @@ export interface DocumentAnalysis {
     const totalWordLength = words.reduce((acc, word) => acc + word.length, 0);
     const averageWordLength = wordCount > 0 ? totalWordLength / wordCount : 0;
   
-    // Suddivide il testo in frasi basandosi sui segni di punteggiatura: punto, punto esclamativo o punto interrogativo.
-    const sentences = text.split(/[.!?]+/).filter(sentence => sentence.trim().length > 0);
+    // Suddivide il testo in frasi, riconoscendo abbreviazioni, iniziali ed ellissi.
+    const sentences = splitSentences(text);
     const sentenceCount = sentences.length;
   
+    // Le metriche di leggibilità e di stile contano solo le parole composte da lettere.
+    const letterWords = tokenizeWords(text);
+  
+    // Lunghezza dei capitoli, escluse le sezioni iniziali e finali (prefazione, ringraziamenti...).
+    const chapters = (structure?.chapters ?? []).map((chapter) => ({
+      heading: chapter.heading,
+      wordCount: chapter.wordCount,
+    }));
+  
     return {
       wordCount,
       characterCount,
       sentenceCount,
       averageWordLength,
+      chapterCount: chapters.length,
+      chapters,
+      readability: {
+        gulpease: gulpeaseIndex(letterWords, sentenceCount),
+        fleschVacca: fleschVaccaIndex(letterWords, sentenceCount),
+      },
+      sentenceLength: sentenceLengthStats(sentences),
+      dialogueRatio: dialogueRatio(text),
+      lexicalDiversity: typeTokenRatio(letterWords),
+      topTerms: topTerms(letterWords),
+      readingTimeMinutes: estimateReadingTime(wordCount),
     };
   }
   
\ No newline at end of file
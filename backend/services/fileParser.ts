@@ -1,49 +1,631 @@
 /**
  * @description
- * This module provides utility functions to parse DOCX and PDF files.
- * - For DOCX files, it uses the Mammoth library to extract text.
- * - For PDF files, it uses the pdf-parse library to extract text.
+ * This module provides utility functions to parse the supported manuscript formats into
+ * structured documents (text, title, author, table of contents, chapters, front and back matter).
+ * - For DOCX files, it uses the Mammoth library to convert the document to HTML, keeping the headings.
+ * - For PDF files, it uses the pdf-parse library to extract text page by page, then recognizes the
+ *   heading lines; the pages without text are reported for the manuscript lint. Scanned PDFs are
+ *   recognized with the OCR, page by page.
+ * - For EPUB and ODT files, it unzips the container with JSZip and reads the headings and paragraphs
+ *   of the XML documents.
+ * - For RTF and Markdown files, it converts the markup to plain text; Markdown headings are kept.
+ * - parseManuscript selects the parser from the format registry (backend/utils/fileFormats.ts).
  *
  * @dependencies
  * - mammoth: For processing DOCX files.
  * - pdf-parse: For processing PDF files.
+ * - jszip: For reading EPUB and ODT containers.
+ * - backend/services/ocrService.ts: For the OCR of scanned PDFs.
+ * - backend/services/documentStructure.ts: For building the structure from the extracted blocks.
  *
  * @notes
- * - Both functions accept a Buffer as input and return the extracted text as a Promise<string>.
+ * - All parsers accept a Buffer as input and return a Promise<StructuredDocument>.
+ * - Title and author come from the document metadata when available (DOCX and ODT properties,
+ *   EPUB package, PDF info, RTF info group, Markdown front matter).
+ * - Paragraphs are separated by an empty line in the extracted text.
  * - Ensure that the necessary libraries are installed in your project.
  */
 
+import path from 'path';
+import JSZip from 'jszip';
 import mammoth from 'mammoth';
 import pdfParse from 'pdf-parse';
+import { findFormatByExtension, ManuscriptFormatId } from '../utils/fileFormats';
+import {
+  buildStructuredDocument,
+  textToBlocks,
+  DocumentBlock,
+  DocumentMetadata,
+  StructuredDocument,
+} from './documentStructure';
+import { findPagesToOcr, getOcrConfig, recognizePdfPages, summarizeOcr, OcrSummary } from './ocrService';
+
+// Any letter, accented ones included: a page without letters has no text
+const LETTER_PATTERN = /[A-Za-z\u00c0-\u024f]/;
+
+// Entities found in XHTML and ODF documents besides the numeric ones
+const namedEntities: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  laquo: '«',
+  raquo: '»',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  agrave: 'à',
+  egrave: 'è',
+  eacute: 'é',
+  igrave: 'ì',
+  ograve: 'ò',
+  ugrave: 'ù',
+  Agrave: 'À',
+  Egrave: 'È',
+  Eacute: 'É',
+};
+
+/**
+ * Decodes the XML and HTML character references of a text.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return namedEntities[entity] ?? match;
+  });
+}
 
 /**
- * Parses a DOCX file buffer and extracts text content.
+ * Normalizes the text extracted from markup: trims the lines and leaves at most
+ * one empty line between paragraphs. Tabs and non-breaking spaces become spaces, but runs of
+ * spaces inside a line are kept, so that the manuscript lint can report the double spaces.
+ */
+function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/[\t\u00a0]/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Converts an (X)HTML document to plain text, with an empty line after every block element.
+ */
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<head[\s>][\s\S]*?<\/head>/gi, '')
+    .replace(/<(script|style)[\s>][\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|section|article|tr|pre)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+  return normalizeExtractedText(decodeEntities(text));
+}
+
+/**
+ * Returns the value of an attribute of an XML tag.
+ */
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? decodeEntities(match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Splits a normalized text into paragraph blocks.
+ */
+function paragraphsToBlocks(text: string): DocumentBlock[] {
+  return text
+    .split(/\n{2,}/)
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => ({ type: 'paragraph', text: paragraph }));
+}
+
+/**
+ * Converts an (X)HTML document to blocks, keeping the h1-h6 headings.
+ */
+function htmlToBlocks(html: string): DocumentBlock[] {
+  const body = html.replace(/<head[\s>][\s\S]*?<\/head>/gi, '');
+  // split() with capture groups alternates: text, heading level, heading content, text...
+  const parts = body.split(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/i);
+  const blocks: DocumentBlock[] = [];
+  for (let i = 0; i < parts.length; i += 3) {
+    blocks.push(...paragraphsToBlocks(htmlToText(parts[i])));
+    if (i + 2 < parts.length) {
+      const heading = htmlToText(parts[i + 2]).replace(/\s+/g, ' ');
+      if (heading) {
+        blocks.push({ type: 'heading', text: heading, level: parseInt(parts[i + 1], 10) });
+      }
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Returns the text content of the first element with the given name in an XML document.
+ */
+function getElementText(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`));
+  const text = match ? decodeEntities(match[1].replace(/<[^>]+>/g, '')).trim() : '';
+  return text || null;
+}
+
+/**
+ * Reads the title and the author from Dublin Core metadata (DOCX core properties, ODT meta.xml,
+ * EPUB package document).
+ */
+function readDublinCoreMetadata(xml: string, authorElements: string[] = ['dc:creator']): DocumentMetadata {
+  const author = authorElements.map((name) => getElementText(xml, name)).find(Boolean) ?? null;
+  return { title: getElementText(xml, 'dc:title'), author };
+}
+
+/**
+ * Parses a DOCX file buffer into a structured document, keeping the Word headings.
  * @param fileBuffer Buffer containing the DOCX file data.
- * @returns A Promise that resolves with the extracted text.
+ * @returns A Promise that resolves with the structured document.
  */
-export async function parseDocx(fileBuffer: Buffer): Promise<string> {
+export async function parseDocx(fileBuffer: Buffer): Promise<StructuredDocument> {
+  let html: string;
   try {
-    // Use Mammoth to extract text from the DOCX file buffer
-    const result = await mammoth.extractRawText({ buffer: fileBuffer });
-    return result.value;
+    // Use Mammoth to convert the DOCX file buffer to HTML; images are not needed
+    const result = await mammoth.convertToHtml(
+      { buffer: fileBuffer },
+      {
+        styleMap: ["p[style-name='Title'] => h1:fresh"],
+        convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+      }
+    );
+    html = result.value;
   } catch (error) {
     console.error('Errore nella conversione del file DOCX:', error);
     throw new Error('Impossibile estrarre il testo dal file DOCX.');
   }
+
+  // The document properties are optional: a DOCX without them is still valid
+  let metadata: DocumentMetadata = {};
+  try {
+    const zip = await JSZip.loadAsync(fileBuffer);
+    const coreProperties = await zip.file('docProps/core.xml')?.async('string');
+    metadata = coreProperties ? readDublinCoreMetadata(coreProperties) : {};
+  } catch (error) {
+    console.error('Errore nella lettura delle proprietà del file DOCX:', error);
+  }
+
+  return buildStructuredDocument(htmlToBlocks(html), metadata);
+}
+
+/**
+ * Renders the text of a PDF page like the default renderer of pdf-parse: the text items of the
+ * same row are joined, and every row starts on a new line.
+ */
+async function renderPdfPage(pageData: pdfParse.PDFPageData): Promise<string> {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let text = '';
+  let lastY: number | undefined;
+  for (const item of textContent.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text;
 }
 
 /**
- * Parses a PDF file buffer and extracts text content.
+ * Parses a PDF file buffer into a structured document, recognizing the chapter headings in its text.
+ * Scanned PDFs, with little or no text per page, fall back to the OCR of the pages without text
+ * (see backend/services/ocrService.ts): the recognized pages and the confidence are reported in ocr.
+ * The pages without any letter (blank pages, or pages with the page number only) are reported in emptyPages.
  * @param fileBuffer Buffer containing the PDF file data.
- * @returns A Promise that resolves with the extracted text.
+ * @returns A Promise that resolves with the structured document.
  */
-export async function parsePdf(fileBuffer: Buffer): Promise<string> {
+export async function parsePdf(fileBuffer: Buffer): Promise<StructuredDocument> {
+  // Text of each page, in page order
+  const pageTexts: string[] = [];
+  let data: pdfParse.PDFData;
   try {
-    // Use pdf-parse to extract text from the PDF file buffer
-    const data = await pdfParse(fileBuffer);
-    return data.text;
+    // Use pdf-parse to extract text from the PDF file buffer, page by page
+    data = await pdfParse(fileBuffer, {
+      pagerender: async (pageData) => {
+        const text = await renderPdfPage(pageData);
+        pageTexts[pageData.pageNumber - 1] = text;
+        return text;
+      },
+    });
   } catch (error) {
     console.error('Errore nella conversione del file PDF:', error);
     throw new Error('Impossibile estrarre il testo dal file PDF.');
   }
+
+  let text = data.text;
+  let ocr: OcrSummary | undefined;
+  const ocrConfig = getOcrConfig();
+  const pagesToOcr = ocrConfig.enabled ? findPagesToOcr(Array.from(pageTexts, (pageText) => pageText ?? '')) : [];
+  if (pagesToOcr.length > 0) {
+    try {
+      const results = await recognizePdfPages(fileBuffer, pagesToOcr, ocrConfig);
+      for (const result of results) {
+        // A page where nothing was recognized keeps its own text, if any
+        if (result.text) {
+          pageTexts[result.page - 1] = result.text;
+        }
+      }
+      text = pageTexts.join('\n\n');
+      ocr = summarizeOcr(results, ocrConfig.language);
+    } catch (error) {
+      console.error('Errore nel riconoscimento ottico (OCR) del file PDF:', error);
+      // The text layer is kept when it has some text, otherwise there is nothing to work on
+      if (!LETTER_PATTERN.test(text)) {
+        throw new Error('Il PDF sembra una scansione e non è stato possibile riconoscerne il testo.');
+      }
+    }
+  }
+
+  const emptyPages: number[] = [];
+  for (let index = 0; index < pageTexts.length; index++) {
+    if (!LETTER_PATTERN.test(pageTexts[index] ?? '')) {
+      emptyPages.push(index + 1);
+    }
+  }
+
+  const document = buildStructuredDocument(textToBlocks(text), {
+    title: typeof data.info?.Title === 'string' ? data.info.Title : null,
+    author: typeof data.info?.Author === 'string' ? data.info.Author : null,
+  });
+  return { ...document, emptyPages, ...(ocr ? { ocr } : {}) };
+}
+
+/**
+ * Parses an EPUB file buffer into a structured document, following the reading order of the spine.
+ * @param fileBuffer Buffer containing the EPUB file data.
+ * @returns A Promise that resolves with the structured document.
+ */
+export async function parseEpub(fileBuffer: Buffer): Promise<StructuredDocument> {
+  try {
+    const zip = await JSZip.loadAsync(fileBuffer);
+
+    // The container points to the package document, which lists the content documents
+    const container = await zip.file('META-INF/container.xml')?.async('string');
+    const rootfileTag = container?.match(/<rootfile\b[^>]*>/i)?.[0];
+    const packagePath = rootfileTag ? getAttribute(rootfileTag, 'full-path') : undefined;
+    const packageDocument = packagePath ? await zip.file(packagePath)?.async('string') : undefined;
+    if (!packagePath || !packageDocument) {
+      throw new Error('Package document not found.');
+    }
+    const baseDir = path.posix.dirname(packagePath);
+
+    const manifest = new Map<string, string>();
+    for (const itemTag of packageDocument.match(/<(?:opf:)?item\b[^>]*>/gi) ?? []) {
+      const id = getAttribute(itemTag, 'id');
+      const href = getAttribute(itemTag, 'href');
+      if (id && href) {
+        manifest.set(id, path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(href))));
+      }
+    }
+    const spine = (packageDocument.match(/<(?:opf:)?itemref\b[^>]*>/gi) ?? [])
+      .map((itemrefTag) => manifest.get(getAttribute(itemrefTag, 'idref') ?? ''))
+      .filter((documentPath): documentPath is string => Boolean(documentPath));
+
+    const blocks: DocumentBlock[] = [];
+    for (const documentPath of spine) {
+      const content = await zip.file(documentPath)?.async('string');
+      if (content) {
+        blocks.push(...htmlToBlocks(content));
+      }
+    }
+    return buildStructuredDocument(blocks, readDublinCoreMetadata(packageDocument));
+  } catch (error) {
+    console.error('Errore nella conversione del file EPUB:', error);
+    throw new Error('Impossibile estrarre il testo dal file EPUB.');
+  }
+}
+
+/**
+ * Converts a fragment of an ODF content.xml to plain text.
+ */
+function odfXmlToText(xml: string): string {
+  const text = xml
+    // Footnote and endnote markers would end up in the middle of the sentences
+    .replace(/<text:note-citation\b[^>]*>[\s\S]*?<\/text:note-citation>/g, '')
+    .replace(/<text:s\b[^>]*\/>/g, (tag) => ' '.repeat(parseInt(getAttribute(tag, 'text:c') ?? '1', 10) || 1))
+    .replace(/<text:tab\b[^>]*\/>/g, '\t')
+    .replace(/<text:line-break\b[^>]*\/>/g, '\n')
+    .replace(/<\/text:(p|h)>/g, '\n\n')
+    .replace(/<[^>]+>/g, '');
+  return normalizeExtractedText(decodeEntities(text));
+}
+
+/**
+ * Parses an ODT file buffer into a structured document, keeping the headings of content.xml.
+ * @param fileBuffer Buffer containing the ODT file data.
+ * @returns A Promise that resolves with the structured document.
+ */
+export async function parseOdt(fileBuffer: Buffer): Promise<StructuredDocument> {
+  try {
+    const zip = await JSZip.loadAsync(fileBuffer);
+    const content = await zip.file('content.xml')?.async('string');
+    if (!content) {
+      throw new Error('content.xml not found.');
+    }
+
+    const body = content.match(/<office:body>([\s\S]*)<\/office:body>/)?.[1] ?? content;
+    // split() with capture groups alternates: text, heading attributes, heading content, text...
+    const parts = body.split(/<text:h\b([^>]*)>([\s\S]*?)<\/text:h>/);
+    const blocks: DocumentBlock[] = [];
+    for (let i = 0; i < parts.length; i += 3) {
+      blocks.push(...paragraphsToBlocks(odfXmlToText(parts[i])));
+      if (i + 2 < parts.length) {
+        const heading = odfXmlToText(parts[i + 2]).replace(/\s+/g, ' ');
+        if (heading) {
+          const level = parseInt(getAttribute(` ${parts[i + 1]}`, 'text:outline-level') ?? '1', 10) || 1;
+          blocks.push({ type: 'heading', text: heading, level });
+        }
+      }
+    }
+
+    const meta = await zip.file('meta.xml')?.async('string');
+    const metadata = meta ? readDublinCoreMetadata(meta, ['dc:creator', 'meta:initial-creator']) : {};
+    return buildStructuredDocument(blocks, metadata);
+  } catch (error) {
+    console.error('Errore nella conversione del file ODT:', error);
+    throw new Error('Impossibile estrarre il testo dal file ODT.');
+  }
+}
+
+// RTF destinations whose content is not part of the document text
+const RTF_IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'fldinst', 'listtable', 'listoverridetable', 'rsidtbl',
+  'generator', 'themedata', 'colorschememapping', 'datastore', 'latentstyles', 'xmlnstbl', 'filetbl',
+]);
+
+// RTF control words that stand for a character
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n\n',
+  line: '\n',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  bullet: '•',
+  emspace: ' ',
+  enspace: ' ',
+};
+
+/**
+ * Converts an RTF document to plain text.
+ * Formatting is dropped; special characters are decoded from the \'hh (Windows-1252)
+ * and \uN escapes.
+ */
+export function rtfToText(rtf: string): string {
+  const decoder = new TextDecoder('windows-1252');
+  const stack: Array<{ skip: boolean; uc: number }> = [];
+  let skip = false;
+  // Number of fallback characters following a \uN escape
+  let uc = 1;
+  let pendingFallback = 0;
+  let output = '';
+
+  const emit = (text: string) => {
+    if (pendingFallback > 0) {
+      pendingFallback--;
+      return;
+    }
+    if (!skip) {
+      output += text;
+    }
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+    if (char === '{') {
+      stack.push({ skip, uc });
+      pendingFallback = 0;
+      i++;
+    } else if (char === '}') {
+      ({ skip, uc } = stack.pop() ?? { skip: false, uc: 1 });
+      pendingFallback = 0;
+      i++;
+    } else if (char === '\\') {
+      const next = rtf[i + 1];
+      const word = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40));
+      if (word) {
+        const [matched, name, param] = word;
+        i += 1 + matched.length;
+        if (RTF_IGNORED_DESTINATIONS.has(name)) {
+          skip = true;
+        } else if (name === 'u' && param !== undefined) {
+          const code = parseInt(param, 10);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          pendingFallback = uc;
+        } else if (name === 'uc' && param !== undefined) {
+          uc = parseInt(param, 10);
+        } else if (RTF_SYMBOLS[name]) {
+          emit(RTF_SYMBOLS[name]);
+        }
+      } else if (next === "'") {
+        emit(decoder.decode(Buffer.from(rtf.slice(i + 2, i + 4), 'hex')));
+        i += 4;
+      } else if (next === '*') {
+        // Optional destinations the reader does not know
+        skip = true;
+        i += 2;
+      } else if (next === '\n' || next === '\r') {
+        emit('\n\n');
+        i += 2;
+      } else {
+        if (next === '~') {
+          emit(' ');
+        } else if (next === '_') {
+          emit('-');
+        } else if (next !== '-' && next !== undefined) {
+          // Escaped \, { and }
+          emit(next);
+        }
+        i += 2;
+      }
+    } else {
+      if (char !== '\n' && char !== '\r') {
+        emit(char);
+      }
+      i++;
+    }
+  }
+  return normalizeExtractedText(output);
+}
+
+/**
+ * Reads a field of the \\info group of an RTF document (e.g. title or author).
+ */
+function getRtfInfoField(rtf: string, name: string): string | null {
+  const match = rtf.match(new RegExp(`\\{\\\\${name}\\b ?((?:[^{}\\\\]|\\\\.)*)\\}`));
+  return match ? rtfToText(`{${match[1]}}`) || null : null;
+}
+
+/**
+ * Parses an RTF file buffer into a structured document, recognizing the chapter headings in its text.
+ * @param fileBuffer Buffer containing the RTF file data.
+ * @returns A Promise that resolves with the structured document.
+ */
+export async function parseRtf(fileBuffer: Buffer): Promise<StructuredDocument> {
+  const rtf = fileBuffer.toString('latin1');
+  if (!rtf.trimStart().startsWith('{\\rtf')) {
+    console.error('Errore nella conversione del file RTF: intestazione {\\rtf mancante.');
+    throw new Error('Impossibile estrarre il testo dal file RTF.');
+  }
+  return buildStructuredDocument(textToBlocks(rtfToText(rtf)), {
+    title: getRtfInfoField(rtf, 'title'),
+    author: getRtfInfoField(rtf, 'author'),
+  });
+}
+
+/**
+ * Converts a Markdown document to plain text, removing the markup but keeping
+ * the text of headings, links, images and code blocks.
+ */
+export function markdownToText(markdown: string): string {
+  const text = markdown
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    // YAML front matter
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    // Code fences (the code itself is kept)
+    .replace(/^ {0,3}(```|~~~).*$/gm, '')
+    // Horizontal rules and setext heading underlines
+    .replace(/^ {0,3}([-*_=])( *\1){2,} *$/gm, '')
+    // ATX headings, blockquotes and bullet markers
+    .replace(/^ {0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, '$1')
+    .replace(/^ {0,3}(> ?)+/gm, '')
+    .replace(/^([ \t]*)[-*+][ \t]+/gm, '$1')
+    // Reference definitions, images and links
+    .replace(/^ {0,3}\[[^\]]+\]:[ \t]+\S+.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\](\([^)]*\)|\[[^\]]*\])/g, '$1')
+    // Inline code, emphasis and strikethrough
+    .replace(/`([^`\n]+)`/g, '$1')
+    .replace(/(\*\*|__)(?=\S)([^\n]*?\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*/g, '$1$2')
+    .replace(/(^|\W)_(?=\S)([^_\n]*?\S)_(?=\W|$)/g, '$1$2')
+    .replace(/~~(?=\S)([^\n]*?\S)~~/g, '$1')
+    // Inline HTML and backslash escapes
+    .replace(/<[^>\n]+>/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, '$1');
+  return normalizeExtractedText(decodeEntities(text));
+}
+
+/**
+ * Parses a Markdown file buffer into a structured document, keeping the ATX and setext headings.
+ * Title and author are read from the YAML front matter, if present.
+ * @param fileBuffer Buffer containing the Markdown file data (UTF-8).
+ * @returns A Promise that resolves with the structured document.
+ */
+export async function parseMarkdown(fileBuffer: Buffer): Promise<StructuredDocument> {
+  let markdown = fileBuffer.toString('utf8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  const metadata: DocumentMetadata = {};
+  const frontMatter = markdown.match(/^---\n([\s\S]*?)\n---\n/);
+  if (frontMatter) {
+    const field = (name: string) =>
+      frontMatter[1].match(new RegExp(`^${name}:[ \\t]*["']?(.*?)["']?[ \\t]*$`, 'm'))?.[1] || null;
+    metadata.title = field('title');
+    metadata.author = field('author');
+    markdown = markdown.slice(frontMatter[0].length);
+  }
+
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = markdownToText(paragraph.join('\n'));
+    if (text) {
+      blocks.push({ type: 'paragraph', text });
+    }
+    paragraph = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (/^ {0,3}(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      paragraph.push(line);
+      continue;
+    }
+    if (inFence) {
+      paragraph.push(line);
+      continue;
+    }
+
+    const atxHeading = line.match(/^ {0,3}(#{1,6})[ \t]+(.*?)[ \t]*#*[ \t]*$/);
+    const setextUnderline = line.match(/^ {0,3}(=+|-+)[ \t]*$/);
+    if (atxHeading) {
+      flush();
+      blocks.push({ type: 'heading', text: markdownToText(atxHeading[2]), level: atxHeading[1].length });
+    } else if (setextUnderline && paragraph.length === 1) {
+      // A single line underlined with = or - is a level 1 or 2 heading
+      blocks.push({ type: 'heading', text: markdownToText(paragraph[0]), level: setextUnderline[1][0] === '=' ? 1 : 2 });
+      paragraph = [];
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return buildStructuredDocument(blocks, metadata);
+}
+
+// Parser of each format of the registry in backend/utils/fileFormats.ts
+const parsers: Record<ManuscriptFormatId, (fileBuffer: Buffer) => Promise<StructuredDocument>> = {
+  docx: parseDocx,
+  pdf: parsePdf,
+  epub: parseEpub,
+  odt: parseOdt,
+  rtf: parseRtf,
+  markdown: parseMarkdown,
+};
+
+/**
+ * Parses a manuscript with the parser registered for its format, found from the file extension.
+ * @param fileBuffer Buffer containing the file data.
+ * @param fileName Name of the file, used to find its format.
+ * @returns A Promise that resolves with the structured document.
+ */
+export async function parseManuscript(fileBuffer: Buffer, fileName: string): Promise<StructuredDocument> {
+  const format = findFormatByExtension(path.extname(fileName));
+  if (!format) {
+    throw new Error('Estensione file non supportata.');
+  }
+  return parsers[format.id](fileBuffer);
 }
@@ -0,0 +1,343 @@
+/**
+ * @fileoverview
+ * This module provides helper functions to access the Files table.
+ * It centralizes the ownership checks that API endpoints perform before
+ * reading or modifying data linked to an uploaded file.
+ *
+ * Key features:
+ * - getFileForUser: Retrieves a file record only if the given user can see it (see accessService.ts).
+ * - getFileById: Retrieves a file record without ownership check, for background jobs.
+ * - updateFileStatus: Updates the processing status of a file.
+ * - updateFileOcr: Records the pages of a file recognized with the OCR and its confidence.
+ * - parseFileListQuery and listFilesForUser: List the files a user can see, with pagination, sorting by
+ *   upload date, status filter and name search, along with their technical analysis and the types
+ *   of content generated for them.
+ * - deleteFile: Deletes a file with its generated content, jobs, text and chunk summaries; the later versions
+ *   of a deleted first version are linked to the next one.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations.
+ * - The Files, AIOutputs, Jobs, FileTexts and ChunkSummaries models.
+ * - The database connection instance from backend/db.ts.
+ * - backend/services/storage.ts for removing the stored file.
+ * - backend/services/accessService.ts for the files visible to each role.
+ * - backend/utils/uuid.ts for the check of the file identifiers.
+ *
+ * @notes
+ * - A missing file and a file the user cannot see are treated the same way,
+ *   so callers cannot probe for the existence of other users' files.
+ * - An identifier that is not a UUID is treated as a missing file, without querying the database.
+ */
+
+import { db } from '../db';
+import { Files } from '../models/File';
+import { AIOutputs } from '../models/AIOutput';
+import { ChunkSummaries } from '../models/ChunkSummary';
+import { Jobs } from '../models/Job';
+import { FileTexts } from '../models/FileText';
+import { and, asc, count, desc, eq, ilike, inArray, ne, sql, SQL } from 'drizzle-orm';
+import { getStorage } from './storage';
+import { fileAccessCondition, UserAccess } from './accessService';
+import type { DocumentAnalysis } from './fileAnalysis';
+import type { GenerationType } from './openaiService';
+import type { OcrSummary } from './ocrService';
+import { isUuid } from '../utils/uuid';
+
+export type FileRecord = typeof Files.$inferSelect;
+
+export type ProcessingStatus = FileRecord['processing_status'];
+
+export const processingStatuses: ProcessingStatus[] = ['pending', 'processing', 'complete', 'error'];
+
+// Number of files per page when the client does not choose it, and the largest page allowed
+export const DEFAULT_FILE_PAGE_SIZE = 20;
+export const MAX_FILE_PAGE_SIZE = 100;
+
+/**
+ * Options of the file listing.
+ */
+export interface FileListOptions {
+  // Page number, starting from 1
+  page: number;
+  pageSize: number;
+  // Order by upload date
+  sort: 'asc' | 'desc';
+  status?: ProcessingStatus;
+  // Text searched in the file name, case insensitive
+  search?: string;
+}
+
+/**
+ * A file of the listing, with its technical analysis and the types of content generated for it.
+ */
+export interface FileSummary extends FileRecord {
+  technicalAnalysis: DocumentAnalysis | null;
+  output_types: GenerationType[];
+}
+
+/**
+ * A page of the file listing.
+ */
+export interface FileListResult {
+  files: FileSummary[];
+  total: number;
+}
+
+/**
+ * Result of parseFileListQuery.
+ */
+export interface FileListQueryResult {
+  options?: FileListOptions;
+  error?: string;
+}
+
+// Generation types, in the order of the AIOutputs columns
+const outputColumns: GenerationType[] = ['blurb', 'description', 'keywords', 'categories', 'foreword', 'analysis'];
+
+/**
+ * Retrieves a file record visible to the given user: their own, their imprint's for an editor, any for an admin.
+ *
+ * @param fileId - The unique identifier of the file.
+ * @param access - The access of the user who must be able to see the file.
+ * @returns A promise that resolves to the file record, or null if not found or if the identifier is not a UUID.
+ */
+export async function getFileForUser(fileId: string, access: UserAccess): Promise<FileRecord | null> {
+  // Any other value cannot match a file, and Postgres would reject it
+  if (!isUuid(fileId)) {
+    return null;
+  }
+  try {
+    const records = await db
+      .select()
+      .from(Files)
+      .where(and(eq(Files.file_id, fileId), fileAccessCondition(access)));
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    throw new Error('Unable to retrieve file.');
+  }
+}
+
+/**
+ * Retrieves a file record without checking its owner.
+ * Only meant for background jobs, which act on behalf of the user who uploaded the file.
+ *
+ * @param fileId - The unique identifier of the file.
+ * @returns A promise that resolves to the file record, or null if not found.
+ */
+export async function getFileById(fileId: string): Promise<FileRecord | null> {
+  try {
+    const records = await db.select().from(Files).where(eq(Files.file_id, fileId));
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    throw new Error('Unable to retrieve file.');
+  }
+}
+
+/**
+ * Updates the processing status of a file.
+ *
+ * @param fileId - The unique identifier of the file.
+ * @param status - The new processing status.
+ */
+export async function updateFileStatus(fileId: string, status: ProcessingStatus): Promise<void> {
+  try {
+    await db.update(Files).set({ processing_status: status }).where(eq(Files.file_id, fileId));
+  } catch (error) {
+    console.error('Error updating file status:', error);
+    throw new Error('Unable to update file status.');
+  }
+}
+
+/**
+ * Records the OCR of a file: the recognized pages and the average confidence.
+ *
+ * @param fileId - The unique identifier of the file.
+ * @param ocr - The summary of the OCR, or null if the text was not recognized with the OCR.
+ */
+export async function updateFileOcr(fileId: string, ocr: OcrSummary | null): Promise<void> {
+  try {
+    await db.update(Files).set({ ocr }).where(eq(Files.file_id, fileId));
+  } catch (error) {
+    console.error('Error updating file OCR metadata:', error);
+    throw new Error('Unable to update file OCR metadata.');
+  }
+}
+
+/**
+ * Reads the listing options from the query string of GET /api/files.
+ * Supported parameters: page, pageSize, sort ("asc" or "desc"), status and search.
+ *
+ * @param query - The parsed query string.
+ * @returns The listing options, or an error message for the client.
+ */
+export function parseFileListQuery(query: Partial<Record<string, string | string[]>>): FileListQueryResult {
+  const single = (name: string): string | undefined => {
+    const value = query[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const page = Number(single('page') ?? 1);
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: 'Il parametro "page" deve essere un intero maggiore di zero.' };
+  }
+
+  const pageSize = Number(single('pageSize') ?? DEFAULT_FILE_PAGE_SIZE);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_FILE_PAGE_SIZE) {
+    return { error: `Il parametro "pageSize" deve essere un intero compreso tra 1 e ${MAX_FILE_PAGE_SIZE}.` };
+  }
+
+  const sort = single('sort') ?? 'desc';
+  if (sort !== 'asc' && sort !== 'desc') {
+    return { error: 'Il parametro "sort" deve essere "asc" o "desc".' };
+  }
+
+  const status = single('status') || undefined;
+  if (status && !processingStatuses.includes(status as ProcessingStatus)) {
+    return { error: 'Stato di elaborazione non supportato.' };
+  }
+
+  const search = single('search')?.trim() || undefined;
+
+  return { options: { page, pageSize, sort, status: status as ProcessingStatus | undefined, search } };
+}
+
+/**
+ * Lists the files a user can see, one page at a time.
+ *
+ * @param access - The access of the user.
+ * @param options - The page, the sort order and the filters.
+ * @returns A promise that resolves to the files of the page and the total number of matching files.
+ */
+export async function listFilesForUser(access: UserAccess, options: FileListOptions): Promise<FileListResult> {
+  try {
+    const conditions: SQL[] = [];
+    const visible = fileAccessCondition(access);
+    if (visible) {
+      conditions.push(visible);
+    }
+    if (options.status) {
+      conditions.push(eq(Files.processing_status, options.status));
+    }
+    if (options.search) {
+      // Escape the LIKE wildcards, so that the search text is matched literally
+      const pattern = options.search.replace(/[\\%_]/g, (char) => `\\${char}`);
+      conditions.push(ilike(Files.file_name, `%${pattern}%`));
+    }
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: count() }).from(Files).where(where);
+    const records = await db
+      .select()
+      .from(Files)
+      .where(where)
+      .orderBy(options.sort === 'asc' ? asc(Files.upload_date) : desc(Files.upload_date))
+      .limit(options.pageSize)
+      .offset((options.page - 1) * options.pageSize);
+
+    const fileIds = records.map((record) => record.file_id);
+    if (fileIds.length === 0) {
+      return { files: [], total };
+    }
+
+    // Technical analysis of the most recent completed processing job of each file
+    const analyses = await db
+      .select({
+        file_id: Jobs.file_id,
+        technicalAnalysis: sql<DocumentAnalysis | null>`${Jobs.result} -> 'technicalAnalysis'`,
+      })
+      .from(Jobs)
+      .where(and(inArray(Jobs.file_id, fileIds), eq(Jobs.type, 'process_upload'), eq(Jobs.status, 'completed')))
+      .orderBy(desc(Jobs.created_at));
+    const analysisByFile = new Map<string, DocumentAnalysis | null>();
+    for (const analysis of analyses) {
+      if (analysis.file_id && !analysisByFile.has(analysis.file_id)) {
+        analysisByFile.set(analysis.file_id, analysis.technicalAnalysis);
+      }
+    }
+
+    // Types of content generated for each file, without loading the content itself
+    const outputs = await db
+      .select({
+        file_id: AIOutputs.file_id,
+        ...Object.fromEntries(
+          outputColumns.map((type) => [type, sql<boolean>`${AIOutputs[type]} is not null`])
+        ),
+      })
+      .from(AIOutputs)
+      .where(inArray(AIOutputs.file_id, fileIds));
+    const outputTypesByFile = new Map<string, Set<GenerationType>>();
+    for (const output of outputs as Array<{ file_id: string } & Record<GenerationType, boolean>>) {
+      const types = outputTypesByFile.get(output.file_id) ?? new Set<GenerationType>();
+      outputColumns.filter((type) => output[type]).forEach((type) => types.add(type));
+      outputTypesByFile.set(output.file_id, types);
+    }
+
+    const files = records.map((record) => ({
+      ...record,
+      technicalAnalysis: analysisByFile.get(record.file_id) ?? null,
+      output_types: outputColumns.filter((type) => outputTypesByFile.get(record.file_id)?.has(type)),
+    }));
+    return { files, total };
+  } catch (error) {
+    console.error('Error listing files:', error);
+    throw new Error('Unable to list files.');
+  }
+}
+
+/**
+ * Deletes a file with everything derived from it: generated content, processing jobs, extracted
+ * text and chunk summaries. The stored file is removed too, unless another file record shares it
+ * (identical uploads share the same content-addressed key).
+ *
+ * @param file - The file record to delete.
+ */
+export async function deleteFile(file: FileRecord): Promise<void> {
+  let shared: boolean;
+  try {
+    shared = await db.transaction(async (tx) => {
+      await tx.delete(AIOutputs).where(eq(AIOutputs.file_id, file.file_id));
+      await tx.delete(ChunkSummaries).where(eq(ChunkSummaries.file_id, file.file_id));
+      await tx.delete(Jobs).where(eq(Jobs.file_id, file.file_id));
+      await tx.delete(FileTexts).where(eq(FileTexts.file_id, file.file_id));
+      await tx.delete(Files).where(eq(Files.file_id, file.file_id));
+
+      // Deleting the first version of a book: the next remaining version takes its place
+      const versions = await tx
+        .select({ file_id: Files.file_id })
+        .from(Files)
+        .where(eq(Files.version_of, file.file_id))
+        .orderBy(asc(Files.version));
+      if (versions.length > 0) {
+        const [firstVersion, ...laterVersions] = versions;
+        await tx.update(Files).set({ version_of: null }).where(eq(Files.file_id, firstVersion.file_id));
+        if (laterVersions.length > 0) {
+          await tx
+            .update(Files)
+            .set({ version_of: firstVersion.file_id })
+            .where(inArray(Files.file_id, laterVersions.map((version) => version.file_id)));
+        }
+      }
+
+      const others = await tx
+        .select({ file_id: Files.file_id })
+        .from(Files)
+        .where(and(eq(Files.storage_path, file.storage_path), ne(Files.file_id, file.file_id)))
+        .limit(1);
+      return others.length > 0;
+    });
+  } catch (error) {
+    console.error('Error deleting file:', error);
+    throw new Error('Unable to delete file.');
+  }
+
+  if (!shared) {
+    try {
+      await getStorage().delete(file.storage_path);
+    } catch (error) {
+      // The record is already gone: an orphaned stored file is only wasted space
+      console.error('Error deleting stored file:', error);
+    }
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * @fileoverview
+ * This module stores the text extracted from the uploaded files, with its structure, and searches it.
+ * The text is saved by the background processing, so that generation endpoints only need a file_id.
+ *
+ * Key features:
+ * - saveFileText: Stores (or replaces) the text and the structure of a file.
+ * - getFileText: Retrieves the text and the structure of a file.
+ * - parseSearchQuery and searchFileTexts: Full-text search across the manuscripts a user can see, with the
+ *   Italian text search configuration of PostgreSQL, returning the best matches with highlighted snippets.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations on the FileTexts and Files tables.
+ * - backend/services/documentStructure.ts for the types of the parsed manuscript.
+ * - backend/services/accessService.ts for the manuscripts visible to each role.
+ *
+ * @notes
+ * - Search queries follow the web search syntax of PostgreSQL (websearch_to_tsquery): quoted phrases,
+ *   "or" between alternatives and "-" before excluded words.
+ * - Snippets are HTML: the text is escaped and the matched words are wrapped in <mark> elements.
+ */
+
+import { and, count, desc, eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { FileTexts } from '../models/FileText';
+import { Files } from '../models/File';
+import { fileAccessCondition, UserAccess } from './accessService';
+import type { DocumentStructure, StructuredDocument } from './documentStructure';
+
+// Number of results per page when the client does not choose it, and the largest page allowed
+export const DEFAULT_SEARCH_PAGE_SIZE = 10;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+// Length limits of a search query
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+
+// Options of ts_headline: up to three fragments of the text around the matches
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MinWords=10, MaxWords=30, FragmentDelimiter=" … "';
+
+/**
+ * The stored text of a file.
+ */
+export interface FileText {
+  text: string;
+  structure: DocumentStructure;
+}
+
+/**
+ * Options of the full-text search.
+ */
+export interface SearchOptions {
+  query: string;
+  // Page number, starting from 1
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Result of parseSearchQuery.
+ */
+export interface SearchQueryResult {
+  options?: SearchOptions;
+  error?: string;
+}
+
+/**
+ * A manuscript matching a search.
+ */
+export interface SearchMatch {
+  file_id: string;
+  file_name: string;
+  version: number;
+  // Relevance of the match, higher is better
+  rank: number;
+  // Fragments of the text around the matches, as HTML with the matched words in <mark> elements
+  snippet: string;
+}
+
+/**
+ * A page of search results.
+ */
+export interface SearchResult {
+  results: SearchMatch[];
+  total: number;
+}
+
+/**
+ * Stores the text and the structure of a file, replacing those of a previous processing.
+ *
+ * @param fileId - The unique identifier of the file.
+ * @param document - The parsed manuscript.
+ */
+export async function saveFileText(fileId: string, document: StructuredDocument): Promise<void> {
+  try {
+    await db
+      .insert(FileTexts)
+      .values({ file_id: fileId, extracted_text: document.text, structure: document.structure })
+      .onConflictDoUpdate({
+        target: FileTexts.file_id,
+        set: { extracted_text: document.text, structure: document.structure, updated_at: new Date() },
+      });
+  } catch (error) {
+    console.error('Error saving file text:', error);
+    throw new Error('Unable to save file text.');
+  }
+}
+
+/**
+ * Retrieves the text and the structure of a file.
+ *
+ * @param fileId - The unique identifier of the file.
+ * @returns A promise that resolves to the stored text, or null if the file has not been processed.
+ */
+export async function getFileText(fileId: string): Promise<FileText | null> {
+  try {
+    const records = await db
+      .select({ text: FileTexts.extracted_text, structure: FileTexts.structure })
+      .from(FileTexts)
+      .where(eq(FileTexts.file_id, fileId));
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching file text:', error);
+    throw new Error('Unable to retrieve file text.');
+  }
+}
+
+/**
+ * Reads the search options from the query string of GET /api/search.
+ * Supported parameters: q (the search text), page and pageSize.
+ *
+ * @param query - The parsed query string.
+ * @returns The search options, or an error message for the client.
+ */
+export function parseSearchQuery(query: Partial<Record<string, string | string[]>>): SearchQueryResult {
+  const single = (name: string): string | undefined => {
+    const value = query[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const text = (single('q') ?? '').trim();
+  if (text.length < MIN_QUERY_LENGTH || text.length > MAX_QUERY_LENGTH) {
+    return {
+      error: `Il parametro "q" deve contenere da ${MIN_QUERY_LENGTH} a ${MAX_QUERY_LENGTH} caratteri.`,
+    };
+  }
+
+  const page = Number(single('page') ?? 1);
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: 'Il parametro "page" deve essere un intero maggiore di zero.' };
+  }
+
+  const pageSize = Number(single('pageSize') ?? DEFAULT_SEARCH_PAGE_SIZE);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_SEARCH_PAGE_SIZE) {
+    return { error: `Il parametro "pageSize" deve essere un intero compreso tra 1 e ${MAX_SEARCH_PAGE_SIZE}.` };
+  }
+
+  return { options: { query: text, page, pageSize } };
+}
+
+/**
+ * Escapes the HTML special characters of a text.
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Turns a headline of ts_headline into safe HTML: the text is escaped, the <mark> delimiters are kept.
+ *
+ * @param headline - The headline, with the matches between <mark> and </mark>.
+ * @returns The snippet as HTML.
+ */
+export function toSnippetHtml(headline: string): string {
+  return headline
+    .split(/(<mark>|<\/mark>)/)
+    .map((part) => (part === '<mark>' || part === '</mark>' ? part : escapeHtml(part)))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Searches the text of the manuscripts a user can see, ordered by relevance.
+ *
+ * @param access - The access of the user.
+ * @param options - The search text and the page to return.
+ * @returns A promise that resolves to the matching manuscripts of the page and their total number.
+ */
+export async function searchFileTexts(access: UserAccess, options: SearchOptions): Promise<SearchResult> {
+  try {
+    const tsQuery = sql`websearch_to_tsquery('italian', ${options.query})`;
+    const where = and(fileAccessCondition(access), sql`${FileTexts.search_vector} @@ ${tsQuery}`);
+    const rank = sql<number>`ts_rank_cd(${FileTexts.search_vector}, ${tsQuery})`;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(FileTexts)
+      .innerJoin(Files, eq(Files.file_id, FileTexts.file_id))
+      .where(where);
+    if (total === 0) {
+      return { results: [], total };
+    }
+
+    const records = await db
+      .select({
+        file_id: Files.file_id,
+        file_name: Files.file_name,
+        version: Files.version,
+        rank,
+        headline: sql<string>`ts_headline('italian', ${FileTexts.extracted_text}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+      })
+      .from(FileTexts)
+      .innerJoin(Files, eq(Files.file_id, FileTexts.file_id))
+      .where(where)
+      .orderBy(desc(rank), desc(Files.upload_date))
+      .limit(options.pageSize)
+      .offset((options.page - 1) * options.pageSize);
+
+    const results = records.map(({ headline, ...record }) => ({
+      ...record,
+      rank: Number(record.rank),
+      snippet: toSnippetHtml(headline),
+    }));
+    return { results, total };
+  } catch (error) {
+    console.error('Error searching file texts:', error);
+    throw new Error('Unable to search the manuscripts.');
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * @fileoverview
+ * This module implements a job queue on top of the Jobs table.
+ * API endpoints enqueue the slow tasks (such as parsing an uploaded file) and return right away;
+ * the worker (backend/workers/jobWorker.ts) claims the jobs and runs them in the background.
+ *
+ * Key features:
+ * - enqueueJob: Adds a job to the queue.
+ * - claimNextJob: Atomically claims the next runnable job with SELECT ... FOR UPDATE SKIP LOCKED,
+ *   so that several workers can share the queue without processing the same job twice.
+ * - updateJobProgress, completeJob, failJob: Record the progress and the outcome of a job, only while
+ *   the worker still holds its lock.
+ * - failStaleJobs: Marks as failed the abandoned jobs that have used all their attempts.
+ * - getLatestJobForFile: Retrieves the most recent job working on a file, for status reporting.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations.
+ * - The Jobs model.
+ * - The database connection instance from backend/db.ts.
+ *
+ * @notes
+ * - Failed jobs are retried with an exponential backoff until max_attempts is reached.
+ * - Jobs left running for longer than JOB_LOCK_TIMEOUT_MS (e.g. by a crashed worker) are claimed again,
+ *   as long as they have attempts left: a job that keeps crashing its worker ends up failed.
+ * - The lock of a job is its locked_at value: updateJobProgress renews it, and a worker whose lock has
+ *   expired and been taken over by another worker can no longer record the outcome of the job.
+ */
+
+import { and, asc, desc, eq, gte, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { Jobs } from '../models/Job';
+
+export type JobType = 'process_upload';
+
+export type JobRecord = typeof Jobs.$inferSelect;
+
+/**
+ * The outcome of failJob: the job is queued again, it has failed for good, or the worker no
+ * longer held its lock and nothing was recorded.
+ */
+export type JobFailureOutcome = 'retrying' | 'failed' | 'lock_lost';
+
+/**
+ * Options of a new job.
+ */
+export interface EnqueueJobOptions {
+  // The file the job works on, if any
+  fileId?: string;
+  maxAttempts?: number;
+}
+
+// Time after which a running job is considered abandoned by its worker
+export const JOB_LOCK_TIMEOUT_MS = process.env.JOB_LOCK_TIMEOUT_MS
+  ? parseInt(process.env.JOB_LOCK_TIMEOUT_MS, 10)
+  : 10 * 60 * 1000;
+
+// Delay before the first retry of a failed job, doubled at every further attempt
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// Upper bound to the delay between two attempts
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * Computes the delay before the next attempt of a failed job.
+ *
+ * @param attempts - The number of attempts already made.
+ * @returns The delay in milliseconds.
+ */
+export function computeRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Adds a job to the queue.
+ *
+ * @param type - The job type, which selects the handler of the worker.
+ * @param payload - The data needed by the handler.
+ * @param options - The related file and the maximum number of attempts.
+ * @param executor - The database or the transaction to use, so that a job can be queued together with
+ *   the record it processes.
+ * @returns A promise that resolves to the queued job.
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown>,
+  options: EnqueueJobOptions = {},
+  executor: Pick<typeof db, 'insert'> = db
+): Promise<JobRecord> {
+  try {
+    const result = await executor
+      .insert(Jobs)
+      .values({
+        type,
+        payload,
+        file_id: options.fileId ?? null,
+        ...(options.maxAttempts ? { max_attempts: options.maxAttempts } : {}),
+      })
+      .returning();
+    return result[0];
+  } catch (error) {
+    console.error('Error enqueuing job:', error);
+    throw new Error('Unable to enqueue job.');
+  }
+}
+
+/**
+ * Claims the next runnable job: a queued job whose run_at has passed, or a running job
+ * whose lock has expired. The job is marked as running and its attempts are incremented.
+ *
+ * @param types - The job types the worker can handle.
+ * @returns A promise that resolves to the claimed job, or null if the queue is empty.
+ */
+export async function claimNextJob(types: JobType[]): Promise<JobRecord | null> {
+  try {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS);
+
+    const next = db
+      .select({ job_id: Jobs.job_id })
+      .from(Jobs)
+      .where(
+        and(
+          inArray(Jobs.type, types),
+          or(
+            and(eq(Jobs.status, 'queued'), lte(Jobs.run_at, now)),
+            and(
+              eq(Jobs.status, 'running'),
+              lt(Jobs.locked_at, staleBefore),
+              lt(Jobs.attempts, Jobs.max_attempts)
+            )
+          )
+        )
+      )
+      .orderBy(asc(Jobs.run_at))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const result = await db
+      .update(Jobs)
+      .set({
+        status: 'running',
+        locked_at: now,
+        attempts: sql`${Jobs.attempts} + 1`,
+        updated_at: now,
+      })
+      .where(inArray(Jobs.job_id, next))
+      .returning();
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Error claiming job:', error);
+    throw new Error('Unable to claim job.');
+  }
+}
+
+/**
+ * Builds the condition matching a job only while the worker still holds its lock.
+ */
+function heldLock(job: JobRecord) {
+  return and(
+    eq(Jobs.job_id, job.job_id),
+    eq(Jobs.status, 'running'),
+    job.locked_at ? eq(Jobs.locked_at, job.locked_at) : sql`false`
+  );
+}
+
+/**
+ * Renews the lock of a running job and, if given, records its progress.
+ * The new locked_at is stored in the job, so that the next updates keep matching the lock.
+ *
+ * @param job - The job, as claimed by the worker.
+ * @param progress - The progress, from 0 to 100.
+ * @returns A promise that resolves to false if the lock has been lost to another worker.
+ */
+export async function updateJobProgress(job: JobRecord, progress?: number): Promise<boolean> {
+  const now = new Date();
+  try {
+    const result = await db
+      .update(Jobs)
+      .set({
+        locked_at: now,
+        updated_at: now,
+        ...(progress === undefined ? {} : { progress: Math.max(0, Math.min(100, Math.round(progress))) }),
+      })
+      .where(heldLock(job))
+      .returning({ locked_at: Jobs.locked_at });
+    if (result.length === 0) {
+      return false;
+    }
+    job.locked_at = result[0].locked_at;
+    return true;
+  } catch (error) {
+    // Progress is informative only: a failed update must not interrupt the job
+    console.error('Error updating job progress:', error);
+    return true;
+  }
+}
+
+/**
+ * Marks a job as completed and stores its result, if the worker still holds its lock.
+ *
+ * @param job - The job, as claimed by the worker.
+ * @param result - The result of the job.
+ * @returns A promise that resolves to false if the lock has been lost and nothing was recorded.
+ */
+export async function completeJob(job: JobRecord, result: unknown): Promise<boolean> {
+  try {
+    const updated = await db
+      .update(Jobs)
+      .set({ status: 'completed', progress: 100, result, error: null, locked_at: null, updated_at: new Date() })
+      .where(heldLock(job))
+      .returning({ job_id: Jobs.job_id });
+    return updated.length > 0;
+  } catch (error) {
+    console.error('Error completing job:', error);
+    throw new Error('Unable to complete job.');
+  }
+}
+
+/**
+ * Records the failure of a job, if the worker still holds its lock: the job is queued again
+ * after a backoff delay, or marked as failed once it has used all its attempts.
+ *
+ * @param job - The failed job, as claimed by the worker.
+ * @param message - The error message to report.
+ * @returns A promise that resolves to the outcome of the failure.
+ */
+export async function failJob(job: JobRecord, message: string): Promise<JobFailureOutcome> {
+  const willRetry = job.attempts < job.max_attempts;
+  try {
+    const updated = await db
+      .update(Jobs)
+      .set({
+        status: willRetry ? 'queued' : 'failed',
+        error: message,
+        locked_at: null,
+        run_at: willRetry ? new Date(Date.now() + computeRetryDelay(job.attempts)) : job.run_at,
+        updated_at: new Date(),
+      })
+      .where(heldLock(job))
+      .returning({ job_id: Jobs.job_id });
+    if (updated.length === 0) {
+      return 'lock_lost';
+    }
+    return willRetry ? 'retrying' : 'failed';
+  } catch (error) {
+    console.error('Error recording job failure:', error);
+    throw new Error('Unable to record job failure.');
+  }
+}
+
+/**
+ * Marks as failed the jobs abandoned by their worker (lock expired) that have no attempts left,
+ * such as a job that crashes the worker every time it runs.
+ *
+ * @param types - The job types the worker can handle.
+ * @returns A promise that resolves to the jobs marked as failed.
+ */
+export async function failStaleJobs(types: JobType[]): Promise<JobRecord[]> {
+  const now = new Date();
+  try {
+    return await db
+      .update(Jobs)
+      .set({
+        status: 'failed',
+        error: 'Elaborazione interrotta: il job ha superato il tempo massimo a ogni tentativo.',
+        locked_at: null,
+        updated_at: now,
+      })
+      .where(
+        and(
+          inArray(Jobs.type, types),
+          eq(Jobs.status, 'running'),
+          lt(Jobs.locked_at, new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS)),
+          gte(Jobs.attempts, Jobs.max_attempts)
+        )
+      )
+      .returning();
+  } catch (error) {
+    console.error('Error failing stale jobs:', error);
+    throw new Error('Unable to fail stale jobs.');
+  }
+}
+
+/**
+ * Retrieves the most recent job working on a file.
+ *
+ * @param fileId - The unique identifier of the file.
+ * @returns A promise that resolves to the job, or null if not found.
+ */
+export async function getLatestJobForFile(fileId: string): Promise<JobRecord | null> {
+  try {
+    const records = await db
+      .select()
+      .from(Jobs)
+      .where(eq(Jobs.file_id, fileId))
+      .orderBy(desc(Jobs.created_at))
+      .limit(1);
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    throw new Error('Unable to retrieve job.');
+  }
+}
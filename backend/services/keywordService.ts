@@ -0,0 +1,170 @@
+/**
+ * @fileoverview
+ * This module provides the helpers needed to turn the keywords generated by the model
+ * into the seven backend keywords accepted by Amazon KDP.
+ *
+ * Key features:
+ * - validateKeywords: Parses the JSON reply of the model and checks every phrase against the KDP rules.
+ * - formatKeywords: Converts the phrases to the text stored in AIOutputs.
+ *
+ * @dependencies
+ * - Buffer from Node.js, to measure the phrases in bytes as KDP does.
+ *
+ * @notes
+ * - Rules: exactly KDP_KEYWORD_COUNT phrases, each at most KDP_KEYWORD_MAX_BYTES bytes in UTF-8,
+ *   no duplicates, no words of the title and no banned terms (see bannedKeywordTerms).
+ * - Duplicates are removed and invalid phrases are discarded; the reply is valid as long as
+ *   enough valid phrases remain.
+ * - Additional banned terms can be configured through KDP_BANNED_TERMS (comma separated).
+ */
+
+// Number of backend keyword slots in KDP
+export const KDP_KEYWORD_COUNT = 7;
+
+// Maximum length of a single keyword slot, in bytes
+export const KDP_KEYWORD_MAX_BYTES = 50;
+
+// Terms KDP does not allow in keywords: sales claims, price and promotion references
+export const bannedKeywordTerms: string[] = [
+  'bestseller',
+  'best seller',
+  'best-seller',
+  'gratis',
+  'gratuito',
+  'free',
+  'kindle unlimited',
+  'offerta',
+  'in offerta',
+  'on sale',
+  'novità',
+  'new release',
+];
+
+// Short words of the title that do not count as repetitions (articles, prepositions, conjunctions)
+const TITLE_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'con', 'per', 'tra', 'fra', 'del', 'dei', 'della', 'delle', 'degli',
+  'dello', 'nel', 'nella', 'una', 'uno', 'des', 'les', 'une', 'und', 'der', 'die', 'das', 'ein', 'eine',
+  'los', 'las', 'por', 'para',
+]);
+
+/**
+ * Result of the validation of the keywords returned by the model.
+ */
+export interface KeywordValidationResult {
+  valid: boolean;
+  keywords?: string[];
+  errors: string[];
+}
+
+/**
+ * Options of the keyword validation.
+ */
+export interface KeywordValidationOptions {
+  // Title of the book, whose words cannot be repeated in the keywords
+  title?: string;
+  // Banned terms; defaults to bannedKeywordTerms plus KDP_BANNED_TERMS
+  bannedTerms?: string[];
+}
+
+/**
+ * Lowercases a text and removes diacritics and punctuation, leaving words separated by a single space.
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9ßæøœ]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Returns the banned terms in use: the built-in ones and those configured in KDP_BANNED_TERMS.
+ */
+function getBannedTerms(): string[] {
+  const configured = (process.env.KDP_BANNED_TERMS || '')
+    .split(',')
+    .map((term) => term.trim())
+    .filter(Boolean);
+  return [...bannedKeywordTerms, ...configured];
+}
+
+/**
+ * Validates the JSON reply of the model against the KDP keyword rules.
+ * The reply must be an array of strings; duplicates are removed and phrases breaking
+ * a rule are discarded, reporting why.
+ *
+ * @param reply - The raw text returned by the model.
+ * @param options - The title of the book and the banned terms.
+ * @returns The validation result, with the first KDP_KEYWORD_COUNT valid phrases if valid.
+ */
+export function validateKeywords(reply: string, options: KeywordValidationOptions = {}): KeywordValidationResult {
+  // Models often wrap JSON answers in markdown code fences: strip them before parsing.
+  const json = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { valid: false, errors: ['La risposta non è un JSON valido.'] };
+  }
+
+  if (!Array.isArray(parsed) || !parsed.every((phrase) => typeof phrase === 'string')) {
+    return { valid: false, errors: ['La risposta deve essere un array di stringhe.'] };
+  }
+
+  const titleWords = new Set(
+    normalize(options.title || '')
+      .split(' ')
+      .filter((word) => word.length >= 3 && !TITLE_STOPWORDS.has(word))
+  );
+  const bannedTerms = (options.bannedTerms ?? getBannedTerms()).map(normalize).filter(Boolean);
+
+  const keywords: string[] = [];
+  const seen = new Set<string>();
+  const errors: string[] = [];
+
+  for (const raw of parsed as string[]) {
+    const phrase = raw.replace(/\s+/g, ' ').trim();
+    const normalized = normalize(phrase);
+    if (!normalized || seen.has(normalized)) {
+      continue;
+    }
+    seen.add(normalized);
+
+    if (Buffer.byteLength(phrase, 'utf8') > KDP_KEYWORD_MAX_BYTES) {
+      errors.push(`"${phrase}" supera il limite di ${KDP_KEYWORD_MAX_BYTES} byte.`);
+      continue;
+    }
+    const words = normalized.split(' ');
+    const repeated = words.find((word) => titleWords.has(word));
+    if (repeated) {
+      errors.push(`"${phrase}" ripete la parola "${repeated}" del titolo.`);
+      continue;
+    }
+    const banned = bannedTerms.find((term) => ` ${normalized} `.includes(` ${term} `));
+    if (banned) {
+      errors.push(`"${phrase}" contiene il termine non consentito "${banned}".`);
+      continue;
+    }
+    keywords.push(phrase);
+  }
+
+  if (keywords.length < KDP_KEYWORD_COUNT) {
+    errors.push(`Sono richieste ${KDP_KEYWORD_COUNT} parole chiave valide e distinte, ricevute ${keywords.length}.`);
+    return { valid: false, errors };
+  }
+
+  return { valid: true, keywords: keywords.slice(0, KDP_KEYWORD_COUNT), errors: [] };
+}
+
+/**
+ * Converts the keyword phrases to the text stored in AIOutputs: one phrase per line,
+ * in the order of the KDP slots.
+ *
+ * @param keywords - The keyword phrases.
+ * @returns The text to store.
+ */
+export function formatKeywords(keywords: string[]): string {
+  return keywords.join('\n');
+}
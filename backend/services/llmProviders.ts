@@ -0,0 +1,293 @@
+/**
+ * @fileoverview
+ * This module defines the LlmProvider abstraction used by openaiService to generate content,
+ * and the available implementations:
+ * - openai: The OpenAI chat completions API.
+ * - compatible: Any server exposing an OpenAI-compatible API at a custom base URL
+ *   (for example a local llama.cpp or Ollama server).
+ * - mock: A deterministic provider that never leaves the process, for tests and offline demos.
+ *
+ * Key features:
+ * - resolveLlmSelection: Chooses the provider and the model for a content type from the environment.
+ * - getLlmProvider: Creates (and caches) the provider instance for a provider name.
+ * - Every provider can return the whole completion or stream it as text deltas.
+ *
+ * @dependencies
+ * - fetch for HTTP requests.
+ * - crypto for the deterministic output of the mock provider.
+ *
+ * @notes
+ * - The provider and the model are chosen per content type through LLM_<TYPE>_PROVIDER and
+ *   LLM_<TYPE>_MODEL (e.g. LLM_BLURB_MODEL), falling back to LLM_PROVIDER and LLM_MODEL.
+ * - The compatible provider reads LLM_COMPATIBLE_BASE_URL and, optionally, LLM_COMPATIBLE_API_KEY.
+ */
+
+import crypto from 'crypto';
+
+export type LlmProviderName = 'openai' | 'compatible' | 'mock';
+
+/**
+ * A single message of a chat completion request.
+ */
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A chat completion request, independent from the provider.
+ */
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature: number;
+  max_tokens: number;
+}
+
+/**
+ * A provider able to complete a chat request, either at once or as a stream of text deltas.
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  complete(request: LlmRequest): Promise<string>;
+  stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+/**
+ * Provider and model selected for a content type.
+ */
+export interface LlmSelection {
+  provider: LlmProviderName;
+  model: string;
+}
+
+const providerNames: LlmProviderName[] = ['openai', 'compatible', 'mock'];
+
+const DEFAULT_MODEL = 'gpt-3.5-turbo';
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Interface representing a single choice in the OpenAI API response.
+ */
+interface OpenAIChoice {
+  message: {
+    content: string;
+  };
+}
+
+/**
+ * Interface representing the structure of the OpenAI API response.
+ */
+interface OpenAIResponse {
+  choices: OpenAIChoice[];
+}
+
+/**
+ * Interface representing a chunk of the OpenAI API streaming response.
+ */
+interface OpenAIStreamChunk {
+  choices: { delta?: { content?: string } }[];
+}
+
+/**
+ * Reads a server-sent events body and yields the payload of each "data:" line.
+ *
+ * @param body - The response body.
+ * @returns An async iterable of the data payloads, in order.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep the incomplete tail in the buffer.
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+      for (const event of events) {
+        for (const line of event.split(/\r?\n/)) {
+          if (line.startsWith('data:')) {
+            yield line.slice(5).trimStart();
+          }
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Creates a provider for the OpenAI chat completions API or any API compatible with it.
+ *
+ * @param name - The provider name reported in logs and errors.
+ * @param baseUrl - The base URL of the API, without the trailing "/chat/completions".
+ * @param apiKey - The API key, sent as a Bearer token when provided.
+ * @returns The provider instance.
+ */
+export function createOpenAICompatibleProvider(name: LlmProviderName, baseUrl: string, apiKey?: string): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorDetails = await response.text();
+      throw new Error(`Errore nella chiamata all'API ${name}: ${response.status} - ${errorDetails}`);
+    }
+    return response;
+  };
+
+  return {
+    name,
+    async complete(request: LlmRequest): Promise<string> {
+      const response = await post(request);
+
+      const data: OpenAIResponse = await response.json();
+      const generatedText = data.choices && data.choices[0]?.message?.content;
+      if (!generatedText) {
+        throw new Error(`Risposta dell'API ${name} non valida.`);
+      }
+
+      return generatedText;
+    },
+    async *stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string> {
+      const response = await post({ ...request, stream: true }, signal);
+      if (!response.body) {
+        throw new Error(`Risposta dell'API ${name} non valida.`);
+      }
+
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') {
+          return;
+        }
+        const chunk: OpenAIStreamChunk = JSON.parse(data);
+        const delta = chunk.choices && chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Creates a deterministic provider that builds its answer from the hash of the request.
+ * Category requests receive the first catalog codes listed in the prompt as a JSON assignment
+ * and keyword requests a JSON array of distinct phrases, so that the whole generation flow can run offline.
+ *
+ * @returns The provider instance.
+ */
+export function createMockProvider(): LlmProvider {
+  const answer = (request: LlmRequest): string => {
+    const prompt = request.messages.map((message) => message.content).join('\n');
+    const digest = crypto.createHash('sha256').update(`${request.model}\n${prompt}`).digest('hex').slice(0, 8);
+
+    const codes = Array.from(prompt.matchAll(/^\s*(\S+) - /gm), (match) => match[1]);
+    if (/"main"/.test(prompt) && codes.length >= 3) {
+      return JSON.stringify({ main: codes[0], sub: codes.slice(1, 3) });
+    }
+
+    const keywordCount = prompt.match(/array JSON di (\d+) frasi chiave/);
+    if (keywordCount) {
+      return JSON.stringify(
+        Array.from({ length: parseInt(keywordCount[1], 10) }, (_, i) => `${digest} chiave ${i + 1}`)
+      );
+    }
+
+    return `[mock ${digest}] Contenuto generato senza chiamare alcun modello (${request.model}).`;
+  };
+
+  return {
+    name: 'mock',
+    async complete(request: LlmRequest): Promise<string> {
+      return answer(request);
+    },
+    async *stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string> {
+      // Emit the answer word by word, as a real provider would emit its deltas.
+      for (const delta of answer(request).split(/(?<=\s)/)) {
+        if (signal?.aborted) {
+          return;
+        }
+        yield delta;
+      }
+    },
+  };
+}
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+/**
+ * Returns the provider instance for a provider name, creating it on first use.
+ *
+ * @param name - The provider name.
+ * @returns The provider instance.
+ * @throws If the provider is not configured.
+ */
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  const existing = providers.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  let provider: LlmProvider;
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY || '';
+      if (!apiKey) {
+        throw new Error('La chiave API OpenAI non è impostata. Verifica la configurazione.');
+      }
+      provider = createOpenAICompatibleProvider('openai', OPENAI_BASE_URL, apiKey);
+      break;
+    }
+    case 'compatible': {
+      const baseUrl = process.env.LLM_COMPATIBLE_BASE_URL || '';
+      if (!baseUrl) {
+        throw new Error("L'URL del server compatibile OpenAI non è impostato. Verifica la configurazione.");
+      }
+      provider = createOpenAICompatibleProvider('compatible', baseUrl, process.env.LLM_COMPATIBLE_API_KEY);
+      break;
+    }
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    default:
+      throw new Error(`Provider LLM non supportato: ${name}.`);
+  }
+
+  providers.set(name, provider);
+  return provider;
+}
+
+/**
+ * Chooses the provider and the model for a content type from the environment.
+ *
+ * @param type - The content type (e.g. "blurb", "summary").
+ * @returns The selected provider and model.
+ * @throws If the configured provider name is unknown.
+ */
+export function resolveLlmSelection(type: string): LlmSelection {
+  const prefix = `LLM_${type.toUpperCase()}`;
+  const provider = (process.env[`${prefix}_PROVIDER`] || process.env.LLM_PROVIDER || 'openai') as LlmProviderName;
+  const model = process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || DEFAULT_MODEL;
+
+  if (!providerNames.includes(provider)) {
+    throw new Error(`Provider LLM non supportato: ${provider}.`);
+  }
+  return { provider, model };
+}
@@ -0,0 +1,385 @@
+/**
+ * @fileoverview
+ * This module defines the Mailer abstraction used to send the account emails (address verification,
+ * password reset), and the available implementations:
+ * - smtp: Any SMTP server, spoken to directly over a TCP or TLS connection.
+ * - file: Writes each message as an .eml file in a directory, for local development.
+ * - console: Prints each message to the console, for local development.
+ *
+ * Key features:
+ * - buildMimeMessage: Builds the RFC 5322 message, with UTF-8 subject and body.
+ * - createSmtpMailer: Sends with STARTTLS (or implicit TLS) and AUTH PLAIN when credentials are set.
+ * - getMailer: Creates (and caches) the mailer selected through MAIL_DRIVER.
+ *
+ * @dependencies
+ * - net and tls for the SMTP connection.
+ * - fs and path for the file mailer.
+ * - crypto for the Message-ID of the messages.
+ *
+ * @notes
+ * - MAIL_DRIVER defaults to "console"; MAIL_FROM is the sender of every message.
+ * - The smtp mailer reads SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" for implicit TLS,
+ *   usually on port 465), SMTP_USER and SMTP_PASSWORD. Without SMTP_SECURE the connection is
+ *   upgraded with STARTTLS whenever the server offers it.
+ * - The file mailer reads MAIL_FILE_DIR (default "./mail").
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+
+export type MailerDriver = 'smtp' | 'file' | 'console';
+
+/**
+ * A message to send.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  // Plain text body
+  text: string;
+}
+
+/**
+ * A mailer able to send messages.
+ */
+export interface Mailer {
+  driver: MailerDriver;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Configuration of the SMTP mailer.
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS from the start of the connection
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // Rejects servers with invalid certificates unless false (e.g. a local test server)
+  rejectUnauthorized?: boolean;
+}
+
+// Time allowed to each reply of the SMTP server
+const SMTP_TIMEOUT_MS = 30000;
+
+// Sender used when MAIL_FROM is not set
+const DEFAULT_MAIL_FROM = 'YCP Servizi <no-reply@localhost>';
+
+/**
+ * Encodes a header value with non-ASCII characters (RFC 2047).
+ */
+function encodeHeader(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Extracts the address from a mailbox such as "Name <address>".
+ */
+function extractAddress(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Builds the RFC 5322 source of a message, with CRLF line endings and a base64 UTF-8 body.
+ *
+ * @param from - The sender, as an address or "Name <address>".
+ * @param message - The message to send.
+ * @param date - The date of the message.
+ * @returns The message source.
+ */
+export function buildMimeMessage(from: string, message: MailMessage, date: Date = new Date()): string {
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) ?? []),
+  ].join('\r\n');
+}
+
+/**
+ * Creates a mailer printing the messages to the console.
+ *
+ * @param from - The sender of the messages.
+ * @returns The mailer instance.
+ */
+export function createConsoleMailer(from: string): Mailer {
+  return {
+    driver: 'console',
+    async send(message: MailMessage): Promise<void> {
+      console.log(`[mail] From: ${from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`);
+    },
+  };
+}
+
+/**
+ * Creates a mailer writing each message as an .eml file, which mail clients can open.
+ *
+ * @param from - The sender of the messages.
+ * @param directory - The directory holding the files.
+ * @returns The mailer instance.
+ */
+export function createFileMailer(from: string, directory: string): Mailer {
+  return {
+    driver: 'file',
+    async send(message: MailMessage): Promise<void> {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+      await fs.promises.writeFile(path.join(directory, fileName), buildMimeMessage(from, message));
+    },
+  };
+}
+
+/**
+ * An SMTP reply: the status code and the text of its lines.
+ */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads the replies of an SMTP server from a socket, one at a time.
+ * A reply may span several lines ("250-..." up to "250 ...").
+ */
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  let pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+
+  const settle = () => {
+    if (!pending) {
+      return;
+    }
+    if (replies.length > 0) {
+      const { resolve } = pending;
+      pending = null;
+      resolve(replies.shift() as SmtpReply);
+    } else if (failure) {
+      const { reject } = pending;
+      pending = null;
+      reject(failure);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), lines });
+        lines = [];
+      }
+    }
+    settle();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    settle();
+  };
+  const onClose = () => onError(new Error('Connessione SMTP chiusa dal server.'));
+
+  const attach = (target: net.Socket) => {
+    target.on('data', onData);
+    target.on('error', onError);
+    target.on('close', onClose);
+  };
+  const detach = (target: net.Socket) => {
+    target.off('data', onData);
+    target.off('error', onError);
+    target.off('close', onClose);
+  };
+  attach(socket);
+
+  return {
+    // Waits for the next reply of the server
+    read(): Promise<SmtpReply> {
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          pending = null;
+          reject(new Error('Timeout della connessione SMTP.'));
+        }, SMTP_TIMEOUT_MS);
+        pending = {
+          resolve: (reply) => {
+            clearTimeout(timer);
+            resolve(reply);
+          },
+          reject: (error) => {
+            clearTimeout(timer);
+            reject(error);
+          },
+        };
+        settle();
+      });
+    },
+    // Moves the reader to another socket (after STARTTLS)
+    switchTo(target: net.Socket) {
+      detach(socket);
+      socket = target;
+      attach(target);
+    },
+  };
+}
+
+/**
+ * Prepares the message source for the DATA command: a leading dot is doubled (RFC 5321, 4.5.2).
+ */
+export function dotStuff(source: string): string {
+  return source
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+}
+
+/**
+ * Opens a TCP or TLS connection to the SMTP server.
+ */
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({
+          host: config.host,
+          port: config.port,
+          servername: config.host,
+          rejectUnauthorized: config.rejectUnauthorized !== false,
+        })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('Timeout della connessione SMTP.')));
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Upgrades a connection to TLS after STARTTLS.
+ */
+function upgradeToTls(socket: net.Socket, config: SmtpConfig): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({
+      socket,
+      servername: config.host,
+      rejectUnauthorized: config.rejectUnauthorized !== false,
+    });
+    secureSocket.once('secureConnect', () => resolve(secureSocket));
+    secureSocket.once('error', reject);
+  });
+}
+
+/**
+ * Creates a mailer sending the messages through an SMTP server.
+ *
+ * @param from - The sender of the messages.
+ * @param config - The SMTP server and its credentials.
+ * @returns The mailer instance.
+ */
+export function createSmtpMailer(from: string, config: SmtpConfig): Mailer {
+  return {
+    driver: 'smtp',
+    async send(message: MailMessage): Promise<void> {
+      let socket = await connect(config);
+      const reader = createReplyReader(socket);
+
+      // Sends a command and checks the code of the reply
+      const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+        if (line !== null) {
+          socket.write(`${line}\r\n`);
+        }
+        const reply = await reader.read();
+        if (!expected.includes(reply.code)) {
+          const shown = line && line.startsWith('AUTH') ? 'AUTH' : line;
+          throw new Error(`Risposta SMTP inattesa${shown ? ` a ${shown}` : ''}: ${reply.code} ${reply.lines.join(' ')}`);
+        }
+        return reply;
+      };
+
+      try {
+        await command(null, [220]);
+        let greeting = await command(`EHLO ${os.hostname()}`, [250]);
+
+        if (!config.secure && greeting.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+          await command('STARTTLS', [220]);
+          socket = await upgradeToTls(socket, config);
+          reader.switchTo(socket);
+          greeting = await command(`EHLO ${os.hostname()}`, [250]);
+        }
+
+        if (config.user) {
+          const credentials = Buffer.from(`\u0000${config.user}\u0000${config.password ?? ''}`, 'utf8').toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${extractAddress(from)}>`, [250]);
+        await command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+        await command('DATA', [354]);
+        await command(`${dotStuff(buildMimeMessage(from, message))}\r\n.`, [250]);
+        await command('QUIT', [221]).catch(() => undefined);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+// Mailer instance, created on first use
+let mailer: Mailer | null = null;
+
+/**
+ * Returns the mailer selected through MAIL_DRIVER ("console" by default).
+ *
+ * @returns The mailer instance.
+ * @throws If the driver is unknown or the SMTP configuration is incomplete.
+ */
+export function getMailer(): Mailer {
+  if (mailer) {
+    return mailer;
+  }
+
+  const from = process.env.MAIL_FROM || DEFAULT_MAIL_FROM;
+  const driver = (process.env.MAIL_DRIVER || 'console') as MailerDriver;
+  switch (driver) {
+    case 'console':
+      mailer = createConsoleMailer(from);
+      break;
+    case 'file':
+      mailer = createFileMailer(from, path.resolve(process.env.MAIL_FILE_DIR || './mail'));
+      break;
+    case 'smtp': {
+      const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD } = process.env;
+      if (!SMTP_HOST) {
+        throw new Error('Configurazione SMTP incompleta. Verifica la variabile SMTP_HOST.');
+      }
+      const port = parseInt(SMTP_PORT ?? '', 10);
+      mailer = createSmtpMailer(from, {
+        host: SMTP_HOST,
+        port: port > 0 ? port : 587,
+        secure: SMTP_SECURE === 'true',
+        user: SMTP_USER || undefined,
+        password: SMTP_PASSWORD || undefined,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Driver di invio email non supportato: ${driver}.`);
+  }
+  return mailer;
+}
@@ -0,0 +1,423 @@
+/**
+ * @fileoverview
+ * This module checks the formatting and the typographic consistency of a manuscript and builds
+ * a lint report: a list of concrete issues, each with its location in the extracted text.
+ *
+ * Key features:
+ * - lintManuscript: Runs all the checks on a parsed manuscript.
+ * - Checks for double spaces, mixed quotation marks (« » vs " "), straight versus typographic
+ *   apostrophes, inconsistent ellipses, orphan headings, empty PDF pages, very long paragraphs
+ *   and repeated words.
+ *
+ * @dependencies
+ * - backend/services/documentStructure.ts for the structured document and its sections.
+ * - backend/utils/textMetrics.ts for the word pattern.
+ *
+ * @notes
+ * - The consistency checks (quotation marks, apostrophes, ellipses) report the occurrences of the
+ *   styles used less often than the prevailing one.
+ * - At most MAX_ISSUES_PER_RULE issues are listed for each rule; "counts" holds the totals.
+ * - Issue messages are in Italian, as they are shown to the user.
+ */
+
+import type { DocumentSection, StructuredDocument } from './documentStructure';
+import { tokenizeWords, WORD_PATTERN } from '../utils/textMetrics';
+
+export type LintRule =
+  | 'double_space'
+  | 'mixed_quotes'
+  | 'mixed_apostrophes'
+  | 'inconsistent_ellipsis'
+  | 'orphan_heading'
+  | 'empty_page'
+  | 'long_paragraph'
+  | 'repeated_word';
+
+export const lintRules: LintRule[] = [
+  'double_space',
+  'mixed_quotes',
+  'mixed_apostrophes',
+  'inconsistent_ellipsis',
+  'orphan_heading',
+  'empty_page',
+  'long_paragraph',
+  'repeated_word',
+];
+
+/**
+ * Location of an issue.
+ */
+export interface LintLocation {
+  // Offset and line (from 1) in the extracted text; absent for the empty pages, which have no text
+  offset?: number;
+  line?: number;
+  // Heading of the enclosing section (chapter, front or back matter), null before the first one
+  section?: string | null;
+  // Page of the original file, for the formats with pages (PDF)
+  page?: number;
+}
+
+/**
+ * An issue found in the manuscript.
+ */
+export interface LintIssue {
+  rule: LintRule;
+  message: string;
+  location: LintLocation;
+  // The text around the issue
+  excerpt?: string;
+}
+
+/**
+ * Lint report of a manuscript.
+ */
+export interface LintReport {
+  // Number of issues found, including those beyond the listed ones
+  total: number;
+  counts: Record<LintRule, number>;
+  // Issues ordered by position, at most MAX_ISSUES_PER_RULE for each rule
+  issues: LintIssue[];
+}
+
+/**
+ * An issue before its location is resolved.
+ */
+interface Finding {
+  rule: LintRule;
+  message: string;
+  offset?: number;
+  length?: number;
+  page?: number;
+}
+
+/**
+ * An occurrence of a typographic style (e.g. a straight apostrophe).
+ */
+interface StyleOccurrence {
+  style: string;
+  offset: number;
+  length: number;
+}
+
+export const MAX_ISSUES_PER_RULE = 50;
+
+// Paragraphs longer than this number of words are reported
+export const MAX_PARAGRAPH_WORDS = 300;
+
+// Characters of context shown around an issue
+const EXCERPT_CONTEXT = 30;
+
+// Longest part of the issue itself shown in the excerpt
+const EXCERPT_MAX_LENGTH = 60;
+
+// Italian reduplications that repeat a word on purpose ("piano piano", "quasi quasi")
+const INTENTIONAL_REPETITIONS = new Set([
+  'piano', 'pian', 'via', 'quasi', 'così', 'ora', 'bene', 'poco', 'tanto', 'mano', 'passo', 'lento', 'zitto',
+  'zitti', 'subito', 'presto', 'adagio', 'forte', 'pure', 'sì', 'no', 'mai', 'già', 'su', 'giù', 'chissà',
+  'ciao', 'ah', 'oh', 'eh', 'ehi', 'ha', 'bla', 'toc', 'tic', 'tac', 'din', 'don',
+]);
+
+const QUOTE_STYLE_LABELS: Record<string, string> = {
+  guillemets: 'basse (« »)',
+  curly: 'alte (“ ”)',
+  straight: 'dritte (" ")',
+};
+
+const APOSTROPHE_STYLE_LABELS: Record<string, string> = {
+  straight: "dritto (')",
+  typographic: 'tipografico (’)',
+};
+
+const ELLIPSIS_STYLE_LABELS: Record<string, string> = {
+  dots: 'tre punti (...)',
+  character: 'il carattere unico (…)',
+};
+
+/**
+ * Returns the occurrences of the styles used less often than the prevailing one.
+ * Ties go to the style listed first in the labels.
+ */
+function findMinorityStyles(
+  occurrences: StyleOccurrence[],
+  labels: Record<string, string>
+): Array<StyleOccurrence & { prevailing: string }> {
+  const counts = new Map<string, number>();
+  for (const occurrence of occurrences) {
+    counts.set(occurrence.style, (counts.get(occurrence.style) ?? 0) + 1);
+  }
+  if (counts.size < 2) {
+    return [];
+  }
+  const prevailing = Object.keys(labels).reduce((best, style) =>
+    (counts.get(style) ?? 0) > (counts.get(best) ?? 0) ? style : best
+  );
+  return occurrences
+    .filter((occurrence) => occurrence.style !== prevailing)
+    .map((occurrence) => ({ ...occurrence, prevailing }));
+}
+
+/**
+ * Finds the runs of two or more spaces between two characters.
+ */
+function checkDoubleSpaces(text: string): Finding[] {
+  return Array.from(text.matchAll(/\S( {2,})(?=\S)/g), (match) => ({
+    rule: 'double_space' as const,
+    message: 'Spazi multipli consecutivi.',
+    offset: (match.index ?? 0) + 1,
+    length: match[1].length,
+  }));
+}
+
+/**
+ * Finds the opening quotation marks of the styles other than the prevailing one.
+ */
+function checkQuotes(text: string): Finding[] {
+  const occurrences: StyleOccurrence[] = Array.from(text.matchAll(/[\u00ab\u201c]/g), (match) => ({
+    style: match[0] === '\u00ab' ? 'guillemets' : 'curly',
+    offset: match.index ?? 0,
+    length: 1,
+  }));
+  // Straight quotes open and close with the same character: only the opening ones are counted
+  Array.from(text.matchAll(/"/g))
+    .filter((_match, index) => index % 2 === 0)
+    .forEach((match) => occurrences.push({ style: 'straight', offset: match.index ?? 0, length: 1 }));
+  occurrences.sort((a, b) => a.offset - b.offset);
+
+  return findMinorityStyles(occurrences, QUOTE_STYLE_LABELS).map((occurrence) => ({
+    rule: 'mixed_quotes',
+    message: `Virgolette ${QUOTE_STYLE_LABELS[occurrence.style]} in un testo che usa prevalentemente le virgolette ${
+      QUOTE_STYLE_LABELS[occurrence.prevailing]
+    }.`,
+    offset: occurrence.offset,
+    length: occurrence.length,
+  }));
+}
+
+/**
+ * Finds the apostrophes (between two letters) of the style other than the prevailing one.
+ */
+function checkApostrophes(text: string): Finding[] {
+  const occurrences = Array.from(
+    text.matchAll(/[A-Za-z\u00c0-\u024f](['\u2019])(?=[A-Za-z\u00c0-\u024f])/g),
+    (match) => ({
+      style: match[1] === "'" ? 'straight' : 'typographic',
+      offset: (match.index ?? 0) + 1,
+      length: 1,
+    })
+  );
+
+  return findMinorityStyles(occurrences, APOSTROPHE_STYLE_LABELS).map((occurrence) => ({
+    rule: 'mixed_apostrophes',
+    message: `Apostrofo ${APOSTROPHE_STYLE_LABELS[occurrence.style]} in un testo che usa prevalentemente l'apostrofo ${
+      APOSTROPHE_STYLE_LABELS[occurrence.prevailing]
+    }.`,
+    offset: occurrence.offset,
+    length: occurrence.length,
+  }));
+}
+
+/**
+ * Finds the malformed ellipses (two dots, four or more dots, spaced dots) and those written
+ * differently from the prevailing style.
+ */
+function checkEllipses(text: string): Finding[] {
+  const findings: Finding[] = [];
+  const occurrences: StyleOccurrence[] = [];
+  for (const match of Array.from(text.matchAll(/\u2026|\.{2,}|\.(?: \.){2,}/g))) {
+    const offset = match.index ?? 0;
+    if (match[0] === '\u2026') {
+      occurrences.push({ style: 'character', offset, length: 1 });
+    } else if (match[0] === '...') {
+      occurrences.push({ style: 'dots', offset, length: 3 });
+    } else {
+      findings.push({
+        rule: 'inconsistent_ellipsis',
+        message: `Puntini di sospensione irregolari ("${match[0]}"): usare tre punti o il carattere "…".`,
+        offset,
+        length: match[0].length,
+      });
+    }
+  }
+
+  const minority = findMinorityStyles(occurrences, ELLIPSIS_STYLE_LABELS).map((occurrence) => ({
+    rule: 'inconsistent_ellipsis' as const,
+    message: `Puntini di sospensione scritti con ${ELLIPSIS_STYLE_LABELS[occurrence.style]} in un testo che usa prevalentemente ${
+      ELLIPSIS_STYLE_LABELS[occurrence.prevailing]
+    }.`,
+    offset: occurrence.offset,
+    length: occurrence.length,
+  }));
+  return [...findings, ...minority];
+}
+
+/**
+ * Finds the headings without any text before the next heading of the same or a higher level,
+ * or at the end of the manuscript.
+ */
+function checkOrphanHeadings({ text, structure }: StructuredDocument): Finding[] {
+  // Structures built before the headings had an offset cannot be checked
+  const toc = structure.toc.filter((entry) => typeof entry.start === 'number');
+  const findings: Finding[] = [];
+  toc.forEach((entry, index) => {
+    const next = toc[index + 1];
+    const content = text.slice(entry.start + entry.heading.length, next ? next.start : text.length).trim();
+    if (!content && (!next || next.level <= entry.level)) {
+      findings.push({
+        rule: 'orphan_heading',
+        message: `Titolo "${entry.heading}" senza testo.`,
+        offset: entry.start,
+        length: entry.heading.length,
+      });
+    }
+  });
+  return findings;
+}
+
+/**
+ * Reports the pages without text found by the parser.
+ */
+function checkEmptyPages({ emptyPages = [] }: StructuredDocument): Finding[] {
+  return emptyPages.map((page) => ({
+    rule: 'empty_page',
+    message: `La pagina ${page} non contiene testo.`,
+    page,
+  }));
+}
+
+/**
+ * Finds the paragraphs longer than MAX_PARAGRAPH_WORDS words.
+ */
+function checkLongParagraphs(text: string): Finding[] {
+  const findings: Finding[] = [];
+  let offset = 0;
+  // split() with a capture group alternates: paragraph, separator, paragraph...
+  text.split(/(\n\s*\n)/).forEach((part, index) => {
+    if (index % 2 === 0) {
+      const wordCount = tokenizeWords(part).length;
+      if (wordCount > MAX_PARAGRAPH_WORDS) {
+        findings.push({
+          rule: 'long_paragraph',
+          message: `Paragrafo molto lungo (${wordCount} parole): valutare di suddividerlo.`,
+          offset,
+          length: part.length,
+        });
+      }
+    }
+    offset += part.length;
+  });
+  return findings;
+}
+
+/**
+ * Finds the words repeated one after the other within a paragraph ("il il"), except the
+ * intentional Italian reduplications.
+ */
+function checkRepeatedWords(text: string): Finding[] {
+  const findings: Finding[] = [];
+  const words = Array.from(text.matchAll(WORD_PATTERN));
+  for (let i = 1; i < words.length; i++) {
+    const previous = words[i - 1];
+    const current = words[i];
+    const previousStart = previous.index ?? 0;
+    const currentStart = current.index ?? 0;
+    const separator = text.slice(previousStart + previous[0].length, currentStart);
+    const word = current[0].toLowerCase();
+    if (
+      word === previous[0].toLowerCase() &&
+      /^[^\S\n]*\n?[^\S\n]*$/.test(separator) &&
+      separator.length > 0 &&
+      !INTENTIONAL_REPETITIONS.has(word)
+    ) {
+      findings.push({
+        rule: 'repeated_word',
+        message: `Parola ripetuta: "${previous[0]} ${current[0]}".`,
+        offset: previousStart,
+        length: currentStart + current[0].length - previousStart,
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Returns the offsets where the lines of a text start.
+ */
+function getLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Returns the line (from 1) of an offset, by binary search on the line starts.
+ */
+function getLineNumber(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low + 1;
+}
+
+/**
+ * Checks a parsed manuscript and returns its lint report.
+ *
+ * @param document - The structured document returned by the parser.
+ * @returns The lint report, with the issues ordered by position (the empty pages first).
+ */
+export function lintManuscript(document: StructuredDocument): LintReport {
+  const { text, structure } = document;
+  const findings = [
+    ...checkDoubleSpaces(text),
+    ...checkQuotes(text),
+    ...checkApostrophes(text),
+    ...checkEllipses(text),
+    ...checkOrphanHeadings(document),
+    ...checkEmptyPages(document),
+    ...checkLongParagraphs(text),
+    ...checkRepeatedWords(text),
+  ];
+
+  const counts = Object.fromEntries(lintRules.map((rule) => [rule, 0])) as Record<LintRule, number>;
+  for (const finding of findings) {
+    counts[finding.rule]++;
+  }
+
+  const sections: DocumentSection[] = [...structure.frontMatter, ...structure.chapters, ...structure.backMatter];
+  const lineStarts = getLineStarts(text);
+  const listed = lintRules.flatMap((rule) =>
+    findings
+      .filter((finding) => finding.rule === rule)
+      .sort((a, b) => (a.offset ?? 0) - (b.offset ?? 0))
+      .slice(0, MAX_ISSUES_PER_RULE)
+  );
+
+  const issues = listed
+    .sort((a, b) => (a.offset ?? -1) - (b.offset ?? -1) || (a.page ?? 0) - (b.page ?? 0))
+    .map((finding): LintIssue => {
+      if (finding.offset === undefined) {
+        return { rule: finding.rule, message: finding.message, location: { page: finding.page } };
+      }
+      const offset = finding.offset;
+      const section = sections.find((candidate) => offset >= candidate.start && offset <= candidate.end);
+      const excerptEnd = offset + Math.min(finding.length ?? 0, EXCERPT_MAX_LENGTH) + EXCERPT_CONTEXT;
+      return {
+        rule: finding.rule,
+        message: finding.message,
+        location: { offset, line: getLineNumber(lineStarts, offset), section: section ? section.heading : null },
+        excerpt: text.slice(Math.max(0, offset - EXCERPT_CONTEXT), excerptEnd).replace(/\n+/g, ' ').trim(),
+      };
+    });
+
+  return { total: findings.length, counts, issues };
+}
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview
+ * This module provides the OCR fallback for scanned PDFs, whose pages are images without a text layer.
+ * It runs offline: every page is rendered to an image with pdftoppm (Poppler) and recognized with
+ * Tesseract, one page at a time, using the Italian language data by default.
+ *
+ * Key features:
+ * - getOcrConfig: Reads the OCR settings from the environment.
+ * - findPagesToOcr: Detects a scanned document from the amount of text per page and returns the
+ *   pages to recognize.
+ * - recognizePdfPages: Recognizes the text of the given pages, with the confidence of Tesseract.
+ * - parseTesseractTsv: Rebuilds the lines and paragraphs of a page from the TSV output of Tesseract.
+ * - summarizeOcr: Builds the summary stored in the file metadata (recognized pages and confidence).
+ *
+ * @dependencies
+ * - child_process for running pdftoppm and tesseract.
+ * - fs, os and path for the temporary files of the rendered pages.
+ *
+ * @notes
+ * - The tools must be installed on the machine running the worker (e.g. the poppler-utils,
+ *   tesseract-ocr and tesseract-ocr-ita packages); no network access is needed.
+ * - Settings: OCR_ENABLED ("false" disables the fallback), OCR_LANGUAGE (default "ita"),
+ *   OCR_TESSDATA_DIR (directory of the language data, if not the default one), OCR_DPI (default 300),
+ *   TESSERACT_PATH and PDFTOPPM_PATH (default: found in the PATH).
+ * - Confidences range from 0 to 100, as reported by Tesseract for each word.
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * OCR settings.
+ */
+export interface OcrConfig {
+  enabled: boolean;
+  // Tesseract language codes, joined by "+" (e.g. "ita" or "ita+eng")
+  language: string;
+  tessdataDir?: string;
+  dpi: number;
+  tesseractPath: string;
+  pdftoppmPath: string;
+}
+
+/**
+ * Text recognized in a page.
+ */
+export interface OcrPageResult {
+  // Page number, from 1
+  page: number;
+  text: string;
+  // Average confidence of the recognized words, from 0 to 100
+  confidence: number;
+  wordCount: number;
+}
+
+/**
+ * Summary of the OCR of a document, stored in the file metadata.
+ */
+export interface OcrSummary {
+  engine: 'tesseract';
+  language: string;
+  // Pages recognized with the OCR, numbered from 1
+  pages: number[];
+  // Average confidence of the recognized words, from 0 to 100
+  confidence: number;
+}
+
+// Below this average number of letters per page, the PDF is considered a scan
+export const MIN_LETTERS_PER_PAGE = 100;
+
+// Time allowed to render or recognize a single page
+const PAGE_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Largest output accepted from tesseract for a page
+const MAX_OUTPUT_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Reads the OCR settings from the environment.
+ */
+export function getOcrConfig(): OcrConfig {
+  const dpi = parseInt(process.env.OCR_DPI ?? '', 10);
+  return {
+    enabled: process.env.OCR_ENABLED !== 'false',
+    language: process.env.OCR_LANGUAGE || 'ita',
+    tessdataDir: process.env.OCR_TESSDATA_DIR || undefined,
+    dpi: dpi > 0 ? dpi : 300,
+    tesseractPath: process.env.TESSERACT_PATH || 'tesseract',
+    pdftoppmPath: process.env.PDFTOPPM_PATH || 'pdftoppm',
+  };
+}
+
+/**
+ * Counts the letters of a text, accented ones included.
+ */
+function countLetters(text: string): number {
+  return (text.match(/[A-Za-z\u00c0-\u024f]/g) ?? []).length;
+}
+
+/**
+ * Detects a scanned PDF from the text extracted from its pages: when the average number of letters
+ * per page is below MIN_LETTERS_PER_PAGE, the pages below that amount must be recognized.
+ *
+ * @param pageTexts - The text of each page, in page order.
+ * @returns The numbers (from 1) of the pages to recognize, or an empty list if the PDF has a text layer.
+ */
+export function findPagesToOcr(pageTexts: string[]): number[] {
+  if (pageTexts.length === 0) {
+    return [];
+  }
+  const letters = pageTexts.map(countLetters);
+  const total = letters.reduce((sum, count) => sum + count, 0);
+  if (total / pageTexts.length >= MIN_LETTERS_PER_PAGE) {
+    return [];
+  }
+  return letters
+    .map((count, index) => (count < MIN_LETTERS_PER_PAGE ? index + 1 : 0))
+    .filter((page) => page > 0);
+}
+
+/**
+ * Rebuilds the text of a page from the TSV output of Tesseract: words of the same line are joined
+ * by a space, lines by a new line and paragraphs by an empty line.
+ *
+ * @param tsv - The output of "tesseract <image> stdout tsv".
+ * @returns The text of the page, the average confidence of its words and their number.
+ */
+export function parseTesseractTsv(tsv: string): Omit<OcrPageResult, 'page'> {
+  const paragraphs: string[][] = [];
+  let currentParagraph = '';
+  let currentLine = '';
+  let confidenceSum = 0;
+  let wordCount = 0;
+
+  for (const row of tsv.split(/\r?\n/).slice(1)) {
+    const columns = row.split('\t');
+    // Columns: level, page_num, block_num, par_num, line_num, word_num, left, top, width, height, conf, text
+    if (columns.length < 12 || columns[0] !== '5') {
+      continue;
+    }
+    const word = columns.slice(11).join('\t').trim();
+    const confidence = parseFloat(columns[10]);
+    if (!word || !(confidence >= 0)) {
+      continue;
+    }
+
+    const paragraphKey = `${columns[2]}.${columns[3]}`;
+    const lineKey = `${paragraphKey}.${columns[4]}`;
+    if (paragraphKey !== currentParagraph) {
+      paragraphs.push([word]);
+    } else if (lineKey !== currentLine) {
+      paragraphs[paragraphs.length - 1].push(word);
+    } else {
+      const lines = paragraphs[paragraphs.length - 1];
+      lines[lines.length - 1] += ` ${word}`;
+    }
+    currentParagraph = paragraphKey;
+    currentLine = lineKey;
+    confidenceSum += confidence;
+    wordCount++;
+  }
+
+  return {
+    text: paragraphs.map((lines) => lines.join('\n')).join('\n\n'),
+    confidence: wordCount > 0 ? Math.round((confidenceSum / wordCount) * 10) / 10 : 0,
+    wordCount,
+  };
+}
+
+/**
+ * Recognizes the text of some pages of a PDF, one page at a time.
+ *
+ * @param fileBuffer - Buffer containing the PDF file data.
+ * @param pages - The numbers (from 1) of the pages to recognize.
+ * @param config - The OCR settings (by default, those of the environment).
+ * @returns A promise that resolves with the text and the confidence of each page.
+ * @throws If a page cannot be rendered or recognized (e.g. the tools are not installed).
+ */
+export async function recognizePdfPages(
+  fileBuffer: Buffer,
+  pages: number[],
+  config: OcrConfig = getOcrConfig()
+): Promise<OcrPageResult[]> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ycp-ocr-'));
+  try {
+    const pdfPath = path.join(workDir, 'document.pdf');
+    await fs.promises.writeFile(pdfPath, fileBuffer);
+
+    const results: OcrPageResult[] = [];
+    for (const page of pages) {
+      // pdftoppm adds the extension to the output prefix when a single page is rendered
+      const imagePrefix = path.join(workDir, `page-${page}`);
+      await execFileAsync(
+        config.pdftoppmPath,
+        ['-f', String(page), '-l', String(page), '-r', String(config.dpi), '-gray', '-png', '-singlefile', pdfPath, imagePrefix],
+        { timeout: PAGE_TIMEOUT_MS }
+      );
+
+      const imagePath = `${imagePrefix}.png`;
+      const { stdout } = await execFileAsync(
+        config.tesseractPath,
+        [
+          imagePath,
+          'stdout',
+          '-l',
+          config.language,
+          ...(config.tessdataDir ? ['--tessdata-dir', config.tessdataDir] : []),
+          'tsv',
+        ],
+        { timeout: PAGE_TIMEOUT_MS, maxBuffer: MAX_OUTPUT_BYTES }
+      );
+      results.push({ page, ...parseTesseractTsv(String(stdout)) });
+
+      // Rendered pages are large: remove each one as soon as it has been recognized
+      await fs.promises.rm(imagePath, { force: true });
+    }
+    return results;
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Builds the summary of the OCR of a document.
+ *
+ * @param results - The recognized pages.
+ * @param language - The Tesseract language used.
+ * @returns The recognized pages and the average confidence, weighted by the words of each page.
+ */
+export function summarizeOcr(results: OcrPageResult[], language: string): OcrSummary {
+  const words = results.reduce((sum, result) => sum + result.wordCount, 0);
+  const weighted = results.reduce((sum, result) => sum + result.confidence * result.wordCount, 0);
+  return {
+    engine: 'tesseract',
+    language,
+    pages: results.map((result) => result.page),
+    confidence: words > 0 ? Math.round((weighted / words) * 10) / 10 : 0,
+  };
+}
@@ -1,22 +1,59 @@
 /**
  * @fileoverview
- * This service handles interactions with the OpenAI API for generating AI content.
+ * This service handles the generation of AI content.
  * It provides separate functions for each content type (blurb, description, keywords, categories, foreword, analysis)
- * and uses a centralized helper function to perform the API call with proper error handling.
+ * and uses a centralized helper function to call the configured LLM provider with proper error handling.
  *
  * @dependencies
- * - fetch for HTTP requests.
+ * - backend/services/llmProviders.ts for the provider (OpenAI, OpenAI-compatible server or mock) and model selection.
+ * - backend/services/catalogService.ts for the category taxonomy used by generateCategories.
+ * - backend/services/promptTemplateService.ts for the built-in prompt templates and their rendering.
+ * - backend/utils/textChunker.ts for the token estimate of the catalog.
  *
  * @notes
- * - Ensure that the environment variable OPENAI_API_KEY is set.
- * - The response from OpenAI is now strongly typed using the defined interfaces.
+ * - Ensure that the environment variable OPENAI_API_KEY is set when using the OpenAI provider.
+ * - The provider and the model can be chosen per content type (see llmProviders.ts).
+ * - Free-text generators accept an output language and a custom template (see PromptOptions);
+ *   the built-in template of the language is used otherwise. Categories are language-neutral codes.
  */
 
+import { getLlmProvider, resolveLlmSelection, LlmProvider, LlmRequest } from './llmProviders';
+import {
+  getCurrentCatalog,
+  formatCatalogForPrompt,
+  parseCatalogBranches,
+  selectCatalogBranches,
+  validateCategoryAssignment,
+  CatalogData,
+  SUBCATEGORY_COUNT,
+} from './catalogService';
+import { validateKeywords, KDP_KEYWORD_COUNT, KDP_KEYWORD_MAX_BYTES } from './keywordService';
+import { defaultMaxWords, defaultPromptTemplates, renderPromptTemplate } from './promptTemplateService';
+import { estimateTokens } from '../utils/textChunker';
+
 export type GenerationType = 'blurb' | 'description' | 'keywords' | 'categories' | 'foreword' | 'analysis';
 
-const OPENAI_API_KEY: string = process.env.OPENAI_API_KEY || '';
+/**
+ * Languages the content can be generated in (ISO 639-1 codes).
+ * Italian is the default; the others are used for the translated editions.
+ */
+export type OutputLanguage = 'it' | 'en' | 'es' | 'de' | 'fr';
+
+export const outputLanguages: OutputLanguage[] = ['it', 'en', 'es', 'de', 'fr'];
+
+// System prompt of each output language
+const systemPrompts: Record<OutputLanguage, string> = {
+  it: 'Sei un assistente esperto nella generazione di contenuti per libri in italiano.',
+  en: 'You are an expert assistant who writes book marketing content in English. Always answer in English, whatever the language of the source text.',
+  es: 'Eres un asistente experto en la redacción de contenidos para libros en español. Responde siempre en español, sea cual sea el idioma del texto de origen.',
+  de: 'Du bist ein erfahrener Assistent für das Verfassen von Buchinhalten auf Deutsch. Antworte immer auf Deutsch, unabhängig von der Sprache des Ausgangstextes.',
+  fr: 'Tu es un assistant expert dans la rédaction de contenus pour les livres en français. Réponds toujours en français, quelle que soit la langue du texte source.',
+};
+
+// Internal content types: besides the user-facing generations, chunk summaries of long manuscripts
+type ContentType = GenerationType | 'summary';
 
-const generationConfig: Record<GenerationType, { temperature: number; max_tokens: number }> = {
+const generationConfig: Record<ContentType, { temperature: number; max_tokens: number }> = {
   blurb: {
     temperature: process.env.OPENAI_BLURB_TEMPERATURE ? parseFloat(process.env.OPENAI_BLURB_TEMPERATURE) : 0.7,
     max_tokens: process.env.OPENAI_BLURB_MAX_TOKENS ? parseInt(process.env.OPENAI_BLURB_MAX_TOKENS, 10) : 500,
@@ -41,44 +78,95 @@ const generationConfig: Record<GenerationType, { temperature: number; max_tokens
     temperature: process.env.OPENAI_ANALYSIS_TEMPERATURE ? parseFloat(process.env.OPENAI_ANALYSIS_TEMPERATURE) : 0.8,
     max_tokens: process.env.OPENAI_ANALYSIS_MAX_TOKENS ? parseInt(process.env.OPENAI_ANALYSIS_MAX_TOKENS, 10) : 600,
   },
+  summary: {
+    temperature: process.env.OPENAI_SUMMARY_TEMPERATURE ? parseFloat(process.env.OPENAI_SUMMARY_TEMPERATURE) : 0.3,
+    max_tokens: process.env.OPENAI_SUMMARY_MAX_TOKENS ? parseInt(process.env.OPENAI_SUMMARY_MAX_TOKENS, 10) : 700,
+  },
 };
 
+// Maximum number of attempts to obtain a category assignment that matches the catalog
+const MAX_CATEGORY_ATTEMPTS = 3;
+
+// Largest catalog listed whole in the categories prompt, in estimated tokens; a larger catalog
+// (e.g. the full BISAC or Thema list) is first narrowed to a few top-level categories
+const CATALOG_PROMPT_MAX_TOKENS = 6000;
+
+// Number of top-level categories whose subtrees are listed when the catalog is narrowed
+const CATALOG_BRANCH_COUNT = 3;
+
+// Maximum number of attempts to obtain a keyword list that respects the KDP rules
+const MAX_KEYWORD_ATTEMPTS = 3;
 /**
- * Interface representing a single choice in the OpenAI API response.
+ * Generation types whose prompt is built from a template (see promptTemplateService.ts).
+ * Categories are excluded because their prompt is built from the catalog.
  */
-interface OpenAIChoice {
-  message: {
-    content: string;
-  };
+export type TemplateGenerationType = Exclude<GenerationType, 'categories'>;
+
+export const templateGenerationTypes: TemplateGenerationType[] = [
+  'blurb',
+  'description',
+  'keywords',
+  'foreword',
+  'analysis',
+];
+
+/**
+ * Free-text generation types, whose output can be streamed as it is produced.
+ * Categories and keywords are excluded because their JSON reply must be validated as a whole.
+ */
+export type StreamableGenerationType = Exclude<TemplateGenerationType, 'keywords'>;
+
+export const streamableGenerationTypes: StreamableGenerationType[] = ['blurb', 'description', 'foreword', 'analysis'];
+
+/**
+ * Options of the template-based generators: the output language, the template to use instead
+ * of the built-in one and the values of its optional variables.
+ */
+export interface PromptOptions {
+  language?: OutputLanguage;
+  template?: string;
+  title?: string;
+  audience?: string;
+  maxWords?: number;
 }
 
 /**
- * Interface representing the structure of the OpenAI API response.
+ * Builds the prompt of a template-based generation type from its template.
  */
-interface OpenAIResponse {
-  choices: OpenAIChoice[];
+function _buildPrompt(type: TemplateGenerationType, extractedText: string, options: PromptOptions): string {
+  return renderPromptTemplate(options.template ?? defaultPromptTemplates[options.language ?? 'it'][type], {
+    text: extractedText,
+    title: options.title,
+    audience: options.audience,
+    maxWords: options.maxWords ?? defaultMaxWords[type],
+  });
 }
 
 /**
- * Private helper function to generate content using the OpenAI API.
+ * Private helper function that selects the provider for a content type and builds the request.
+ * Configuration errors (unknown provider, missing API key) are thrown as they are.
  *
- * @param prompt - The prompt to send to the API.
- * @param type - The generation type, used to select the appropriate configuration.
- * @returns A promise that resolves with the generated content as a string.
+ * @param prompt - The prompt to send to the model.
+ * @param type - The content type, used to select the provider, the model and the generation settings.
+ * @param language - The language the model must write in.
+ * @returns The provider and the request to send to it.
  */
-async function _generateContent(prompt: string, type: GenerationType): Promise<string> {
-  if (!OPENAI_API_KEY) {
-    throw new Error('La chiave API OpenAI non è impostata. Verifica la configurazione.');
-  }
+function _prepareRequest(
+  prompt: string,
+  type: ContentType,
+  language: OutputLanguage = 'it'
+): { provider: LlmProvider; request: LlmRequest } {
+  const { provider: providerName, model } = resolveLlmSelection(type);
+  const provider = getLlmProvider(providerName);
 
   const { temperature, max_tokens } = generationConfig[type];
 
-  const requestBody = {
-    model: 'gpt-3.5-turbo',
+  const request: LlmRequest = {
+    model,
     messages: [
       {
         role: 'system',
-        content: 'Sei un assistente esperto nella generazione di contenuti per libri in italiano.',
+        content: systemPrompts[language],
       },
       {
         role: 'user',
@@ -89,96 +177,207 @@ async function _generateContent(prompt: string, type: GenerationType): Promise<s
     max_tokens,
   };
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorDetails = await response.text();
-      throw new Error(`Errore nella chiamata all'API OpenAI: ${response.status} - ${errorDetails}`);
-    }
+  return { provider, request };
+}
 
-    const data: OpenAIResponse = await response.json();
-    const generatedText = data.choices && data.choices[0]?.message?.content;
-    if (!generatedText) {
-      throw new Error('Risposta dell\'API OpenAI non valida.');
-    }
+/**
+ * Private helper function to generate content through the LLM provider configured for the type.
+ *
+ * @param prompt - The prompt to send to the model.
+ * @param type - The content type, used to select the provider, the model and the generation settings.
+ * @param language - The language the model must write in.
+ * @returns A promise that resolves with the generated content as a string.
+ */
+async function _generateContent(prompt: string, type: ContentType, language: OutputLanguage = 'it'): Promise<string> {
+  const { provider, request } = _prepareRequest(prompt, type, language);
 
-    return generatedText;
+  try {
+    return await provider.complete(request);
   } catch (error: any) {
     console.error('Errore durante la generazione del contenuto:', error);
     throw new Error('Impossibile generare il contenuto al momento.');
   }
 }
 
+/**
+ * Generates free-text content as a stream of text deltas, passed through from the provider.
+ *
+ * @param type - The generation type.
+ * @param extractedText - The extracted text from the book.
+ * @param signal - Optional signal used to abort the upstream request.
+ * @param options - Optional custom template and variables.
+ * @returns An async iterable of the text deltas, in order.
+ * @throws An AbortError when the signal is aborted, or a generic error if the generation fails.
+ */
+export async function* streamGeneration(
+  type: StreamableGenerationType,
+  extractedText: string,
+  signal?: AbortSignal,
+  options: PromptOptions = {}
+): AsyncIterable<string> {
+  const { provider, request } = _prepareRequest(_buildPrompt(type, extractedText, options), type, options.language);
+
+  try {
+    yield* provider.stream(request, signal);
+  } catch (error: any) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    console.error('Errore durante la generazione del contenuto in streaming:', error);
+    throw new Error('Impossibile generare il contenuto al momento.');
+  }
+}
+
 /**
  * Generates a book blurb.
  *
  * @param extractedText - The extracted text from the book.
+ * @param options - Optional custom template and variables.
  * @returns A promise that resolves with the generated blurb.
  */
-export async function generateBlurb(extractedText: string): Promise<string> {
-  const prompt = `Genera un testo accattivante per la copertina posteriore del libro basandoti sul seguente contenuto:\n\n${extractedText}`;
-  return _generateContent(prompt, 'blurb');
+export async function generateBlurb(extractedText: string, options: PromptOptions = {}): Promise<string> {
+  return _generateContent(_buildPrompt('blurb', extractedText, options), 'blurb', options.language);
 }
 
 /**
  * Generates a book description.
  *
  * @param extractedText - The extracted text from the book.
+ * @param options - Optional custom template and variables.
  * @returns A promise that resolves with the generated description.
  */
-export async function generateDescription(extractedText: string): Promise<string> {
-  const prompt = `Genera una descrizione convincente per la pagina prodotto di un libro (ad esempio, su Amazon) basata sul seguente contenuto:\n\n${extractedText}`;
-  return _generateContent(prompt, 'description');
+export async function generateDescription(extractedText: string, options: PromptOptions = {}): Promise<string> {
+  return _generateContent(_buildPrompt('description', extractedText, options), 'description', options.language);
 }
 
 /**
- * Generates a set of keywords for the book.
+ * Generates the seven backend keywords of the book for Amazon KDP.
+ * The reply is validated against the KDP rules (see keywordService.ts) and the request is retried,
+ * reporting the problems found, until enough valid phrases are returned.
  *
  * @param extractedText - The extracted text from the book.
- * @returns A promise that resolves with the generated keywords.
+ * @param options - Optional custom template and variables; the title is used to reject repeated words.
+ * @returns A promise that resolves with exactly KDP_KEYWORD_COUNT keyword phrases.
+ * @throws If no valid keyword list is obtained after MAX_KEYWORD_ATTEMPTS attempts.
  */
-export async function generateKeywords(extractedText: string): Promise<string> {
-  const prompt = `Genera un insieme di parole chiave rilevanti per il libro basato sul seguente contenuto:\n\n${extractedText}`;
-  return _generateContent(prompt, 'keywords');
+export async function generateKeywords(extractedText: string, options: PromptOptions = {}): Promise<string[]> {
+  const basePrompt = `${_buildPrompt('keywords', extractedText, options)}\n\nRispondi solo con un array JSON di ${KDP_KEYWORD_COUNT} frasi chiave distinte per gli slot di Amazon KDP, ciascuna di al massimo ${KDP_KEYWORD_MAX_BYTES} byte. Non ripetere parole del titolo${options.title ? ` ("${options.title}")` : ''} e non usare termini promozionali come "bestseller" o "gratis".`;
+
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= MAX_KEYWORD_ATTEMPTS; attempt++) {
+    const prompt = errors.length > 0
+      ? `${basePrompt}\n\nLa risposta precedente non era valida: ${errors.join(' ')}`
+      : basePrompt;
+
+    const reply = await _generateContent(prompt, 'keywords', options.language);
+    const result = validateKeywords(reply, { title: options.title });
+    if (result.valid && result.keywords) {
+      return result.keywords;
+    }
+
+    errors = result.errors;
+    console.warn(`Parole chiave non valide (tentativo ${attempt}/${MAX_KEYWORD_ATTEMPTS}):`, errors);
+  }
+
+  throw new Error('Le parole chiave generate non rispettano le regole di KDP.');
 }
 
 /**
- * Generates categories for the book.
+ * Narrows a catalog too large for the categories prompt: the model picks the CATALOG_BRANCH_COUNT
+ * top-level categories closest to the book, and only their subtrees are kept.
  *
+ * @param catalog - The catalog tree.
  * @param extractedText - The extracted text from the book.
- * @returns A promise that resolves with the generated categories in JSON format.
+ * @returns A promise that resolves with the catalog to list in the categories prompt.
+ * @throws If the model does not pick any top-level category after MAX_CATEGORY_ATTEMPTS attempts.
+ */
+async function _narrowCatalog(catalog: CatalogData, extractedText: string): Promise<CatalogData> {
+  if (estimateTokens(formatCatalogForPrompt(catalog)) <= CATALOG_PROMPT_MAX_TOKENS) {
+    return catalog;
+  }
+
+  const prompt = `Indica fino a ${CATALOG_BRANCH_COUNT} sezioni del seguente catalogo in cui cercare le categorie del libro:\n\n${formatCatalogForPrompt(catalog, 1)}\n\nBasati sul seguente contenuto:\n\n${extractedText}\n\nRispondi solo con un array JSON dei codici delle sezioni, dalla più adatta.`;
+  for (let attempt = 1; attempt <= MAX_CATEGORY_ATTEMPTS; attempt++) {
+    const branches = parseCatalogBranches(await _generateContent(prompt, 'categories'), catalog, CATALOG_BRANCH_COUNT);
+    if (branches.length > 0) {
+      return selectCatalogBranches(catalog, branches);
+    }
+    console.warn(`Sezioni del catalogo non valide (tentativo ${attempt}/${MAX_CATEGORY_ATTEMPTS}).`);
+  }
+
+  throw new Error('Le categorie generate non corrispondono al catalogo.');
+}
+
+/**
+ * Generates categories for the book, constrained to the taxonomy stored in the Catalog table.
+ * A large catalog is first narrowed to the top-level categories closest to the book (see _narrowCatalog).
+ * The reply is validated against the catalog and the request is retried, reporting the
+ * problems found, when it contains unknown codes.
+ *
+ * @param extractedText - The extracted text from the book.
+ * @returns A promise that resolves with the generated categories in JSON format ("main" and "sub").
+ * @throws If no catalog is available or no valid assignment is obtained after MAX_CATEGORY_ATTEMPTS attempts.
  */
 export async function generateCategories(extractedText: string): Promise<string> {
-  const prompt = `Assegna una categoria principale e due sottocategorie per il libro dal catalogo, basandoti sul seguente contenuto:\n\n${extractedText}\n\nRispondi in formato JSON con "main" per la categoria principale e "sub" come array per le sottocategorie.`;
-  return _generateContent(prompt, 'categories');
+  const fullCatalog = await getCurrentCatalog();
+  if (!fullCatalog) {
+    throw new Error('Nessun catalogo delle categorie disponibile.');
+  }
+  const catalog = await _narrowCatalog(fullCatalog, extractedText);
+
+  const basePrompt = `Assegna una categoria principale e ${SUBCATEGORY_COUNT} sottocategorie per il libro scegliendole esclusivamente tra i codici del seguente catalogo:\n\n${formatCatalogForPrompt(catalog)}\n\nBasati sul seguente contenuto:\n\n${extractedText}\n\nRispondi solo in formato JSON con "main" per il codice della categoria principale e "sub" come array dei codici delle sottocategorie.`;
+
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= MAX_CATEGORY_ATTEMPTS; attempt++) {
+    const prompt = errors.length > 0
+      ? `${basePrompt}\n\nLa risposta precedente non era valida: ${errors.join(' ')} Usa solo codici presenti nel catalogo.`
+      : basePrompt;
+
+    const reply = await _generateContent(prompt, 'categories');
+    const result = validateCategoryAssignment(reply, catalog);
+    if (result.valid && result.assignment) {
+      return JSON.stringify(result.assignment);
+    }
+
+    errors = result.errors;
+    console.warn(`Categorie non valide (tentativo ${attempt}/${MAX_CATEGORY_ATTEMPTS}):`, errors);
+  }
+
+  throw new Error('Le categorie generate non corrispondono al catalogo.');
 }
 
 /**
  * Generates a foreword for the book.
  *
  * @param extractedText - The extracted text from the book.
+ * @param options - Optional custom template and variables.
  * @returns A promise that resolves with the generated foreword.
  */
-export async function generateForeword(extractedText: string): Promise<string> {
-  const prompt = `Genera un prologo coinvolgente per il libro basandoti sul seguente contenuto:\n\n${extractedText}`;
-  return _generateContent(prompt, 'foreword');
+export async function generateForeword(extractedText: string, options: PromptOptions = {}): Promise<string> {
+  return _generateContent(_buildPrompt('foreword', extractedText, options), 'foreword', options.language);
 }
 
 /**
  * Generates an in-depth analysis of the book.
  *
  * @param extractedText - The extracted text from the book.
+ * @param options - Optional custom template and variables.
  * @returns A promise that resolves with the generated analysis.
  */
-export async function generateAnalysis(extractedText: string): Promise<string> {
-  const prompt = `Fornisci un'analisi approfondita del libro basandoti sul seguente contenuto:\n\n${extractedText}`;
-  return _generateContent(prompt, 'analysis');
+export async function generateAnalysis(extractedText: string, options: PromptOptions = {}): Promise<string> {
+  return _generateContent(_buildPrompt('analysis', extractedText, options), 'analysis', options.language);
+}
+
+/**
+ * Summarises a single chunk of a long manuscript, as the map step of the
+ * summarisation performed before the generation.
+ *
+ * @param chunk - The text of the chunk.
+ * @param index - The position of the chunk in the manuscript (starting from 0).
+ * @param total - The total number of chunks.
+ * @returns A promise that resolves with the summary of the chunk.
+ */
+export async function summarizeChunk(chunk: string, index: number, total: number): Promise<string> {
+  const prompt = `Riassumi la seguente parte (${index + 1} di ${total}) di un manoscritto, conservando trama, personaggi, ambientazione, temi e tono:\n\n${chunk}`;
+  return _generateContent(prompt, 'summary');
 }
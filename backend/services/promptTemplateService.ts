@@ -0,0 +1,439 @@
+/**
+ * @fileoverview
+ * This module manages the prompt templates used for the free-text generations
+ * (blurb, description, keywords, foreword, analysis).
+ * Templates are stored in the PromptTemplates table for a generation type and an output language,
+ * and belong either to a single user or to a whole imprint; generation falls back to the built-in
+ * defaults when none is defined.
+ *
+ * Key features:
+ * - defaultPromptTemplates: The built-in templates of every free-text generation type, per output language.
+ * - renderPromptTemplate / validatePromptTemplate: Fill in and check the {{variable}} placeholders.
+ * - resolvePromptTemplate: Chooses the template for a user (user template, then imprint template, then default).
+ * - resolvePromptOptions: Collects the template and the variables of a generation request.
+ * - defaultBookTitle: The title used when a request does not give one.
+ * - CRUD helpers used by the /api/templates endpoints, with the checks of who can see and manage a template.
+ *
+ * @dependencies
+ * - Drizzle ORM for database operations.
+ * - The PromptTemplates and Users models.
+ * - The database connection instance from backend/db.ts.
+ * - backend/services/accessService.ts for the roles of the users.
+ *
+ * @notes
+ * - Supported variables: {{text}} (required), {{title}}, {{audience}} and {{maxWords}}.
+ * - Variables without a value are replaced by an empty string.
+ * - Categories have no template, since their prompt is built from the catalog and validated against it.
+ * - Imprint templates are used by all the members of the imprint but managed by its editors; admins manage every template.
+ */
+
+import { and, eq, or } from 'drizzle-orm';
+import { db } from '../db';
+import { PromptTemplates } from '../models/PromptTemplate';
+import { Users } from '../models/User';
+import type { UserAccess } from './accessService';
+import type { OutputLanguage, PromptOptions, TemplateGenerationType } from './openaiService';
+
+export type TemplateScope = 'user' | 'imprint';
+
+export type PromptTemplateRecord = typeof PromptTemplates.$inferSelect;
+
+export type TemplateVariable = 'text' | 'title' | 'audience' | 'maxWords';
+
+export const templateVariables: TemplateVariable[] = ['text', 'title', 'audience', 'maxWords'];
+
+/**
+ * Values of the template variables for a single generation.
+ */
+export interface PromptVariables {
+  text: string;
+  title?: string;
+  audience?: string;
+  maxWords?: number;
+}
+
+// Maximum length of a stored template, in characters
+const MAX_TEMPLATE_LENGTH = 10000;
+
+// Upper bound accepted for {{maxWords}}
+const MAX_WORDS_LIMIT = 2000;
+
+// Matches a {{variable}} placeholder, allowing spaces inside the braces
+const PLACEHOLDER = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+// Built-in templates, one set per output language
+export const defaultPromptTemplates: Record<OutputLanguage, Record<TemplateGenerationType, string>> = {
+  it: {
+    blurb:
+      'Genera un testo accattivante per la copertina posteriore del libro basandoti sul seguente contenuto:\n\n{{text}}',
+    description:
+      'Genera una descrizione convincente per la pagina prodotto di un libro (ad esempio, su Amazon) basata sul seguente contenuto:\n\n{{text}}',
+    keywords: 'Genera un insieme di parole chiave rilevanti per il libro basato sul seguente contenuto:\n\n{{text}}',
+    foreword: 'Genera un prologo coinvolgente per il libro basandoti sul seguente contenuto:\n\n{{text}}',
+    analysis: "Fornisci un'analisi approfondita del libro basandoti sul seguente contenuto:\n\n{{text}}",
+  },
+  en: {
+    blurb: 'Write a compelling back-cover blurb in English for the book, based on the following content:\n\n{{text}}',
+    description:
+      'Write a persuasive English product page description for the book (for example, on Amazon), based on the following content:\n\n{{text}}',
+    keywords:
+      'Generate a set of relevant English search keywords for the book, based on the following content:\n\n{{text}}',
+    foreword: 'Write an engaging foreword in English for the book, based on the following content:\n\n{{text}}',
+    analysis: 'Provide an in-depth analysis of the book in English, based on the following content:\n\n{{text}}',
+  },
+  es: {
+    blurb:
+      'Escribe en español un texto atractivo para la contraportada del libro, basándote en el siguiente contenido:\n\n{{text}}',
+    description:
+      'Escribe en español una descripción convincente para la página de producto del libro (por ejemplo, en Amazon), basándote en el siguiente contenido:\n\n{{text}}',
+    keywords:
+      'Genera en español un conjunto de palabras clave relevantes para el libro, basándote en el siguiente contenido:\n\n{{text}}',
+    foreword: 'Escribe en español un prólogo cautivador para el libro, basándote en el siguiente contenido:\n\n{{text}}',
+    analysis: 'Ofrece en español un análisis profundo del libro, basándote en el siguiente contenido:\n\n{{text}}',
+  },
+  de: {
+    blurb:
+      'Schreibe auf Deutsch einen fesselnden Klappentext für die Rückseite des Buches auf Grundlage des folgenden Inhalts:\n\n{{text}}',
+    description:
+      'Schreibe auf Deutsch eine überzeugende Beschreibung für die Produktseite des Buches (zum Beispiel bei Amazon) auf Grundlage des folgenden Inhalts:\n\n{{text}}',
+    keywords:
+      'Erstelle auf Deutsch eine Reihe relevanter Suchbegriffe für das Buch auf Grundlage des folgenden Inhalts:\n\n{{text}}',
+    foreword: 'Schreibe auf Deutsch ein packendes Vorwort für das Buch auf Grundlage des folgenden Inhalts:\n\n{{text}}',
+    analysis: 'Erstelle auf Deutsch eine ausführliche Analyse des Buches auf Grundlage des folgenden Inhalts:\n\n{{text}}',
+  },
+  fr: {
+    blurb:
+      'Rédige en français un texte accrocheur pour la quatrième de couverture du livre, à partir du contenu suivant :\n\n{{text}}',
+    description:
+      'Rédige en français une description convaincante pour la page produit du livre (par exemple sur Amazon), à partir du contenu suivant :\n\n{{text}}',
+    keywords:
+      'Génère en français un ensemble de mots-clés pertinents pour le livre, à partir du contenu suivant :\n\n{{text}}',
+    foreword: 'Rédige en français une préface captivante pour le livre, à partir du contenu suivant :\n\n{{text}}',
+    analysis: 'Propose en français une analyse approfondie du livre, à partir du contenu suivant :\n\n{{text}}',
+  },
+};
+
+// Word limits used for {{maxWords}} when the request does not specify one
+export const defaultMaxWords: Record<TemplateGenerationType, number> = {
+  blurb: 150,
+  description: 300,
+  keywords: 50,
+  foreword: 300,
+  analysis: 450,
+};
+
+/**
+ * Replaces the {{variable}} placeholders of a template with their values.
+ *
+ * @param template - The template text.
+ * @param variables - The values of the variables.
+ * @returns The prompt ready to be sent to the model.
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  const values: Record<string, string> = {
+    text: variables.text,
+    title: variables.title ?? '',
+    audience: variables.audience ?? '',
+    maxWords: variables.maxWords !== undefined ? String(variables.maxWords) : '',
+  };
+  return template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in values ? values[name] : placeholder
+  );
+}
+
+/**
+ * Checks a template before storing it.
+ *
+ * @param template - The template text.
+ * @returns The list of problems found, empty if the template is valid.
+ */
+export function validatePromptTemplate(template: string): string[] {
+  const errors: string[] = [];
+  if (!template.trim()) {
+    return ['Il modello non può essere vuoto.'];
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    errors.push(`Il modello supera la lunghezza massima di ${MAX_TEMPLATE_LENGTH} caratteri.`);
+  }
+
+  const names = Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]);
+  if (!names.includes('text')) {
+    errors.push('Il modello deve contenere la variabile {{text}}.');
+  }
+  for (const name of new Set(names)) {
+    if (!templateVariables.includes(name as TemplateVariable)) {
+      errors.push(`Variabile sconosciuta: {{${name}}}.`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Retrieves the imprint the user belongs to.
+ *
+ * @param userId - The unique identifier of the user.
+ * @returns A promise that resolves to the imprint, or null if the user has none.
+ */
+export async function getUserImprint(userId: string): Promise<string | null> {
+  try {
+    const records = await db.select({ imprint: Users.imprint }).from(Users).where(eq(Users.user_id, userId));
+    return records[0]?.imprint ?? null;
+  } catch (error) {
+    console.error('Error fetching user imprint:', error);
+    throw new Error('Unable to retrieve user imprint.');
+  }
+}
+
+/**
+ * Builds the condition matching the templates visible to a user: their own and their imprint's.
+ */
+function visibleTo(userId: string, imprint: string | null) {
+  const own = and(eq(PromptTemplates.scope, 'user'), eq(PromptTemplates.user_id, userId));
+  return imprint
+    ? or(own, and(eq(PromptTemplates.scope, 'imprint'), eq(PromptTemplates.imprint, imprint)))
+    : own;
+}
+
+/**
+ * Chooses the template for a generation: the user's own template, then the template of
+ * the user's imprint, then the built-in default.
+ *
+ * @param userId - The unique identifier of the user requesting the generation.
+ * @param type - The generation type.
+ * @param language - The output language.
+ * @returns A promise that resolves to the template text.
+ */
+export async function resolvePromptTemplate(
+  userId: string,
+  type: TemplateGenerationType,
+  language: OutputLanguage = 'it'
+): Promise<string> {
+  try {
+    const imprint = await getUserImprint(userId);
+    const records = await db
+      .select()
+      .from(PromptTemplates)
+      .where(
+        and(
+          eq(PromptTemplates.generation_type, type),
+          eq(PromptTemplates.language, language),
+          visibleTo(userId, imprint)
+        )
+      );
+
+    const template =
+      records.find((record) => record.scope === 'user') ?? records.find((record) => record.scope === 'imprint');
+    return template ? template.template : defaultPromptTemplates[language][type];
+  } catch (error) {
+    // A custom template is a refinement: generation goes on with the default one
+    console.error('Error resolving prompt template:', error);
+    return defaultPromptTemplates[language][type];
+  }
+}
+
+/**
+ * The title of a book when none is given: the name of the uploaded file, without its extension.
+ *
+ * @param fileName - The name of the uploaded file.
+ * @returns The default title of the book.
+ */
+export function defaultBookTitle(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Collects the template and the variables of a generation request.
+ * The title defaults to the name of the uploaded file, without its extension.
+ *
+ * @param userId - The unique identifier of the user requesting the generation.
+ * @param type - The generation type.
+ * @param fileName - The name of the uploaded file.
+ * @param variables - The optional variables sent with the request.
+ * @param language - The output language.
+ * @returns A promise that resolves to the options for the generator.
+ */
+export async function resolvePromptOptions(
+  userId: string,
+  type: TemplateGenerationType,
+  fileName: string,
+  variables: Omit<PromptVariables, 'text'> = {},
+  language: OutputLanguage = 'it'
+): Promise<PromptOptions> {
+  return {
+    language,
+    template: await resolvePromptTemplate(userId, type, language),
+    title: variables.title || defaultBookTitle(fileName),
+    audience: variables.audience,
+    maxWords: variables.maxWords,
+  };
+}
+
+/**
+ * Checks the optional variables sent with a generation request.
+ *
+ * @param variables - The variables sent with the request.
+ * @returns The list of problems found, empty if the variables are valid.
+ */
+export function validatePromptVariables(variables: Omit<PromptVariables, 'text'>): string[] {
+  const errors: string[] = [];
+  if (variables.title !== undefined && typeof variables.title !== 'string') {
+    errors.push('Il campo "title" deve essere un testo.');
+  }
+  if (variables.audience !== undefined && typeof variables.audience !== 'string') {
+    errors.push('Il campo "audience" deve essere un testo.');
+  }
+  if (
+    variables.maxWords !== undefined &&
+    (!Number.isInteger(variables.maxWords) || variables.maxWords < 1 || variables.maxWords > MAX_WORDS_LIMIT)
+  ) {
+    errors.push(`Il campo "maxWords" deve essere un numero intero tra 1 e ${MAX_WORDS_LIMIT}.`);
+  }
+  return errors;
+}
+
+/**
+ * Lists the templates visible to a user: their own and their imprint's, or all of them for an admin.
+ *
+ * @param access - The access of the user.
+ * @returns A promise that resolves to the list of templates.
+ */
+export async function listPromptTemplates(access: UserAccess): Promise<PromptTemplateRecord[]> {
+  try {
+    return await db
+      .select()
+      .from(PromptTemplates)
+      .where(access.role === 'admin' ? undefined : visibleTo(access.user_id, access.imprint))
+      .orderBy(PromptTemplates.generation_type, PromptTemplates.language, PromptTemplates.scope);
+  } catch (error) {
+    console.error('Error listing prompt templates:', error);
+    throw new Error('Unable to list prompt templates.');
+  }
+}
+
+/**
+ * Retrieves a single template by its identifier.
+ *
+ * @param templateId - The unique identifier of the template.
+ * @returns A promise that resolves to the template, or null if not found.
+ */
+export async function getPromptTemplateById(templateId: string): Promise<PromptTemplateRecord | null> {
+  try {
+    const records = await db.select().from(PromptTemplates).where(eq(PromptTemplates.template_id, templateId));
+    return records[0] ?? null;
+  } catch (error) {
+    console.error('Error fetching prompt template:', error);
+    throw new Error('Unable to retrieve prompt template.');
+  }
+}
+
+/**
+ * Stores a new template, unless the owner already has one for the generation type and language.
+ *
+ * @param scope - The scope of the template.
+ * @param owner - The user identifier for the "user" scope, or the imprint for the "imprint" scope.
+ * @param type - The generation type.
+ * @param language - The output language.
+ * @param template - The template text.
+ * @returns A promise that resolves to the inserted template, or null if the owner already has one.
+ */
+export async function createPromptTemplate(
+  scope: TemplateScope,
+  owner: string,
+  type: TemplateGenerationType,
+  language: OutputLanguage,
+  template: string
+): Promise<PromptTemplateRecord | null> {
+  try {
+    const result = await db
+      .insert(PromptTemplates)
+      .values({
+        scope,
+        user_id: scope === 'user' ? owner : null,
+        imprint: scope === 'imprint' ? owner : null,
+        generation_type: type,
+        language,
+        template,
+      })
+      .onConflictDoNothing()
+      .returning();
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Error creating prompt template:', error);
+    throw new Error('Unable to create prompt template.');
+  }
+}
+
+/**
+ * Replaces the text of a template.
+ *
+ * @param templateId - The unique identifier of the template.
+ * @param template - The new template text.
+ * @returns A promise that resolves to the updated template, or null if not found.
+ */
+export async function updatePromptTemplate(
+  templateId: string,
+  template: string
+): Promise<PromptTemplateRecord | null> {
+  try {
+    const result = await db
+      .update(PromptTemplates)
+      .set({ template, updated_at: new Date() })
+      .where(eq(PromptTemplates.template_id, templateId))
+      .returning();
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Error updating prompt template:', error);
+    throw new Error('Unable to update prompt template.');
+  }
+}
+
+/**
+ * Deletes a template.
+ *
+ * @param templateId - The unique identifier of the template.
+ * @returns A promise that resolves to true if the template was deleted.
+ */
+export async function deletePromptTemplate(templateId: string): Promise<boolean> {
+  try {
+    const result = await db
+      .delete(PromptTemplates)
+      .where(eq(PromptTemplates.template_id, templateId))
+      .returning({ template_id: PromptTemplates.template_id });
+    return result.length > 0;
+  } catch (error) {
+    console.error('Error deleting prompt template:', error);
+    throw new Error('Unable to delete prompt template.');
+  }
+}
+
+/**
+ * Checks whether a user may read a template: their own templates and the templates of their imprint.
+ * Admins can read every template.
+ *
+ * @param template - The template.
+ * @param access - The access of the user.
+ * @returns True if the user can read the template.
+ */
+export function canViewTemplate(template: PromptTemplateRecord, access: UserAccess): boolean {
+  if (access.role === 'admin') {
+    return true;
+  }
+  return template.scope === 'user'
+    ? template.user_id === access.user_id
+    : access.imprint !== null && template.imprint === access.imprint;
+}
+
+/**
+ * Checks whether a user may modify a template: their own templates and, for an editor, the
+ * templates of their imprint. Admins can modify every template.
+ *
+ * @param template - The template.
+ * @param access - The access of the user.
+ * @returns True if the user can manage the template.
+ */
+export function canManageTemplate(template: PromptTemplateRecord, access: UserAccess): boolean {
+  if (template.scope === 'imprint' && access.role === 'author') {
+    return false;
+  }
+  return canViewTemplate(template, access);
+}
@@ -0,0 +1,318 @@
+/**
+ * @fileoverview
+ * This module defines the StorageBackend abstraction used to keep the uploaded manuscripts,
+ * and the available implementations:
+ * - local: A directory on the local disk.
+ * - s3: Any S3-compatible object storage (AWS S3, MinIO...), accessed through its REST API
+ *   with AWS Signature Version 4.
+ *
+ * Key features:
+ * - computeContentKey: Builds the content-addressed key of a file from the SHA-256 hash of its bytes,
+ *   so that the same manuscript uploaded twice is stored once.
+ * - storeFile: Stores a file under its content-addressed key and returns the key and the hash.
+ * - getStorage: Creates (and caches) the backend selected through STORAGE_DRIVER.
+ *
+ * @dependencies
+ * - fs and path for the local backend.
+ * - crypto for the content hashes and the request signatures.
+ * - fetch for the S3 REST API.
+ *
+ * @notes
+ * - The local backend reads STORAGE_LOCAL_DIR (default "./storage").
+ * - The s3 backend reads S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY;
+ *   path-style URLs are used unless S3_FORCE_PATH_STYLE is "false" (MinIO requires them).
+ * - Since keys are content-addressed, a stored object may be referenced by several Files rows.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type StorageDriver = 'local' | 's3';
+
+/**
+ * A backend able to store and retrieve files by key.
+ */
+export interface StorageBackend {
+  driver: StorageDriver;
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Configuration of the S3-compatible backend.
+ */
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * Result of storeFile.
+ */
+export interface StoredFile {
+  key: string;
+  contentHash: string;
+}
+
+// Content-addressed keys: "files/<first two hash characters>/<hash><extension>"
+const KEY_PATTERN = /^files\/[0-9a-f]{2}\/[0-9a-f]{64}(\.[a-z0-9]{1,10})?$/;
+
+/**
+ * Computes the SHA-256 hash of a buffer, as a hexadecimal string.
+ */
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Builds the content-addressed key of a file.
+ *
+ * @param contentHash - The SHA-256 hash of the file content.
+ * @param extension - The file extension, including the dot (e.g. ".pdf").
+ * @returns The storage key.
+ */
+export function computeContentKey(contentHash: string, extension: string): string {
+  const ext = /^\.[a-z0-9]{1,10}$/.test(extension.toLowerCase()) ? extension.toLowerCase() : '';
+  return `files/${contentHash.slice(0, 2)}/${contentHash}${ext}`;
+}
+
+/**
+ * Rejects keys that are not content-addressed keys, so that a key can never point
+ * outside the storage (e.g. "../../etc/passwd").
+ */
+function assertValidKey(key: string): void {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`Chiave di archiviazione non valida: ${key}.`);
+  }
+}
+
+/**
+ * Creates a backend storing the files in a directory of the local disk.
+ *
+ * @param rootDir - The directory holding the files.
+ * @returns The backend instance.
+ */
+export function createLocalStorage(rootDir: string): StorageBackend {
+  const resolve = (key: string): string => {
+    assertValidKey(key);
+    return path.join(rootDir, key);
+  };
+
+  return {
+    driver: 'local',
+    async put(key: string, data: Buffer): Promise<void> {
+      const target = resolve(key);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      // Write to a temporary file first, so that readers never see a partial file
+      const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await fs.promises.writeFile(temporary, data);
+      await fs.promises.rename(temporary, target);
+    },
+    async get(key: string): Promise<Buffer> {
+      return fs.promises.readFile(resolve(key));
+    },
+    async exists(key: string): Promise<boolean> {
+      try {
+        await fs.promises.access(resolve(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async delete(key: string): Promise<void> {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Encodes a string as required by the canonical request of Signature Version 4.
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Computes the Authorization header of an S3 request with AWS Signature Version 4.
+ *
+ * @param request - The method, URL and headers of the request; headers must include
+ *   host, x-amz-date and x-amz-content-sha256.
+ * @param credentials - The access key, secret key and region.
+ * @returns The value of the Authorization header.
+ */
+export function signS3Request(
+  request: { method: string; url: string; headers: Record<string, string> },
+  credentials: { accessKeyId: string; secretAccessKey: string; region: string }
+): string {
+  const url = new URL(request.url);
+  const amzDate = request.headers['x-amz-date'];
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+
+  const headerNames = Object.keys(request.headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')])
+  );
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    url.pathname,
+    canonicalQuery,
+    headerNames.map((name) => `${name}:${lowerHeaders[name]}\n`).join(''),
+    headerNames.join(';'),
+    lowerHeaders['x-amz-content-sha256'],
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const hmac = (key: Buffer | string, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), 's3'),
+    'aws4_request'
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`;
+}
+
+/**
+ * Creates a backend storing the files in a bucket of an S3-compatible object storage.
+ *
+ * @param config - The endpoint, bucket and credentials of the storage.
+ * @returns The backend instance.
+ */
+export function createS3Storage(config: S3StorageConfig): StorageBackend {
+  const endpoint = new URL(config.endpoint);
+
+  const objectUrl = (key: string): string => {
+    assertValidKey(key);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+    return config.forcePathStyle
+      ? `${endpoint.protocol}//${endpoint.host}${basePath}/${config.bucket}/${encodedKey}`
+      : `${endpoint.protocol}//${config.bucket}.${endpoint.host}${basePath}/${encodedKey}`;
+  };
+
+  const send = async (method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> => {
+    const url = objectUrl(key);
+    const headers: Record<string, string> = {
+      'x-amz-date': new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''),
+      'x-amz-content-sha256': sha256Hex(body ?? ''),
+      ...(contentType ? { 'content-type': contentType } : {}),
+    };
+    // The host header is signed but set by fetch itself
+    const authorization = signS3Request({ method, url, headers: { host: new URL(url).host, ...headers } }, config);
+    return fetch(url, { method, headers: { ...headers, authorization }, body });
+  };
+
+  const fail = async (action: string, key: string, response: Response): Promise<never> => {
+    const details = await response.text();
+    throw new Error(`Errore dello storage S3 (${action} ${key}): ${response.status} - ${details}`);
+  };
+
+  return {
+    driver: 's3',
+    async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+      const response = await send('PUT', key, data, contentType);
+      if (!response.ok) {
+        await fail('PUT', key, response);
+      }
+    },
+    async get(key: string): Promise<Buffer> {
+      const response = await send('GET', key);
+      if (!response.ok) {
+        await fail('GET', key, response);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async exists(key: string): Promise<boolean> {
+      const response = await send('HEAD', key);
+      if (response.status === 404) {
+        return false;
+      }
+      if (!response.ok) {
+        await fail('HEAD', key, response);
+      }
+      return true;
+    },
+    async delete(key: string): Promise<void> {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        await fail('DELETE', key, response);
+      }
+    },
+  };
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Returns the storage backend selected through STORAGE_DRIVER ("local" by default),
+ * creating it on first use.
+ *
+ * @returns The backend instance.
+ * @throws If the driver is unknown or the S3 configuration is incomplete.
+ */
+export function getStorage(): StorageBackend {
+  if (storage) {
+    return storage;
+  }
+
+  const driver = (process.env.STORAGE_DRIVER || 'local') as StorageDriver;
+  switch (driver) {
+    case 'local':
+      storage = createLocalStorage(path.resolve(process.env.STORAGE_LOCAL_DIR || './storage'));
+      break;
+    case 's3': {
+      const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+      if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('Configurazione dello storage S3 incompleta. Verifica le variabili S3_*.');
+      }
+      storage = createS3Storage({
+        endpoint: S3_ENDPOINT,
+        region: S3_REGION || 'us-east-1',
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+      });
+      break;
+    }
+    default:
+      throw new Error(`Driver di archiviazione non supportato: ${driver}.`);
+  }
+  return storage;
+}
+
+/**
+ * Stores a file under its content-addressed key. If an identical file is already stored,
+ * it is not uploaded again.
+ *
+ * @param data - The file content.
+ * @param extension - The file extension, including the dot (e.g. ".pdf").
+ * @param contentType - The MIME type of the file.
+ * @returns A promise that resolves to the key and the content hash.
+ */
+export async function storeFile(data: Buffer, extension: string, contentType?: string): Promise<StoredFile> {
+  const contentHash = sha256Hex(data);
+  const key = computeContentKey(contentHash, extension);
+  const backend = getStorage();
+
+  if (!(await backend.exists(key))) {
+    await backend.put(key, data, contentType);
+  }
+  return { key, contentHash };
+}
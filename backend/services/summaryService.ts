@@ -0,0 +1,137 @@
+/**
+ * @fileoverview
+ * This module prepares the text sent to the generation prompts for long manuscripts.
+ * When the extracted text exceeds the token budget, it performs a map-reduce summarisation:
+ * the manuscript is split into chunks (by chapter or token count), each chunk is summarised,
+ * and the combined summary is used as the source for the generation.
+ *
+ * Key features:
+ * - prepareSourceText: Returns the text unchanged if it fits the budget, or its combined summary.
+ * - Chunk summaries are cached per file in the ChunkSummaries table, keyed by the hash of the chunk,
+ *   so later generations on the same file do not pay for them again.
+ * - If the combined summary is still too long, it is summarised again (reduce step) until it fits;
+ *   after MAX_REDUCE_ROUNDS rounds, what still exceeds the budget is cut off, with a warning.
+ *
+ * @dependencies
+ * - crypto for hashing the chunks.
+ * - Drizzle ORM for database operations.
+ * - The ChunkSummaries model.
+ * - backend/utils/textChunker.ts for splitting the manuscript.
+ * - backend/services/openaiService.ts for summarising each chunk.
+ *
+ * @notes
+ * - The budget can be configured through SUMMARY_SOURCE_MAX_TOKENS and SUMMARY_CHUNK_TOKENS.
+ * - A failure while reading or writing the cache does not interrupt the summarisation.
+ * - The cache keeps one summary per file and chunk hash: when two generations summarise the same chunk at
+ *   the same time, the summary stored first is kept.
+ */
+
+import crypto from 'crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { ChunkSummaries } from '../models/ChunkSummary';
+import { estimateTokens, splitIntoChunks, truncateToTokens } from '../utils/textChunker';
+import { summarizeChunk } from './openaiService';
+
+// Maximum number of tokens of source text sent to a generation prompt
+const SOURCE_MAX_TOKENS = process.env.SUMMARY_SOURCE_MAX_TOKENS
+  ? parseInt(process.env.SUMMARY_SOURCE_MAX_TOKENS, 10)
+  : 8000;
+
+// Maximum number of tokens of each chunk sent to the summary prompt
+const CHUNK_TOKENS = process.env.SUMMARY_CHUNK_TOKENS ? parseInt(process.env.SUMMARY_CHUNK_TOKENS, 10) : 3000;
+
+// Upper bound to the reduce steps, to avoid looping on summaries that do not shrink
+const MAX_REDUCE_ROUNDS = 3;
+
+/**
+ * Computes the SHA-256 hash of a chunk, used as the cache key.
+ */
+function hashChunk(chunk: string): string {
+  return crypto.createHash('sha256').update(chunk).digest('hex');
+}
+
+/**
+ * Loads the cached summaries of a file for the given chunk hashes.
+ */
+async function loadCachedSummaries(fileId: string, hashes: string[]): Promise<Map<string, string>> {
+  try {
+    const records = await db
+      .select()
+      .from(ChunkSummaries)
+      .where(and(eq(ChunkSummaries.file_id, fileId), inArray(ChunkSummaries.chunk_hash, hashes)));
+    return new Map(records.map((record) => [record.chunk_hash, record.summary]));
+  } catch (error) {
+    console.error('Error loading cached chunk summaries:', error);
+    return new Map();
+  }
+}
+
+/**
+ * Stores the summary of a chunk in the cache, unless another generation has already stored it.
+ */
+async function cacheSummary(fileId: string, chunkIndex: number, chunkHash: string, summary: string): Promise<void> {
+  try {
+    await db
+      .insert(ChunkSummaries)
+      .values({
+        file_id: fileId,
+        chunk_index: chunkIndex,
+        chunk_hash: chunkHash,
+        summary,
+      })
+      .onConflictDoNothing({ target: [ChunkSummaries.file_id, ChunkSummaries.chunk_hash] });
+  } catch (error) {
+    console.error('Error caching chunk summary:', error);
+  }
+}
+
+/**
+ * Summarises every chunk of a text (map step), using the cached summaries when available,
+ * and returns the combined summary.
+ *
+ * @param fileId - The unique identifier of the file the text belongs to.
+ * @param text - The text to summarise.
+ * @returns A promise that resolves with the combined summary.
+ */
+export async function summarizeText(fileId: string, text: string): Promise<string> {
+  const chunks = splitIntoChunks(text, CHUNK_TOKENS);
+  const hashes = chunks.map(hashChunk);
+  const cached = await loadCachedSummaries(fileId, hashes);
+
+  const summaries: string[] = [];
+  // Chunks are summarised sequentially to stay within the rate limits of the provider.
+  for (let i = 0; i < chunks.length; i++) {
+    let summary = cached.get(hashes[i]);
+    if (!summary) {
+      summary = await summarizeChunk(chunks[i], i, chunks.length);
+      await cacheSummary(fileId, i, hashes[i], summary);
+    }
+    summaries.push(summary);
+  }
+
+  return summaries.join('\n\n');
+}
+
+/**
+ * Prepares the source text for a generation prompt: short manuscripts are returned unchanged,
+ * long ones are replaced by their combined summary. A summary that still exceeds SOURCE_MAX_TOKENS
+ * after MAX_REDUCE_ROUNDS rounds is truncated, so that the prompt never exceeds the budget.
+ *
+ * @param fileId - The unique identifier of the file the text belongs to.
+ * @param extractedText - The full extracted text of the manuscript.
+ * @returns A promise that resolves with the text to send to the generation prompt.
+ */
+export async function prepareSourceText(fileId: string, extractedText: string): Promise<string> {
+  let source = extractedText;
+  for (let round = 0; round < MAX_REDUCE_ROUNDS && estimateTokens(source) > SOURCE_MAX_TOKENS; round++) {
+    source = await summarizeText(fileId, source);
+  }
+  if (estimateTokens(source) > SOURCE_MAX_TOKENS) {
+    console.warn(
+      `Il riassunto del file ${fileId} supera ancora ${SOURCE_MAX_TOKENS} token dopo ${MAX_REDUCE_ROUNDS} riduzioni: viene troncato.`
+    );
+    source = truncateToTokens(source, SOURCE_MAX_TOKENS);
+  }
+  return source;
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview
+ * This module performs the slow part of an upload in the background: it reads the stored file,
+ * extracts its text, runs the technical analysis and checks the formatting of the manuscript.
+ * It is the handler of the "process_upload" jobs enqueued by /api/upload.
+ *
+ * Key features:
+ * - processUpload: Processes the file of a job, reporting its progress, stores the extracted text
+ *   with its structure (chapters, front and back matter) and returns the technical analysis
+ *   and the lint report.
+ * - getLintReport: Returns the lint report of a processed file, on demand.
+ * - Keeps the processing_status of the file in sync ("processing", then "complete" or "error").
+ * - Records in the file metadata the pages recognized with the OCR (scanned PDFs) and its confidence.
+ * - Recognizes a revision of a book already uploaded by the user, and links the file as its new version.
+ *
+ * @dependencies
+ * - backend/services/storage.ts for reading the stored file.
+ * - backend/services/fileParser.ts for text extraction.
+ * - backend/services/fileAnalysis.ts for the technical analysis.
+ * - backend/services/manuscriptLint.ts for the formatting and quality checks.
+ * - backend/services/duplicateService.ts for recognizing revisions of previous uploads.
+ * - backend/services/fileTextService.ts for storing the extracted text.
+ * - backend/services/fileService.ts for reading and updating the file record.
+ * - backend/services/jobQueue.ts for reading the result of the processing.
+ *
+ * @notes
+ * - The result is stored by the worker in the Jobs table and returned by /api/files/[id]/status;
+ *   the extracted text and its structure are stored once, in the FileTexts table.
+ * - Errors are thrown with a message meant for the user, which the status endpoint reports.
+ */
+
+import { parseManuscript } from './fileParser';
+import { analyzeDocument, DocumentAnalysis } from './fileAnalysis';
+import { lintManuscript, LintReport } from './manuscriptLint';
+import { detectRevision, RevisionMatch } from './duplicateService';
+import { getFileText, saveFileText } from './fileTextService';
+import { getFileById, updateFileOcr, updateFileStatus } from './fileService';
+import { getLatestJobForFile } from './jobQueue';
+import { getStorage } from './storage';
+
+/**
+ * Payload of a "process_upload" job.
+ */
+export interface ProcessUploadPayload {
+  file_id: string;
+}
+
+/**
+ * Result of a "process_upload" job.
+ */
+export interface UploadProcessingResult {
+  technicalAnalysis: DocumentAnalysis;
+  lintReport: LintReport;
+  // The previous upload this file is a revision of, if any
+  revisionOf: RevisionMatch | null;
+}
+
+/**
+ * Processes an uploaded file: extracts and stores its text and structure, runs the technical analysis
+ * and checks the formatting of the manuscript.
+ *
+ * @param payload - The payload of the job, with the identifier of the file.
+ * @param reportProgress - Callback invoked with the progress of the processing (0-100).
+ * @returns A promise that resolves with the technical analysis, the lint report and the previous
+ *   version of the book, if any.
+ * @throws If the file does not exist or cannot be read or parsed.
+ */
+export async function processUpload(
+  payload: ProcessUploadPayload,
+  reportProgress: (progress: number) => Promise<void>
+): Promise<UploadProcessingResult> {
+  const file = await getFileById(payload.file_id);
+  if (!file) {
+    throw new Error('File non trovato.');
+  }
+
+  await updateFileStatus(file.file_id, 'processing');
+  await reportProgress(10);
+
+  let fileBuffer: Buffer;
+  try {
+    fileBuffer = await getStorage().get(file.storage_path);
+  } catch (error) {
+    console.error('Errore nella lettura del file caricato:', error);
+    throw new Error('Impossibile leggere il file caricato.');
+  }
+  await reportProgress(20);
+
+  const document = await parseManuscript(fileBuffer, file.file_name);
+  const { text: extractedText, structure } = document;
+  await saveFileText(file.file_id, document);
+  // Reprocessing a file replaces the OCR metadata of the previous run
+  await updateFileOcr(file.file_id, document.ocr ?? null);
+  await reportProgress(75);
+
+  // A failed check only leaves the file unlinked: it must not fail the processing (already logged)
+  let revisionOf: RevisionMatch | null = null;
+  try {
+    revisionOf = await detectRevision(file, extractedText);
+  } catch {
+    revisionOf = null;
+  }
+  await reportProgress(80);
+
+  const technicalAnalysis = analyzeDocument(extractedText, structure);
+  await reportProgress(90);
+
+  const lintReport = lintManuscript(document);
+  await reportProgress(95);
+
+  return { technicalAnalysis, lintReport, revisionOf };
+}
+
+/**
+ * Returns the result of the processing of a file, if it has completed.
+ */
+async function getProcessingResult(fileId: string): Promise<UploadProcessingResult | null> {
+  const job = await getLatestJobForFile(fileId);
+  return job?.status === 'completed' ? (job.result as UploadProcessingResult | null) : null;
+}
+
+/**
+ * Returns the lint report of a processed file.
+ * Files processed before the lint was introduced have no stored report: it is built from the
+ * stored text (the empty PDF pages are not known in that case).
+ *
+ * @param fileId - The unique identifier of the file.
+ * @returns A promise that resolves to the lint report, or null if the file has not been processed.
+ */
+export async function getLintReport(fileId: string): Promise<LintReport | null> {
+  const result = await getProcessingResult(fileId);
+  if (!result) {
+    return null;
+  }
+  if (result.lintReport) {
+    return result.lintReport;
+  }
+  const fileText = await getFileText(fileId);
+  return fileText ? lintManuscript(fileText) : null;
+}
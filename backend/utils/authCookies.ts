@@ -0,0 +1,163 @@
+/**
+ * @fileoverview
+ * Questo modulo gestisce i cookie della sessione dell'utente nel browser e la protezione CSRF
+ * delle richieste autenticate tramite cookie.
+ *
+ * Key features:
+ * - setSessionCookies: Imposta i cookie HttpOnly con il token di accesso e il refresh token,
+ *   più il cookie leggibile dal client con il token CSRF.
+ * - clearSessionCookies: Cancella i cookie della sessione (logout o sessione non valida).
+ * - deliverSessionTokens: Consegna i token di una nuova sessione nei cookie o, ai client API che li
+ *   chiedono, nel corpo della risposta.
+ * - isCsrfValid: Verifica il token CSRF delle richieste che modificano dati (double submit cookie).
+ * - serializeCookie: Compone l'header Set-Cookie di un cookie.
+ *
+ * @dependencies
+ * - crypto: per generare il token CSRF e confrontarlo in tempo costante.
+ * - backend/services/authService.ts: per la durata dei token.
+ *
+ * @notes
+ * - I cookie sono Secure in produzione e SameSite=Lax; il refresh token viene inviato solo alle
+ *   route /api/auth, l'unico percorso che lo utilizza.
+ * - Il token CSRF non è un segreto del server: un altro sito non può leggere il cookie e quindi non
+ *   può ripeterlo nell'header X-CSRF-Token, che il client aggiunge alle richieste.
+ * - Le richieste con token Bearer non hanno bisogno del controllo CSRF: il browser non le autentica da solo.
+ */
+
+import crypto from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ACCESS_TOKEN_TTL_SECONDS, REFRESH_TOKEN_TTL_DAYS, SessionTokens } from '../services/authService';
+
+// Nomi dei cookie della sessione
+export const ACCESS_TOKEN_COOKIE = 'ycp_access';
+export const REFRESH_TOKEN_COOKIE = 'ycp_refresh';
+export const CSRF_COOKIE = 'ycp_csrf';
+
+// Header in cui il client ripete il token CSRF
+export const CSRF_HEADER = 'x-csrf-token';
+
+// Percorso a cui il browser invia il refresh token
+const REFRESH_TOKEN_PATH = '/api/auth';
+
+// Metodi che non modificano dati, esclusi dal controllo CSRF
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export interface CookieOptions {
+  // Durata in secondi; 0 cancella il cookie
+  maxAge: number;
+  path?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+}
+
+/**
+ * Compone il valore dell'header Set-Cookie di un cookie SameSite=Lax.
+ *
+ * @param name Il nome del cookie.
+ * @param value Il valore del cookie.
+ * @param options Durata, percorso e attributi del cookie.
+ * @returns Il valore dell'header.
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions): string {
+  const parts = [
+    `${name}=${encodeURIComponent(value)}`,
+    `Path=${options.path ?? '/'}`,
+    `Max-Age=${options.maxAge}`,
+    'SameSite=Lax',
+  ];
+  if (options.maxAge === 0) {
+    parts.push('Expires=Thu, 01 Jan 1970 00:00:00 GMT');
+  }
+  if (options.httpOnly) {
+    parts.push('HttpOnly');
+  }
+  if (options.secure) {
+    parts.push('Secure');
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Indica se i cookie devono essere inviati solo su HTTPS.
+ */
+function isSecure(): boolean {
+  return process.env.NODE_ENV === 'production';
+}
+
+/**
+ * Imposta i cookie di una sessione appena creata o rinnovata, con un nuovo token CSRF.
+ *
+ * @param res La risposta a cui aggiungere i cookie.
+ * @param tokens I token della sessione.
+ */
+export function setSessionCookies(res: NextApiResponse, tokens: SessionTokens): void {
+  const secure = isSecure();
+  const refreshMaxAge = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60;
+  res.setHeader('Set-Cookie', [
+    serializeCookie(ACCESS_TOKEN_COOKIE, tokens.token, { maxAge: ACCESS_TOKEN_TTL_SECONDS, httpOnly: true, secure }),
+    serializeCookie(REFRESH_TOKEN_COOKIE, tokens.refresh_token, {
+      maxAge: refreshMaxAge,
+      path: REFRESH_TOKEN_PATH,
+      httpOnly: true,
+      secure,
+    }),
+    serializeCookie(CSRF_COOKIE, crypto.randomBytes(32).toString('base64url'), { maxAge: refreshMaxAge, secure }),
+  ]);
+}
+
+/**
+ * Consegna i token di una sessione appena creata. Il browser li riceve solo nei cookie HttpOnly, così
+ * che uno script della pagina non possa leggerli; i client API che inviano "token_in_body": true li
+ * ricevono invece nel corpo della risposta, senza cookie, e li presentano come token Bearer.
+ *
+ * @param res La risposta a cui aggiungere i cookie.
+ * @param tokens I token della sessione.
+ * @param tokenInBody Il valore del campo "token_in_body" della richiesta.
+ * @returns I campi dei token da aggiungere al corpo della risposta.
+ */
+export function deliverSessionTokens(
+  res: NextApiResponse,
+  tokens: SessionTokens,
+  tokenInBody: unknown
+): Pick<SessionTokens, 'expires_in'> & Partial<SessionTokens> {
+  if (tokenInBody === true) {
+    return tokens;
+  }
+  setSessionCookies(res, tokens);
+  return { expires_in: tokens.expires_in };
+}
+
+/**
+ * Cancella i cookie della sessione.
+ *
+ * @param res La risposta a cui aggiungere i cookie scaduti.
+ */
+export function clearSessionCookies(res: NextApiResponse): void {
+  const secure = isSecure();
+  res.setHeader('Set-Cookie', [
+    serializeCookie(ACCESS_TOKEN_COOKIE, '', { maxAge: 0, httpOnly: true, secure }),
+    serializeCookie(REFRESH_TOKEN_COOKIE, '', { maxAge: 0, path: REFRESH_TOKEN_PATH, httpOnly: true, secure }),
+    serializeCookie(CSRF_COOKIE, '', { maxAge: 0, secure }),
+  ]);
+}
+
+/**
+ * Verifica il token CSRF di una richiesta autenticata tramite cookie: per i metodi che modificano
+ * dati, l'header X-CSRF-Token deve coincidere con il cookie del token CSRF.
+ *
+ * @param req La richiesta da verificare.
+ * @returns true se la richiesta non modifica dati o se il token è corretto.
+ */
+export function isCsrfValid(req: Pick<NextApiRequest, 'method' | 'headers' | 'cookies'>): boolean {
+  if (SAFE_METHODS.includes((req.method || 'GET').toUpperCase())) {
+    return true;
+  }
+  const cookie = req.cookies[CSRF_COOKIE];
+  const header = req.headers[CSRF_HEADER];
+  if (!cookie || typeof header !== 'string') {
+    return false;
+  }
+  const expected = Buffer.from(cookie);
+  const received = Buffer.from(header);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
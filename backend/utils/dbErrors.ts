@@ -0,0 +1,27 @@
+/**
+ * @fileoverview
+ * Questo modulo riconosce gli errori di PostgreSQL che i servizi gestiscono invece di propagarli.
+ *
+ * Key features:
+ * - isUniqueViolation: Indica se un errore deriva dalla violazione di un indice univoco.
+ *
+ * @dependencies
+ * - Nessuna: il codice dell'errore è letto dall'oggetto restituito dal driver pg.
+ *
+ * @notes
+ * - Serve ai servizi che calcolano un numero di versione: due richieste simultanee possono
+ *   calcolare lo stesso numero, e l'indice univoco lascia passare solo la prima.
+ */
+
+// Codice SQLSTATE della violazione di un vincolo di unicità
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Indica se un errore del database deriva dalla violazione di un indice univoco.
+ *
+ * @param error - L'errore sollevato dalla query.
+ * @returns True se la riga inserita o aggiornata duplica una riga esistente.
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === UNIQUE_VIOLATION;
+}
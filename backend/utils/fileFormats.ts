@@ -0,0 +1,110 @@
+/**
+ * @fileoverview
+ * Questo modulo definisce il registro dei formati di manoscritto accettati dall'applicazione.
+ * È l'unica fonte per l'elenco dei formati: lo utilizzano /api/upload, validateUploadedFile,
+ * l'elaborazione in background (backend/services/fileParser.ts) e il componente FileUploader.
+ *
+ * Key features:
+ * - manuscriptFormats: Elenco dei formati con estensioni e tipi MIME riconosciuti.
+ * - findFormatByExtension / findFormatByMimeType: Individuano il formato di un file.
+ * - acceptedFileTypes: Tipi MIME ed estensioni in un'unica lista, nel formato dell'attributo "accept".
+ * - MAX_UPLOAD_FILE_SIZE / MAX_UPLOAD_FILES: Limiti di dimensione e di numero dei file di un caricamento.
+ *
+ * @dependencies
+ * - Nessuna libreria esterna: il modulo viene importato anche dal codice client.
+ *
+ * @notes
+ * - Il formato di un file viene determinato dall'estensione; il tipo MIME dichiarato dal browser
+ *   deve corrispondere al formato oppure essere generico (alcuni browser non ne indicano uno
+ *   per Markdown o RTF).
+ * - Per aggiungere un formato, inserirlo qui e registrarne il parser in fileParser.ts.
+ */
+
+export type ManuscriptFormatId = 'docx' | 'pdf' | 'epub' | 'odt' | 'rtf' | 'markdown';
+
+/**
+ * Descrizione di un formato di manoscritto.
+ */
+export interface ManuscriptFormat {
+  id: ManuscriptFormatId;
+  // Nome mostrato all'utente
+  label: string;
+  // Estensioni riconosciute, in minuscolo e con il punto
+  extensions: string[];
+  // Tipi MIME riconosciuti; il primo è quello salvato nel database
+  mimeTypes: string[];
+}
+
+export const manuscriptFormats: ManuscriptFormat[] = [
+  {
+    id: 'docx',
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  { id: 'pdf', label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  { id: 'epub', label: 'EPUB', extensions: ['.epub'], mimeTypes: ['application/epub+zip'] },
+  { id: 'odt', label: 'ODT', extensions: ['.odt'], mimeTypes: ['application/vnd.oasis.opendocument.text'] },
+  { id: 'rtf', label: 'RTF', extensions: ['.rtf'], mimeTypes: ['application/rtf', 'text/rtf'] },
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown', 'text/plain'],
+  },
+];
+
+// Dimensione massima di ogni file caricato (30MB)
+export const MAX_UPLOAD_FILE_SIZE = 30 * 1024 * 1024;
+
+// Numero massimo di file inviati in un unico caricamento (ad esempio i volumi di una collana)
+export const MAX_UPLOAD_FILES = 20;
+
+// Tipi MIME che i browser usano quando non riconoscono il formato del file
+export const genericMimeTypes = ['', 'application/octet-stream'];
+
+export const allowedMimeTypes: string[] = manuscriptFormats.flatMap((format) => format.mimeTypes);
+
+export const allowedExtensions: string[] = manuscriptFormats.flatMap((format) => format.extensions);
+
+// Lista utilizzabile direttamente nell'attributo "accept" di un input di tipo file
+export const acceptedFileTypes: string[] = [...allowedMimeTypes, ...allowedExtensions];
+
+// Elenco leggibile dei formati, per i messaggi all'utente (es. "DOCX, PDF, EPUB, ODT, RTF o Markdown")
+export const supportedFormatsLabel = manuscriptFormats
+  .map((format) => format.label)
+  .join(', ')
+  .replace(/, ([^,]+)$/, ' o $1');
+
+/**
+ * Individua il formato a partire dall'estensione del file.
+ *
+ * @param extension L'estensione, con il punto (es. ".epub"); maiuscole e minuscole sono equivalenti.
+ * @returns Il formato, oppure undefined se l'estensione non è supportata.
+ */
+export function findFormatByExtension(extension: string): ManuscriptFormat | undefined {
+  const ext = extension.toLowerCase();
+  return manuscriptFormats.find((format) => format.extensions.includes(ext));
+}
+
+/**
+ * Individua il formato a partire dal tipo MIME.
+ *
+ * @param mimeType Il tipo MIME del file.
+ * @returns Il primo formato che riconosce il tipo MIME, oppure undefined.
+ */
+export function findFormatByMimeType(mimeType: string): ManuscriptFormat | undefined {
+  return manuscriptFormats.find((format) => format.mimeTypes.includes(mimeType.toLowerCase()));
+}
+
+/**
+ * Verifica che il tipo MIME dichiarato sia compatibile con il formato individuato dall'estensione.
+ *
+ * @param format Il formato individuato dall'estensione.
+ * @param mimeType Il tipo MIME dichiarato dal browser.
+ * @returns true se il tipo MIME appartiene al formato o è generico.
+ */
+export function isMimeTypeAccepted(format: ManuscriptFormat, mimeType: string): boolean {
+  const type = mimeType.toLowerCase();
+  return format.mimeTypes.includes(type) || genericMimeTypes.includes(type);
+}
@@ -3,7 +3,7 @@
  * Questo modulo contiene funzioni di utilità per la validazione e il processamento
  * dei file caricati. Le funzioni incluse sono:
  * - validateUploadedFile: Verifica che il file caricato rispetti il limite di dimensione
- *   e che il suo tipo MIME sia tra quelli consentiti (DOCX o PDF).
+ *   e che sia in uno dei formati del registro (backend/utils/fileFormats.ts).
  * - getFileExtension: Estrae l'estensione del file in formato minuscolo.
  *
  * Key features:
@@ -12,6 +12,7 @@
  *
  * @dependencies
  * - path: Per l'estrazione dell'estensione del file.
+ * - backend/utils/fileFormats.ts: Per l'elenco dei formati supportati.
  *
  * @notes
  * - Il modulo assume che i file caricati siano di tipo FormidableFile.
@@ -19,12 +20,7 @@
 
 import path from 'path';
 import { File as FormidableFile } from 'formidable';
-
-// Definisce i tipi MIME consentiti per i file
-export const allowedMimeTypes = [
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // DOCX
-  'application/pdf', // PDF
-];
+import { findFormatByExtension, isMimeTypeAccepted, supportedFormatsLabel } from './fileFormats';
 
 /**
  * Interfaccia per il risultato della validazione del file.
@@ -35,7 +31,7 @@ export interface FileValidationResult {
 }
 
 /**
- * Valida il file caricato verificando la dimensione massima e il tipo MIME.
+ * Valida il file caricato verificando la dimensione massima, l'estensione e il tipo MIME.
  *
  * @param file Il file caricato (oggetto FormidableFile).
  * @param maxFileSize La dimensione massima consentita in byte.
@@ -51,10 +47,11 @@ export function validateUploadedFile(
       error: `Il file supera il limite di ${maxFileSize / (1024 * 1024)}MB.`,
     };
   }
-  if (!allowedMimeTypes.includes(file.mimetype || '')) {
+  const format = findFormatByExtension(getFileExtension(file));
+  if (!format || !isMimeTypeAccepted(format, file.mimetype || '')) {
     return {
       valid: false,
-      error: 'Tipo di file non supportato. Carica solo DOCX o PDF.',
+      error: `Tipo di file non supportato. Carica solo ${supportedFormatsLabel}.`,
     };
   }
   return { valid: true };
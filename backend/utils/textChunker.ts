@@ -0,0 +1,142 @@
+/**
+ * @fileoverview
+ * Questo modulo contiene le funzioni di utilità per suddividere un manoscritto lungo
+ * in parti che rientrano nel limite di token del modello. Le funzioni incluse sono:
+ * - estimateTokens: Stima il numero di token di un testo.
+ * - splitIntoChunks: Suddivide il testo per capitoli e, se necessario, per paragrafi.
+ * - truncateToTokens: Tronca il testo al limite di token, alla fine di un paragrafo quando possibile.
+ *
+ * Key features:
+ * - I capitoli vengono riconosciuti dalle intestazioni ("Capitolo 1", "CAPITOLO II", "Chapter 3", "Parte prima"...).
+ * - I capitoli brevi vengono accorpati fino a riempire il limite di token.
+ * - I capitoli troppo lunghi vengono suddivisi per paragrafi e, in ultima istanza, per frasi.
+ *
+ * @dependencies
+ * - Nessuna libreria esterna, utilizza solo metodi JavaScript nativi.
+ *
+ * @notes
+ * - La stima dei token è approssimativa (circa 4 caratteri per token) ma sufficiente
+ *   per restare entro i limiti del modello con un margine di sicurezza.
+ */
+
+// Numero medio di caratteri per token usato per la stima
+const CHARS_PER_TOKEN = 4;
+
+// Riconosce le righe che iniziano come un'intestazione di capitolo ("Capitolo 1", "PARTE PRIMA"...)
+const CHAPTER_HEADING = /^[ \t]*(?:capitolo|chapter|parte|part)\s+(\S+)[^\n]*$/gim;
+
+// Numerazioni ammesse dopo la parola chiave: cifre, numeri romani maiuscoli o numerali in lettere
+const CHAPTER_NUMBER = /^(?:\d+|(?:prim|second|terz|quart|quint|sest|settim|ottav|non|decim)[oa]|uno|due|tre|quattro|cinque|sei|sette|otto|nove|dieci|one|two|three|four|five|six|seven|eight|nine|ten)\W*$/i;
+const ROMAN_NUMBER = /^[IVXLCDM]+\W*$/;
+
+// Lunghezza massima di una riga di intestazione, per non confondere le frasi ("Parte di lui...")
+const MAX_HEADING_LENGTH = 80;
+
+/**
+ * Stima il numero di token di un testo.
+ *
+ * @param text Il testo da misurare.
+ * @returns Il numero stimato di token.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Suddivide il testo nelle sezioni delimitate dalle intestazioni di capitolo.
+ * L'eventuale testo che precede il primo capitolo costituisce una sezione a sé.
+ */
+function splitByChapters(text: string): string[] {
+  const starts = Array.from(text.matchAll(CHAPTER_HEADING))
+    .filter((match) => match[0].trim().length <= MAX_HEADING_LENGTH)
+    .filter((match) => CHAPTER_NUMBER.test(match[1]) || ROMAN_NUMBER.test(match[1]))
+    .map((match) => match.index ?? 0);
+  if (starts.length === 0) {
+    return [text];
+  }
+  const boundaries = starts[0] > 0 ? [0, ...starts] : starts;
+  return boundaries
+    .map((start, i) => text.slice(start, boundaries[i + 1] ?? text.length).trim())
+    .filter((section) => section.length > 0);
+}
+
+/**
+ * Suddivide una sezione troppo lunga in blocchi che rispettano il limite,
+ * separando per paragrafi, poi per frasi e infine per caratteri.
+ */
+function splitOversized(section: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const separators = [/\n\s*\n/, /(?<=[.!?…])\s+/];
+
+  const split = (part: string, level: number): string[] => {
+    if (part.length <= maxChars) {
+      return [part];
+    }
+    if (level >= separators.length) {
+      const pieces: string[] = [];
+      for (let i = 0; i < part.length; i += maxChars) {
+        pieces.push(part.slice(i, i + maxChars));
+      }
+      return pieces;
+    }
+    const units = part.split(separators[level]).flatMap((unit) => split(unit, level + 1));
+    return mergeUnits(units, maxTokens, level === 0 ? '\n\n' : ' ');
+  };
+
+  return split(section, 0);
+}
+
+/**
+ * Accorpa unità consecutive finché il blocco risultante resta entro il limite.
+ */
+function mergeUnits(units: string[], maxTokens: number, joiner: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    const candidate = current ? `${current}${joiner}${unit}` : unit;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      chunks.push(current);
+      current = unit;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Suddivide un manoscritto in parti di al massimo maxTokens token,
+ * rispettando per quanto possibile i confini dei capitoli.
+ *
+ * @param text Il testo completo del manoscritto.
+ * @param maxTokens Il numero massimo di token per parte.
+ * @returns L'elenco ordinato delle parti.
+ */
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+  const sections = splitByChapters(trimmed).flatMap((section) => splitOversized(section, maxTokens));
+  return mergeUnits(sections, maxTokens, '\n\n');
+}
+
+/**
+ * Tronca un testo al numero massimo di token indicato. Il taglio avviene alla fine dell'ultimo
+ * paragrafo che rientra nel limite o, se il primo paragrafo è già troppo lungo, a metà del paragrafo.
+ *
+ * @param text Il testo da troncare.
+ * @param maxTokens Il numero massimo di token.
+ * @returns Il testo, invariato se rientra già nel limite.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const paragraphEnd = text.lastIndexOf('\n\n', maxChars);
+  return text.slice(0, paragraphEnd > 0 ? paragraphEnd : maxChars).trimEnd();
+}
@@ -0,0 +1,353 @@
+/**
+ * @fileoverview
+ * Questo modulo contiene le metriche testuali utilizzate dall'analisi tecnica dei manoscritti
+ * (backend/services/fileAnalysis.ts), pensate per la lingua italiana:
+ * - splitSentences: Suddivide il testo in frasi, senza spezzarlo su abbreviazioni, iniziali, numeri decimali ed ellissi.
+ * - tokenizeWords / countSyllables: Parole e sillabe, necessarie agli indici di leggibilità.
+ * - gulpeaseIndex / fleschVaccaIndex: Indici di leggibilità per l'italiano.
+ * - dialogueRatio: Quota del testo in forma di dialogo.
+ * - sentenceLengthStats: Distribuzione della lunghezza delle frasi.
+ * - typeTokenRatio: Varietà lessicale.
+ * - topTerms: Termini più frequenti, escluse le parole vuote.
+ * - estimateReadingTime: Tempo di lettura stimato.
+ *
+ * @dependencies
+ * - Nessuna libreria esterna, utilizza solo metodi JavaScript nativi.
+ *
+ * @notes
+ * - Le parole sono le sequenze di lettere: gli apostrofi separano le parole ("dell'anima" conta come due),
+ *   come di consueto per l'indice Gulpease; i numeri non sono considerati parole.
+ * - Il conteggio delle sillabe è un'approssimazione basata sui gruppi vocalici: gli iati tra due vocali
+ *   forti (a, e, o) o con una vocale accentata vengono separati, gli altri gruppi contano come una sillaba.
+ * - Il type-token ratio diminuisce con la lunghezza del testo: va confrontato tra testi di lunghezza simile.
+ */
+
+/**
+ * Indici di leggibilità, da 0 (testo molto difficile) a 100 (testo molto facile).
+ */
+export interface ReadabilityScores {
+  gulpease: number;
+  fleschVacca: number;
+}
+
+/**
+ * Statistiche sulla lunghezza delle frasi, in parole.
+ */
+export interface SentenceLengthStats {
+  average: number;
+  median: number;
+  standardDeviation: number;
+  max: number;
+  // Numero di frasi brevi (fino a 10 parole), medie (11-25), lunghe (26-40) e molto lunghe (oltre 40)
+  distribution: {
+    short: number;
+    medium: number;
+    long: number;
+    veryLong: number;
+  };
+}
+
+/**
+ * Un termine con il numero delle sue occorrenze.
+ */
+export interface TermFrequency {
+  term: string;
+  count: number;
+}
+
+// Lettere dell'alfabeto latino, comprese quelle accentate (utilizzabile con matchAll per le posizioni delle parole)
+export const WORD_PATTERN = /[A-Za-z\u00c0-\u00d6\u00d8-\u00f6\u00f8-\u024f]+/g;
+
+// Gruppi di vocali, comprese quelle accentate
+const VOWEL_GROUP = /[aeiouy\u00e0-\u00e6\u00e8-\u00ef\u00f2-\u00f6\u00f9-\u00fc]+/g;
+const STRONG_VOWEL = /[aeo\u00e0-\u00e6\u00e8-\u00eb\u00f2-\u00f6]/;
+const ACCENTED_VOWEL = /[\u00e0-\u00e6\u00e8-\u00ef\u00f2-\u00f6\u00f9-\u00fc]/;
+
+// Segni di fine frase, con le eventuali virgolette o parentesi di chiusura che li seguono
+const SENTENCE_END = /[.!?\u2026]+["'\u00bb\u201d\u2019)\]]*(?=\s|$)/g;
+
+// Abbreviazioni comuni, in minuscolo e senza il punto finale, dopo le quali la frase continua anche se
+// la parola successiva è maiuscola ("Sig. Rossi"); quelle che spesso chiudono la frase ("ecc.") sono escluse
+const ABBREVIATIONS = new Set([
+  'sig', 'sigg', 'sig.ra', 'sig.na', 'dott', 'dott.ssa', 'prof', 'prof.ssa', 'ing', 'avv', 'arch', 'geom',
+  'rag', 'on', 'sen', 'mons', 'gen', 'col', 'cav', 'comm', 'egr', 'gent', 'spett', 'sr', 'jr', 'mr', 'mrs',
+  'ms', 'dr', 'st', 'es', 'ad es', 'p.es', 'pag', 'pagg', 'pp', 'cap', 'capp', 'vol', 'voll', 'n', 'nn',
+  'art', 'artt', 'cfr', 'ca', 'fig', 'tab', 'vs', 'tel', 'n.d.r', 'n.d.t', 's.p.a', 's.r.l', 'c.a', 'v', 'p',
+]);
+
+// Parole vuote italiane (e le forme elise, che restano senza apostrofo dopo la suddivisione in parole)
+const STOPWORDS = new Set([
+  'il', 'lo', 'la', 'i', 'gli', 'le', 'un', 'uno', 'una', 'di', 'a', 'da', 'in', 'con', 'su', 'per', 'tra', 'fra',
+  'del', 'dello', 'della', 'dei', 'degli', 'delle', 'al', 'allo', 'alla', 'ai', 'agli', 'alle', 'dal', 'dallo',
+  'dalla', 'dai', 'dagli', 'dalle', 'nel', 'nello', 'nella', 'nei', 'negli', 'nelle', 'col', 'coi', 'sul',
+  'sullo', 'sulla', 'sui', 'sugli', 'sulle', 'dell', 'dall', 'nell', 'sull', 'all', 'coll', 'quell', 'quest',
+  'tutt', 'cos', 'anch', 'sen', 'e', 'ed', 'o', 'od', 'ma', 'però', 'anche', 'se', 'che', 'chi', 'cui', 'non',
+  'né', 'più', 'meno', 'come', 'dove', 'quando', 'quanto', 'quanta', 'quanti', 'perché', 'poi', 'già', 'ancora',
+  'mai', 'sempre', 'solo', 'così', 'molto', 'molta', 'molti', 'molte', 'poco', 'tanto', 'tanta', 'tanti',
+  'tante', 'tutto', 'tutta', 'tutti', 'tutte', 'questo', 'questa', 'questi', 'queste', 'quello', 'quella',
+  'quelli', 'quelle', 'quel', 'quei', 'quegli', 'altro', 'altra', 'altri', 'altre', 'stesso', 'stessa',
+  'io', 'tu', 'lui', 'lei', 'noi', 'voi', 'loro', 'egli', 'ella', 'essi', 'esse', 'me', 'te', 'sé', 'si',
+  'ci', 'vi', 'ne', 'mi', 'ti', 'suo', 'sua', 'suoi', 'sue', 'mio', 'mia', 'miei', 'mie', 'tuo', 'tua',
+  'tuoi', 'tue', 'nostro', 'nostra', 'nostri', 'nostre', 'vostro', 'vostra', 'vostri', 'vostre', 'essere',
+  'sono', 'sei', 'è', 'siamo', 'siete', 'era', 'erano', 'ero', 'eri', 'fu', 'furono', 'stato', 'stata',
+  'stati', 'state', 'sia', 'siano', 'fosse', 'fossero', 'sarà', 'sarebbe', 'avere', 'ho', 'hai', 'ha',
+  'abbiamo', 'avete', 'hanno', 'aveva', 'avevano', 'avevo', 'ebbe', 'avrebbe', 'fatto', 'fare', 'fa',
+  'qui', 'qua', 'lì', 'là', 'ora', 'allora', 'dopo', 'prima', 'mentre', 'senza', 'sopra', 'sotto', 'verso',
+  'contro', 'fino', 'oltre', 'dentro', 'fuori', 'cosa', 'ogni', 'qualche', 'nulla', 'niente', 'via', 'sì',
+  'no', 'proprio', 'appena', 'invece', 'quasi', 'forse', 'bene', 'dunque', 'quindi', 'oppure', 'ecc', 'etc',
+]);
+
+// Velocità media di lettura silenziosa di un testo narrativo, in parole al minuto
+const READING_WORDS_PER_MINUTE = 200;
+
+// Numero predefinito di termini restituiti da topTerms
+const DEFAULT_TOP_TERMS = 10;
+
+/**
+ * Arrotonda un valore al numero di decimali indicato.
+ */
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Limita un indice all'intervallo 0-100.
+ */
+function clampScore(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+/**
+ * Restituisce le parole di un testo (sequenze di lettere).
+ *
+ * @param text Il testo da suddividere.
+ * @returns Le parole, nell'ordine in cui compaiono.
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(WORD_PATTERN) ?? [];
+}
+
+/**
+ * Stabilisce se il segno di fine frase trovato in una posizione chiude davvero la frase.
+ */
+function isSentenceBoundary(paragraph: string, index: number, mark: string, end: number): boolean {
+  const rest = paragraph.slice(end).trimStart();
+  if (!rest) {
+    return true;
+  }
+  // Una frase non ricomincia con la minuscola: ellissi e abbreviazioni non riconosciute a metà frase
+  if (/^[a-z\u00df-\u00f6\u00f8-\u00ff]/.test(rest)) {
+    return false;
+  }
+  if (mark.replace(/["'\u00bb\u201d\u2019)\]]+$/, '') !== '.') {
+    return true;
+  }
+  // Parola che precede il punto, comprese le abbreviazioni composte ("ad es.", "S.p.A.")
+  const before = paragraph.slice(0, index);
+  const word = before.slice(before.search(/\S+$/)).replace(/^["'(\u00ab\u201c\u2018]+/, '');
+  const previousWord = before.slice(0, before.length - word.length).trim().split(/\s+/).pop() ?? '';
+  if (ABBREVIATIONS.has(word.toLowerCase()) || ABBREVIATIONS.has(`${previousWord} ${word}`.toLowerCase())) {
+    return false;
+  }
+  // Iniziali puntate di un nome ("A. Manzoni")
+  return !/^[A-Z]$/.test(word);
+}
+
+/**
+ * Suddivide un testo in frasi. I paragrafi (separati da una riga vuota) chiudono sempre la frase,
+ * in modo che i titoli senza punteggiatura non si uniscano alla frase successiva.
+ *
+ * @param text Il testo da suddividere.
+ * @returns Le frasi che contengono almeno una lettera o una cifra.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    let start = 0;
+    for (const match of Array.from(paragraph.matchAll(SENTENCE_END))) {
+      const index = match.index ?? 0;
+      const end = index + match[0].length;
+      if (isSentenceBoundary(paragraph, index, match[0], end)) {
+        sentences.push(paragraph.slice(start, end));
+        start = end;
+      }
+    }
+    sentences.push(paragraph.slice(start));
+  }
+  return sentences
+    .map((sentence) => sentence.replace(/\s+/g, ' ').trim())
+    .filter((sentence) => /[A-Za-z0-9\u00c0-\u024f]/.test(sentence));
+}
+
+/**
+ * Conta (in modo approssimato) le sillabe di una parola italiana.
+ *
+ * @param word La parola.
+ * @returns Il numero di sillabe, almeno 1.
+ */
+export function countSyllables(word: string): number {
+  const groups = word.toLowerCase().match(VOWEL_GROUP) ?? [];
+  let count = 0;
+  for (const group of groups) {
+    count++;
+    for (let i = 1; i < group.length; i++) {
+      const hiatus =
+        (STRONG_VOWEL.test(group[i - 1]) && STRONG_VOWEL.test(group[i])) ||
+        ACCENTED_VOWEL.test(group[i - 1]) ||
+        ACCENTED_VOWEL.test(group[i]);
+      if (hiatus) {
+        count++;
+      }
+    }
+  }
+  return Math.max(1, count);
+}
+
+/**
+ * Calcola l'indice Gulpease: 89 + (300 * frasi - 10 * lettere) / parole.
+ * Sotto 80 il testo è difficile per chi ha la licenza elementare, sotto 60 per chi ha la licenza media,
+ * sotto 40 per chi ha un diploma superiore.
+ *
+ * @param words Le parole del testo.
+ * @param sentenceCount Il numero di frasi.
+ * @returns L'indice, da 0 a 100, con un decimale.
+ */
+export function gulpeaseIndex(words: string[], sentenceCount: number): number {
+  if (words.length === 0) {
+    return 0;
+  }
+  const letters = words.reduce((acc, word) => acc + word.length, 0);
+  return round(clampScore(89 + (300 * sentenceCount - 10 * letters) / words.length), 1);
+}
+
+/**
+ * Calcola l'indice di Flesch adattato all'italiano da Vacca: 206 - 0,65 * S - P,
+ * dove S sono le sillabe ogni 100 parole e P la lunghezza media delle frasi in parole.
+ *
+ * @param words Le parole del testo.
+ * @param sentenceCount Il numero di frasi.
+ * @returns L'indice, da 0 a 100, con un decimale.
+ */
+export function fleschVaccaIndex(words: string[], sentenceCount: number): number {
+  if (words.length === 0 || sentenceCount === 0) {
+    return 0;
+  }
+  const syllables = words.reduce((acc, word) => acc + countSyllables(word), 0);
+  const syllablesPer100Words = (syllables / words.length) * 100;
+  return round(clampScore(206 - 0.65 * syllablesPer100Words - words.length / sentenceCount), 1);
+}
+
+/**
+ * Calcola la quota di parole in forma di dialogo: le battute tra virgolette («...», “...”, "...")
+ * e quelle introdotte da una lineetta, escluse le parti narrative racchiuse tra due lineette
+ * ("— Vieni, — disse, — subito.").
+ *
+ * @param text Il testo da analizzare.
+ * @returns La quota, da 0 a 1, con due decimali.
+ */
+export function dialogueRatio(text: string): number {
+  let totalWords = 0;
+  let dialogueWords = 0;
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split(/\n/)) {
+    const line = paragraph.trim();
+    totalWords += tokenizeWords(line).length;
+    if (/^[-\u2013\u2014]/.test(line)) {
+      // Le battute sono i segmenti dispari: prima lineetta, battuta, lineetta, narrazione, lineetta, battuta...
+      const segments = line.replace(/^-/, '\u2014').replace(/\s-\s/g, ' \u2014 ').split(/[\u2013\u2014]/);
+      segments.forEach((segment, index) => {
+        if (index % 2 === 1) {
+          dialogueWords += tokenizeWords(segment).length;
+        }
+      });
+    } else {
+      for (const quote of line.match(/\u00ab[^\u00bb]*\u00bb|\u201c[^\u201d]*\u201d|"[^"]*"/g) ?? []) {
+        dialogueWords += tokenizeWords(quote).length;
+      }
+    }
+  }
+  return totalWords > 0 ? round(dialogueWords / totalWords, 2) : 0;
+}
+
+/**
+ * Calcola le statistiche sulla lunghezza delle frasi.
+ *
+ * @param sentences Le frasi, ad esempio restituite da splitSentences.
+ * @returns Media, mediana, deviazione standard, massimo e distribuzione per fasce di lunghezza.
+ */
+export function sentenceLengthStats(sentences: string[]): SentenceLengthStats {
+  const lengths = sentences.map((sentence) => tokenizeWords(sentence).length).sort((a, b) => a - b);
+  const distribution = { short: 0, medium: 0, long: 0, veryLong: 0 };
+  if (lengths.length === 0) {
+    return { average: 0, median: 0, standardDeviation: 0, max: 0, distribution };
+  }
+
+  for (const length of lengths) {
+    if (length <= 10) {
+      distribution.short++;
+    } else if (length <= 25) {
+      distribution.medium++;
+    } else if (length <= 40) {
+      distribution.long++;
+    } else {
+      distribution.veryLong++;
+    }
+  }
+
+  const average = lengths.reduce((acc, length) => acc + length, 0) / lengths.length;
+  const middle = Math.floor(lengths.length / 2);
+  const median = lengths.length % 2 === 1 ? lengths[middle] : (lengths[middle - 1] + lengths[middle]) / 2;
+  const variance = lengths.reduce((acc, length) => acc + (length - average) ** 2, 0) / lengths.length;
+
+  return {
+    average: round(average, 1),
+    median,
+    standardDeviation: round(Math.sqrt(variance), 1),
+    max: lengths[lengths.length - 1],
+    distribution,
+  };
+}
+
+/**
+ * Calcola la varietà lessicale come rapporto tra parole distinte e parole totali (type-token ratio).
+ *
+ * @param words Le parole del testo.
+ * @returns Il rapporto, da 0 a 1, con tre decimali.
+ */
+export function typeTokenRatio(words: string[]): number {
+  if (words.length === 0) {
+    return 0;
+  }
+  const types = new Set(words.map((word) => word.toLowerCase()));
+  return round(types.size / words.length, 3);
+}
+
+/**
+ * Restituisce i termini più frequenti, escluse le parole vuote e le parole di meno di tre lettere.
+ *
+ * @param words Le parole del testo.
+ * @param limit Il numero massimo di termini restituiti.
+ * @returns I termini in minuscolo, dal più frequente; a parità di occorrenze in ordine alfabetico.
+ */
+export function topTerms(words: string[], limit: number = DEFAULT_TOP_TERMS): TermFrequency[] {
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    const term = word.toLowerCase();
+    if (term.length >= 3 && !STOPWORDS.has(term)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term, 'it'))
+    .slice(0, limit);
+}
+
+/**
+ * Stima il tempo di lettura di un testo.
+ *
+ * @param wordCount Il numero di parole.
+ * @returns I minuti di lettura, arrotondati per eccesso.
+ */
+export function estimateReadingTime(wordCount: number): number {
+  return Math.ceil(wordCount / READING_WORDS_PER_MINUTE);
+}
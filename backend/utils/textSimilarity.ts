@@ -0,0 +1,121 @@
+/**
+ * @fileoverview
+ * Questo modulo stima la somiglianza tra due testi con la tecnica MinHash, per riconoscere
+ * le revisioni di un manoscritto già caricato (backend/services/duplicateService.ts).
+ *
+ * Key features:
+ * - buildShingles: Scompone il testo in sequenze sovrapposte di SHINGLE_SIZE parole (shingle),
+ *   ciascuna rappresentata da un hash a 32 bit.
+ * - computeMinHash: Calcola la firma MinHash del testo (MINHASH_SIZE valori minimi).
+ * - estimateSimilarity: Stima la somiglianza di Jaccard tra gli shingle di due testi dalle loro firme.
+ *
+ * @dependencies
+ * - backend/utils/textMetrics.ts: per la suddivisione del testo in parole.
+ *
+ * @notes
+ * - Le parole sono confrontate in minuscolo, senza punteggiatura né spazi: cambi di formattazione
+ *   non modificano la firma.
+ * - Le firme vengono salvate nel database: cambiare SHINGLE_SIZE, MINHASH_SIZE o le funzioni di hash
+ *   rende incomparabili le firme già salvate.
+ */
+
+import { tokenizeWords } from './textMetrics';
+
+// Numero di parole di ogni shingle
+export const SHINGLE_SIZE = 5;
+
+// Numero di funzioni di hash, e quindi di valori, della firma
+export const MINHASH_SIZE = 128;
+
+/**
+ * Hash FNV-1a a 32 bit di una stringa.
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Rimescola i bit di un valore a 32 bit (finalizzazione di MurmurHash3).
+ */
+function mix(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+// Semi delle funzioni di hash della firma, fissi perché le firme restino confrontabili nel tempo
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, index) => mix(index + 1));
+
+/**
+ * Scompone un testo in shingle di SHINGLE_SIZE parole consecutive.
+ * Un testo più corto forma un unico shingle con tutte le sue parole.
+ *
+ * @param text Il testo da scomporre.
+ * @returns Gli hash degli shingle, senza ripetizioni.
+ */
+export function buildShingles(text: string): Set<number> {
+  const words = tokenizeWords(text).map((word) => word.toLowerCase());
+  const shingles = new Set<number>();
+  if (words.length === 0) {
+    return shingles;
+  }
+  const last = Math.max(words.length - SHINGLE_SIZE, 0);
+  for (let i = 0; i <= last; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return shingles;
+}
+
+/**
+ * Calcola la firma MinHash di un testo: per ogni funzione di hash, il valore minimo
+ * tra quelli dei suoi shingle.
+ *
+ * @param text Il testo del manoscritto.
+ * @returns La firma di MINHASH_SIZE valori, oppure una lista vuota per un testo senza parole.
+ */
+export function computeMinHash(text: string): number[] {
+  const shingles = buildShingles(text);
+  if (shingles.size === 0) {
+    return [];
+  }
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  shingles.forEach((shingle) => {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = mix(shingle ^ SEEDS[i]);
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  });
+  return signature;
+}
+
+/**
+ * Stima la somiglianza di Jaccard tra due testi dalle loro firme MinHash: la frazione di
+ * posizioni in cui le firme coincidono.
+ *
+ * @param first La firma del primo testo.
+ * @param second La firma del secondo testo.
+ * @returns La somiglianza, da 0 (testi diversi) a 1 (stessi shingle); 0 se le firme non sono confrontabili.
+ */
+export function estimateSimilarity(first: number[], second: number[]): number {
+  if (first.length === 0 || first.length !== second.length) {
+    return 0;
+  }
+  let equal = 0;
+  for (let i = 0; i < first.length; i++) {
+    if (first[i] === second[i]) {
+      equal++;
+    }
+  }
+  return equal / first.length;
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview
+ * Questo modulo riconosce gli identificatori in formato UUID, usati come chiave primaria delle tabelle.
+ *
+ * Key features:
+ * - isUuid: Indica se un valore ricevuto da una richiesta ha il formato di un UUID.
+ *
+ * @dependencies
+ * - Nessuna.
+ *
+ * @notes
+ * - PostgreSQL rifiuta con un errore il confronto di una colonna uuid con un valore di altro formato:
+ *   gli endpoint controllano gli identificatori ricevuti prima di passarli alle query, rispondendo
+ *   404 per un identificatore del percorso e 400 per un filtro della query string.
+ */
+
+// Formato di un UUID, in qualsiasi versione
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Indica se un valore ha il formato di un UUID.
+ *
+ * @param value - Il valore da controllare, ad esempio un parametro della richiesta.
+ * @returns True se il valore è una stringa in formato UUID.
+ */
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview
+ * This module implements the worker that processes the jobs of the Postgres-backed queue
+ * (see backend/services/jobQueue.ts). It is started by scripts/worker.ts (npm run worker).
+ *
+ * Key features:
+ * - jobHandlers: Maps every job type to the function that runs it and to the hooks
+ *   called when it succeeds or fails. An error in a hook is only logged.
+ * - runJob: Runs a claimed job, storing its progress, result or error, and renews its lock while it runs.
+ *   A job whose lock has been lost is stopped at its next progress report.
+ * - runWorker: Polls the queue until stopped, processing one job at a time and failing the abandoned
+ *   jobs that have no attempts left.
+ *
+ * @dependencies
+ * - backend/services/jobQueue.ts for claiming and updating the jobs.
+ * - backend/services/uploadProcessor.ts for the "process_upload" jobs.
+ * - backend/services/fileService.ts for keeping the processing_status of the files in sync.
+ *
+ * @notes
+ * - Several workers can run at the same time: each job is claimed by a single worker. Long jobs (such as
+ *   the OCR of a scanned book) keep their lock through a heartbeat, and an outcome is recorded only by
+ *   the worker holding the lock.
+ * - The poll interval can be configured through JOB_POLL_INTERVAL_MS.
+ */
+
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  failStaleJobs,
+  updateJobProgress,
+  JOB_LOCK_TIMEOUT_MS,
+  JobRecord,
+  JobType,
+} from '../services/jobQueue';
+import { processUpload, ProcessUploadPayload } from '../services/uploadProcessor';
+import { updateFileStatus } from '../services/fileService';
+
+/**
+ * The function running a job type, with the optional hooks called on its outcome.
+ */
+interface JobHandler {
+  run(payload: unknown, reportProgress: (progress: number) => Promise<void>): Promise<unknown>;
+  onSuccess?(job: JobRecord): Promise<void>;
+  onFailure?(job: JobRecord, willRetry: boolean): Promise<void>;
+}
+
+// Interval between two polls of an empty queue
+const POLL_INTERVAL_MS = process.env.JOB_POLL_INTERVAL_MS ? parseInt(process.env.JOB_POLL_INTERVAL_MS, 10) : 2000;
+
+// Interval between two renewals of the lock of a running job, well within its timeout
+const HEARTBEAT_INTERVAL_MS = Math.max(1000, Math.floor(JOB_LOCK_TIMEOUT_MS / 3));
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  process_upload: {
+    run: (payload, reportProgress) => processUpload(payload as ProcessUploadPayload, reportProgress),
+    onSuccess: async (job) => {
+      await updateFileStatus((job.payload as ProcessUploadPayload).file_id, 'complete');
+    },
+    onFailure: async (job, willRetry) => {
+      await updateFileStatus((job.payload as ProcessUploadPayload).file_id, willRetry ? 'pending' : 'error');
+    },
+  },
+};
+
+/**
+ * Calls a hook of a job handler. A failing hook is logged: the outcome of the job has already been
+ * recorded and must not change, and the worker must keep running.
+ */
+async function runHook(job: JobRecord, hook: string, call: () => Promise<void> | undefined): Promise<void> {
+  try {
+    await call();
+  } catch (error) {
+    console.error(`Errore nell'hook ${hook} del job ${job.type} ${job.job_id}:`, error);
+  }
+}
+
+/**
+ * Runs a claimed job and records its outcome: the result on success,
+ * the error message (and a possible retry) on failure.
+ *
+ * @param job - The job claimed from the queue.
+ * @returns A promise that resolves once the outcome has been recorded.
+ */
+export async function runJob(job: JobRecord): Promise<void> {
+  const handler = jobHandlers[job.type as JobType];
+  if (!handler) {
+    await failJob({ ...job, max_attempts: job.attempts }, `Tipo di job non supportato: ${job.type}.`);
+    return;
+  }
+
+  // Lock renewals and progress updates run one after the other, since each one changes the lock
+  let lockUpdates: Promise<unknown> = Promise.resolve();
+  let lockLost = false;
+  const renewLock = (progress?: number) => {
+    const update = lockUpdates.then(async () => {
+      if (!lockLost && !(await updateJobProgress(job, progress))) {
+        lockLost = true;
+      }
+    });
+    lockUpdates = update;
+    return update;
+  };
+  const heartbeat = setInterval(() => {
+    renewLock();
+  }, HEARTBEAT_INTERVAL_MS);
+
+  let result: unknown;
+  try {
+    // The next progress report of a job whose lock has been lost stops its handler
+    result = await handler.run(job.payload, async (progress) => {
+      await renewLock(progress);
+      if (lockLost) {
+        throw new Error('Lock del job perso.');
+      }
+    });
+  } catch (error: unknown) {
+    clearInterval(heartbeat);
+    await lockUpdates;
+    if (lockLost) {
+      console.error(`Job ${job.type} ${job.job_id} interrotto: il suo lock è scaduto ed è stato ripreso da un altro worker.`);
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Errore sconosciuto.';
+    console.error(`Errore nel job ${job.type} ${job.job_id} (tentativo ${job.attempts}/${job.max_attempts}):`, error);
+    const outcome = await failJob(job, message);
+    if (outcome !== 'lock_lost') {
+      await runHook(job, 'onFailure', () => handler.onFailure?.(job, outcome === 'retrying'));
+    }
+    return;
+  }
+
+  clearInterval(heartbeat);
+  await lockUpdates;
+  if (!(await completeJob(job, result))) {
+    console.error(`Job ${job.type} ${job.job_id} completato dopo la scadenza del suo lock: risultato ignorato.`);
+    return;
+  }
+  await runHook(job, 'onSuccess', () => handler.onSuccess?.(job));
+}
+
+/**
+ * Waits for the given time, returning early if the signal is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // The listener is removed when the timer fires, so idle polls do not pile up listeners on the signal
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Processes the queue until the signal is aborted: claims a job, runs it,
+ * and waits POLL_INTERVAL_MS when the queue is empty or cannot be reached.
+ *
+ * @param signal - Signal used to stop the worker after the current job.
+ * @returns A promise that resolves when the worker stops.
+ */
+export async function runWorker(signal?: AbortSignal): Promise<void> {
+  const types = Object.keys(jobHandlers) as JobType[];
+
+  while (!signal?.aborted) {
+    let job: JobRecord | null = null;
+    try {
+      for (const staleJob of await failStaleJobs(types)) {
+        console.error(`Job ${staleJob.type} ${staleJob.job_id} abbandonato dopo ${staleJob.attempts} tentativi.`);
+        await runHook(staleJob, 'onFailure', () => jobHandlers[staleJob.type as JobType]?.onFailure?.(staleJob, false));
+      }
+      job = await claimNextJob(types);
+    } catch (error) {
+      console.error('Errore nel recupero del prossimo job:', error);
+    }
+
+    if (job) {
+      await runJob(job);
+    } else {
+      await sleep(POLL_INTERVAL_MS, signal);
+    }
+  }
+}
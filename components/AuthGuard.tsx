@@ -0,0 +1,71 @@
+/**
+ * @fileoverview
+ * Questo componente protegge le pagine riservate agli utenti autenticati.
+ * Avvolge tutte le pagine in pages/_app.tsx e, senza una sessione attiva, reindirizza al login.
+ *
+ * Key features:
+ * - Attende la verifica della sessione dei cookie (sessionChecked) prima di mostrare la pagina.
+ * - Reindirizza a /login con il parametro "next", per tornare alla pagina richiesta dopo l'accesso.
+ * - Le pagine pubbliche (login, registrazione, logout, verifica dell'email e reimpostazione della password)
+ *   sono sempre visibili.
+ * - getRedirectPath: Restituisce la pagina a cui tornare dopo l'accesso, solo se interna all'applicazione.
+ *
+ * @dependencies
+ * - React: per il rendering del componente.
+ * - Next.js Router: per il reindirizzamento.
+ * - context/AppContext: per l'utente e lo stato della verifica della sessione.
+ *
+ * @notes
+ * - Il controllo avviene nel browser: le API restano comunque protette da withAuth.
+ * - Anche la scadenza della sessione durante l'uso (refresh non riuscito) riporta al login,
+ *   perché l'utente nel contesto viene azzerato.
+ */
+
+import React, { ReactNode, useContext, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { AppContext } from '../context/AppContext';
+
+// Pagine accessibili senza sessione
+export const PUBLIC_PATHS = [
+  '/login',
+  '/register',
+  '/logout',
+  '/verify-email',
+  '/forgot-password',
+  '/reset-password',
+];
+
+/**
+ * Restituisce la pagina a cui tornare dopo l'accesso, accettando solo percorsi interni
+ * (un indirizzo esterno porterebbe l'utente su un altro sito dopo il login).
+ *
+ * @param next Il valore del parametro "next".
+ * @returns Il percorso della pagina, oppure il Dashboard.
+ */
+export function getRedirectPath(next: string | string[] | undefined): string {
+  const path = Array.isArray(next) ? next[0] : next;
+  return path && path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\') ? path : '/';
+}
+
+interface AuthGuardProps {
+  children: ReactNode;
+}
+
+const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
+  const router = useRouter();
+  const { user, sessionChecked } = useContext(AppContext) || {};
+  const isPublic = PUBLIC_PATHS.includes(router.pathname);
+
+  useEffect(() => {
+    if (!isPublic && sessionChecked && !user) {
+      router.replace({ pathname: '/login', query: { next: router.asPath } });
+    }
+  }, [isPublic, sessionChecked, user, router]);
+
+  if (!isPublic && !user) {
+    return <p style={{ padding: '1rem' }}>Caricamento in corso...</p>;
+  }
+  return <>{children}</>;
+};
+
+export default AuthGuard;
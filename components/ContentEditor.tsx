@@ -6,6 +6,8 @@
  * Key features:
  * - Area di testo per la modifica del contenuto.
  * - Pulsante per rigenerare il contenuto.
+ * - Visualizzazione progressiva del testo durante la generazione in streaming,
+ *   con un pulsante per annullarla.
  *
  * @dependencies
  * - React: per la gestione degli eventi e dello stato.
@@ -13,29 +15,56 @@
  *
  * @notes
  * - Il componente ora utilizza il modulo CSS "ContentEditor.module.css" per i suoi stili.
+ * - Durante lo streaming il genitore aggiorna "content" a ogni porzione ricevuta; l'area di testo
+ *   è in sola lettura e scorre automaticamente fino all'ultima riga.
  */
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import styles from './ContentEditor.module.css';
 
 interface ContentEditorProps {
   content: string;
   onChange: (value: string) => void;
   onRegenerate: () => void;
+  streaming?: boolean;
+  onCancel?: () => void;
 }
 
-const ContentEditor: React.FC<ContentEditorProps> = ({ content, onChange, onRegenerate }) => {
+const ContentEditor: React.FC<ContentEditorProps> = ({ content, onChange, onRegenerate, streaming = false, onCancel }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Mantiene visibile il testo appena arrivato durante lo streaming
+  useEffect(() => {
+    if (streaming && textareaRef.current) {
+      textareaRef.current.scrollTop = textareaRef.current.scrollHeight;
+    }
+  }, [content, streaming]);
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
       <textarea
+        ref={textareaRef}
         value={content}
         onChange={(e) => onChange(e.target.value)}
+        readOnly={streaming}
+        aria-busy={streaming}
         rows={10}
         className={styles.textarea}
       />
-      <button onClick={onRegenerate} className={styles.button}>
-        Rigenera Contenuto
-      </button>
+      {streaming ? (
+        <div className={styles.streamingBar}>
+          <span>Generazione in corso...</span>
+          {onCancel && (
+            <button onClick={onCancel} className={styles.cancelButton}>
+              Annulla
+            </button>
+          )}
+        </div>
+      ) : (
+        <button onClick={onRegenerate} className={styles.button}>
+          Rigenera Contenuto
+        </button>
+      )}
     </div>
   );
 };
@@ -1,12 +1,14 @@
 /**
  * @fileoverview
  * Questo componente gestisce il caricamento dei file tramite supporto drag-and-drop.
- * Consente agli utenti di trascinare e rilasciare il file o cliccare per selezionarlo,
- * con validazione basata sui tipi di file consentiti e la dimensione massima.
+ * Consente agli utenti di trascinare e rilasciare uno o più file o cliccare per selezionarli,
+ * con validazione basata sui tipi di file consentiti, la dimensione massima e il numero massimo di file.
  *
  * Key features:
  * - Supporto drag-and-drop, click-to-upload e interazione tramite tastiera.
- * - Validazione del file (dimensione e tipo).
+ * - Selezione multipla (ad esempio tutti i volumi di una collana).
+ * - Validazione di ogni file (dimensione e tipo): i file non validi vengono segnalati e scartati,
+ *   gli altri vengono comunque passati al componente genitore.
  * - Visualizzazione di messaggi di errore standardizzati utilizzando il componente ErrorMessage.
  *
  * @dependencies
@@ -15,7 +17,11 @@
  * - components/ErrorMessage.tsx: per visualizzare messaggi di errore in modo consistente.
  *
  * @notes
- * - I parametri onFileSelect, maxSize e allowedTypes devono essere forniti dal componente genitore.
+ * - I parametri onFilesSelect, maxSize e allowedTypes devono essere forniti dal componente genitore;
+ *   maxFiles è facoltativo (nessun limite se non indicato).
+ * - allowedTypes può contenere sia tipi MIME sia estensioni (es. ".md"), come l'attributo "accept":
+ *   un file è valido se corrisponde all'uno o all'altra, perché alcuni browser non indicano
+ *   il tipo MIME di formati come Markdown o RTF.
  */
 
 import React, { useState, useRef, DragEvent, ChangeEvent, KeyboardEvent } from 'react';
@@ -23,37 +29,50 @@ import styles from './FileUploader.module.css';
 import ErrorMessage from './ErrorMessage';
 
 interface FileUploaderProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   maxSize: number; // dimensione massima in bytes
-  allowedTypes: string[];
+  allowedTypes: string[]; // tipi MIME ed estensioni consentiti
+  maxFiles?: number; // numero massimo di file selezionabili insieme
 }
 
-/**
- * Valida il file in base alla dimensione e al tipo.
- * @param file Il file da validare.
- * @returns true se il file è valido, false altrimenti.
- */
-const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, maxSize, allowedTypes }) => {
+const FileUploader: React.FC<FileUploaderProps> = ({ onFilesSelect, maxSize, allowedTypes, maxFiles }) => {
   const [dragOver, setDragOver] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const validateFile = (file: File): boolean => {
+  /**
+   * Valida il file in base alla dimensione e al tipo.
+   * @param file Il file da validare.
+   * @returns Il messaggio di errore, oppure null se il file è valido.
+   */
+  const validateFile = (file: File): string | null => {
     if (file.size > maxSize) {
-      setError(`Il file supera il limite di ${maxSize / (1024 * 1024)}MB.`);
-      return false;
+      return `Il file supera il limite di ${maxSize / (1024 * 1024)}MB.`;
     }
-    if (!allowedTypes.includes(file.type)) {
-      setError('Tipo di file non supportato.');
-      return false;
+    const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+    if (!allowedTypes.includes(file.type) && !allowedTypes.includes(extension)) {
+      return 'Tipo di file non supportato.';
     }
-    setError('');
-    return true;
+    return null;
   };
 
-  const handleFile = (file: File) => {
-    if (validateFile(file)) {
-      onFileSelect(file);
+  const handleFiles = (fileList: FileList) => {
+    const files = Array.from(fileList);
+    if (maxFiles !== undefined && files.length > maxFiles) {
+      setError(`Puoi caricare al massimo ${maxFiles} file alla volta.`);
+      return;
+    }
+    const errors: string[] = [];
+    const validFiles = files.filter((file) => {
+      const fileError = validateFile(file);
+      if (fileError) {
+        errors.push(files.length > 1 ? `${file.name}: ${fileError}` : fileError);
+      }
+      return !fileError;
+    });
+    setError(errors.join(' '));
+    if (validFiles.length > 0) {
+      onFilesSelect(validFiles);
     }
   };
 
@@ -61,8 +80,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, maxSize, allo
     e.preventDefault();
     setDragOver(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      handleFile(file);
+      handleFiles(e.dataTransfer.files);
       e.dataTransfer.clearData();
     }
   };
@@ -79,8 +97,9 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, maxSize, allo
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      handleFile(file);
+      handleFiles(e.target.files);
+      // Consente di selezionare di nuovo gli stessi file
+      e.target.value = '';
     }
   };
 
@@ -107,16 +126,17 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, maxSize, allo
         onKeyDown={handleKeyDown}
         role="button"
         tabIndex={0}
-        aria-label="Carica il file: trascina qui il file o clicca per selezionarlo"
+        aria-label="Carica i file: trascina qui uno o più file o clicca per selezionarli"
         className={`${styles.dropArea} ${dragOver ? styles.dragOver : ''}`}
       >
-        <p>Trascina qui il file o clicca per selezionarlo</p>
+        <p>Trascina qui uno o più file o clicca per selezionarli</p>
       </div>
       <input
         type="file"
         ref={fileInputRef}
         style={{ display: 'none' }}
         onChange={handleFileChange}
+        multiple
         accept={allowedTypes.join(',')}
       />
       {error && <ErrorMessage message={error} />}
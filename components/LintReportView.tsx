@@ -0,0 +1,91 @@
+/**
+ * @fileoverview
+ * Questo componente visualizza il report di controllo di un manoscritto: il numero di problemi
+ * per ciascun controllo e, in una tabella, l'elenco dei problemi con la loro posizione.
+ *
+ * Key features:
+ * - Riepilogo dei problemi trovati per tipo (spazi doppi, virgolette, apostrofi, puntini di sospensione...).
+ * - Posizione di ogni problema: sezione, riga del testo estratto o pagina del PDF, con un estratto del testo.
+ * - Area scrollabile per gestire un numero elevato di problemi.
+ *
+ * @dependencies
+ * - React: per il rendering degli elementi della lista.
+ * - CSS Modules: per la gestione dei CSS in modo modulare.
+ * - backend/services/manuscriptLint.ts: per i tipi del report.
+ *
+ * @notes
+ * - Per ogni tipo di problema viene elencato un numero limitato di occorrenze; il riepilogo
+ *   riporta comunque il totale.
+ */
+
+import React from 'react';
+import styles from './LintReportView.module.css';
+import type { LintLocation, LintReport, LintRule } from '../backend/services/manuscriptLint';
+
+// Nome di ciascun controllo mostrato all'utente
+const ruleLabels: Record<LintRule, string> = {
+  double_space: 'Spazi doppi',
+  mixed_quotes: 'Virgolette miste',
+  mixed_apostrophes: 'Apostrofi misti',
+  inconsistent_ellipsis: 'Puntini di sospensione',
+  orphan_heading: 'Titoli senza testo',
+  empty_page: 'Pagine vuote',
+  long_paragraph: 'Paragrafi molto lunghi',
+  repeated_word: 'Parole ripetute',
+};
+
+interface LintReportViewProps {
+  report: LintReport;
+}
+
+/**
+ * Descrive la posizione di un problema.
+ */
+const formatLocation = (location: LintLocation): string => {
+  if (location.page !== undefined) {
+    return `Pagina ${location.page}`;
+  }
+  const section = location.section ? `${location.section}, ` : '';
+  return `${section}riga ${location.line}`;
+};
+
+const LintReportView: React.FC<LintReportViewProps> = ({ report }) => {
+  if (report.total === 0) {
+    return <p>Nessun problema di formattazione trovato.</p>;
+  }
+
+  const rules = (Object.keys(ruleLabels) as LintRule[]).filter((rule) => report.counts[rule] > 0);
+
+  return (
+    <div>
+      <p>
+        Problemi trovati: {report.total} (
+        {rules.map((rule) => `${ruleLabels[rule]}: ${report.counts[rule]}`).join(' · ')})
+      </p>
+      <div className={styles.container}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th className={styles.th}>Controllo</th>
+              <th className={styles.th}>Posizione</th>
+              <th className={styles.th}>Problema</th>
+              <th className={styles.th}>Estratto</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.issues.map((issue, index) => (
+              <tr key={index}>
+                <td className={styles.td}>{ruleLabels[issue.rule]}</td>
+                <td className={styles.td}>{formatLocation(issue.location)}</td>
+                <td className={styles.td}>{issue.message}</td>
+                <td className={`${styles.td} ${styles.excerpt}`}>{issue.excerpt ?? ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LintReportView;
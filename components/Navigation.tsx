@@ -1,21 +1,44 @@
 /**
  * @fileoverview
  * This component manages the side navigation of the application.
- * It includes links to key pages such as Dashboard, File Upload, and AI Editor.
+ * It includes links to key pages such as Dashboard, File Upload, My Books, Search and AI Editor.
  * 
  * Key features:
  * - Provides client-side navigation using Next.js Link.
  * - The visual layout is responsive and adjusts via CSS (Navigation.module.css).
+ * - Shows the links to login and registration without a session, and the user with the logout link otherwise.
  * 
  * @notes
  * - No code changes were needed in this file as responsiveness is handled by the CSS.
  */
 
-import React from 'react';
+import React, { useContext } from 'react';
 import Link from 'next/link';
+import { AppContext } from '../context/AppContext';
 import styles from './Navigation.module.css';
 
 const Navigation: React.FC = () => {
+  const { user } = useContext(AppContext) || {};
+
+  if (!user) {
+    return (
+      <nav>
+        <ul className={styles.navList}>
+          <li className={styles.navItem}>
+            <Link href="/login" className={styles.link}>
+              Accedi
+            </Link>
+          </li>
+          <li className={styles.navItem}>
+            <Link href="/register" className={styles.link}>
+              Registrati
+            </Link>
+          </li>
+        </ul>
+      </nav>
+    );
+  }
+
   return (
     <nav>
       <ul className={styles.navList}>
@@ -29,11 +52,26 @@ const Navigation: React.FC = () => {
             Carica il File
           </Link>
         </li>
+        <li className={styles.navItem}>
+          <Link href="/books" className={styles.link}>
+            I miei libri
+          </Link>
+        </li>
+        <li className={styles.navItem}>
+          <Link href="/search" className={styles.link}>
+            Cerca nei testi
+          </Link>
+        </li>
         <li className={styles.navItem}>
           <Link href="/editor" className={styles.link}>
             Editor AI
           </Link>
         </li>
+        <li className={styles.navItem}>
+          <Link href="/logout" className={styles.link}>
+            Esci ({user.username})
+          </Link>
+        </li>
       </ul>
     </nav>
   );
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview
+ * Questo componente visualizza l'elenco dei file di un caricamento multiplo, con lo stato e
+ * l'avanzamento dell'elaborazione di ciascuno.
+ *
+ * Key features:
+ * - Una riga per file: nome, stato (in caricamento, in elaborazione, completato, errore) e messaggio.
+ * - Barra di avanzamento dell'elaborazione in background.
+ * - Avvisi sui file già caricati e sulle revisioni di un libro caricato in precedenza.
+ * - Pulsante per mostrare i risultati (testo estratto, analisi e report di controllo) dei file completati.
+ *
+ * @dependencies
+ * - React: per il rendering degli elementi della lista.
+ * - CSS Modules: per la gestione dei CSS in modo modulare.
+ *
+ * @notes
+ * - Lo stato dei file viene gestito dal componente genitore (pages/upload.tsx), che interroga
+ *   periodicamente /api/files/[id]/status.
+ */
+
+import React from 'react';
+import styles from './UploadProgressList.module.css';
+
+export type UploadEntryStatus = 'uploading' | 'processing' | 'complete' | 'error';
+
+/**
+ * Un file del caricamento, con il suo stato.
+ */
+export interface UploadEntry {
+  // Chiave della riga, assegnata alla selezione del file
+  key: string;
+  file_name: string;
+  // Disponibile dopo il salvataggio del file
+  file_id?: string;
+  status: UploadEntryStatus;
+  // Avanzamento dell'elaborazione, da 0 a 100
+  progress: number;
+  message: string;
+  // Avviso che resta visibile fino alla fine (file già caricato, revisione di un altro libro)
+  notice?: string;
+}
+
+interface UploadProgressListProps {
+  entries: UploadEntry[];
+  // Chiave del file di cui sono mostrati i risultati
+  selectedKey?: string | null;
+  onSelect: (entry: UploadEntry) => void;
+}
+
+// Etichetta di ciascuno stato mostrata all'utente
+const statusLabels: Record<UploadEntryStatus, string> = {
+  uploading: 'In caricamento',
+  processing: 'In elaborazione',
+  complete: 'Completato',
+  error: 'Errore',
+};
+
+const UploadProgressList: React.FC<UploadProgressListProps> = ({ entries, selectedKey, onSelect }) => {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={styles.list}>
+      {entries.map((entry) => (
+        <li key={entry.key} className={`${styles.item} ${entry.key === selectedKey ? styles.selected : ''}`}>
+          <div className={styles.header}>
+            <strong>{entry.file_name}</strong>
+            <span className={entry.status === 'error' ? styles.error : styles.status}>{statusLabels[entry.status]}</span>
+          </div>
+          {(entry.status === 'uploading' || entry.status === 'processing') && (
+            <progress
+              className={styles.progress}
+              max={100}
+              // Durante il caricamento l'avanzamento non è noto: la barra resta indeterminata
+              value={entry.status === 'processing' ? entry.progress : undefined}
+              aria-label={`Avanzamento di ${entry.file_name}`}
+            />
+          )}
+          {entry.message && <p className={styles.message}>{entry.message}</p>}
+          {entry.notice && <p className={styles.notice}>{entry.notice}</p>}
+          {entry.status === 'complete' && (
+            <button type="button" onClick={() => onSelect(entry)} disabled={entry.key === selectedKey}>
+              Mostra risultati
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default UploadProgressList;
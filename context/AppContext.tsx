@@ -2,9 +2,10 @@
  * @fileoverview
  * This file provides the global state management for the YCP Servizi application using React Context.
  * It defines the AppContext which holds the global state including:
- * - User session data (user details and JWT token)
+ * - User session data (user details), restored at startup from the session cookies
  * - File upload status (uploading flag, error messages, and file object)
  * - AI output (generated content string)
+ * - Files uploaded during the session, with their chapters, available to the editor
  *
  * The AppProvider wraps the application and provides state update functions to its children.
  *
@@ -12,23 +13,29 @@
  * - Centralized state for user, file upload status, and AI output.
  * - Strong type definitions using TypeScript interfaces.
  * - Easy integration into the app via the AppProvider.
+ * - Restores the user of the session cookies with /api/auth/me, and clears it when the session expires.
  *
  * @dependencies
  * - React: For creating the context and managing state.
+ * - lib/apiClient.ts: For the requests with the session cookies.
  *
  * @notes
  * - This implementation uses useState for state management.
  * - The context is initialized with undefined and a custom provider is used to supply values.
+ * - The tokens are in HttpOnly cookies and are never part of the state.
  */
 
-import React, { createContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useEffect, useState, ReactNode } from 'react';
+import { apiFetch, setSessionExpiredHandler } from '../lib/apiClient';
+import type { UserRole } from '../backend/services/accessService';
 
 // Define an interface for user session data.
 export interface User {
   user_id: string;
   username: string;
   email: string;
-  token: string;
+  // Role of the user: "admin", "editor" or "author"
+  role: UserRole;
 }
 
 // Define an interface for file upload status.
@@ -38,14 +45,26 @@ export interface FileUploadStatus {
   file?: File;
 }
 
+// Define an interface for a file uploaded during the session.
+export interface UploadedFile {
+  file_id: string;
+  file_name: string;
+  // Chapter headings, in order, for generating the content of a single chapter
+  chapters?: Array<{ heading: string | null }>;
+}
+
 // Define the shape of the global context state.
 export interface AppContextType {
   user: User | null;
   setUser: (user: User | null) => void;
+  // False until the session of the cookies has been checked
+  sessionChecked: boolean;
   fileUploadStatus: FileUploadStatus;
   setFileUploadStatus: (status: FileUploadStatus) => void;
   aiOutput: string;
   setAiOutput: (output: string) => void;
+  uploadedFiles: UploadedFile[];
+  addUploadedFile: (file: UploadedFile) => void;
 }
 
 // Create the context with an undefined initial value.
@@ -65,6 +84,35 @@ interface AppProviderProps {
 export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   // User state management.
   const [user, setUser] = useState<User | null>(null);
+  const [sessionChecked, setSessionChecked] = useState<boolean>(false);
+
+  // Restore the user of the session cookies, e.g. after a reload
+  useEffect(() => {
+    let cancelled = false;
+    setSessionExpiredHandler(() => setUser(null));
+
+    const loadUser = async () => {
+      try {
+        const response = await apiFetch('/api/auth/me');
+        if (response.ok && !cancelled) {
+          const { data } = await response.json();
+          setUser({ user_id: data.user_id, username: data.username, email: data.email, role: data.role });
+        }
+      } catch (loadError) {
+        console.error('Error restoring the session:', loadError);
+      } finally {
+        if (!cancelled) {
+          setSessionChecked(true);
+        }
+      }
+    };
+
+    loadUser();
+    return () => {
+      cancelled = true;
+      setSessionExpiredHandler(null);
+    };
+  }, []);
 
   // File upload status state management.
   const [fileUploadStatus, setFileUploadStatus] = useState<FileUploadStatus>({
@@ -76,15 +124,25 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   // AI output state management.
   const [aiOutput, setAiOutput] = useState<string>('');
 
+  // Uploaded files state management: the most recent upload comes first.
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  // Memoized, since pages use it as an effect dependency
+  const addUploadedFile = useCallback((file: UploadedFile) => {
+    setUploadedFiles((files) => [file, ...files.filter((existing) => existing.file_id !== file.file_id)]);
+  }, []);
+
   return (
     <AppContext.Provider
       value={{
         user,
         setUser,
+        sessionChecked,
         fileUploadStatus,
         setFileUploadStatus,
         aiOutput,
         setAiOutput,
+        uploadedFiles,
+        addUploadedFile,
       }}
     >
       {children}
@@ -0,0 +1,3 @@
+CREATE TYPE "public"."catalog_scheme" AS ENUM('bisac', 'thema', 'custom');--> statement-breakpoint
+ALTER TABLE "Catalog" ADD COLUMN "scheme" "catalog_scheme" DEFAULT 'custom' NOT NULL;--> statement-breakpoint
+ALTER TABLE "Catalog" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "ChunkSummaries" (
+	"summary_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_id" uuid NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"chunk_hash" varchar(64) NOT NULL,
+	"summary" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_chunk_summaries_file_hash" ON "ChunkSummaries" USING btree ("file_id","chunk_hash");
\ No newline at end of file
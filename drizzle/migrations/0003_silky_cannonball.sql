@@ -0,0 +1 @@
+ALTER TABLE "AIOutputs" ADD COLUMN "edited" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TYPE "public"."template_scope" AS ENUM('user', 'imprint');--> statement-breakpoint
+CREATE TABLE "PromptTemplates" (
+	"template_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scope" "template_scope" NOT NULL,
+	"user_id" uuid,
+	"imprint" varchar(100),
+	"generation_type" varchar(50) NOT NULL,
+	"template" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "Users" ADD COLUMN "imprint" varchar(100);--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_prompt_templates_owner_type" ON "PromptTemplates" USING btree ("scope","user_id","imprint","generation_type");
\ No newline at end of file
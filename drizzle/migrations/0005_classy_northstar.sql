@@ -0,0 +1,4 @@
+DROP INDEX "idx_prompt_templates_owner_type";--> statement-breakpoint
+ALTER TABLE "AIOutputs" ADD COLUMN "language" varchar(5) DEFAULT 'it' NOT NULL;--> statement-breakpoint
+ALTER TABLE "PromptTemplates" ADD COLUMN "language" varchar(5) DEFAULT 'it' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_prompt_templates_owner_type" ON "PromptTemplates" USING btree ("scope","user_id","imprint","generation_type","language");
\ No newline at end of file
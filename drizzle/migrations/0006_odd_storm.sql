@@ -0,0 +1,20 @@
+CREATE TYPE "public"."job_status" AS ENUM('queued', 'running', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "Jobs" (
+	"job_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"file_id" uuid,
+	"payload" jsonb NOT NULL,
+	"status" "job_status" DEFAULT 'queued' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"error" text,
+	"result" jsonb,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_jobs_status_run_at" ON "Jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "idx_jobs_file_id" ON "Jobs" USING btree ("file_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "Files" ALTER COLUMN "file_type" SET DATA TYPE varchar(100);
\ No newline at end of file
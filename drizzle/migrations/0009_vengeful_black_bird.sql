@@ -0,0 +1 @@
+ALTER TABLE "Files" ADD COLUMN "ocr" jsonb;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "Files" ADD COLUMN "version_of" uuid;--> statement-breakpoint
+ALTER TABLE "Files" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "Files" ADD COLUMN "text_signature" jsonb;--> statement-breakpoint
+CREATE INDEX "idx_files_user_content_hash" ON "Files" USING btree ("user_id","content_hash");--> statement-breakpoint
+CREATE INDEX "idx_files_version_of" ON "Files" USING btree ("version_of");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "FileTexts" (
+	"file_id" uuid PRIMARY KEY NOT NULL,
+	"extracted_text" text NOT NULL,
+	"structure" jsonb NOT NULL,
+	"search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('italian', extracted_text)) STORED,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_file_texts_search" ON "FileTexts" USING gin ("search_vector");--> statement-breakpoint
+INSERT INTO "FileTexts" ("file_id", "extracted_text", "structure")
+SELECT DISTINCT ON ("file_id")
+	"file_id",
+	"result"->>'extractedText',
+	COALESCE("result"->'structure', '{"title":null,"author":null,"toc":[],"frontMatter":[],"chapters":[],"backMatter":[]}'::jsonb)
+FROM "Jobs"
+WHERE "type" = 'process_upload' AND "status" = 'completed' AND "file_id" IS NOT NULL AND "result" ? 'extractedText'
+ORDER BY "file_id", "created_at" DESC;
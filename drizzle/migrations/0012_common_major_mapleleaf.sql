@@ -0,0 +1,14 @@
+CREATE TABLE "RefreshTokens" (
+	"token_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"family_id" uuid NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"replaced_by" uuid,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_refresh_tokens_hash" ON "RefreshTokens" USING btree ("token_hash");--> statement-breakpoint
+CREATE INDEX "idx_refresh_tokens_family" ON "RefreshTokens" USING btree ("family_id");--> statement-breakpoint
+CREATE INDEX "idx_refresh_tokens_user" ON "RefreshTokens" USING btree ("user_id");
\ No newline at end of file
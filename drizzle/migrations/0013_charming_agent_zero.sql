@@ -0,0 +1,15 @@
+CREATE TYPE "public"."user_token_purpose" AS ENUM('email_verification', 'password_reset');--> statement-breakpoint
+CREATE TABLE "UserTokens" (
+	"token_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"purpose" "user_token_purpose" NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "Users" ADD COLUMN "email_verified_at" timestamp;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_user_tokens_hash" ON "UserTokens" USING btree ("token_hash");--> statement-breakpoint
+CREATE INDEX "idx_user_tokens_user_purpose" ON "UserTokens" USING btree ("user_id","purpose");--> statement-breakpoint
+UPDATE "Users" SET "email_verified_at" = "created_at" WHERE "email_verified_at" IS NULL;
\ No newline at end of file
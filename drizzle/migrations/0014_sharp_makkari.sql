@@ -0,0 +1,2 @@
+CREATE TYPE "public"."user_role" AS ENUM('admin', 'editor', 'author');--> statement-breakpoint
+ALTER TABLE "Users" ADD COLUMN "role" "user_role" DEFAULT 'author' NOT NULL;
\ No newline at end of file
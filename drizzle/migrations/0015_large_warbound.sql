@@ -0,0 +1,3 @@
+DROP INDEX "idx_prompt_templates_owner_type";--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_prompt_templates_user_type" ON "PromptTemplates" USING btree ("user_id","generation_type","language") WHERE "PromptTemplates"."scope" = 'user';--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_prompt_templates_imprint_type" ON "PromptTemplates" USING btree ("imprint","generation_type","language") WHERE "PromptTemplates"."scope" = 'imprint';
\ No newline at end of file
@@ -0,0 +1,7 @@
+UPDATE "Catalog" SET "version" = "numbered"."row_number"
+FROM (
+	SELECT "catalog_id", row_number() OVER (PARTITION BY "scheme" ORDER BY "version", "last_updated" NULLS FIRST, "catalog_id") AS "row_number"
+	FROM "Catalog"
+) AS "numbered"
+WHERE "Catalog"."catalog_id" = "numbered"."catalog_id" AND "Catalog"."version" <> "numbered"."row_number";--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_catalog_scheme_version" ON "Catalog" USING btree ("scheme","version");
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "idx_files_book_version" ON "Files" USING btree ("version_of","version") WHERE "Files"."version_of" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+DELETE FROM "ChunkSummaries" "duplicate"
+USING "ChunkSummaries" "kept"
+WHERE "duplicate"."file_id" = "kept"."file_id"
+	AND "duplicate"."chunk_hash" = "kept"."chunk_hash"
+	AND "duplicate"."summary_id" > "kept"."summary_id";--> statement-breakpoint
+DROP INDEX "idx_chunk_summaries_file_hash";--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_chunk_summaries_file_hash" ON "ChunkSummaries" USING btree ("file_id","chunk_hash");
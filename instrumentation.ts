@@ -0,0 +1,22 @@
+/**
+ * @fileoverview
+ * Next.js instrumentation hook, run once when the server starts.
+ * It checks the configuration that the server cannot run without, so that a misconfigured
+ * deployment fails at startup instead of on the first request.
+ *
+ * Key features:
+ * - Stops the server in production when JWT_SECRET is not set.
+ *
+ * @dependencies
+ * - backend/services/authService.ts for reading the JWT secret.
+ *
+ * @notes
+ * - The check runs only in the Node.js runtime, where the API routes run.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getJwtSecret } = await import('./backend/services/authService');
+    getJwtSecret();
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview
+ * Questo modulo contiene la funzione lato client per chiamare le API dell'applicazione con la
+ * sessione salvata nei cookie.
+ *
+ * Key features:
+ * - apiFetch: Esegue la richiesta con i cookie della sessione e aggiunge il token CSRF alle
+ *   richieste che modificano dati.
+ * - Quando il token di accesso è scaduto (401), rinnova la sessione con /api/auth/refresh e
+ *   ripete la richiesta una volta.
+ * - setSessionExpiredHandler: Registra la funzione chiamata quando la sessione non può essere
+ *   rinnovata, per riportare l'utente al login.
+ *
+ * @dependencies
+ * - fetch e document.cookie del browser.
+ *
+ * @notes
+ * - I token sono in cookie HttpOnly e non sono accessibili da JavaScript; il client legge solo
+ *   il cookie del token CSRF, che ripete nell'header X-CSRF-Token.
+ * - Più richieste che ricevono 401 insieme condividono un unico rinnovo della sessione, perché
+ *   ogni refresh token può essere usato una sola volta.
+ */
+
+// Nome del cookie con il token CSRF e header in cui ripeterlo (backend/utils/authCookies.ts)
+const CSRF_COOKIE = 'ycp_csrf';
+const CSRF_HEADER = 'X-CSRF-Token';
+
+// Richieste per cui un 401 non indica una sessione scaduta
+const NO_REFRESH_PATHS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh'];
+
+// Metodi che non modificano dati e non richiedono il token CSRF
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+let refreshPromise: Promise<boolean> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+/**
+ * Registra la funzione chiamata quando la sessione è scaduta e non può essere rinnovata.
+ *
+ * @param handler La funzione da chiamare, oppure null per rimuoverla.
+ */
+export function setSessionExpiredHandler(handler: (() => void) | null): void {
+  sessionExpiredHandler = handler;
+}
+
+/**
+ * Legge il token CSRF dal cookie impostato al login.
+ */
+function getCsrfToken(): string | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+  const entry = document.cookie.split('; ').find((cookie) => cookie.startsWith(`${CSRF_COOKIE}=`));
+  return entry ? decodeURIComponent(entry.slice(CSRF_COOKIE.length + 1)) : null;
+}
+
+/**
+ * Esegue una richiesta con i cookie della sessione e, se modifica dati, con il token CSRF.
+ */
+function send(input: string, init: RequestInit): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const csrfToken = getCsrfToken();
+  if (!SAFE_METHODS.includes((init.method || 'GET').toUpperCase()) && csrfToken) {
+    headers.set(CSRF_HEADER, csrfToken);
+  }
+  return fetch(input, { ...init, headers, credentials: 'same-origin' });
+}
+
+/**
+ * Rinnova la sessione con il refresh token salvato nel cookie.
+ *
+ * @returns Una Promise che si risolve con true se la sessione è stata rinnovata.
+ */
+function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = send('/api/auth/refresh', { method: 'POST' })
+      .then((response) => response.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Chiama un'API dell'applicazione con la sessione dell'utente.
+ *
+ * @param input L'URL dell'API.
+ * @param init Le opzioni della richiesta, come per fetch.
+ * @returns Una Promise che si risolve con la risposta; se la sessione è scaduta e non può essere
+ *   rinnovata, con la risposta 401, dopo aver chiamato la funzione registrata con setSessionExpiredHandler.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await send(input, init);
+  if (response.status !== 401 || NO_REFRESH_PATHS.some((path) => input.startsWith(path))) {
+    return response;
+  }
+
+  if (await refreshSession()) {
+    return send(input, init);
+  }
+  sessionExpiredHandler?.();
+  return response;
+}
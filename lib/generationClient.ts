@@ -0,0 +1,99 @@
+/**
+ * @fileoverview
+ * Questo modulo contiene le funzioni lato client per richiedere la generazione dei contenuti
+ * in streaming all'endpoint /api/generate/stream.
+ *
+ * Key features:
+ * - streamGeneratedContent: Invia la richiesta e notifica ogni porzione di testo appena ricevuta.
+ * - Supporta l'annullamento tramite AbortSignal, che interrompe anche la richiesta al modello.
+ *
+ * @dependencies
+ * - lib/apiClient.ts: per la richiesta con i cookie della sessione.
+ * - ReadableStream del browser.
+ *
+ * @notes
+ * - La risposta è in formato server-sent events; EventSource non consente richieste POST,
+ *   quindi il flusso viene letto manualmente.
+ */
+
+import { apiFetch } from './apiClient';
+
+export interface StreamGenerationOptions {
+  type: string;
+  fileId: string;
+  // Lingua del contenuto generato ("it" se non indicata)
+  language?: string;
+  // Indice del capitolo da cui generare il contenuto (intero manoscritto se non indicato)
+  chapter?: number;
+  signal?: AbortSignal;
+  onDelta: (delta: string) => void;
+}
+
+export interface StreamGenerationResult {
+  output_id: string;
+}
+
+/**
+ * Richiede la generazione di un contenuto in streaming.
+ *
+ * @param options Parametri della generazione e callback invocata per ogni porzione di testo.
+ * @returns Una Promise che si risolve con l'identificativo del contenuto salvato.
+ * @throws Se la richiesta fallisce, se il server segnala un errore o se viene annullata (AbortError).
+ */
+export async function streamGeneratedContent(options: StreamGenerationOptions): Promise<StreamGenerationResult> {
+  const { type, fileId, language, chapter, signal, onDelta } = options;
+
+  const response = await apiFetch('/api/generate/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, file_id: fileId, language, chapter }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Errore durante la generazione del contenuto.');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    // Gli eventi sono separati da una riga vuota; l'ultima parte può essere incompleta.
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const rawEvent of events) {
+      let eventName = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) {
+          eventName = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data += line.slice(5).trim();
+        }
+      }
+      if (!data) {
+        continue;
+      }
+
+      const payload = JSON.parse(data);
+      if (eventName === 'error') {
+        throw new Error(payload.error);
+      }
+      if (eventName === 'done') {
+        return { output_id: payload.output_id };
+      }
+      onDelta(payload.delta);
+    }
+  }
+
+  throw new Error('La generazione si è interrotta prima del completamento.');
+}
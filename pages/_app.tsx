@@ -2,16 +2,19 @@
  * @fileoverview
  * This file is the custom App component for the Next.js application.
  * It wraps all pages with the AppProvider, integrating the global state management 
- * (user session, file upload status, AI output) throughout the application.
+ * (user session, file upload status, AI output) throughout the application, and with the
+ * AuthGuard, which sends the users without a session to the login page.
  *
  * Key features:
  * - Provides a global state via AppContext to all components.
  * - Ensures that state management is initialized at the root level.
+ * - Protects every page except login and registration.
  *
  * @dependencies
  * - React: For component rendering.
  * - Next.js: For the custom App component structure.
  * - AppProvider from the context/AppContext for state management.
+ * - components/AuthGuard.tsx for the protected pages.
  *
  * @notes
  * - This file also imports global styles (if available) to be applied across the app.
@@ -20,6 +23,7 @@
 import React from 'react';
 import type { AppProps } from 'next/app';
 import { AppProvider } from '../context/AppContext';
+import AuthGuard from '../components/AuthGuard';
 import '../styles/global.css'; // Ensure this file exists or update with your global styles
 
 /**
@@ -31,7 +35,9 @@ import '../styles/global.css'; // Ensure this file exists or update with your gl
 const MyApp = ({ Component, pageProps }: AppProps) => {
   return (
     <AppProvider>
-      <Component {...pageProps} />
+      <AuthGuard>
+        <Component {...pageProps} />
+      </AuthGuard>
     </AppProvider>
   );
 };
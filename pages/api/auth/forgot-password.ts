@@ -0,0 +1,43 @@
+/**
+ * @fileoverview
+ * This API endpoint starts the reset of a forgotten password.
+ * It expects a POST request with the "email" field and sends the reset link to that address.
+ *
+ * @dependencies
+ * - backend/services/accountService.ts for issuing the token and sending the email.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - The response is the same, and is sent after the same time (ACCOUNT_EMAIL_RESPONSE_MS), whether or
+ *   not the address is registered, so that neither its content nor its timing can be used to find the
+ *   accounts. The email is sent before the response, since a serverless function can be frozen once it
+ *   has answered. A failure to send the email is only logged.
+ * - At most one link per minute is sent to the same address.
+ * - The link can be used once and expires after 60 minutes; a new request invalidates the previous links.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requestPasswordReset, waitForAccountEmailResponse } from '../../../backend/services/accountService';
+import type { ApiResponse } from '../../../types/api';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse<null>>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
+  }
+
+  const { email } = req.body || {};
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ message: '', error: 'Campo "email" obbligatorio.' });
+  }
+
+  const startedAt = Date.now();
+  try {
+    await requestPasswordReset(email);
+  } catch (error: unknown) {
+    console.error('Errore nella richiesta di reimpostazione della password:', error);
+  }
+  await waitForAccountEmailResponse(startedAt);
+  return res.status(200).json({
+    message: "Se l'indirizzo è registrato, riceverai un'email con il link per reimpostare la password.",
+  });
+}
@@ -1,33 +1,42 @@
 /**
  * @fileoverview
- * This API endpoint handles user login by verifying credentials and issuing a JWT token.
+ * This API endpoint handles user login by verifying credentials and starting a session.
  *
  * Key features:
  * - Validates that the request method is POST.
  * - Checks required fields (email and password) are provided.
  * - Retrieves the user from the database by email.
  * - Compares the provided password with the stored hashed password.
- * - Generates and returns a JWT token if credentials are valid.
+ * - Blocks the users whose email is not verified yet, when REQUIRE_EMAIL_VERIFICATION is "true".
+ * - Starts a session with a short-lived JWT access token and a refresh token if credentials are valid,
+ *   set in HttpOnly cookies together with the CSRF token for the web application.
+ * - Returns the tokens in the response body instead, without cookies, to the API clients that send
+ *   "token_in_body": true.
  *
  * @dependencies
- * - backend/services/authService.ts: Provides functions for password comparison and token generation.
+ * - backend/services/authService.ts: Provides functions for password comparison and session creation.
  * - backend/models/User.ts: The User model for database operations.
  * - backend/db.ts: Database connection instance.
  * - backend/utils/errorHandler.ts: Centralized error handling wrapper.
+ * - backend/utils/authCookies.ts: Delivery of the session tokens.
+ * - backend/services/accountService.ts: Email verification setting.
  * - types/api.d.ts: Type definitions for API responses.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { comparePassword, generateToken } from '../../../backend/services/authService';
+import { comparePassword, createSession } from '../../../backend/services/authService';
 import { Users } from '../../../backend/models/User';
 import { db } from '../../../backend/db';
 import { eq } from 'drizzle-orm';
 import { withErrorHandling } from '../../../backend/utils/errorHandler';
+import { deliverSessionTokens } from '../../../backend/utils/authCookies';
+import { isEmailVerificationRequired } from '../../../backend/services/accountService';
 import type { ApiResponse, LoginResponse } from '../../../types/api';
 
 interface LoginRequestBody {
   email: string;
   password: string;
+  token_in_body?: boolean;
 }
 
 /**
@@ -45,7 +54,7 @@ const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<Log
   }
 
   // Extract email and password from the request body.
-  const { email, password } = req.body as LoginRequestBody;
+  const { email, password, token_in_body } = req.body as LoginRequestBody;
   if (!email || !password) {
     res.status(400).json({ message: '', error: 'Campi "email" e "password" sono obbligatori.' });
     return;
@@ -66,17 +75,27 @@ const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<Log
     return;
   }
 
-  // Generate a JWT token for the authenticated user.
-  const token = generateToken({ user_id: user.user_id, username: user.username, email: user.email });
-  
-  // Return a successful response with user details and the token.
+  // Block the users who have not verified their email yet, when required.
+  if (isEmailVerificationRequired() && !user.email_verified_at) {
+    res.status(403).json({
+      message: '',
+      error: 'Conferma il tuo indirizzo email prima di accedere. Controlla la posta o richiedi un nuovo link.',
+    });
+    return;
+  }
+
+  // Start a new session for the authenticated user.
+  const tokens = await createSession({ user_id: user.user_id, username: user.username, email: user.email });
+
+  // Return a successful response with user details and, for the API clients, the tokens.
   res.status(200).json({
     message: 'Accesso effettuato con successo.',
     data: {
       user_id: user.user_id,
       username: user.username,
       email: user.email,
-      token,
+      role: user.role,
+      ...deliverSessionTokens(res, tokens, token_in_body),
     },
   });
 };
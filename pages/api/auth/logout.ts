@@ -0,0 +1,46 @@
+/**
+ * @fileoverview
+ * This API endpoint ends the session of the authenticated user.
+ * It expects a POST request, optionally with "all": true to end every session of the user
+ * (e.g. after losing a device).
+ *
+ * @dependencies
+ * - backend/services/authService.ts for revoking the sessions.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/utils/authCookies.ts for clearing the session cookies.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - The refresh tokens of the ended sessions can no longer be used, and their access tokens are
+ *   rejected by withAuth even before they expire. The session cookies of the web application are cleared.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { revokeSession, revokeUserSessions } from '../../../backend/services/authService';
+import { withAuth, AuthenticatedNextApiRequest } from '../../../backend/middleware/authMiddleware';
+import { clearSessionCookies } from '../../../backend/utils/authCookies';
+import type { ApiResponse, LogoutResponse } from '../../../types/api';
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<LogoutResponse>>) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
+  }
+
+  const { user } = req as AuthenticatedNextApiRequest;
+  const all = req.body?.all === true;
+
+  try {
+    if (all) {
+      await revokeUserSessions(user.user_id);
+    } else {
+      await revokeSession(user.sid);
+    }
+    clearSessionCookies(res);
+    return res.status(200).json({ message: 'Logout effettuato con successo.', data: { all } });
+  } catch (error: unknown) {
+    console.error('Errore durante il logout:', error);
+    return res.status(500).json({ message: '', error: 'Errore interno del server durante il logout.' });
+  }
+};
+
+export default withAuth(handler);
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview
+ * This API endpoint returns the authenticated user, with their role.
+ * The web application calls it at startup to restore the session from the cookies after a reload.
+ *
+ * @dependencies
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - A 401 response means that there is no active session: the client tries a refresh, then
+ *   sends the user to the login page.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../backend/services/accessService';
+import type { ApiResponse, UserResponse } from '../../../types/api';
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<UserResponse>>) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET.' });
+  }
+
+  const { user_id, username, email, role } = (req as AuthorizedNextApiRequest).user;
+  return res.status(200).json({ message: 'Utente recuperato con successo.', data: { user_id, username, email, role } });
+};
+
+export default withAuth(withRole(userRoles, handler));
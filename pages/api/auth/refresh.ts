@@ -0,0 +1,71 @@
+/**
+ * @fileoverview
+ * This API endpoint renews the tokens of a session.
+ * It expects a POST request with the "refresh_token" field, or the refresh token cookie of the web
+ * application, and returns a new access token and a new refresh token; the presented refresh token
+ * can no longer be used.
+ *
+ * @dependencies
+ * - backend/services/authService.ts for the rotation of the refresh token.
+ * - backend/utils/authCookies.ts for the session cookies and the CSRF check.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - The endpoint does not require the access token, which has usually expired when it is called.
+ * - Presenting a refresh token that was already used revokes the whole session (the token may
+ *   have been stolen): the user has to log in again.
+ * - With the cookie, the new tokens are only set in the cookies, and the request must carry the
+ *   CSRF token like the other requests authenticated by cookie.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { refreshSession, SessionTokens } from '../../../backend/services/authService';
+import {
+  clearSessionCookies,
+  isCsrfValid,
+  setSessionCookies,
+  REFRESH_TOKEN_COOKIE,
+} from '../../../backend/utils/authCookies';
+import type { ApiResponse, SessionTokensResponse } from '../../../types/api';
+
+interface RefreshRequestBody {
+  refresh_token?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SessionTokensResponse | Pick<SessionTokens, 'expires_in'>>>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
+  }
+
+  const { refresh_token: bodyToken } = (req.body || {}) as RefreshRequestBody;
+  const cookieToken = req.cookies[REFRESH_TOKEN_COOKIE];
+  const refreshToken = typeof bodyToken === 'string' && bodyToken ? bodyToken : cookieToken;
+  if (!refreshToken) {
+    return res.status(400).json({ message: '', error: 'Campo "refresh_token" obbligatorio.' });
+  }
+  const fromCookie = refreshToken === cookieToken;
+  if (fromCookie && !isCsrfValid(req)) {
+    return res.status(403).json({ message: '', error: 'Token CSRF mancante o non valido. Ricarica la pagina.' });
+  }
+
+  try {
+    const tokens = await refreshSession(refreshToken);
+    if (!tokens) {
+      if (fromCookie) {
+        clearSessionCookies(res);
+      }
+      return res.status(401).json({ message: '', error: 'Sessione non valida o scaduta. Effettua di nuovo il login.' });
+    }
+    if (fromCookie) {
+      setSessionCookies(res, tokens);
+      return res.status(200).json({ message: 'Sessione rinnovata con successo.', data: { expires_in: tokens.expires_in } });
+    }
+    return res.status(200).json({ message: 'Sessione rinnovata con successo.', data: tokens });
+  } catch (error: unknown) {
+    console.error('Errore durante il rinnovo della sessione:', error);
+    return res.status(500).json({ message: '', error: 'Errore interno del server durante il rinnovo della sessione.' });
+  }
+}
@@ -1,26 +1,46 @@
 /**
  * @fileoverview
  * This API endpoint handles user registration. It receives a POST request with username, email, and password,
- * creates a new user, and returns a JWT token along with the user information.
+ * creates a new user, sends the link that verifies the email address, and starts a session, setting
+ * its tokens in HttpOnly cookies for the web application; the API clients that send
+ * "token_in_body": true receive the tokens in the response body instead.
  *
  * @dependencies
- * - backend/services/authService.ts for password hashing and token generation.
+ * - backend/services/authService.ts for password hashing and session creation.
  * - backend/models/User.ts for the user model.
  * - backend/db.ts for database access.
+ * - backend/utils/authCookies.ts for the delivery of the session tokens.
+ * - backend/services/accountService.ts for the password requirements and the verification email.
  * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - When REQUIRE_EMAIL_VERIFICATION is "true", no session is started: the user logs in after
+ *   opening the verification link ("verification_required" in the response).
+ * - A failure to send the verification email does not undo the registration: the link can be sent
+ *   again with /api/auth/resend-verification.
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { hashPassword, generateToken } from '../../../backend/services/authService';
+import { hashPassword, createSession } from '../../../backend/services/authService';
 import { Users } from '../../../backend/models/User';
 import { db } from '../../../backend/db';
 import { eq } from 'drizzle-orm';
+import { deliverSessionTokens } from '../../../backend/utils/authCookies';
+import {
+  isEmailVerificationRequired,
+  sendVerificationEmail,
+  validatePassword,
+} from '../../../backend/services/accountService';
 import type { ApiResponse, RegisterResponse } from '../../../types/api';
 
+// Shape of an email address; the address is confirmed by the verification link
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 interface RegisterRequestBody {
   username: string;
   email: string;
   password: string;
+  token_in_body?: boolean;
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse<RegisterResponse>>) {
@@ -29,11 +49,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
   }
 
   try {
-    const { username, email, password } = req.body as RegisterRequestBody;
+    const { username, email, password, token_in_body } = req.body as RegisterRequestBody;
 
     if (!username || !email || !password) {
       return res.status(400).json({ message: '', error: 'Campi "username", "email" e "password" sono obbligatori.' });
     }
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ message: '', error: 'Indirizzo email non valido.' });
+    }
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ message: '', error: passwordError });
+    }
 
     // Check if a user with the same email exists
     const existingUsersByEmail = await db.select().from(Users).where(eq(Users.email, email));
@@ -55,15 +82,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       hashed_password: hashedPassword,
     }).returning();
 
-    const token = generateToken({ user_id: newUsers[0].user_id, username, email });
+    const user = { user_id: newUsers[0].user_id, username, email };
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError: unknown) {
+      console.error("Errore nell'invio dell'email di verifica:", mailError);
+    }
+
+    if (isEmailVerificationRequired()) {
+      return res.status(201).json({
+        message: "Registrazione avvenuta con successo. Conferma il tuo indirizzo email con il link che ti abbiamo inviato.",
+        data: { ...user, role: newUsers[0].role, verification_required: true },
+      });
+    }
+
+    const tokens = await createSession(user);
 
     return res.status(201).json({
       message: 'Registrazione avvenuta con successo.',
       data: {
-        user_id: newUsers[0].user_id,
-        username,
-        email,
-        token,
+        ...user,
+        role: newUsers[0].role,
+        ...deliverSessionTokens(res, tokens, token_in_body),
+        verification_required: false,
       },
     });
   } catch (error: unknown) {
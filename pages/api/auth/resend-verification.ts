@@ -0,0 +1,43 @@
+/**
+ * @fileoverview
+ * This API endpoint sends again the link that verifies the email address of a user.
+ * It expects a POST request with the "email" field.
+ *
+ * @dependencies
+ * - backend/services/accountService.ts for sending the email.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - The response is the same, and is sent after the same time (ACCOUNT_EMAIL_RESPONSE_MS), whether or
+ *   not the address is registered or already verified, so that neither its content nor its timing can
+ *   be used to find the accounts. The email is sent before the response, since a serverless function
+ *   can be frozen once it has answered. A failure to send the email is only logged.
+ * - At most one link per minute is sent to the same address.
+ * - A new link invalidates the previous ones.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { resendVerificationEmail, waitForAccountEmailResponse } from '../../../backend/services/accountService';
+import type { ApiResponse } from '../../../types/api';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse<null>>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
+  }
+
+  const { email } = req.body || {};
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ message: '', error: 'Campo "email" obbligatorio.' });
+  }
+
+  const startedAt = Date.now();
+  try {
+    await resendVerificationEmail(email);
+  } catch (error: unknown) {
+    console.error("Errore nell'invio dell'email di verifica:", error);
+  }
+  await waitForAccountEmailResponse(startedAt);
+  return res.status(200).json({
+    message: "Se l'indirizzo è registrato e non ancora confermato, riceverai un nuovo link di verifica.",
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview
+ * This API endpoint sets a new password with the link sent by /api/auth/forgot-password.
+ * It expects a POST request with the "token" and "password" fields.
+ *
+ * @dependencies
+ * - backend/services/accountService.ts for the password requirements and the reset.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - All the sessions of the user are ended: whoever knew the old password is logged out.
+ * - The email address counts as verified, since the user has received the link.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { resetPassword, validatePassword } from '../../../backend/services/accountService';
+import type { ApiResponse } from '../../../types/api';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse<null>>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
+  }
+
+  const { token, password } = req.body || {};
+  if (!token || typeof token !== 'string' || !password) {
+    return res.status(400).json({ message: '', error: 'Campi "token" e "password" obbligatori.' });
+  }
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    return res.status(400).json({ message: '', error: passwordError });
+  }
+
+  try {
+    if (!(await resetPassword(token, password))) {
+      return res.status(400).json({ message: '', error: 'Link non valido o scaduto. Richiedi una nuova reimpostazione.' });
+    }
+    return res.status(200).json({ message: 'Password reimpostata. Ora puoi accedere con la nuova password.' });
+  } catch (error: unknown) {
+    console.error('Errore durante la reimpostazione della password:', error);
+    return res.status(500).json({ message: '', error: 'Errore interno del server durante la reimpostazione della password.' });
+  }
+}
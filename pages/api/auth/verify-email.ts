@@ -0,0 +1,38 @@
+/**
+ * @fileoverview
+ * This API endpoint confirms the email address of a user.
+ * It expects a POST request with the "token" field, taken from the link sent by email.
+ *
+ * @dependencies
+ * - backend/services/accountService.ts for consuming the token and verifying the address.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - The token can be used once and expires after 48 hours; a new link can be requested with
+ *   /api/auth/resend-verification.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { verifyEmail } from '../../../backend/services/accountService';
+import type { ApiResponse } from '../../../types/api';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse<null>>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
+  }
+
+  const { token } = req.body || {};
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ message: '', error: 'Campo "token" obbligatorio.' });
+  }
+
+  try {
+    if (!(await verifyEmail(token))) {
+      return res.status(400).json({ message: '', error: 'Link di verifica non valido o scaduto. Richiedine uno nuovo.' });
+    }
+    return res.status(200).json({ message: 'Indirizzo email confermato. Ora puoi accedere.' });
+  } catch (error: unknown) {
+    console.error("Errore durante la verifica dell'email:", error);
+    return res.status(500).json({ message: '', error: "Errore interno del server durante la verifica dell'email." });
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview
+ * This API endpoint manages a single catalog snapshot.
+ * It supports:
+ * - GET: Retrieving the snapshot with its full category tree.
+ * - PUT: Storing a changed category tree, provided as CSV or JSON, as a new version of the scheme of the snapshot.
+ * - DELETE: Deleting the snapshot.
+ *
+ * @dependencies
+ * - backend/services/catalogImporter.ts for parsing and validating the new tree.
+ * - backend/services/catalogService.ts for reading, storing and deleting the snapshots.
+ * - backend/services/logService.ts for logging the new version.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role of the user.
+ * - backend/utils/uuid.ts for the check of the snapshot identifier.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - PUT requires the fields: format ("csv" or "json") and content; the scheme of the snapshot is kept.
+ * - Snapshots are never changed in place: PUT leaves the snapshot as it is and returns the new version,
+ *   which becomes the current catalog of the scheme.
+ * - Every user can read the snapshots; only admins can change or delete them (403 otherwise).
+ * - An identifier that is not a UUID gets a 404, like a missing snapshot.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { importCatalog, CatalogFormat } from '../../../backend/services/catalogImporter';
+import { createCatalogSnapshot, deleteCatalog, getCatalogById } from '../../../backend/services/catalogService';
+import { recordLog } from '../../../backend/services/logService';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../backend/services/accessService';
+import { isUuid } from '../../../backend/utils/uuid';
+import type { ApiResponse, CatalogResponse } from '../../../types/api';
+
+interface CatalogUpdateRequestBody {
+  format: CatalogFormat;
+  content: unknown;
+}
+
+const formats: CatalogFormat[] = ['csv', 'json'];
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '10mb', // Full BISAC and Thema lists exceed the default 1MB limit
+    },
+  },
+};
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<CatalogResponse | null>>
+) => {
+  const authReq = req as AuthorizedNextApiRequest;
+  const catalogId = req.query.id as string;
+
+  if ((req.method === 'PUT' || req.method === 'DELETE') && authReq.user.role !== 'admin') {
+    return res.status(403).json({ message: '', error: 'Solo gli amministratori possono modificare il catalogo.' });
+  }
+  if (!isUuid(catalogId)) {
+    return res.status(404).json({ message: '', error: 'Catalogo non trovato.' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const catalog = await getCatalogById(catalogId);
+      if (!catalog) {
+        return res.status(404).json({ message: '', error: 'Catalogo non trovato.' });
+      }
+      return res.status(200).json({
+        message: 'Catalogo recuperato con successo.',
+        data: { catalog },
+      });
+    } else if (req.method === 'PUT') {
+      const { format, content } = req.body as CatalogUpdateRequestBody;
+      if (!format || !content) {
+        return res.status(400).json({ message: '', error: 'Campi "format" e "content" sono obbligatori.' });
+      }
+      if (!formats.includes(format)) {
+        return res.status(400).json({ message: '', error: 'Valore non supportato: "format" deve essere csv o json.' });
+      }
+
+      const existing = await getCatalogById(catalogId);
+      if (!existing) {
+        return res.status(404).json({ message: '', error: 'Catalogo non trovato.' });
+      }
+
+      const result = importCatalog(content, format, existing.scheme);
+      if (!result.valid || !result.catalog) {
+        return res.status(400).json({
+          message: '',
+          error: 'Il catalogo non è valido.',
+          details: result.errors,
+        });
+      }
+
+      const catalog = await createCatalogSnapshot(existing.scheme, result.catalog);
+
+      try {
+        await recordLog(
+          authReq.user.user_id,
+          'catalog_import',
+          `Imported ${catalog.scheme} catalog version ${catalog.version} from version ${existing.version}.`,
+          { catalog_id: catalog.catalog_id, scheme: catalog.scheme, version: catalog.version, based_on: catalogId }
+        );
+      } catch (logError) {
+        console.error('Errore nella registrazione del log:', logError);
+      }
+
+      return res.status(201).json({
+        message: 'Nuova versione del catalogo creata con successo.',
+        data: { catalog },
+      });
+    } else if (req.method === 'DELETE') {
+      const deleted = await deleteCatalog(catalogId);
+      if (!deleted) {
+        return res.status(404).json({ message: '', error: 'Catalogo non trovato.' });
+      }
+      return res.status(200).json({ message: 'Catalogo eliminato con successo.', data: null });
+    } else {
+      return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET, PUT o DELETE.' });
+    }
+  } catch (error: unknown) {
+    console.error('Errore nella gestione del catalogo:', error);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante la gestione del catalogo.',
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview
+ * This API endpoint manages the catalog of categories used for book classification.
+ * It supports:
+ * - GET: Listing the stored catalog snapshots (scheme, version, number of categories, last update).
+ * - POST: Importing a BISAC or Thema category tree, provided as CSV or JSON, as a new versioned snapshot.
+ *
+ * @dependencies
+ * - backend/services/catalogImporter.ts for parsing and validating the imported tree.
+ * - backend/services/catalogService.ts for reading and storing catalog snapshots.
+ * - backend/services/logService.ts for logging the import.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - POST requires the fields: scheme ("bisac", "thema" or "custom"), format ("csv" or "json") and content.
+ * - For the JSON format, content can be sent either as a string or as an already parsed object.
+ * - Validation errors are returned all together in the "details" field of the response.
+ * - Every user can list the snapshots; only admins can import a catalog (403 otherwise).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { importCatalog, CatalogFormat, CatalogScheme } from '../../../backend/services/catalogImporter';
+import { createCatalogSnapshot, listCatalogs } from '../../../backend/services/catalogService';
+import { recordLog } from '../../../backend/services/logService';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../backend/services/accessService';
+import type { ApiResponse, CatalogListResponse, CatalogResponse } from '../../../types/api';
+
+interface CatalogImportRequestBody {
+  scheme: CatalogScheme;
+  format: CatalogFormat;
+  content: unknown;
+}
+
+const schemes: CatalogScheme[] = ['bisac', 'thema', 'custom'];
+const formats: CatalogFormat[] = ['csv', 'json'];
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '10mb', // Full BISAC and Thema lists exceed the default 1MB limit
+    },
+  },
+};
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<CatalogListResponse | CatalogResponse>>
+) => {
+  const authReq = req as AuthorizedNextApiRequest;
+
+  if (req.method === 'GET') {
+    try {
+      const catalogs = await listCatalogs();
+      return res.status(200).json({
+        message: 'Cataloghi recuperati con successo.',
+        data: { catalogs },
+      });
+    } catch (error: unknown) {
+      console.error('Errore nel recupero dei cataloghi:', error);
+      return res.status(500).json({
+        message: '',
+        error: 'Errore interno del server durante il recupero dei cataloghi.',
+      });
+    }
+  } else if (req.method === 'POST') {
+    if (authReq.user.role !== 'admin') {
+      return res.status(403).json({ message: '', error: 'Solo gli amministratori possono importare il catalogo.' });
+    }
+    try {
+      const { scheme, format, content } = req.body as CatalogImportRequestBody;
+
+      if (!scheme || !format || !content) {
+        return res.status(400).json({
+          message: '',
+          error: 'Campi "scheme", "format" e "content" sono obbligatori.',
+        });
+      }
+      if (!schemes.includes(scheme) || !formats.includes(format)) {
+        return res.status(400).json({
+          message: '',
+          error: 'Valori non supportati: "scheme" deve essere bisac, thema o custom e "format" csv o json.',
+        });
+      }
+
+      const result = importCatalog(content, format, scheme);
+      if (!result.valid || !result.catalog) {
+        return res.status(400).json({
+          message: '',
+          error: 'Il catalogo importato non è valido.',
+          details: result.errors,
+        });
+      }
+
+      const catalog = await createCatalogSnapshot(scheme, result.catalog);
+
+      try {
+        await recordLog(
+          authReq.user.user_id,
+          'catalog_import',
+          `Imported ${scheme} catalog version ${catalog.version}.`,
+          { catalog_id: catalog.catalog_id, scheme, version: catalog.version }
+        );
+      } catch (logError) {
+        console.error('Errore nella registrazione del log:', logError);
+      }
+
+      return res.status(201).json({
+        message: 'Catalogo importato con successo.',
+        data: { catalog },
+      });
+    } catch (error: unknown) {
+      console.error("Errore nell'importazione del catalogo:", error);
+      return res.status(500).json({
+        message: '',
+        error: "Errore interno del server durante l'importazione del catalogo.",
+      });
+    }
+  } else {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET o POST.' });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview
+ * This API endpoint returns the original manuscript of an uploaded file.
+ * It expects a GET request and sends the stored bytes as an attachment, with the original
+ * file name and MIME type.
+ *
+ * @dependencies
+ * - backend/services/fileService.ts for the file access check.
+ * - backend/services/storage.ts for reading the stored file.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ *
+ * @notes
+ * - Only the users who can see the file can download it (its owner, the editors of the owner's imprint
+ *   and the admins); other users get a 404, as for a missing file.
+ * - Errors are returned as JSON, like the other endpoints.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileForUser } from '../../../../backend/services/fileService';
+import { getStorage } from '../../../../backend/services/storage';
+import { withAuth } from '../../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../../backend/services/accessService';
+import type { ApiResponse } from '../../../../types/api';
+
+/**
+ * Builds the Content-Disposition header for a file name, with an ASCII fallback
+ * for the clients that do not support the RFC 5987 encoding.
+ */
+const contentDisposition = (fileName: string): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<null> | Buffer>) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET.' });
+  }
+
+  const authReq = req as AuthorizedNextApiRequest;
+  const fileId = req.query.id as string;
+
+  try {
+    const file = await getFileForUser(fileId, authReq.user);
+    if (!file) {
+      return res.status(404).json({ message: '', error: 'File non trovato.' });
+    }
+
+    const content = await getStorage().get(file.storage_path);
+
+    res.setHeader('Content-Type', file.file_type === 'Unknown' ? 'application/octet-stream' : file.file_type);
+    res.setHeader('Content-Length', content.length);
+    res.setHeader('Content-Disposition', contentDisposition(file.file_name));
+    return res.status(200).send(content);
+  } catch (error: unknown) {
+    console.error('Errore nel download del file:', error);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante il download del file.',
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview
+ * This API endpoint deletes an uploaded file.
+ * It expects a DELETE request and removes the file record together with its generated content,
+ * its processing jobs, its chunk summaries and, if no other record shares it, the stored file.
+ *
+ * @dependencies
+ * - backend/services/fileService.ts for the file access check and the deletion.
+ * - backend/services/accessService.ts for the roles allowed to delete a file.
+ * - backend/services/logService.ts for logging the deletion.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Only the owner of the file and the admins can delete it. The editors of the owner's imprint get a 403,
+ *   other users a 404, as for a missing file.
+ * - The session history is kept, as a record of the past activity of the user.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { deleteFile, getFileForUser } from '../../../../backend/services/fileService';
+import { recordLog } from '../../../../backend/services/logService';
+import { withAuth } from '../../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../../backend/middleware/roleMiddleware';
+import { canDeleteFile, userRoles } from '../../../../backend/services/accessService';
+import type { ApiResponse } from '../../../../types/api';
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<null>>) => {
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare DELETE.' });
+  }
+
+  const authReq = req as AuthorizedNextApiRequest;
+  const fileId = req.query.id as string;
+
+  try {
+    const file = await getFileForUser(fileId, authReq.user);
+    if (!file) {
+      return res.status(404).json({ message: '', error: 'File non trovato.' });
+    }
+    if (!canDeleteFile(file, authReq.user)) {
+      return res.status(403).json({ message: '', error: "Solo l'autore del file o un amministratore può eliminarlo." });
+    }
+
+    await deleteFile(file);
+
+    try {
+      await recordLog(authReq.user.user_id, 'file_delete', `Deleted file ${file.file_name}.`, {
+        file_id: file.file_id,
+      });
+    } catch (logError) {
+      console.error('Errore nella registrazione del log:', logError);
+    }
+
+    return res.status(200).json({ message: 'File eliminato con successo.' });
+  } catch (error: unknown) {
+    console.error("Errore nell'eliminazione del file:", error);
+    return res.status(500).json({
+      message: '',
+      error: "Errore interno del server durante l'eliminazione del file.",
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview
+ * This API endpoint returns the lint report of a processed manuscript: the formatting and
+ * quality issues (double spaces, mixed quotation marks and apostrophes, inconsistent ellipses,
+ * orphan headings, empty PDF pages, very long paragraphs, repeated words), each with its location.
+ * It expects a GET request; the same report is also returned by /api/files/[id]/status once the
+ * processing of the upload is complete.
+ *
+ * @dependencies
+ * - backend/services/fileService.ts for the file access check.
+ * - backend/services/uploadProcessor.ts for the lint report of the processed file.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Only the users who can see the file can read its report (its owner, the editors of the owner's
+ *   imprint and the admins); other users get a 404, as for a missing file.
+ * - A file whose processing is not complete yet gets a 409.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileForUser } from '../../../../backend/services/fileService';
+import { getLintReport } from '../../../../backend/services/uploadProcessor';
+import { withAuth } from '../../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../../backend/services/accessService';
+import type { ApiResponse, LintReportResponse } from '../../../../types/api';
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<LintReportResponse>>) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET.' });
+  }
+
+  const authReq = req as AuthorizedNextApiRequest;
+  const fileId = req.query.id as string;
+
+  try {
+    const file = await getFileForUser(fileId, authReq.user);
+    if (!file) {
+      return res.status(404).json({ message: '', error: 'File non trovato.' });
+    }
+
+    const report = file.processing_status === 'complete' ? await getLintReport(fileId) : null;
+    if (!report) {
+      return res.status(409).json({ message: '', error: 'Il file non è ancora stato elaborato.' });
+    }
+
+    return res.status(200).json({
+      message: 'Report di controllo recuperato con successo.',
+      data: { file_id: fileId, report },
+    });
+  } catch (error: unknown) {
+    console.error('Errore nel recupero del report di controllo:', error);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante il recupero del report di controllo.',
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview
+ * This API endpoint manages the history of AI-generated content for a file.
+ * It supports:
+ * - GET: Retrieving every stored version of the generated content, grouped by generation type.
+ * - POST: Saving a version edited by the user, recorded in the session history of the user.
+ *
+ * @dependencies
+ * - backend/services/aiOutputService.ts for retrieving, checking and saving the output versions.
+ * - backend/services/fileService.ts for the file access check.
+ * - backend/services/logService.ts for recording the edit in the session history.
+ * - backend/services/promptTemplateService.ts for the default title of the book.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Only the users who can see the file can read or add versions: its owner, the editors of the
+ *   owner's imprint and the admins.
+ * - Versions are ordered from the most recent to the oldest.
+ * - POST requires the fields: type and content; language ("it" by default) is the language of the content
+ *   and previous_output_id optionally identifies the edited version.
+ * - Edited keywords (one phrase per line) and categories (JSON with "main" and "sub") are checked like the
+ *   generated ones: the KDP rules and the current catalog. Violations are returned in "details" with a 400.
+ *   The title of the book, whose words the keywords cannot repeat, is the name of the file without its
+ *   extension, as in the generation requests without a title.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  generationTypes,
+  getOutputHistory,
+  saveAIOutput,
+  validateEditedContent,
+} from '../../../../backend/services/aiOutputService';
+import { getFileForUser } from '../../../../backend/services/fileService';
+import { recordSessionHistory } from '../../../../backend/services/logService';
+import { defaultBookTitle } from '../../../../backend/services/promptTemplateService';
+import { outputLanguages, GenerationType, OutputLanguage } from '../../../../backend/services/openaiService';
+import { withAuth } from '../../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../../backend/services/accessService';
+import type { ApiResponse, OutputHistoryResponse, SaveOutputResponse } from '../../../../types/api';
+
+interface SaveOutputRequestBody {
+  type: GenerationType;
+  content: string;
+  language?: OutputLanguage;
+  previous_output_id?: string;
+}
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<OutputHistoryResponse | SaveOutputResponse>>
+) => {
+  const authReq = req as AuthorizedNextApiRequest;
+  const fileId = req.query.id as string;
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET o POST.' });
+  }
+
+  try {
+    const file = await getFileForUser(fileId, authReq.user);
+    if (!file) {
+      return res.status(404).json({ message: '', error: 'File non trovato.' });
+    }
+
+    if (req.method === 'GET') {
+      const outputs = await getOutputHistory(fileId);
+
+      return res.status(200).json({
+        message: 'Contenuti generati recuperati con successo.',
+        data: { file_id: fileId, outputs },
+      });
+    }
+
+    const { type, content, language = 'it', previous_output_id } = req.body as SaveOutputRequestBody;
+    if (!type || typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ message: '', error: 'Campi "type" e "content" sono obbligatori.' });
+    }
+    if (!generationTypes.includes(type)) {
+      return res.status(400).json({ message: '', error: 'Tipo di generazione non supportato.' });
+    }
+    if (!outputLanguages.includes(language)) {
+      return res.status(400).json({ message: '', error: 'Lingua non supportata.' });
+    }
+
+    const validation = await validateEditedContent(type, content, defaultBookTitle(file.file_name));
+    if (!validation.valid || validation.content === undefined) {
+      return res.status(400).json({ message: '', error: 'Il contenuto modificato non è valido.', details: validation.errors });
+    }
+
+    const savedOutput = await saveAIOutput(fileId, type, validation.content, true, language);
+
+    // Every edit is recorded in the session history of the user
+    await recordSessionHistory(authReq.user.user_id, fileId, {
+      action: 'edit',
+      type,
+      language,
+      output_id: savedOutput.output_id,
+      previous_output_id: previous_output_id || null,
+    });
+
+    return res.status(201).json({
+      message: 'Contenuto salvato con successo.',
+      data: { output_id: savedOutput.output_id },
+    });
+  } catch (error: unknown) {
+    console.error('Errore nella gestione dei contenuti generati:', error);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante la gestione dei contenuti generati.',
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview
+ * This API endpoint reports the background processing status of an uploaded file.
+ * It expects a GET request and returns the processing_status of the file, the progress of its
+ * processing job (0-100) and the error message of the last failed attempt, if any.
+ * Once the processing is complete, the structure of the text (title, author, table of contents,
+ * chapters, front and back matter), the technical analysis, the lint report and the previous version
+ * of the book the file was recognized as a revision of are included. The extracted text is included
+ * only when the request asks for it with ?include=text.
+ * The version number of the file is always included.
+ *
+ * @dependencies
+ * - backend/services/fileService.ts for the file access check.
+ * - backend/services/jobQueue.ts for the processing job of the file.
+ * - backend/services/uploadProcessor.ts for the type of the processing result.
+ * - backend/services/fileTextService.ts for the stored text and structure.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Only the users who can see the file can read its status: its owner, the editors of the owner's
+ *   imprint and the admins.
+ * - A file in "pending" state with an error is waiting for a retry of its processing.
+ * - The extracted text can be as long as a whole book: the clients that only need the chapters
+ *   (the editor) or that poll the status do not ask for it.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getFileForUser } from '../../../../backend/services/fileService';
+import { getLatestJobForFile } from '../../../../backend/services/jobQueue';
+import type { UploadProcessingResult } from '../../../../backend/services/uploadProcessor';
+import { getFileText } from '../../../../backend/services/fileTextService';
+import { withAuth } from '../../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../../backend/services/accessService';
+import type { ApiResponse, FileStatusResponse } from '../../../../types/api';
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<FileStatusResponse>>) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET.' });
+  }
+
+  const authReq = req as AuthorizedNextApiRequest;
+  const fileId = req.query.id as string;
+  const includeText = req.query.include === 'text';
+
+  try {
+    const file = await getFileForUser(fileId, authReq.user);
+    if (!file) {
+      return res.status(404).json({ message: '', error: 'File non trovato.' });
+    }
+
+    const job = await getLatestJobForFile(fileId);
+    const result = file.processing_status === 'complete' && job?.result
+      ? (job.result as UploadProcessingResult)
+      : null;
+    const fileText = result ? await getFileText(fileId) : null;
+
+    return res.status(200).json({
+      message: 'Stato del file recuperato con successo.',
+      data: {
+        file_id: file.file_id,
+        file_name: file.file_name,
+        processing_status: file.processing_status,
+        progress: file.processing_status === 'complete' ? 100 : job?.progress ?? 0,
+        error: job?.error ?? null,
+        version: file.version,
+        version_of: file.version_of,
+        ...(result
+          ? {
+              ...(includeText ? { extractedText: fileText?.text ?? '' } : {}),
+              structure: fileText?.structure,
+              technicalAnalysis: result.technicalAnalysis,
+              lintReport: result.lintReport,
+              // Not stored for the files processed before the revision check
+              revisionOf: result.revisionOf ?? null,
+            }
+          : {}),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Errore nel recupero dello stato del file:', error);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante il recupero dello stato del file.',
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview
+ * This API endpoint lists the files visible to the authenticated user: their own for an author,
+ * their imprint's for an editor, every file for an admin.
+ * It expects a GET request and returns one page of files, each with its processing status,
+ * its technical analysis and the types of content generated for it.
+ *
+ * @dependencies
+ * - backend/services/fileService.ts for reading the query options and listing the files.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Query parameters: page (default 1), pageSize (default 20, at most 100), sort ("desc" by default,
+ *   by upload date), status (a processing status) and search (part of the file name).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listFilesForUser, parseFileListQuery } from '../../../backend/services/fileService';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../backend/services/accessService';
+import type { ApiResponse, FileListResponse } from '../../../types/api';
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<FileListResponse>>) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET.' });
+  }
+
+  const authReq = req as AuthorizedNextApiRequest;
+
+  const { options, error } = parseFileListQuery(req.query);
+  if (!options) {
+    return res.status(400).json({ message: '', error });
+  }
+
+  try {
+    const { files, total } = await listFilesForUser(authReq.user, options);
+    return res.status(200).json({
+      message: 'File recuperati con successo.',
+      data: { files, total, page: options.page, pageSize: options.pageSize },
+    });
+  } catch (listError: unknown) {
+    console.error('Errore nel recupero dei file:', listError);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante il recupero dei file.',
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
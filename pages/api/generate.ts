@@ -1,19 +1,44 @@
 /**
  * @fileoverview
  * This API endpoint handles AI content generation requests.
- * It expects a POST request with "type" and "extractedText" fields.
+ * It expects a POST request with "type" and "file_id" fields, and optionally
+ * "title", "audience" and "maxWords" as values of the prompt template variables and "language"
+ * ("it", "en", "es", "de" or "fr", Italian by default) for the translated editions.
+ * With "chapter" (the position of a chapter in the structure of the file, from 0) the content is
+ * generated from that chapter only.
+ * The text of the manuscript is the one stored by the background processing of the upload.
  * Based on the "type", it dispatches the request to the appropriate OpenAI service function.
  *
- * Additionally, after a successful generation, it records a log entry detailing
- * the generated content type using the recordLog service.
+ * Every type but categories uses the prompt template of the user or of their imprint for the
+ * requested language, if defined. The language is stored with the output in the AIOutputs table.
+ *
+ * Keywords are returned as the seven validated KDP phrases in the "keywords" field,
+ * and stored one per line.
+ *
+ * Long manuscripts are first condensed through a chunked map-reduce summarisation,
+ * so that the prompt stays within the token limit of the model.
+ *
+ * Every successful generation is stored in the AIOutputs table for the given file,
+ * so that previous versions can be retrieved later through /api/files/[id]/outputs.
+ * Additionally, it records a log entry detailing the generated content type using the recordLog service.
  *
  * @dependencies
  * - backend/services/openaiService.ts for content generation functions.
+ * - backend/services/summaryService.ts for condensing long manuscripts.
+ * - backend/services/aiOutputService.ts for persisting the generated content.
+ * - backend/services/fileService.ts for the file access check.
+ * - backend/services/fileTextService.ts for the stored text of the manuscript.
+ * - backend/services/documentStructure.ts for the text of the targeted chapter.
+ * - backend/services/keywordService.ts for storing the KDP keywords.
+ * - backend/services/promptTemplateService.ts for the user's or imprint's prompt template.
  * - backend/services/logService.ts for logging the generation action.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
  * - types/api.d.ts for API response types.
  *
  * @notes
- * - Since the endpoint does not enforce authentication, the log entry is recorded using a placeholder user id ("system").
+ * - The file referenced by "file_id" must be visible to the authenticated user (their own, or their
+ *   imprint's for an editor, any for an admin), and its processing must be complete (409 otherwise).
  * - Logging errors are caught and logged to the console without interrupting the response.
  */
 
@@ -25,64 +50,154 @@ import {
   generateCategories,
   generateForeword,
   generateAnalysis,
+  outputLanguages,
+  GenerationType,
+  OutputLanguage,
 } from '../../backend/services/openaiService';
+import { prepareSourceText } from '../../backend/services/summaryService';
+import { generationTypes, saveAIOutput } from '../../backend/services/aiOutputService';
+import { getFileForUser } from '../../backend/services/fileService';
+import { getFileText } from '../../backend/services/fileTextService';
+import { getSectionText } from '../../backend/services/documentStructure';
+import { formatKeywords } from '../../backend/services/keywordService';
+import { resolvePromptOptions, validatePromptVariables } from '../../backend/services/promptTemplateService';
 import { recordLog } from '../../backend/services/logService';
+import { withAuth } from '../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../backend/services/accessService';
 import type { ApiResponse, GenerateResponse } from '../../types/api';
 
 interface GenerateRequestBody {
-  type: 'blurb' | 'description' | 'keywords' | 'categories' | 'foreword' | 'analysis';
-  extractedText: string;
+  type: GenerationType;
+  file_id: string;
+  title?: string;
+  audience?: string;
+  maxWords?: number;
+  language?: OutputLanguage;
+  chapter?: number;
 }
 
-export default async function handler(
+const handler = async (
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<GenerateResponse>>
-) {
+) => {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
   }
 
+  const authReq = req as AuthorizedNextApiRequest;
+
   try {
-    const { type, extractedText } = req.body as GenerateRequestBody;
+    const {
+      type,
+      file_id,
+      title,
+      audience,
+      maxWords,
+      language = 'it',
+      chapter,
+    } = req.body as GenerateRequestBody;
+
+    if (!type || !file_id) {
+      return res.status(400).json({
+        message: '',
+        error: 'Campi "type" e "file_id" obbligatori.',
+      });
+    }
+
+    if (!generationTypes.includes(type)) {
+      return res.status(400).json({ message: '', error: 'Tipo di generazione non supportato.' });
+    }
+
+    if (!outputLanguages.includes(language)) {
+      return res.status(400).json({ message: '', error: 'Lingua non supportata.' });
+    }
+
+    const variableErrors = validatePromptVariables({ title, audience, maxWords });
+    if (variableErrors.length > 0) {
+      return res.status(400).json({ message: '', error: 'Parametri non validi.', details: variableErrors });
+    }
 
-    if (!type || !extractedText) {
-      return res.status(400).json({ message: '', error: 'Campi "type" e "extractedText" sono obbligatori.' });
+    if (chapter !== undefined && (!Number.isInteger(chapter) || chapter < 0)) {
+      return res.status(400).json({ message: '', error: 'Il campo "chapter" deve essere un intero non negativo.' });
     }
 
+    // Ensure the file exists and is visible to the authenticated user before generating content for it
+    const file = await getFileForUser(file_id, authReq.user);
+    if (!file) {
+      return res.status(404).json({ message: '', error: 'File non trovato.' });
+    }
+
+    // The text extracted by the background processing
+    const fileText = await getFileText(file_id);
+    if (!fileText) {
+      return res.status(409).json({ message: '', error: 'Il file non è ancora stato elaborato.' });
+    }
+
+    // Generate from a single chapter when requested, otherwise from the whole manuscript
+    let text = fileText.text;
+    if (chapter !== undefined) {
+      const chapterSection = fileText.structure.chapters[chapter];
+      if (!chapterSection) {
+        return res.status(404).json({ message: '', error: 'Capitolo non trovato.' });
+      }
+      text = getSectionText(fileText.text, chapterSection);
+    }
+
+    // Replace the full text with its combined summary when it exceeds the token budget
+    const sourceText = await prepareSourceText(file_id, text);
+
+    // Use the user's or imprint's template for the free-text types (categories are built from the catalog)
+    const promptOptions =
+      type === 'categories'
+        ? {}
+        : await resolvePromptOptions(
+            authReq.user.user_id,
+            type,
+            file.file_name,
+            { title, audience, maxWords },
+            language
+          );
+
     let output: string = '';
+    // Keyword phrases, returned as a list in addition to the stored text
+    let keywords: string[] | undefined;
 
     // Select the appropriate generation function based on the requested type
     switch (type) {
       case 'blurb':
-        output = await generateBlurb(extractedText);
+        output = await generateBlurb(sourceText, promptOptions);
         break;
       case 'description':
-        output = await generateDescription(extractedText);
+        output = await generateDescription(sourceText, promptOptions);
         break;
       case 'keywords':
-        output = await generateKeywords(extractedText);
+        keywords = await generateKeywords(sourceText, promptOptions);
+        output = formatKeywords(keywords);
         break;
       case 'categories':
-        output = await generateCategories(extractedText);
+        output = await generateCategories(sourceText);
         break;
       case 'foreword':
-        output = await generateForeword(extractedText);
+        output = await generateForeword(sourceText, promptOptions);
         break;
       case 'analysis':
-        output = await generateAnalysis(extractedText);
+        output = await generateAnalysis(sourceText, promptOptions);
         break;
       default:
         return res.status(400).json({ message: '', error: 'Tipo di generazione non supportato.' });
     }
 
+    // Persist the generated content as a new version for the file
+    const savedOutput = await saveAIOutput(file_id, type, output, false, language);
+
     // Record a log entry for the successful content generation.
-    // Since authentication is not enforced here, we use "system" as a placeholder for the user id.
     try {
       await recordLog(
-        'system',
+        authReq.user.user_id,
         'generate',
         `Generated ${type} content successfully.`,
-        { type, output }
+        { type, file_id, language, chapter, output_id: savedOutput.output_id }
       );
     } catch (logError) {
       console.error('Errore nella registrazione del log:', logError);
@@ -91,7 +206,7 @@ export default async function handler(
 
     return res.status(200).json({
       message: 'Contenuto generato con successo.',
-      data: { output },
+      data: { output, output_id: savedOutput.output_id, ...(keywords ? { keywords } : {}) },
     });
   } catch (error: unknown) {
     console.error('Errore nella generazione del contenuto:', error);
@@ -100,4 +215,6 @@ export default async function handler(
       error: 'Errore interno del server durante la generazione del contenuto.',
     });
   }
-}
+};
+
+export default withAuth(withRole(userRoles, handler));
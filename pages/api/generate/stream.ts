@@ -0,0 +1,206 @@
+/**
+ * @fileoverview
+ * This API endpoint is the streaming variant of /api/generate.
+ * It expects a POST request with "type" and "file_id" fields (plus the optional
+ * "title", "audience" and "maxWords" template variables, the output "language" and the "chapter"
+ * to target) and answers
+ * with server-sent events, passing the text deltas of the model straight through to the client.
+ *
+ * Events sent to the client:
+ * - (default) data: {"delta": "..."} for every piece of generated text.
+ * - done: {"output_id": "..."} once the generation has been completed and stored in AIOutputs.
+ * - error: {"error": "..."} if the generation fails after the stream has started.
+ *
+ * @dependencies
+ * - backend/services/openaiService.ts for the streaming generation.
+ * - backend/services/summaryService.ts for condensing long manuscripts.
+ * - backend/services/aiOutputService.ts for persisting the generated content.
+ * - backend/services/fileService.ts for the file access check.
+ * - backend/services/fileTextService.ts for the stored text of the manuscript.
+ * - backend/services/documentStructure.ts for the text of the targeted chapter.
+ * - backend/services/promptTemplateService.ts for the user's or imprint's prompt template.
+ * - backend/services/logService.ts for logging the generation action.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ *
+ * @notes
+ * - When the client closes the connection (e.g. the cancel button of the editor), the upstream
+ *   request to the model is aborted and nothing is stored.
+ * - Categories are not supported, since their JSON reply must be validated as a whole.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  streamGeneration,
+  streamableGenerationTypes,
+  outputLanguages,
+  StreamableGenerationType,
+  OutputLanguage,
+  PromptOptions,
+} from '../../../backend/services/openaiService';
+import { prepareSourceText } from '../../../backend/services/summaryService';
+import { saveAIOutput } from '../../../backend/services/aiOutputService';
+import { getFileForUser } from '../../../backend/services/fileService';
+import { getFileText } from '../../../backend/services/fileTextService';
+import { getSectionText } from '../../../backend/services/documentStructure';
+import { resolvePromptOptions, validatePromptVariables } from '../../../backend/services/promptTemplateService';
+import { recordLog } from '../../../backend/services/logService';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../backend/services/accessService';
+import type { ApiResponse } from '../../../types/api';
+
+interface StreamRequestBody {
+  type: StreamableGenerationType;
+  file_id: string;
+  title?: string;
+  audience?: string;
+  maxWords?: number;
+  language?: OutputLanguage;
+  chapter?: number;
+}
+
+/**
+ * Writes a server-sent event to the response.
+ */
+const sendEvent = (res: NextApiResponse, data: object, event?: string) => {
+  res.write(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+};
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<null>>) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
+  }
+
+  const authReq = req as AuthorizedNextApiRequest;
+  const {
+    type,
+    file_id,
+    title,
+    audience,
+    maxWords,
+    language = 'it',
+    chapter,
+  } = req.body as StreamRequestBody;
+
+  if (!type || !file_id) {
+    return res.status(400).json({
+      message: '',
+      error: 'Campi "type" e "file_id" obbligatori.',
+    });
+  }
+  if (!streamableGenerationTypes.includes(type)) {
+    return res.status(400).json({ message: '', error: 'Tipo di generazione non supportato in streaming.' });
+  }
+
+  if (!outputLanguages.includes(language)) {
+    return res.status(400).json({ message: '', error: 'Lingua non supportata.' });
+  }
+
+  const variableErrors = validatePromptVariables({ title, audience, maxWords });
+  if (variableErrors.length > 0) {
+    return res.status(400).json({ message: '', error: 'Parametri non validi.', details: variableErrors });
+  }
+
+  if (chapter !== undefined && (!Number.isInteger(chapter) || chapter < 0)) {
+    return res.status(400).json({ message: '', error: 'Il campo "chapter" deve essere un intero non negativo.' });
+  }
+
+  let sourceText: string;
+  let promptOptions: PromptOptions;
+  try {
+    const file = await getFileForUser(file_id, authReq.user);
+    if (!file) {
+      return res.status(404).json({ message: '', error: 'File non trovato.' });
+    }
+    // The text extracted by the background processing
+    const fileText = await getFileText(file_id);
+    if (!fileText) {
+      return res.status(409).json({ message: '', error: 'Il file non è ancora stato elaborato.' });
+    }
+
+    // Generate from a single chapter when requested, otherwise from the whole manuscript
+    let text = fileText.text;
+    if (chapter !== undefined) {
+      const chapterSection = fileText.structure.chapters[chapter];
+      if (!chapterSection) {
+        return res.status(404).json({ message: '', error: 'Capitolo non trovato.' });
+      }
+      text = getSectionText(fileText.text, chapterSection);
+    }
+    sourceText = await prepareSourceText(file_id, text);
+    promptOptions = await resolvePromptOptions(
+      authReq.user.user_id,
+      type,
+      file.file_name,
+      { title, audience, maxWords },
+      language
+    );
+  } catch (error: unknown) {
+    console.error('Errore nella preparazione della generazione:', error);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante la generazione del contenuto.',
+    });
+  }
+
+  // Abort the upstream request as soon as the client goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disable compression and proxy buffering, which would hold back the deltas
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let output = '';
+  try {
+    for await (const delta of streamGeneration(type, sourceText, controller.signal, promptOptions)) {
+      output += delta;
+      sendEvent(res, { delta });
+    }
+  } catch (error: unknown) {
+    // Cancelled by the client: the connection is already closed
+    if (controller.signal.aborted) {
+      return;
+    }
+    console.error('Errore nella generazione del contenuto in streaming:', error);
+    sendEvent(res, { error: 'Errore durante la generazione del contenuto.' }, 'error');
+    return res.end();
+  }
+
+  if (controller.signal.aborted) {
+    return;
+  }
+
+  try {
+    const savedOutput = await saveAIOutput(file_id, type, output, false, language);
+    sendEvent(res, { output_id: savedOutput.output_id }, 'done');
+
+    try {
+      await recordLog(
+        authReq.user.user_id,
+        'generate',
+        `Generated ${type} content successfully (streaming).`,
+        { type, file_id, language, output_id: savedOutput.output_id }
+      );
+    } catch (logError) {
+      console.error('Errore nella registrazione del log:', logError);
+    }
+  } catch (error: unknown) {
+    console.error('Errore nel salvataggio del contenuto generato:', error);
+    sendEvent(res, { error: 'Impossibile salvare il contenuto generato.' }, 'error');
+  }
+
+  return res.end();
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -2,18 +2,26 @@
  * @fileoverview
  * This API endpoint handles logging user actions.
  * It supports two methods:
- * - POST: Records a new log entry using the provided user_id, action_type, description, and optional metadata.
- * - GET: Retrieves all log entries from the Logs table, ordered by timestamp (most recent first).
+ * - POST: Records a new log entry for the authenticated user, with the provided action_type, description,
+ *   and optional metadata.
+ * - GET: Retrieves the global log, the entries of all users from the Logs table, ordered by timestamp
+ *   (most recent first). Reserved to admins.
  *
  * @dependencies
  * - backend/services/logService.ts: Used for recording log entries (POST).
  * - backend/models/Log.ts: The Logs model for interacting with the Logs table.
  * - backend/db.ts: The database connection instance for querying logs.
+ * - backend/middleware/authMiddleware.ts: Authentication.
+ * - backend/middleware/roleMiddleware.ts: The role of the user.
+ * - backend/utils/uuid.ts: The check of the "user_id" filter.
  * - types/api.d.ts: Provides type definitions for the API responses.
  *
  * @notes
- * - GET requests will return a JSON object with a "logs" field containing an array of log entries.
- * - POST requests require the fields: user_id, action_type, and description.
+ * - GET requests will return a JSON object with a "logs" field containing an array of log entries;
+ *   the optional "user_id" query parameter restricts them to one user (400 if it is not a UUID).
+ *   Other roles get a 403.
+ * - POST requests require the fields: action_type and description. The entry is always recorded for
+ *   the authenticated user, so that nobody can write in the log of someone else.
  * - In case of errors, appropriate status codes and error messages are returned.
  */
 
@@ -21,20 +29,38 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { recordLog } from '../../backend/services/logService';
 import { db } from '../../backend/db';
 import { Logs } from '../../backend/models/Log';
-// Import the helper for descending order from Drizzle ORM.
-import { desc } from 'drizzle-orm';
+// Import the helpers for descending order and filtering from Drizzle ORM.
+import { desc, eq } from 'drizzle-orm';
+import { withAuth } from '../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../backend/services/accessService';
+import { isUuid } from '../../backend/utils/uuid';
 import type { ApiResponse, LogResponse, LogEntry } from '../../types/api';
 
-export default async function handler(
+const handler = async (
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<LogResponse | { logs: LogEntry[] }>>
-) {
+) => {
+  const authReq = req as AuthorizedNextApiRequest;
+
   if (req.method === 'GET') {
     // Handle GET requests: Retrieve all log entries ordered by timestamp (latest first)
+    if (authReq.user.role !== 'admin') {
+      return res.status(403).json({ message: '', error: 'Solo gli amministratori possono consultare il registro.' });
+    }
+    const userId = typeof req.query.user_id === 'string' && req.query.user_id ? req.query.user_id : undefined;
+    if (userId !== undefined && !isUuid(userId)) {
+      return res.status(400).json({ message: '', error: 'Il parametro "user_id" deve essere un UUID.' });
+    }
     try {
       // Query the Logs table and order by the timestamp field in descending order using the `desc` helper.
-      const logsRaw = (await db.select().from(Logs).orderBy(desc(Logs.timestamp))) as Array<{
+      const logsRaw = (await db
+        .select()
+        .from(Logs)
+        .where(userId ? eq(Logs.user_id, userId) : undefined)
+        .orderBy(desc(Logs.timestamp))) as Array<{
         log_id: string;
+        user_id: string;
         timestamp: Date | string | null;
         action_type: string;
         description?: string | null;
@@ -62,18 +88,18 @@ export default async function handler(
   } else if (req.method === 'POST') {
     // Handle POST requests: Record a new log entry.
     try {
-      const { user_id, action_type, description, metadata } = req.body;
+      const { action_type, description, metadata } = req.body;
 
       // Validate that the required fields are provided.
-      if (!user_id || !action_type || !description) {
+      if (!action_type || !description) {
         return res.status(400).json({
           message: '',
-          error: 'Campi "user_id", "action_type" e "description" sono obbligatori.',
+          error: 'Campi "action_type" e "description" sono obbligatori.',
         });
       }
 
-      // Record the log entry using the recordLog service function.
-      const logEntry = await recordLog(user_id, action_type, description, metadata);
+      // Record the log entry for the authenticated user using the recordLog service function.
+      const logEntry = await recordLog(authReq.user.user_id, action_type, description, metadata);
 
       return res.status(200).json({
         message: 'Log registrato con successo.',
@@ -90,4 +116,6 @@ export default async function handler(
     // If the request method is not GET or POST, return a 405 error.
     return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET o POST.' });
   }
-}
+};
+
+export default withAuth(withRole(userRoles, handler));
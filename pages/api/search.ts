@@ -0,0 +1,55 @@
+/**
+ * @fileoverview
+ * This API endpoint searches the text of the manuscripts visible to the authenticated user: their own
+ * for an author, their imprint's for an editor, every manuscript for an admin.
+ * It expects a GET request and returns one page of manuscripts, ordered by relevance, each with
+ * the fragments of its text that match the search.
+ *
+ * @dependencies
+ * - backend/services/fileTextService.ts for reading the query options and searching the texts.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Query parameters: q (the search text, from 2 to 200 characters), page (default 1) and
+ *   pageSize (default 10, at most 50).
+ * - The search uses the Italian dictionary of PostgreSQL: "romanzi" also finds "romanzo".
+ * - Snippets are HTML, with the text escaped and the matched words in <mark> elements.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseSearchQuery, searchFileTexts } from '../../backend/services/fileTextService';
+import { withAuth } from '../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../backend/services/accessService';
+import type { ApiResponse, SearchResponse } from '../../types/api';
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<SearchResponse>>) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET.' });
+  }
+
+  const authReq = req as AuthorizedNextApiRequest;
+
+  const { options, error } = parseSearchQuery(req.query);
+  if (!options) {
+    return res.status(400).json({ message: '', error });
+  }
+
+  try {
+    const { results, total } = await searchFileTexts(authReq.user, options);
+    return res.status(200).json({
+      message: 'Ricerca completata con successo.',
+      data: { results, total, page: options.page, pageSize: options.pageSize },
+    });
+  } catch (searchError: unknown) {
+    console.error('Errore nella ricerca dei manoscritti:', searchError);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante la ricerca dei manoscritti.',
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview
+ * This API endpoint manages a single prompt template.
+ * It supports:
+ * - GET: Retrieving the template.
+ * - PUT: Replacing the text of the template.
+ * - DELETE: Deleting the template, so that generation falls back to the next template in line
+ *   (the imprint's, then the built-in default).
+ *
+ * @dependencies
+ * - backend/services/promptTemplateService.ts for validating, reading and storing templates.
+ * - backend/services/logService.ts for logging the changes and the deletions.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ * - backend/utils/uuid.ts for the check of the template identifier.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Users can read their own templates and the templates of their imprint; the templates of the
+ *   imprint can be changed only by its editors (403 for its authors). Admins manage every template.
+ *   Templates of other users or imprints, and identifiers that are not UUIDs, are reported as not found.
+ * - PUT requires the field: template.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  canManageTemplate,
+  canViewTemplate,
+  deletePromptTemplate,
+  getPromptTemplateById,
+  updatePromptTemplate,
+  validatePromptTemplate,
+} from '../../../backend/services/promptTemplateService';
+import { recordLog } from '../../../backend/services/logService';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../backend/services/accessService';
+import { isUuid } from '../../../backend/utils/uuid';
+import type { ApiResponse, PromptTemplateResponse } from '../../../types/api';
+
+interface PromptTemplateUpdateRequestBody {
+  template: string;
+}
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PromptTemplateResponse | null>>
+) => {
+  const authReq = req as AuthorizedNextApiRequest;
+  const templateId = req.query.id as string;
+
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET, PUT o DELETE.' });
+  }
+  if (!isUuid(templateId)) {
+    return res.status(404).json({ message: '', error: 'Modello non trovato.' });
+  }
+
+  try {
+    const existing = await getPromptTemplateById(templateId);
+    if (!existing || !canViewTemplate(existing, authReq.user)) {
+      return res.status(404).json({ message: '', error: 'Modello non trovato.' });
+    }
+    if (req.method !== 'GET' && !canManageTemplate(existing, authReq.user)) {
+      return res.status(403).json({
+        message: '',
+        error: 'Solo gli editor possono modificare i modelli del marchio editoriale.',
+      });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        message: 'Modello recuperato con successo.',
+        data: { template: existing },
+      });
+    } else if (req.method === 'PUT') {
+      const { template } = req.body as PromptTemplateUpdateRequestBody;
+      if (typeof template !== 'string') {
+        return res.status(400).json({ message: '', error: 'Il campo "template" è obbligatorio.' });
+      }
+
+      const errors = validatePromptTemplate(template);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: '', error: 'Il modello non è valido.', details: errors });
+      }
+
+      const updated = await updatePromptTemplate(templateId, template);
+      if (!updated) {
+        return res.status(404).json({ message: '', error: 'Modello non trovato.' });
+      }
+
+      try {
+        await recordLog(
+          authReq.user.user_id,
+          'template_update',
+          `Updated ${existing.scope} template for ${existing.generation_type} (${existing.language}).`,
+          {
+            template_id: templateId,
+            scope: existing.scope,
+            generation_type: existing.generation_type,
+            language: existing.language,
+          }
+        );
+      } catch (logError) {
+        console.error('Errore nella registrazione del log:', logError);
+      }
+
+      return res.status(200).json({
+        message: 'Modello aggiornato con successo.',
+        data: { template: updated },
+      });
+    } else {
+      const deleted = await deletePromptTemplate(templateId);
+      if (!deleted) {
+        return res.status(404).json({ message: '', error: 'Modello non trovato.' });
+      }
+
+      try {
+        await recordLog(
+          authReq.user.user_id,
+          'template_delete',
+          `Deleted ${existing.scope} template for ${existing.generation_type} (${existing.language}).`,
+          {
+            template_id: templateId,
+            scope: existing.scope,
+            generation_type: existing.generation_type,
+            language: existing.language,
+          }
+        );
+      } catch (logError) {
+        console.error('Errore nella registrazione del log:', logError);
+      }
+
+      return res.status(200).json({ message: 'Modello eliminato con successo.', data: null });
+    }
+  } catch (error: unknown) {
+    console.error('Errore nella gestione del modello:', error);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante la gestione del modello.',
+    });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview
+ * This API endpoint manages the prompt templates used for the free-text generations.
+ * It supports:
+ * - GET: Listing the templates visible to the user (their own and their imprint's, all of them for an admin),
+ *   together with the built-in defaults and the supported variables.
+ * - POST: Creating a template for a generation type, owned by the user or by their imprint.
+ *
+ * @dependencies
+ * - backend/services/promptTemplateService.ts for validating, reading and storing templates.
+ * - backend/services/openaiService.ts for the list of free-text generation types.
+ * - backend/services/logService.ts for logging the creation.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for the role and the imprint of the user.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - POST requires the fields: generation_type and template; scope is "user" (default) or "imprint"
+ *   and language is one of the output languages ("it" by default).
+ * - Only editors can create imprint templates, for the imprint they are associated with. Admins can create
+ *   them for any imprint, given in the "imprint" field (their own imprint by default).
+ * - Each owner can define a single template per generation type and language: use PUT /api/templates/[id] to change it.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  createPromptTemplate,
+  defaultPromptTemplates,
+  listPromptTemplates,
+  templateVariables,
+  validatePromptTemplate,
+  TemplateScope,
+} from '../../../backend/services/promptTemplateService';
+import {
+  outputLanguages,
+  templateGenerationTypes,
+  OutputLanguage,
+  TemplateGenerationType,
+} from '../../../backend/services/openaiService';
+import { recordLog } from '../../../backend/services/logService';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../backend/middleware/roleMiddleware';
+import { userRoles } from '../../../backend/services/accessService';
+import type { ApiResponse, PromptTemplateListResponse, PromptTemplateResponse } from '../../../types/api';
+
+interface PromptTemplateRequestBody {
+  generation_type: TemplateGenerationType;
+  scope?: TemplateScope;
+  language?: OutputLanguage;
+  template: string;
+  // Imprint of an imprint template created by an admin
+  imprint?: string;
+}
+
+const scopes: TemplateScope[] = ['user', 'imprint'];
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<PromptTemplateListResponse | PromptTemplateResponse>>
+) => {
+  const authReq = req as AuthorizedNextApiRequest;
+  const userId = authReq.user.user_id;
+
+  if (req.method === 'GET') {
+    try {
+      const templates = await listPromptTemplates(authReq.user);
+      return res.status(200).json({
+        message: 'Modelli recuperati con successo.',
+        data: { templates, defaults: defaultPromptTemplates, variables: templateVariables, languages: outputLanguages },
+      });
+    } catch (error: unknown) {
+      console.error('Errore nel recupero dei modelli:', error);
+      return res.status(500).json({
+        message: '',
+        error: 'Errore interno del server durante il recupero dei modelli.',
+      });
+    }
+  } else if (req.method === 'POST') {
+    try {
+      const { generation_type, scope = 'user', language = 'it', template, imprint } = req.body as PromptTemplateRequestBody;
+
+      if (!generation_type || typeof template !== 'string') {
+        return res.status(400).json({
+          message: '',
+          error: 'Campi "generation_type" e "template" sono obbligatori.',
+        });
+      }
+      if (
+        !templateGenerationTypes.includes(generation_type) ||
+        !scopes.includes(scope) ||
+        !outputLanguages.includes(language)
+      ) {
+        return res.status(400).json({
+          message: '',
+          error: 'Valori non supportati: verifica "generation_type", "scope" (user o imprint) e "language".',
+        });
+      }
+
+      const errors = validatePromptTemplate(template);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: '', error: 'Il modello non è valido.', details: errors });
+      }
+
+      let owner = userId;
+      if (scope === 'imprint') {
+        const { role } = authReq.user;
+        if (role === 'author') {
+          return res.status(403).json({
+            message: '',
+            error: 'Solo gli editor possono creare i modelli del marchio editoriale.',
+          });
+        }
+        const ownerImprint =
+          role === 'admin' && typeof imprint === 'string' && imprint.trim() ? imprint.trim() : authReq.user.imprint;
+        if (!ownerImprint) {
+          return res.status(403).json({ message: '', error: 'Il tuo account non è associato a un marchio editoriale.' });
+        }
+        owner = ownerImprint;
+      }
+
+      const created = await createPromptTemplate(scope, owner, generation_type, language, template);
+      if (!created) {
+        return res.status(409).json({
+          message: '',
+          error: 'Esiste già un modello per questo tipo di contenuto e questa lingua. Modificalo invece di crearne uno nuovo.',
+        });
+      }
+
+      try {
+        await recordLog(userId, 'template_create', `Created ${scope} template for ${generation_type} (${language}).`, {
+          template_id: created.template_id,
+          scope,
+          generation_type,
+          language,
+        });
+      } catch (logError) {
+        console.error('Errore nella registrazione del log:', logError);
+      }
+
+      return res.status(201).json({
+        message: 'Modello creato con successo.',
+        data: { template: created },
+      });
+    } catch (error: unknown) {
+      console.error('Errore nella creazione del modello:', error);
+      return res.status(500).json({
+        message: '',
+        error: 'Errore interno del server durante la creazione del modello.',
+      });
+    }
+  } else {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET o POST.' });
+  }
+};
+
+export default withAuth(withRole(userRoles, handler));
@@ -1,53 +1,56 @@
 /**
  * @fileoverview
- * This API endpoint handles file uploads. It validates the file type (DOCX or PDF),
- * extracts text using appropriate libraries, performs technical analysis,
- * and stores file metadata in the database.
+ * This API endpoint handles file uploads. It validates the file type against the format registry
+ * (DOCX, PDF, EPUB, ODT, RTF or Markdown),
+ * stores file metadata in the database and queues the file for background processing.
+ * Several files (e.g. the volumes of a series) can be sent in one request, all in the "file" field.
  *
  * Key features:
- * - Parsing multipart form data using formidable.
+ * - Parsing multipart form data using formidable, up to MAX_UPLOAD_FILES files.
  * - File validation using utility functions.
- * - Extracting text from DOCX or PDF files.
- * - Analyzing the extracted text for technical insights.
- * - Storing file metadata in the database.
+ * - Storing the file in the durable storage backend under its content-addressed key.
+ * - Storing file metadata in the database with processing_status "pending".
+ * - Enqueuing a "process_upload" job, in the same transaction as the file metadata, which extracts
+ *   the text and runs the technical analysis in the worker (see backend/workers/jobWorker.ts).
  *
  * @dependencies
  * - formidable for multipart form parsing.
- * - fs for file system operations.
- * - backend/services/fileParser.ts for file parsing.
- * - backend/services/fileAnalysis.ts for technical analysis.
  * - backend/utils/fileUtils.ts for file validation.
+ * - backend/utils/fileFormats.ts for the supported formats.
+ * - backend/services/storage.ts for durable file storage.
+ * - backend/services/duplicateService.ts for recognizing files already uploaded.
  * - backend/db.ts and backend/models/File.ts for database operations.
+ * - backend/services/jobQueue.ts for queuing the processing job.
  * - backend/middleware/authMiddleware.ts for authentication.
  * - backend/utils/errorHandler.ts for centralized error handling.
  * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - The response is sent as soon as the files are stored (202 Accepted): the progress, the extracted
+ *   text and the technical analysis are then available through GET /api/files/[id]/status.
+ * - Every file is handled on its own: the response reports, in the order of the request, the file
+ *   record and the job of each file stored, or the reason why it was rejected. The request fails
+ *   (400) only when no file could be stored.
+ * - A file identical to one the user already uploaded is not stored again: its result reports the
+ *   previous upload with "duplicate" set, unless the processing of that upload failed. Revisions of a
+ *   book are recognized later, during the processing, from the similarity of the extracted text.
+ * - A file over the size limit, or too many files, abort the whole request (413), since formidable
+ *   stops reading the form.
  */
 
+import fs from 'fs';
 import type { NextApiRequest, NextApiResponse } from 'next';
 import formidable, { File as FormidableFile, Fields, Files } from 'formidable';
-import fs from 'fs';
-import { parseDocx, parsePdf } from '../../backend/services/fileParser';
-import { analyzeDocument } from '../../backend/services/fileAnalysis';
 import { Files as FilesTable } from '../../backend/models/File';
 import { db } from '../../backend/db';
+import { enqueueJob } from '../../backend/services/jobQueue';
+import { storeFile, StoredFile } from '../../backend/services/storage';
+import { findDuplicateUpload } from '../../backend/services/duplicateService';
 import { withAuth, AuthenticatedNextApiRequest } from '../../backend/middleware/authMiddleware';
 import { validateUploadedFile, getFileExtension } from '../../backend/utils/fileUtils';
+import { findFormatByExtension, MAX_UPLOAD_FILES, MAX_UPLOAD_FILE_SIZE } from '../../backend/utils/fileFormats';
 import { withErrorHandling } from '../../backend/utils/errorHandler';
-import type { ApiResponse } from '../../types/api';
-
-/**
- * Interface for the upload response data.
- */
-interface UploadResponseData {
-  file: Record<string, unknown>;
-  extractedText: string;
-  technicalAnalysis: {
-    wordCount: number;
-    characterCount: number;
-    sentenceCount: number;
-    averageWordLength: number;
-  };
-}
+import type { ApiResponse, UploadFileResult, UploadResponse } from '../../types/api';
 
 export const config = {
   api: {
@@ -63,8 +66,11 @@ export const config = {
 const parseForm = (req: NextApiRequest): Promise<{ fields: Fields; files: Files }> => {
   return new Promise((resolve, reject) => {
     const form = new formidable.IncomingForm({
-      maxFileSize: 30 * 1024 * 1024, // 30MB
-      multiples: false,
+      maxFileSize: MAX_UPLOAD_FILE_SIZE,
+      maxFiles: MAX_UPLOAD_FILES,
+      // The total defaults to the limit of a single file
+      maxTotalFileSize: MAX_UPLOAD_FILE_SIZE * MAX_UPLOAD_FILES,
+      multiples: true,
       keepExtensions: true,
     });
     form.parse(req, (err, fields, files) => {
@@ -74,80 +80,124 @@ const parseForm = (req: NextApiRequest): Promise<{ fields: Fields; files: Files
   });
 };
 
+/**
+ * Validates and stores an uploaded file, saves its metadata and queues its processing.
+ * @param uploadedFile The file parsed by formidable; its temporary copy is always removed.
+ * @param userId The identifier of the authenticated user.
+ * @returns The outcome of the upload of the file.
+ */
+const uploadFile = async (uploadedFile: FormidableFile, userId: string): Promise<UploadFileResult> => {
+  const fileName = uploadedFile.originalFilename || 'Unknown';
+  try {
+    // Validate the file (size, extension and MIME type) against the format registry
+    const validationResult = validateUploadedFile(uploadedFile, MAX_UPLOAD_FILE_SIZE);
+    if (!validationResult.valid) {
+      return { file_name: fileName, success: false, error: validationResult.error };
+    }
+
+    const ext = getFileExtension(uploadedFile);
+    const format = findFormatByExtension(ext);
+    if (!format) {
+      return { file_name: fileName, success: false, error: 'Estensione file non supportata.' };
+    }
+
+    // Move the file from formidable's temporary directory to the durable storage
+    const fileBuffer = await fs.promises.readFile(uploadedFile.filepath);
+    const stored: StoredFile = await storeFile(fileBuffer, ext, format.mimeTypes[0]);
+
+    // The same bytes uploaded again by the user: the previous upload is reused, without a new processing,
+    // unless its processing failed
+    const duplicate = await findDuplicateUpload(userId, stored.contentHash);
+    if (duplicate) {
+      return { file_name: fileName, success: true, file: duplicate, duplicate: true };
+    }
+
+    // Save file metadata and queue the text extraction and the technical analysis in one transaction:
+    // a file left in "pending" state without a job would never be processed
+    const { fileRecord, job } = await db.transaction(async (tx) => {
+      const [fileRecord] = await tx
+        .insert(FilesTable)
+        .values({
+          user_id: userId,
+          file_name: fileName,
+          // The canonical MIME type of the format: browsers send generic ones for some formats
+          file_type: format.mimeTypes[0],
+          file_size: uploadedFile.size,
+          storage_path: stored.key,
+          content_hash: stored.contentHash,
+          processing_status: 'pending',
+        })
+        .returning();
+      const job = await enqueueJob('process_upload', { file_id: fileRecord.file_id }, { fileId: fileRecord.file_id }, tx);
+      return { fileRecord, job };
+    });
+
+    return { file_name: fileName, success: true, file: fileRecord, job_id: job.job_id };
+  } catch (error) {
+    // The other files of the request are still uploaded
+    console.error('Errore nel salvataggio del file caricato:', error);
+    return { file_name: fileName, success: false, error: 'Errore durante il salvataggio del file.' };
+  } finally {
+    await fs.promises.rm(uploadedFile.filepath, { force: true });
+  }
+};
+
 const handler = async (
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<UploadResponseData>>
+  res: NextApiResponse<ApiResponse<UploadResponse>>
 ) => {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare POST.' });
   }
 
   // Parse the multipart form data
-  const { files } = await parseForm(req);
-  const uploaded = files.file;
-  let uploadedFile: FormidableFile | undefined;
-  if (Array.isArray(uploaded)) {
-    uploadedFile = uploaded[0];
-  } else {
-    uploadedFile = uploaded;
+  let files: Files;
+  try {
+    ({ files } = await parseForm(req));
+  } catch (error: unknown) {
+    // Size and number limits (formidable reports them with HTTP code 413)
+    if ((error as { httpCode?: number } | null)?.httpCode === 413) {
+      return res.status(413).json({
+        message: '',
+        error: `Caricamento troppo grande: sono ammessi al massimo ${MAX_UPLOAD_FILES} file di ${MAX_UPLOAD_FILE_SIZE / (1024 * 1024)}MB ciascuno.`,
+      });
+    }
+    throw error;
   }
 
-  if (!uploadedFile) {
+  const uploaded = files.file;
+  const uploadedFiles: FormidableFile[] = Array.isArray(uploaded) ? uploaded : uploaded ? [uploaded] : [];
+  if (uploadedFiles.length === 0) {
     return res.status(400).json({ message: '', error: 'Nessun file caricato.' });
   }
 
-  // Validate the file (size and MIME type)
-  const validationResult = validateUploadedFile(uploadedFile, 30 * 1024 * 1024);
-  if (!validationResult.valid) {
-    return res.status(400).json({ message: '', error: validationResult.error });
-  }
-
-  // Get the file extension for processing
-  const ext = getFileExtension(uploadedFile);
-
-  // Read the file from the temporary path
-  const fileBuffer = fs.readFileSync(uploadedFile.filepath);
-  let extractedText = '';
+  // Get authenticated user's ID from middleware
+  const authReq = req as AuthenticatedNextApiRequest;
 
-  // Process file based on extension
-  if (ext === '.docx') {
-    extractedText = await parseDocx(fileBuffer);
-  } else if (ext === '.pdf') {
-    extractedText = await parsePdf(fileBuffer);
-  } else {
-    return res.status(400).json({ message: '', error: 'Estensione file non supportata.' });
+  // One file at a time, so that only one file is held in memory
+  const results: UploadFileResult[] = [];
+  for (const uploadedFile of uploadedFiles) {
+    results.push(await uploadFile(uploadedFile, authReq.user.user_id));
   }
 
-  // Perform technical analysis on the extracted text
-  const technicalAnalysis = analyzeDocument(extractedText);
-
-  // Get authenticated user's ID from middleware
-  const authReq = req as AuthenticatedNextApiRequest;
+  const uploadedCount = results.filter((result) => result.success).length;
+  const data = { results, uploaded: uploadedCount, failed: results.length - uploadedCount };
+  if (uploadedCount === 0) {
+    return res.status(400).json({
+      message: '',
+      // With a single file, its own error is the most useful message
+      error: results.length === 1 ? results[0].error : 'Nessuno dei file è stato caricato.',
+      data,
+    });
+  }
 
-  // Save file metadata in the database
-  const newFile = await db
-    .insert(FilesTable)
-    .values({
-      user_id: authReq.user.user_id, // Use authenticated user's ID
-      file_name: uploadedFile.originalFilename || 'Unknown',
-      file_type: uploadedFile.mimetype || 'Unknown',
-      file_size: uploadedFile.size,
-      storage_path: uploadedFile.filepath,
-      processing_status: 'complete',
-    })
-    .returning();
-
-  // Extract the first file record from the array
-  const fileRecord = newFile[0];
-
-  // Return response with file metadata, extracted text, and technical analysis
-  return res.status(200).json({
-    message: 'File caricato e processato con successo.',
-    data: {
-      file: fileRecord,
-      extractedText,
-      technicalAnalysis,
-    },
+  // Return right away: the client follows the processing through /api/files/[id]/status
+  return res.status(202).json({
+    message:
+      data.failed === 0
+        ? `${results.length === 1 ? 'File caricato' : 'File caricati'}. Elaborazione in corso.`
+        : `Caricati ${uploadedCount} file su ${results.length}. Elaborazione in corso.`,
+    data,
   });
 };
 
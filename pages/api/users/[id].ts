@@ -0,0 +1,99 @@
+/**
+ * @fileoverview
+ * This API endpoint changes the role and the imprint of a user.
+ * It expects a PATCH request with the fields to change and is reserved to admins.
+ *
+ * @dependencies
+ * - backend/services/accessService.ts for the roles and the update.
+ * - backend/services/logService.ts for logging the change.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for restricting the endpoint to admins.
+ * - backend/utils/uuid.ts for the check of the user identifier.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Body fields: role ("admin", "editor" or "author") and imprint (null or an empty string to remove it).
+ *   At least one of them is required.
+ * - Admins cannot change their own role, so that the application is never left without an admin by mistake.
+ * - The new role applies to the next request of the user: roles are not stored in the access tokens.
+ * - An identifier that is not a UUID gets a 404, like a missing user.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { updateUserAccess, userRoles, UserRole } from '../../../backend/services/accessService';
+import { recordLog } from '../../../backend/services/logService';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole, AuthorizedNextApiRequest } from '../../../backend/middleware/roleMiddleware';
+import { isUuid } from '../../../backend/utils/uuid';
+import type { ApiResponse, UserAccountResponse } from '../../../types/api';
+
+// Maximum length of an imprint, as in the Users table
+const MAX_IMPRINT_LENGTH = 100;
+
+interface UserUpdateRequestBody {
+  role?: UserRole;
+  imprint?: string | null;
+}
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<UserAccountResponse>>) => {
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare PATCH.' });
+  }
+
+  const authReq = req as AuthorizedNextApiRequest;
+  const userId = req.query.id as string;
+  const { role, imprint } = (req.body || {}) as UserUpdateRequestBody;
+
+  if (!isUuid(userId)) {
+    return res.status(404).json({ message: '', error: 'Utente non trovato.' });
+  }
+  if (role === undefined && imprint === undefined) {
+    return res.status(400).json({ message: '', error: 'Indicare almeno uno dei campi "role" e "imprint".' });
+  }
+  if (role !== undefined && !userRoles.includes(role)) {
+    return res.status(400).json({ message: '', error: 'Ruolo non valido: usare admin, editor o author.' });
+  }
+  if (imprint !== undefined && imprint !== null && (typeof imprint !== 'string' || imprint.length > MAX_IMPRINT_LENGTH)) {
+    return res.status(400).json({
+      message: '',
+      error: `Il campo "imprint" deve essere un testo di al massimo ${MAX_IMPRINT_LENGTH} caratteri.`,
+    });
+  }
+  if (role !== undefined && userId === authReq.user.user_id && role !== authReq.user.role) {
+    return res.status(400).json({ message: '', error: 'Non puoi modificare il tuo ruolo.' });
+  }
+
+  try {
+    const changes: { role?: UserRole; imprint?: string | null } = {};
+    if (role !== undefined) {
+      changes.role = role;
+    }
+    if (imprint !== undefined) {
+      changes.imprint = imprint && imprint.trim() ? imprint.trim() : null;
+    }
+
+    const user = await updateUserAccess(userId, changes);
+    if (!user) {
+      return res.status(404).json({ message: '', error: 'Utente non trovato.' });
+    }
+
+    try {
+      await recordLog(authReq.user.user_id, 'user_update', `Updated role and imprint of user ${user.username}.`, {
+        user_id: user.user_id,
+        ...changes,
+      });
+    } catch (logError) {
+      console.error('Errore nella registrazione del log:', logError);
+    }
+
+    return res.status(200).json({ message: 'Utente aggiornato con successo.', data: { user } });
+  } catch (error: unknown) {
+    console.error("Errore nell'aggiornamento dell'utente:", error);
+    return res.status(500).json({
+      message: '',
+      error: "Errore interno del server durante l'aggiornamento dell'utente.",
+    });
+  }
+};
+
+export default withAuth(withRole(['admin'], handler));
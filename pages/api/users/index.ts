@@ -0,0 +1,40 @@
+/**
+ * @fileoverview
+ * This API endpoint lists the users of the application, with their role and imprint.
+ * It expects a GET request and is reserved to admins.
+ *
+ * @dependencies
+ * - backend/services/accessService.ts for listing the users.
+ * - backend/middleware/authMiddleware.ts for authentication.
+ * - backend/middleware/roleMiddleware.ts for restricting the endpoint to admins.
+ * - types/api.d.ts for API response types.
+ *
+ * @notes
+ * - Users are ordered by registration date, oldest first. Use PATCH /api/users/[id] to change
+ *   the role or the imprint of a user.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listUsers } from '../../../backend/services/accessService';
+import { withAuth } from '../../../backend/middleware/authMiddleware';
+import { withRole } from '../../../backend/middleware/roleMiddleware';
+import type { ApiResponse, UserListResponse } from '../../../types/api';
+
+const handler = async (req: NextApiRequest, res: NextApiResponse<ApiResponse<UserListResponse>>) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: '', error: 'Metodo non consentito. Utilizzare GET.' });
+  }
+
+  try {
+    const users = await listUsers();
+    return res.status(200).json({ message: 'Utenti recuperati con successo.', data: { users } });
+  } catch (error: unknown) {
+    console.error('Errore nel recupero degli utenti:', error);
+    return res.status(500).json({
+      message: '',
+      error: 'Errore interno del server durante il recupero degli utenti.',
+    });
+  }
+};
+
+export default withAuth(withRole(['admin'], handler));
@@ -0,0 +1,322 @@
+/**
+ * @fileoverview
+ * Questa pagina ("I miei libri") elenca i manoscritti caricati dall'utente, recuperati da /api/files.
+ * Utilizza il componente Layout per mantenere una struttura coerente.
+ *
+ * Key features:
+ * - Elenco paginato dei file, ordinabile per data di caricamento.
+ * - Filtro per stato di elaborazione e ricerca per nome del file.
+ * - Per ogni manoscritto: stato, analisi tecnica e collegamenti ai contenuti generati nell'editor.
+ * - Numero di versione dei manoscritti riconosciuti come revisioni di un libro già caricato.
+ * - Per i PDF scansionati: pagine riconosciute con l'OCR e affidabilità media del riconoscimento.
+ * - Download del file originale (/api/files/[id]/download) ed eliminazione (DELETE /api/files/[id]).
+ * - Report di controllo della formattazione del manoscritto, recuperato su richiesta da /api/files/[id]/lint.
+ *
+ * @dependencies
+ * - React: per la gestione dello stato e degli effetti.
+ * - components/Layout.tsx: per il layout dell'applicazione.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - components/LintReportView.tsx: per la visualizzazione del report di controllo.
+ * - lib/apiClient.ts: per le richieste con i cookie della sessione.
+ *
+ * @notes
+ * - Il download avviene tramite apiFetch e non con un semplice link, così una sessione scaduta
+ *   viene rinnovata come per le altre richieste.
+ */
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Layout from '../components/Layout';
+import ErrorMessage from '../components/ErrorMessage';
+import LintReportView from '../components/LintReportView';
+import { apiFetch } from '../lib/apiClient';
+import type { FileSummary } from '../backend/services/fileService';
+import type { LintReport } from '../backend/services/manuscriptLint';
+
+// Numero di manoscritti per pagina
+const PAGE_SIZE = 10;
+
+// Stati di elaborazione, con l'etichetta mostrata all'utente
+const statusLabels: Record<string, string> = {
+  pending: 'In attesa',
+  processing: 'In elaborazione',
+  complete: 'Completato',
+  error: 'Errore',
+};
+
+// Etichette dei tipi di contenuto generati
+const outputTypeLabels: Record<string, string> = {
+  blurb: 'Quarta di copertina',
+  description: 'Descrizione prodotto',
+  keywords: 'Parole chiave',
+  categories: 'Categorie',
+  foreword: 'Prologo',
+  analysis: 'Analisi',
+};
+
+const BooksPage: React.FC = () => {
+  const [files, setFiles] = useState<FileSummary[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [page, setPage] = useState<number>(1);
+  const [sort, setSort] = useState<'asc' | 'desc'>('desc');
+  const [status, setStatus] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  // Incrementato per ricaricare l'elenco dopo un'eliminazione
+  const [reloadKey, setReloadKey] = useState<number>(0);
+  // Report di controllo mostrato, con il file a cui si riferisce
+  const [lintReport, setLintReport] = useState<{ file_id: string; report: LintReport } | null>(null);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Carica la pagina corrente quando cambiano i filtri, l'ordinamento o la pagina
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadFiles = async () => {
+      setLoading(true);
+      setError('');
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE), sort });
+      if (status) {
+        params.set('status', status);
+      }
+      if (search.trim()) {
+        params.set('search', search.trim());
+      }
+
+      try {
+        const response = await apiFetch(`/api/files?${params.toString()}`);
+        const result = await response.json();
+        if (cancelled) {
+          return;
+        }
+        if (!response.ok) {
+          setError(result.error || 'Errore nel recupero dei manoscritti.');
+          return;
+        }
+        setFiles(result.data.files);
+        setTotal(result.data.total);
+      } catch (loadError) {
+        console.error('Errore nel recupero dei manoscritti:', loadError);
+        if (!cancelled) {
+          setError('Errore nel recupero dei manoscritti.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadFiles();
+    return () => {
+      cancelled = true;
+    };
+  }, [page, sort, status, search, reloadKey]);
+
+  /**
+   * Scarica il file originale.
+   */
+  const handleDownload = async (file: FileSummary) => {
+    setError('');
+    try {
+      const response = await apiFetch(`/api/files/${file.file_id}/download`);
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || 'Errore durante il download del file.');
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.file_name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (downloadError) {
+      console.error('Errore durante il download:', downloadError);
+      setError('Errore durante il download del file.');
+    }
+  };
+
+  /**
+   * Mostra (o nasconde) il report di controllo della formattazione del manoscritto.
+   */
+  const handleLintReport = async (file: FileSummary) => {
+    if (lintReport?.file_id === file.file_id) {
+      setLintReport(null);
+      return;
+    }
+    setError('');
+    try {
+      const response = await apiFetch(`/api/files/${file.file_id}/lint`);
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Errore nel recupero del report di controllo.');
+        return;
+      }
+      setLintReport(result.data);
+    } catch (lintError) {
+      console.error('Errore nel recupero del report di controllo:', lintError);
+      setError('Errore nel recupero del report di controllo.');
+    }
+  };
+
+  /**
+   * Elimina il manoscritto, dopo la conferma dell'utente, insieme ai contenuti generati.
+   */
+  const handleDelete = async (file: FileSummary) => {
+    if (!window.confirm(`Eliminare "${file.file_name}" e tutti i contenuti generati?`)) {
+      return;
+    }
+    setError('');
+    try {
+      const response = await apiFetch(`/api/files/${file.file_id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || "Errore durante l'eliminazione del file.");
+        return;
+      }
+      // Torna alla pagina precedente se è stato eliminato l'ultimo elemento della pagina
+      if (files.length === 1 && page > 1) {
+        setPage(page - 1);
+      } else {
+        setReloadKey((key) => key + 1);
+      }
+    } catch (deleteError) {
+      console.error("Errore durante l'eliminazione:", deleteError);
+      setError("Errore durante l'eliminazione del file.");
+    }
+  };
+
+  return (
+    <Layout>
+      <h2>I miei libri</h2>
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <label>
+          Cerca:{' '}
+          <input
+            type="search"
+            value={search}
+            placeholder="Nome del file"
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+          />
+        </label>
+        <label>
+          Stato:{' '}
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value);
+              setPage(1);
+            }}
+          >
+            <option value="">Tutti</option>
+            {Object.entries(statusLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Ordina:{' '}
+          <select value={sort} onChange={(e) => setSort(e.target.value as 'asc' | 'desc')}>
+            <option value="desc">Più recenti</option>
+            <option value="asc">Meno recenti</option>
+          </select>
+        </label>
+      </div>
+
+      {loading && <p>Caricamento in corso...</p>}
+      {!loading && files.length === 0 && (
+        <p>
+          Nessun manoscritto trovato. <Link href="/upload">Carica un file</Link>.
+        </p>
+      )}
+
+      {files.map((file) => (
+        <div key={file.file_id} style={{ borderBottom: '1px solid #ddd', padding: '1rem 0' }}>
+          <h3>
+            {file.file_name}
+            {file.version > 1 && ` (versione ${file.version})`}
+          </h3>
+          <p>
+            Caricato il {file.upload_date ? new Date(file.upload_date).toLocaleString('it-IT') : '-'} ·{' '}
+            {(file.file_size / 1024).toFixed(0)} KB · Stato: {statusLabels[file.processing_status]}
+          </p>
+          {file.technicalAnalysis && (
+            <p>
+              Parole: {file.technicalAnalysis.wordCount} · Caratteri: {file.technicalAnalysis.characterCount} ·
+              Frasi: {file.technicalAnalysis.sentenceCount} · Lunghezza media delle parole:{' '}
+              {file.technicalAnalysis.averageWordLength.toFixed(2)}
+              {file.technicalAnalysis.chapterCount ? ` · Capitoli: ${file.technicalAnalysis.chapterCount}` : ''}
+            </p>
+          )}
+          {/* Le analisi dei file elaborati prima dell'introduzione degli indici di leggibilità non li contengono */}
+          {file.technicalAnalysis?.readability && (
+            <p>
+              Indice Gulpease: {file.technicalAnalysis.readability.gulpease} · Flesch-Vacca:{' '}
+              {file.technicalAnalysis.readability.fleschVacca} · Dialogo:{' '}
+              {Math.round(file.technicalAnalysis.dialogueRatio * 100)}% · Tempo di lettura:{' '}
+              {file.technicalAnalysis.readingTimeMinutes} min
+            </p>
+          )}
+          {file.ocr && (
+            <p>
+              Testo riconosciuto con OCR: {file.ocr.pages.length}{' '}
+              {file.ocr.pages.length === 1 ? 'pagina' : 'pagine'} · Affidabilità: {Math.round(file.ocr.confidence)}%
+            </p>
+          )}
+          {file.output_types.length > 0 ? (
+            <p>
+              Contenuti generati:{' '}
+              {file.output_types.map((type, index) => (
+                <React.Fragment key={type}>
+                  {index > 0 && ', '}
+                  <Link href={`/editor?file=${file.file_id}&type=${type}`}>{outputTypeLabels[type]}</Link>
+                </React.Fragment>
+              ))}
+            </p>
+          ) : (
+            file.processing_status === 'complete' && (
+              <p>
+                Nessun contenuto generato. <Link href={`/editor?file=${file.file_id}`}>Apri nell&apos;editor</Link>
+              </p>
+            )
+          )}
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button onClick={() => handleDownload(file)}>Scarica</button>
+            {file.processing_status === 'complete' && (
+              <button onClick={() => handleLintReport(file)}>
+                {lintReport?.file_id === file.file_id ? 'Nascondi controllo' : 'Controllo formattazione'}
+              </button>
+            )}
+            <button onClick={() => handleDelete(file)}>Elimina</button>
+          </div>
+          {lintReport?.file_id === file.file_id && <LintReportView report={lintReport.report} />}
+        </div>
+      ))}
+
+      {total > PAGE_SIZE && (
+        <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginTop: '1rem' }}>
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+            Precedente
+          </button>
+          <span>
+            Pagina {page} di {totalPages}
+          </span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= totalPages || loading}>
+            Successiva
+          </button>
+        </div>
+      )}
+      <ErrorMessage message={error} />
+    </Layout>
+  );
+};
+
+export default BooksPage;
@@ -2,60 +2,370 @@
  * @fileoverview
  * Questa pagina funge da editor per i contenuti generati dall'AI.
  * Utilizza il componente Layout per mantenere una struttura coerente.
- * 
+ *
  * Key features:
- * - Area di testo per l'editing dei contenuti.
- * - Pulsante per rigenerare il contenuto (funzionalità da implementare in futuro).
- * 
+ * - Selezione di un file caricato durante la sessione, del tipo di contenuto da generare
+ *   e della lingua dell'edizione (italiano, inglese, spagnolo, tedesco o francese).
+ * - Generazione a partire dall'intero manoscritto o da un singolo capitolo.
+ * - Generazione e rigenerazione del contenuto, in streaming per i testi liberi
+ *   (/api/generate/stream) e tramite /api/generate per le categorie e le parole chiave KDP.
+ * - Modifica del contenuto nel componente ContentEditor, con il testo condiviso in AppContext.aiOutput.
+ * - Salvataggio della versione modificata sul server, registrata nella cronologia della sessione.
+ * - Ripresa dell'ultima versione salvata per il file, il tipo e la lingua selezionati.
+ * - Apertura di un manoscritto dalla pagina "I miei libri" tramite i parametri ?file=...&type=...:
+ *   se il file non è stato caricato nella sessione, i suoi capitoli vengono recuperati da /api/files/[id]/status.
+ *
  * @dependencies
  * - React: per la gestione dei componenti.
  * - components/Layout.tsx: per il layout dell'applicazione.
- * 
+ * - components/ContentEditor.tsx: per la modifica del contenuto.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - context/AppContext: per i file caricati e il contenuto generato.
+ * - lib/apiClient.ts: per le richieste con i cookie della sessione.
+ * - lib/generationClient.ts: per la generazione in streaming.
+ *
  * @notes
- * - Il componente è un placeholder e potrà essere espanso con funzionalità avanzate.
+ * - Le richieste sono autenticate dai cookie della sessione, tramite apiFetch.
  */
 
-import React, { useState } from 'react';
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
 import Layout from '../components/Layout';
+import ContentEditor from '../components/ContentEditor';
+import ErrorMessage from '../components/ErrorMessage';
+import { AppContext } from '../context/AppContext';
+import { apiFetch } from '../lib/apiClient';
+import { streamGeneratedContent } from '../lib/generationClient';
+
+// Tipi di contenuto disponibili, con l'etichetta mostrata all'utente
+const generationTypeOptions = [
+  { value: 'blurb', label: 'Quarta di copertina' },
+  { value: 'description', label: 'Descrizione prodotto' },
+  { value: 'keywords', label: 'Parole chiave' },
+  { value: 'categories', label: 'Categorie' },
+  { value: 'foreword', label: 'Prologo' },
+  { value: 'analysis', label: 'Analisi' },
+];
+
+// Lingue disponibili per le edizioni tradotte
+const languageOptions = [
+  { value: 'it', label: 'Italiano' },
+  { value: 'en', label: 'Inglese' },
+  { value: 'es', label: 'Spagnolo' },
+  { value: 'de', label: 'Tedesco' },
+  { value: 'fr', label: 'Francese' },
+];
+
+// Le categorie e le parole chiave vengono validate per intero e non possono essere generate in streaming
+const NON_STREAMABLE_TYPES = ['categories', 'keywords'];
+
+/**
+ * Converte il contenuto salvato (testo o JSON per le categorie) nel testo mostrato nell'editor.
+ */
+const toEditorText = (content: unknown): string =>
+  typeof content === 'string' ? content : JSON.stringify(content, null, 2);
 
 const EditorPage: React.FC = () => {
-  const [content, setContent] = useState<string>('Qui verrà visualizzato il contenuto generato dall\'AI...');
+  const { uploadedFiles = [], aiOutput = '', setAiOutput, addUploadedFile } = useContext(AppContext) || {};
+  const router = useRouter();
+
+  const [fileId, setFileId] = useState<string>(uploadedFiles[0]?.file_id || '');
+  const [type, setType] = useState<string>('blurb');
+  const [language, setLanguage] = useState<string>('it');
+  // Indice del capitolo da cui generare il contenuto, vuoto per l'intero manoscritto
+  const [chapter, setChapter] = useState<string>('');
+  // Versione attualmente mostrata nell'editor, usata come riferimento al salvataggio
+  const [outputId, setOutputId] = useState<string | null>(null);
+  const [streaming, setStreaming] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const selectedFile = uploadedFiles.find((file) => file.file_id === fileId);
+  const chapters = selectedFile?.chapters || [];
+  const chapterIndex = chapter === '' ? undefined : Number(chapter);
+  const updateContent = useCallback((value: string) => setAiOutput?.(value), [setAiOutput]);
+
+  // Seleziona il file e il tipo indicati nell'URL, recuperando il file se non è nella sessione
+  const queryFileId = typeof router.query.file === 'string' ? router.query.file : '';
+  const queryType = typeof router.query.type === 'string' ? router.query.type : '';
+  const queryFileLoaded = uploadedFiles.some((file) => file.file_id === queryFileId);
+  useEffect(() => {
+    if (queryType && generationTypeOptions.some((option) => option.value === queryType)) {
+      setType(queryType);
+    }
+    if (!queryFileId) {
+      return;
+    }
+    if (queryFileLoaded) {
+      setFileId(queryFileId);
+      return;
+    }
+    let cancelled = false;
+
+    const loadFile = async () => {
+      try {
+        const response = await apiFetch(`/api/files/${queryFileId}/status`);
+        const result = await response.json();
+        if (cancelled) {
+          return;
+        }
+        if (!response.ok) {
+          setError(result.error || 'Errore nel recupero del file.');
+          return;
+        }
+        if (result.data.processing_status !== 'complete') {
+          setError('Il file non è ancora stato elaborato.');
+          return;
+        }
+        addUploadedFile?.({
+          file_id: queryFileId,
+          file_name: result.data.file_name,
+          chapters: result.data.structure?.chapters || [],
+        });
+        setFileId(queryFileId);
+      } catch (loadError) {
+        console.error('Errore nel recupero del file:', loadError);
+      }
+    };
+
+    loadFile();
+    return () => {
+      cancelled = true;
+    };
+  }, [queryFileId, queryType, queryFileLoaded, addUploadedFile]);
+
+  // Carica l'ultima versione salvata quando cambiano il file, il tipo di contenuto o la lingua
+  useEffect(() => {
+    if (!fileId) {
+      return;
+    }
+    let cancelled = false;
+
+    const loadLatestVersion = async () => {
+      try {
+        const response = await apiFetch(`/api/files/${fileId}/outputs`);
+        if (!response.ok || cancelled) {
+          return;
+        }
+        const { data } = await response.json();
+        const latest = data.outputs[type]?.find((version: { language: string }) => version.language === language);
+        updateContent(latest ? toEditorText(latest.content) : '');
+        setOutputId(latest ? latest.output_id : null);
+      } catch (loadError) {
+        console.error('Errore nel recupero dei contenuti salvati:', loadError);
+      }
+    };
+
+    loadLatestVersion();
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId, type, language, updateContent]);
 
   /**
-   * Gestisce il cambiamento del contenuto nell'editor.
-   * @param event L'evento di cambio nel textarea.
+   * Genera (o rigenera) il contenuto del tipo selezionato per il file selezionato.
    */
-  const handleContentChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setContent(event.target.value);
+  const handleGenerate = async () => {
+    if (!selectedFile) {
+      setError('Seleziona un file prima di generare il contenuto.');
+      return;
+    }
+    setError('');
+    setStatus('');
+
+    if (NON_STREAMABLE_TYPES.includes(type)) {
+      setLoading(true);
+      try {
+        const response = await apiFetch('/api/generate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            type,
+            file_id: selectedFile.file_id,
+            language,
+            chapter: chapterIndex,
+          }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          setError(result.error || 'Errore durante la generazione del contenuto.');
+          return;
+        }
+        // Le categorie arrivano in JSON, le parole chiave già una per riga
+        updateContent(type === 'categories' ? toEditorText(JSON.parse(result.data.output)) : result.data.output);
+        setOutputId(result.data.output_id);
+        setStatus('Contenuto generato con successo.');
+      } catch (generateError) {
+        console.error('Errore durante la generazione:', generateError);
+        setError('Errore durante la generazione del contenuto.');
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setStreaming(true);
+    updateContent('');
+
+    let text = '';
+    try {
+      const result = await streamGeneratedContent({
+        type,
+        fileId: selectedFile.file_id,
+        language,
+        chapter: chapterIndex,
+        signal: controller.signal,
+        onDelta: (delta) => {
+          text += delta;
+          updateContent(text);
+        },
+      });
+      setOutputId(result.output_id);
+      setStatus('Contenuto generato con successo.');
+    } catch (generateError) {
+      if (controller.signal.aborted) {
+        setStatus('Generazione annullata.');
+      } else {
+        console.error('Errore durante la generazione:', generateError);
+        setError(
+          generateError instanceof Error ? generateError.message : 'Errore durante la generazione del contenuto.'
+        );
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setStreaming(false);
+    }
   };
 
   /**
-   * Funzione placeholder per rigenerare il contenuto.
-   * In futuro implementare la chiamata all'API per rigenerare il contenuto.
+   * Annulla la generazione in corso, interrompendo anche la richiesta al modello.
    */
-  const handleRegenerate = () => {
-    alert('Funzionalità di rigenerazione non ancora implementata.');
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
   };
 
+  /**
+   * Salva sul server la versione modificata del contenuto.
+   */
+  const handleSave = async () => {
+    if (!selectedFile || !aiOutput.trim()) {
+      return;
+    }
+    setError('');
+    setStatus('Salvataggio in corso...');
+
+    try {
+      const response = await apiFetch(`/api/files/${selectedFile.file_id}/outputs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, content: aiOutput, language, previous_output_id: outputId }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setStatus('');
+        // Le parole chiave e le categorie non valide riportano i problemi trovati in "details"
+        const details: string[] = result.details || [];
+        setError([result.error || 'Errore durante il salvataggio.', ...details].join(' '));
+        return;
+      }
+      setOutputId(result.data.output_id);
+      setStatus('Modifiche salvate.');
+    } catch (saveError) {
+      console.error('Errore durante il salvataggio:', saveError);
+      setStatus('');
+      setError('Errore durante il salvataggio.');
+    }
+  };
+
+  if (uploadedFiles.length === 0) {
+    return (
+      <Layout>
+        <h2>Editor AI</h2>
+        <p>
+          Nessun file disponibile. <Link href="/upload">Carica un file</Link> per generare i contenuti.
+        </p>
+      </Layout>
+    );
+  }
+
+  const busy = streaming || loading;
+
   return (
     <Layout>
       <h2>Editor AI</h2>
-      <div>
-        <textarea
-          value={content}
-          onChange={handleContentChange}
-          rows={10}
-          style={{ width: '100%', padding: '1rem', borderRadius: '4px', border: '1px solid #ccc' }}
-        />
-      </div>
-      <div style={{ marginTop: '1rem' }}>
-        <button
-          onClick={handleRegenerate}
-          style={{ backgroundColor: '#FFC107', color: '#000', padding: '0.5rem 1rem', border: 'none', borderRadius: '4px' }}
-        >
-          Rigenera Contenuto
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <label>
+          File:{' '}
+          <select
+            value={fileId}
+            onChange={(e) => {
+              setFileId(e.target.value);
+              setChapter('');
+            }}
+            disabled={busy}
+          >
+            {uploadedFiles.map((file) => (
+              <option key={file.file_id} value={file.file_id}>
+                {file.file_name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {chapters.length > 0 && (
+          <label>
+            Capitolo:{' '}
+            <select value={chapter} onChange={(e) => setChapter(e.target.value)} disabled={busy}>
+              <option value="">Intero manoscritto</option>
+              {chapters.map((item, index) => (
+                <option key={index} value={index}>
+                  {item.heading || `Capitolo ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label>
+          Contenuto:{' '}
+          <select value={type} onChange={(e) => setType(e.target.value)} disabled={busy}>
+            {generationTypeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Lingua:{' '}
+          <select value={language} onChange={(e) => setLanguage(e.target.value)} disabled={busy}>
+            {languageOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={handleGenerate} disabled={busy}>
+          Genera
+        </button>
+        <button onClick={handleSave} disabled={busy || !aiOutput.trim()}>
+          Salva modifiche
         </button>
       </div>
+      {loading && <p>Generazione in corso...</p>}
+      <ContentEditor
+        content={aiOutput}
+        onChange={updateContent}
+        onRegenerate={handleGenerate}
+        streaming={streaming}
+        onCancel={handleCancel}
+      />
+      {status && <p>{status}</p>}
+      <ErrorMessage message={error} />
     </Layout>
   );
 };
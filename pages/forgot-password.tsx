@@ -0,0 +1,90 @@
+/**
+ * @fileoverview
+ * Questa pagina permette di richiedere il link per reimpostare una password dimenticata,
+ * tramite /api/auth/forgot-password.
+ * Utilizza il componente Layout per mantenere una struttura coerente.
+ *
+ * Key features:
+ * - Modulo con l'indirizzo email dell'account.
+ * - Dopo l'invio mostra il messaggio del server al posto del modulo.
+ *
+ * @dependencies
+ * - React: per la gestione dello stato.
+ * - components/Layout.tsx: per il layout dell'applicazione.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - lib/apiClient.ts: per la richiesta all'API.
+ *
+ * @notes
+ * - Il server risponde allo stesso modo anche se l'indirizzo non è registrato, quindi la pagina
+ *   non può dire all'utente se l'email è stata davvero inviata.
+ */
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import Layout from '../components/Layout';
+import ErrorMessage from '../components/ErrorMessage';
+import { apiFetch } from '../lib/apiClient';
+
+const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  /**
+   * Richiede l'invio del link di reimpostazione.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      const response = await apiFetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "Errore durante l'invio della richiesta.");
+        return;
+      }
+      setMessage(result.message);
+    } catch (requestError) {
+      console.error("Errore durante l'invio della richiesta:", requestError);
+      setError("Errore durante l'invio della richiesta.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <h2>Password dimenticata</h2>
+      {message ? (
+        <p>{message}</p>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '24rem' }}
+        >
+          <p>Inserisci l&apos;email del tuo account: ti invieremo un link per scegliere una nuova password.</p>
+          <label>
+            Email
+            <br />
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" required />
+          </label>
+          <button type="submit" disabled={loading}>
+            {loading ? 'Invio in corso...' : 'Invia il link'}
+          </button>
+        </form>
+      )}
+      <p>
+        <Link href="/login">Torna al login</Link>
+      </p>
+      <ErrorMessage message={error} />
+    </Layout>
+  );
+};
+
+export default ForgotPasswordPage;
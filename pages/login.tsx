@@ -0,0 +1,162 @@
+/**
+ * @fileoverview
+ * Questa pagina permette all'utente di accedere con email e password, tramite /api/auth/login.
+ * Utilizza il componente Layout per mantenere una struttura coerente.
+ *
+ * Key features:
+ * - Modulo di accesso con email e password.
+ * - Dopo l'accesso torna alla pagina indicata dal parametro "next" (impostato da AuthGuard), oppure al Dashboard.
+ * - Un utente già autenticato viene reindirizzato subito.
+ * - Se l'email non è ancora confermata, permette di richiedere un nuovo link di verifica.
+ * - Collegamento alla pagina per reimpostare la password dimenticata.
+ *
+ * @dependencies
+ * - React: per la gestione dello stato e degli effetti.
+ * - Next.js Router: per il reindirizzamento dopo l'accesso.
+ * - components/Layout.tsx: per il layout dell'applicazione.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - components/AuthGuard.tsx: per la pagina a cui tornare dopo l'accesso.
+ * - context/AppContext: per l'utente della sessione.
+ * - lib/apiClient.ts: per la richiesta con i cookie della sessione.
+ *
+ * @notes
+ * - La sessione viene salvata dal server in cookie HttpOnly: la pagina conserva solo i dati dell'utente.
+ */
+
+import React, { useContext, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Layout from '../components/Layout';
+import ErrorMessage from '../components/ErrorMessage';
+import { getRedirectPath } from '../components/AuthGuard';
+import { AppContext } from '../context/AppContext';
+import { apiFetch } from '../lib/apiClient';
+
+const LoginPage: React.FC = () => {
+  const router = useRouter();
+  const { user, setUser } = useContext(AppContext) || {};
+
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  // Indica se l'accesso è stato rifiutato perché l'email non è confermata
+  const [unverified, setUnverified] = useState<boolean>(false);
+  const [notice, setNotice] = useState<string>('');
+
+  const redirectPath = getRedirectPath(router.query.next);
+
+  // Un utente già autenticato non ha bisogno di accedere
+  useEffect(() => {
+    if (user) {
+      router.replace(redirectPath);
+    }
+  }, [user, redirectPath, router]);
+
+  /**
+   * Invia le credenziali e, se corrette, salva l'utente nel contesto.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNotice('');
+    setUnverified(false);
+    setLoading(true);
+    try {
+      const response = await apiFetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), password }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "Errore durante l'accesso.");
+        // Il server risponde 403 solo quando l'email non è ancora confermata
+        setUnverified(response.status === 403);
+        return;
+      }
+      setUser?.({
+        user_id: result.data.user_id,
+        username: result.data.username,
+        email: result.data.email,
+        role: result.data.role,
+      });
+    } catch (loginError) {
+      console.error("Errore durante l'accesso:", loginError);
+      setError("Errore durante l'accesso.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Invia di nuovo il link di verifica all'indirizzo inserito.
+   */
+  const handleResend = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      const response = await apiFetch('/api/auth/resend-verification', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "Errore durante l'invio dell'email.");
+        return;
+      }
+      setUnverified(false);
+      setNotice(result.message);
+    } catch (resendError) {
+      console.error("Errore durante l'invio dell'email di verifica:", resendError);
+      setError("Errore durante l'invio dell'email.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <h2>Accedi</h2>
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '24rem' }}>
+        <label>
+          Email
+          <br />
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" required />
+        </label>
+        <label>
+          Password
+          <br />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </label>
+        <button type="submit" disabled={loading}>
+          {loading ? 'Accesso in corso...' : 'Accedi'}
+        </button>
+      </form>
+      {unverified && (
+        <p>
+          <button type="button" onClick={handleResend} disabled={loading}>
+            Invia di nuovo il link di verifica
+          </button>
+        </p>
+      )}
+      {notice && <p>{notice}</p>}
+      <p>
+        <Link href="/forgot-password">Password dimenticata?</Link>
+      </p>
+      <p>
+        Non hai un account? <Link href={{ pathname: '/register', query: router.query }}>Registrati</Link>.
+      </p>
+      <ErrorMessage message={error} />
+    </Layout>
+  );
+};
+
+export default LoginPage;
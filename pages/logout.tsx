@@ -0,0 +1,80 @@
+/**
+ * @fileoverview
+ * Questa pagina termina la sessione dell'utente, tramite /api/auth/logout, e torna al login.
+ * Utilizza il componente Layout per mantenere una struttura coerente.
+ *
+ * Key features:
+ * - Logout automatico all'apertura della pagina.
+ * - Opzione per uscire da tutti i dispositivi, che termina tutte le sessioni dell'utente.
+ *
+ * @dependencies
+ * - React: per la gestione dello stato e degli effetti.
+ * - Next.js Router: per il reindirizzamento al login.
+ * - components/Layout.tsx: per il layout dell'applicazione.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - context/AppContext: per l'utente della sessione.
+ * - lib/apiClient.ts: per la richiesta con i cookie della sessione.
+ *
+ * @notes
+ * - Il parametro "all=1" termina tutte le sessioni dell'utente (es. dopo la perdita di un dispositivo).
+ * - I cookie della sessione sono HttpOnly: vengono cancellati dalla risposta del server.
+ */
+
+import React, { useContext, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import Layout from '../components/Layout';
+import ErrorMessage from '../components/ErrorMessage';
+import { AppContext } from '../context/AppContext';
+import { apiFetch } from '../lib/apiClient';
+
+const LogoutPage: React.FC = () => {
+  const router = useRouter();
+  const { user, setUser, sessionChecked } = useContext(AppContext) || {};
+
+  const [error, setError] = useState<string>('');
+  // Evita un secondo logout quando l'effetto viene eseguito di nuovo
+  const started = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (!router.isReady || !sessionChecked || started.current) {
+      return;
+    }
+    started.current = true;
+
+    const logout = async () => {
+      if (user) {
+        try {
+          const response = await apiFetch('/api/auth/logout', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ all: router.query.all === '1' }),
+          });
+          // Una sessione già scaduta (401) equivale a un logout riuscito
+          if (!response.ok && response.status !== 401) {
+            const result = await response.json();
+            setError(result.error || 'Errore durante il logout.');
+            return;
+          }
+        } catch (logoutError) {
+          console.error('Errore durante il logout:', logoutError);
+          setError('Errore durante il logout.');
+          return;
+        }
+      }
+      setUser?.(null);
+      router.replace('/login');
+    };
+
+    logout();
+  }, [router, sessionChecked, user, setUser]);
+
+  return (
+    <Layout>
+      <h2>Esci</h2>
+      {!error && <p>Uscita in corso...</p>}
+      <ErrorMessage message={error} />
+    </Layout>
+  );
+};
+
+export default LogoutPage;
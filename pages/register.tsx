@@ -0,0 +1,156 @@
+/**
+ * @fileoverview
+ * Questa pagina permette di creare un nuovo account, tramite /api/auth/register.
+ * Utilizza il componente Layout per mantenere una struttura coerente.
+ *
+ * Key features:
+ * - Modulo di registrazione con nome utente, email, password e conferma della password.
+ * - Dopo la registrazione l'utente è già autenticato e torna alla pagina indicata dal parametro "next";
+ *   se il server richiede la conferma dell'email, la pagina chiede invece di aprire il link ricevuto.
+ * - Un utente già autenticato viene reindirizzato subito.
+ *
+ * @dependencies
+ * - React: per la gestione dello stato e degli effetti.
+ * - Next.js Router: per il reindirizzamento dopo la registrazione.
+ * - components/Layout.tsx: per il layout dell'applicazione.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - components/AuthGuard.tsx: per la pagina a cui tornare dopo la registrazione.
+ * - context/AppContext: per l'utente della sessione.
+ * - lib/apiClient.ts: per la richiesta con i cookie della sessione.
+ *
+ * @notes
+ * - La conferma della password viene controllata solo nel browser e non viene inviata al server.
+ */
+
+import React, { useContext, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Layout from '../components/Layout';
+import ErrorMessage from '../components/ErrorMessage';
+import { getRedirectPath } from '../components/AuthGuard';
+import { AppContext } from '../context/AppContext';
+import { apiFetch } from '../lib/apiClient';
+
+const RegisterPage: React.FC = () => {
+  const router = useRouter();
+  const { user, setUser } = useContext(AppContext) || {};
+
+  const [username, setUsername] = useState<string>('');
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [confirmPassword, setConfirmPassword] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  // Indirizzo a cui è stato inviato il link di verifica, quando l'accesso richiede la conferma dell'email
+  const [pendingEmail, setPendingEmail] = useState<string>('');
+
+  const redirectPath = getRedirectPath(router.query.next);
+
+  // Un utente già autenticato non ha bisogno di registrarsi
+  useEffect(() => {
+    if (user) {
+      router.replace(redirectPath);
+    }
+  }, [user, redirectPath, router]);
+
+  /**
+   * Crea l'account e salva l'utente nel contesto.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Le password non coincidono.');
+      return;
+    }
+    setError('');
+    setLoading(true);
+    try {
+      const response = await apiFetch('/api/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), email: email.trim(), password }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Errore durante la registrazione.');
+        return;
+      }
+      if (result.data.verification_required) {
+        setPendingEmail(result.data.email);
+        return;
+      }
+      setUser?.({
+        user_id: result.data.user_id,
+        username: result.data.username,
+        email: result.data.email,
+        role: result.data.role,
+      });
+    } catch (registerError) {
+      console.error('Errore durante la registrazione:', registerError);
+      setError('Errore durante la registrazione.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (pendingEmail) {
+    return (
+      <Layout>
+        <h2>Conferma il tuo indirizzo email</h2>
+        <p>
+          Abbiamo inviato un link di verifica a <strong>{pendingEmail}</strong>. Apri il link per confermare
+          l&apos;indirizzo, poi <Link href={{ pathname: '/login', query: router.query }}>accedi</Link>.
+        </p>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <h2>Registrati</h2>
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '24rem' }}>
+        <label>
+          Nome utente
+          <br />
+          <input value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" required />
+        </label>
+        <label>
+          Email
+          <br />
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" required />
+        </label>
+        <label>
+          Password
+          <br />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+            required
+          />
+        </label>
+        <label>
+          Conferma password
+          <br />
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            autoComplete="new-password"
+            required
+          />
+        </label>
+        <button type="submit" disabled={loading}>
+          {loading ? 'Registrazione in corso...' : 'Registrati'}
+        </button>
+      </form>
+      <p>
+        Hai già un account? <Link href={{ pathname: '/login', query: router.query }}>Accedi</Link>.
+      </p>
+      <ErrorMessage message={error} />
+    </Layout>
+  );
+};
+
+export default RegisterPage;
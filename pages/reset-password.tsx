@@ -0,0 +1,128 @@
+/**
+ * @fileoverview
+ * Questa pagina permette di scegliere una nuova password con il link ricevuto per email,
+ * tramite /api/auth/reset-password.
+ * Utilizza il componente Layout per mantenere una struttura coerente.
+ *
+ * Key features:
+ * - Modulo con la nuova password e la sua conferma.
+ * - Invia il token del parametro "token" insieme alla nuova password.
+ * - Dopo la reimpostazione mostra il collegamento al login.
+ *
+ * @dependencies
+ * - React: per la gestione dello stato.
+ * - Next.js Router: per leggere il token dall'indirizzo.
+ * - components/Layout.tsx: per il layout dell'applicazione.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - lib/apiClient.ts: per la richiesta all'API.
+ *
+ * @notes
+ * - La conferma della password viene controllata solo nel browser e non viene inviata al server.
+ * - La reimpostazione termina tutte le sessioni dell'utente, anche quella di questo browser.
+ */
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Layout from '../components/Layout';
+import ErrorMessage from '../components/ErrorMessage';
+import { apiFetch } from '../lib/apiClient';
+
+const ResetPasswordPage: React.FC = () => {
+  const router = useRouter();
+  const [password, setPassword] = useState<string>('');
+  const [confirmPassword, setConfirmPassword] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+
+  /**
+   * Invia la nuova password con il token del link.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Le password non coincidono.');
+      return;
+    }
+    setError('');
+    setLoading(true);
+    try {
+      const response = await apiFetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Errore durante la reimpostazione della password.');
+        return;
+      }
+      setMessage(result.message);
+    } catch (resetError) {
+      console.error('Errore durante la reimpostazione della password:', resetError);
+      setError('Errore durante la reimpostazione della password.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (router.isReady && !token) {
+    return (
+      <Layout>
+        <h2>Reimposta la password</h2>
+        <ErrorMessage message="Link non valido. Richiedi una nuova reimpostazione." />
+        <p>
+          <Link href="/forgot-password">Password dimenticata?</Link>
+        </p>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <h2>Reimposta la password</h2>
+      {message ? (
+        <p>
+          {message} <Link href="/login">Vai al login</Link>
+        </p>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '24rem' }}
+        >
+          <label>
+            Nuova password
+            <br />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </label>
+          <label>
+            Conferma password
+            <br />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </label>
+          <button type="submit" disabled={loading || !token}>
+            {loading ? 'Salvataggio in corso...' : 'Salva la nuova password'}
+          </button>
+        </form>
+      )}
+      <ErrorMessage message={error} />
+    </Layout>
+  );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview
+ * Questa pagina ("Cerca nei testi") cerca parole e frasi nel testo di tutti i manoscritti
+ * dell'utente, tramite /api/search.
+ * Utilizza il componente Layout per mantenere una struttura coerente.
+ *
+ * Key features:
+ * - Ricerca con la sintassi di PostgreSQL: frasi tra virgolette, "or" tra alternative, "-" per escludere parole.
+ * - Risultati paginati e ordinati per pertinenza, con i passaggi del testo in cui compaiono le parole cercate.
+ * - Collegamento all'editor per ogni manoscritto trovato.
+ *
+ * @dependencies
+ * - React: per la gestione dello stato e degli effetti.
+ * - components/Layout.tsx: per il layout dell'applicazione.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - lib/apiClient.ts: per le richieste con i cookie della sessione.
+ *
+ * @notes
+ * - La ricerca parte all'invio del modulo e non a ogni tasto, perché interroga il testo completo dei manoscritti.
+ * - I passaggi arrivano dal server già in HTML sicuro (testo con i caratteri speciali convertiti, parole
+ *   trovate in <mark>), per questo vengono inseriti con dangerouslySetInnerHTML.
+ */
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Layout from '../components/Layout';
+import ErrorMessage from '../components/ErrorMessage';
+import { apiFetch } from '../lib/apiClient';
+import type { SearchMatch } from '../backend/services/fileTextService';
+
+// Numero di manoscritti per pagina
+const PAGE_SIZE = 10;
+
+const SearchPage: React.FC = () => {
+  const [input, setInput] = useState<string>('');
+  // Testo dell'ultima ricerca inviata
+  const [query, setQuery] = useState<string>('');
+  const [results, setResults] = useState<SearchMatch[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [page, setPage] = useState<number>(1);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Esegue la ricerca quando cambiano il testo cercato o la pagina
+  useEffect(() => {
+    if (!query) {
+      return;
+    }
+    let cancelled = false;
+
+    const search = async () => {
+      setLoading(true);
+      setError('');
+      const params = new URLSearchParams({ q: query, page: String(page), pageSize: String(PAGE_SIZE) });
+
+      try {
+        const response = await apiFetch(`/api/search?${params.toString()}`);
+        const result = await response.json();
+        if (cancelled) {
+          return;
+        }
+        if (!response.ok) {
+          setError(result.error || 'Errore durante la ricerca.');
+          setResults([]);
+          setTotal(0);
+          return;
+        }
+        setResults(result.data.results);
+        setTotal(result.data.total);
+      } catch (searchError) {
+        console.error('Errore durante la ricerca:', searchError);
+        if (!cancelled) {
+          setError('Errore durante la ricerca.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    search();
+    return () => {
+      cancelled = true;
+    };
+  }, [query, page]);
+
+  /**
+   * Avvia una nuova ricerca dalla prima pagina.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(input.trim());
+    setPage(1);
+  };
+
+  return (
+    <Layout>
+      <h2>Cerca nei testi</h2>
+      <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+        <input
+          type="search"
+          value={input}
+          placeholder='Parole o "frase esatta"'
+          onChange={(e) => setInput(e.target.value)}
+          style={{ flex: 1 }}
+        />
+        <button type="submit" disabled={loading || input.trim().length < 2}>
+          Cerca
+        </button>
+      </form>
+
+      {loading && <p>Ricerca in corso...</p>}
+      {!loading && query && !error && (
+        <p>
+          {total === 0
+            ? 'Nessun manoscritto contiene il testo cercato.'
+            : `${total} ${total === 1 ? 'manoscritto trovato' : 'manoscritti trovati'}.`}
+        </p>
+      )}
+
+      {results.map((match) => (
+        <div key={match.file_id} style={{ borderBottom: '1px solid #ddd', padding: '1rem 0' }}>
+          <h3>
+            {match.file_name}
+            {match.version > 1 && ` (versione ${match.version})`}
+          </h3>
+          <p dangerouslySetInnerHTML={{ __html: match.snippet }} />
+          <Link href={`/editor?file=${match.file_id}`}>Apri nell&apos;editor</Link>
+        </div>
+      ))}
+
+      {total > PAGE_SIZE && (
+        <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginTop: '1rem' }}>
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+            Precedente
+          </button>
+          <span>
+            Pagina {page} di {totalPages}
+          </span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= totalPages || loading}>
+            Successiva
+          </button>
+        </div>
+      )}
+      <ErrorMessage message={error} />
+    </Layout>
+  );
+};
+
+export default SearchPage;
@@ -1,106 +1,260 @@
 /**
  * @fileoverview
  * Questa pagina gestisce il caricamento dei file, utilizzando il componente FileUploader
- * per consentire agli utenti di selezionare un file (DOCX o PDF) e inviarlo al backend.
- * Il file viene inviato tramite una richiesta POST all'endpoint /api/upload, che lo processa,
- * estrae il testo, esegue l'analisi tecnica e salva i metadati nel database.
+ * per consentire agli utenti di selezionare uno o più manoscritti (DOCX, PDF, EPUB, ODT, RTF o Markdown)
+ * e inviarli al backend.
+ * I file vengono inviati in un'unica richiesta POST all'endpoint /api/upload, che salva i metadati
+ * nel database e mette ogni file in coda per l'elaborazione (estrazione del testo, analisi tecnica e
+ * controllo della formattazione).
  *
  * Key features:
- * - Integrazione con il componente FileUploader per il caricamento tramite drag-and-drop o selezione.
- * - Invio del file al backend utilizzando FormData e fetch.
- * - Visualizzazione dello stato dell'upload, del testo estratto e dei risultati dell'analisi tecnica.
+ * - Integrazione con il componente FileUploader per il caricamento tramite drag-and-drop o selezione,
+ *   anche di più file insieme (ad esempio i volumi di una collana).
+ * - Invio dei file al backend utilizzando FormData e fetch.
+ * - Elenco dei file con lo stato di ciascuno (components/UploadProgressList.tsx): esito del caricamento,
+ *   avanzamento dell'elaborazione tramite /api/files/[id]/status ed eventuali errori.
+ * - Visualizzazione del testo estratto, dei risultati dell'analisi tecnica e del report di controllo
+ *   del manoscritto (problemi di formattazione con la loro posizione) del file selezionato.
  *
  * @dependencies
  * - React: per la gestione dello stato e degli effetti.
  * - components/Layout.tsx: per la struttura della pagina.
- * - components/FileUploader.tsx: per la selezione e l'upload del file.
- * - context/AppContext: per recuperare il token di autenticazione dell'utente.
+ * - components/FileUploader.tsx: per la selezione e l'upload dei file.
+ * - components/UploadProgressList.tsx: per l'elenco dei file e del loro avanzamento.
+ * - components/LintReportView.tsx: per la visualizzazione del report di controllo.
+ * - context/AppContext: per rendere i file caricati disponibili all'editor.
+ * - lib/apiClient.ts: per le richieste con i cookie della sessione.
  * - backend/services/fileAnalysis.ts: per il relativo tipo DocumentAnalysis.
+ * - backend/utils/fileFormats.ts: per l'elenco dei formati accettati e i limiti del caricamento.
  *
  * @notes
- * - L'endpoint /api/upload richiede che l'utente sia autenticato, quindi viene incluso il token JWT
- *   nell'header Authorization se disponibile.
+ * - L'endpoint /api/upload richiede che l'utente sia autenticato: la sessione viaggia nei cookie.
+ * - L'endpoint riporta l'esito di ogni file: i file rifiutati vengono segnalati nell'elenco,
+ *   gli altri vengono elaborati normalmente.
+ * - Un file identico a uno già caricato riutilizza il caricamento esistente; un file simile a uno
+ *   già caricato viene segnalato come sua revisione e collegato come nuova versione del libro.
  */
 
-import React, { useState, useContext } from 'react';
+import React, { useState, useContext, useEffect } from 'react';
 import Layout from '../components/Layout';
 import FileUploader from '../components/FileUploader';
+import LintReportView from '../components/LintReportView';
+import UploadProgressList, { UploadEntry } from '../components/UploadProgressList';
 import { AppContext } from '../context/AppContext';
+import { apiFetch } from '../lib/apiClient';
 import { DocumentAnalysis } from '../backend/services/fileAnalysis';
+import type { LintReport } from '../backend/services/manuscriptLint';
+import type { UploadFileResult } from '../types/api';
+import { acceptedFileTypes, MAX_UPLOAD_FILES, MAX_UPLOAD_FILE_SIZE } from '../backend/utils/fileFormats';
+
+// Intervallo tra due controlli dello stato dell'elaborazione
+const STATUS_POLL_INTERVAL_MS = 2000;
+
+// Risultati dell'elaborazione di un file
+interface ProcessingResult {
+  extractedText: string;
+  technicalAnalysis: DocumentAnalysis | null;
+  lintReport: LintReport | null;
+}
+
+// Contatore per le chiavi delle righe dell'elenco, uniche anche tra caricamenti successivi
+let nextEntryKey = 0;
 
 const UploadPage: React.FC = () => {
-  // Recupera le informazioni utente dal contesto per includere il token JWT nella richiesta
-  const { user } = useContext(AppContext) || {};
+  // Recupera dal contesto la funzione che rende i file caricati disponibili all'editor
+  const { addUploadedFile } = useContext(AppContext) || {};
+
+  // File caricati in questa pagina, con il loro stato
+  const [entries, setEntries] = useState<UploadEntry[]>([]);
+  // Risultati dei file elaborati, per chiave della riga
+  const [results, setResults] = useState<Record<string, ProcessingResult>>({});
+  // Chiave del file di cui vengono mostrati i risultati
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // Aggiorna la riga di un file
+  const updateEntry = (key: string, changes: Partial<UploadEntry>) => {
+    setEntries((current) => current.map((entry) => (entry.key === key ? { ...entry, ...changes } : entry)));
+  };
 
-  // Stato per gestire il messaggio di stato dell'upload
-  const [uploadStatus, setUploadStatus] = useState<string>('');
-  // Stato per memorizzare il testo estratto dal file caricato
-  const [extractedText, setExtractedText] = useState<string>('');
-  // Stato per memorizzare l'analisi tecnica del file, con tipo DocumentAnalysis
-  const [technicalAnalysis, setTechnicalAnalysis] = useState<DocumentAnalysis | null>(null);
+  // Identificativi dei file in elaborazione: l'effetto riparte quando cambiano
+  const processingKeys = entries
+    .filter((entry) => entry.status === 'processing' && entry.file_id)
+    .map((entry) => `${entry.key}:${entry.file_id}`)
+    .join(',');
+
+  // Interroga periodicamente lo stato dei file in elaborazione finché non sono pronti o in errore
+  useEffect(() => {
+    if (!processingKeys) {
+      return;
+    }
+    const processing = processingKeys.split(',').map((pair) => {
+      const [key, fileId] = pair.split(':');
+      return { key, fileId };
+    });
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const checkFile = async ({ key, fileId }: { key: string; fileId: string }): Promise<boolean> => {
+      try {
+        const response = await apiFetch(`/api/files/${fileId}/status?include=text`);
+        const result = await response.json();
+        if (cancelled) {
+          return false;
+        }
+        if (!response.ok) {
+          updateEntry(key, { status: 'error', message: result.error });
+          return false;
+        }
+
+        const status = result.data;
+        if (status.processing_status === 'complete') {
+          setResults((current) => ({
+            ...current,
+            [key]: {
+              extractedText: status.extractedText || '',
+              technicalAnalysis: status.technicalAnalysis || null,
+              lintReport: status.lintReport || null,
+            },
+          }));
+          updateEntry(key, {
+            status: 'complete',
+            progress: 100,
+            message: 'File elaborato con successo.',
+            ...(status.revisionOf
+              ? {
+                  notice:
+                    `Questo file sembra una revisione di "${status.revisionOf.file_name}" ` +
+                    `(somiglianza ${Math.round(status.revisionOf.similarity * 100)}%): ` +
+                    `è stato collegato come versione ${status.revisionOf.version}.`,
+                }
+              : {}),
+          });
+          // Mostra i risultati del primo file completato, se l'utente non ne ha scelto un altro
+          setSelectedKey((current) => current ?? key);
+          // Rende il file disponibile all'editor per la generazione dei contenuti
+          addUploadedFile?.({
+            file_id: fileId,
+            file_name: status.file_name,
+            chapters: status.structure?.chapters || [],
+          });
+          return false;
+        }
+        if (status.processing_status === 'error') {
+          updateEntry(key, {
+            status: 'error',
+            message: `Errore durante l'elaborazione: ${status.error || 'errore sconosciuto.'}`,
+          });
+          return false;
+        }
+
+        updateEntry(key, {
+          progress: status.progress,
+          message: status.error ? `Elaborazione non riuscita, nuovo tentativo in attesa... (${status.error})` : '',
+        });
+        return true;
+      } catch (error) {
+        console.error('Errore nel recupero dello stato del file:', error);
+        return true;
+      }
+    };
+
+    const checkStatus = async () => {
+      const pending = await Promise.all(processing.map(checkFile));
+      if (!cancelled && pending.some(Boolean)) {
+        timer = setTimeout(checkStatus, STATUS_POLL_INTERVAL_MS);
+      }
+    };
+
+    checkStatus();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [processingKeys, addUploadedFile]);
 
   /**
-   * Gestisce l'upload del file chiamando l'endpoint API /api/upload.
-   * Utilizza FormData per inviare il file e imposta gli header necessari (incluso il token di autenticazione).
+   * Gestisce l'upload dei file chiamando l'endpoint API /api/upload.
+   * Utilizza FormData per inviare i file; la sessione viaggia nei cookie.
    *
-   * @param file Il file selezionato dall'utente.
+   * @param files I file selezionati dall'utente.
    */
-  const handleFileUpload = async (file: File) => {
-    // Crea un oggetto FormData e appende il file con la chiave "file"
+  const handleFilesUpload = async (files: File[]) => {
+    // Crea un oggetto FormData e appende ogni file con la chiave "file"
     const formData = new FormData();
-    formData.append('file', file);
+    files.forEach((file) => formData.append('file', file));
 
-    setUploadStatus('Caricamento in corso...');
+    const batch: UploadEntry[] = files.map((file) => ({
+      key: String(nextEntryKey++),
+      file_name: file.name,
+      status: 'uploading',
+      progress: 0,
+      message: '',
+    }));
+    setEntries((current) => [...current, ...batch]);
 
     try {
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        headers: {
-          // Aggiunge l'header Authorization se il token è disponibile
-          ...(user?.token ? { Authorization: `Bearer ${user.token}` } : {}),
-        },
-        body: formData,
-      });
+      const response = await apiFetch('/api/upload', { method: 'POST', body: formData });
+      const { data, error } = await response.json();
+      const fileResults: UploadFileResult[] | undefined = data?.results;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        setUploadStatus(`Errore: ${errorData.error}`);
+      if (!fileResults) {
+        batch.forEach((entry) => updateEntry(entry.key, { status: 'error', message: error || 'Errore durante il caricamento.' }));
         return;
       }
 
-      const data = await response.json();
-      setUploadStatus('File caricato con successo!');
-      setExtractedText(data.extractedText);
-      setTechnicalAnalysis(data.technicalAnalysis);
+      // I risultati seguono l'ordine dei file nella richiesta
+      batch.forEach((entry, index) => {
+        const fileResult = fileResults[index];
+        if (fileResult?.success && fileResult.file) {
+          // L'elaborazione prosegue in background: lo stato viene seguito dall'effetto dedicato
+          updateEntry(entry.key, {
+            status: 'processing',
+            file_id: fileResult.file.file_id,
+            message: '',
+            // Un file identico a uno già caricato non viene elaborato di nuovo: si segue quello esistente
+            ...(fileResult.duplicate
+              ? { notice: `File già caricato come "${fileResult.file.file_name}": viene utilizzato il caricamento esistente.` }
+              : {}),
+          });
+        } else {
+          updateEntry(entry.key, { status: 'error', message: fileResult?.error || 'Errore durante il caricamento.' });
+        }
+      });
     } catch (error) {
       console.error('Errore durante l\'upload:', error);
-      setUploadStatus('Errore durante il caricamento.');
+      batch.forEach((entry) => updateEntry(entry.key, { status: 'error', message: 'Errore durante il caricamento.' }));
     }
   };
 
+  const selectedResult = selectedKey ? results[selectedKey] : undefined;
+
   return (
     <Layout>
-      <h2>Carica il File</h2>
-      {/* Utilizza il componente FileUploader per gestire la selezione del file */}
+      <h2>Carica i File</h2>
+      {/* Utilizza il componente FileUploader per gestire la selezione dei file */}
       <FileUploader
-        onFileSelect={handleFileUpload}
-        maxSize={30 * 1024 * 1024}
-        allowedTypes={[
-          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          'application/pdf',
-        ]}
+        onFilesSelect={handleFilesUpload}
+        maxSize={MAX_UPLOAD_FILE_SIZE}
+        allowedTypes={acceptedFileTypes}
+        maxFiles={MAX_UPLOAD_FILES}
       />
-      {uploadStatus && <p>{uploadStatus}</p>}
-      {extractedText && (
+      <UploadProgressList entries={entries} selectedKey={selectedKey} onSelect={(entry) => setSelectedKey(entry.key)} />
+      {selectedResult?.extractedText && (
         <div>
           <h3>Testo Estratto:</h3>
-          <pre>{extractedText}</pre>
+          <pre>{selectedResult.extractedText}</pre>
         </div>
       )}
-      {technicalAnalysis && (
+      {selectedResult?.technicalAnalysis && (
         <div>
           <h3>Analisi Tecnica:</h3>
-          <pre>{JSON.stringify(technicalAnalysis, null, 2)}</pre>
+          <pre>{JSON.stringify(selectedResult.technicalAnalysis, null, 2)}</pre>
+        </div>
+      )}
+      {selectedResult?.lintReport && (
+        <div>
+          <h3>Controllo del manoscritto:</h3>
+          <LintReportView report={selectedResult.lintReport} />
         </div>
       )}
     </Layout>
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview
+ * Questa pagina conferma l'indirizzo email dell'utente con il link ricevuto dopo la registrazione,
+ * tramite /api/auth/verify-email.
+ * Utilizza il componente Layout per mantenere una struttura coerente.
+ *
+ * Key features:
+ * - Invia il token del parametro "token" appena la pagina è pronta.
+ * - Mostra l'esito della verifica con il collegamento al login.
+ *
+ * @dependencies
+ * - React: per la gestione dello stato e degli effetti.
+ * - Next.js Router: per leggere il token dall'indirizzo.
+ * - components/Layout.tsx: per il layout dell'applicazione.
+ * - components/ErrorMessage.tsx: per la visualizzazione degli errori.
+ * - lib/apiClient.ts: per la richiesta all'API.
+ *
+ * @notes
+ * - Il token può essere usato una sola volta: la verifica parte una volta sola anche se l'effetto
+ *   viene eseguito di nuovo (ad esempio in sviluppo con React Strict Mode).
+ * - Se il link è scaduto, l'utente può richiederne uno nuovo dalla pagina di login.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Layout from '../components/Layout';
+import ErrorMessage from '../components/ErrorMessage';
+import { apiFetch } from '../lib/apiClient';
+
+const VerifyEmailPage: React.FC = () => {
+  const router = useRouter();
+  const [message, setMessage] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const started = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (!router.isReady || started.current) {
+      return;
+    }
+    started.current = true;
+
+    const token = router.query.token;
+    if (typeof token !== 'string' || !token) {
+      setError('Link di verifica non valido.');
+      return;
+    }
+
+    const verify = async () => {
+      try {
+        const response = await apiFetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          setError(result.error || "Errore durante la verifica dell'email.");
+          return;
+        }
+        setMessage(result.message);
+      } catch (verifyError) {
+        console.error("Errore durante la verifica dell'email:", verifyError);
+        setError("Errore durante la verifica dell'email.");
+      }
+    };
+
+    verify();
+  }, [router.isReady, router.query.token]);
+
+  return (
+    <Layout>
+      <h2>Verifica dell&apos;email</h2>
+      {!message && !error && <p>Verifica in corso...</p>}
+      {message && <p>{message}</p>}
+      <ErrorMessage message={error} />
+      {(message || error) && (
+        <p>
+          <Link href="/login">Vai al login</Link>
+        </p>
+      )}
+    </Layout>
+  );
+};
+
+export default VerifyEmailPage;
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview
+ * Assigns a role to a user from the command line (npm run user:role -- <email> <role>).
+ * It is the way to appoint the first admin, who can then manage the other users from /api/users.
+ *
+ * @dependencies
+ * - dotenv for loading the environment from .env.local, as drizzle.config.ts does.
+ * - backend/services/accessService.ts for the roles and the update.
+ *
+ * @notes
+ * - The service is imported after loading the environment, since backend/db.ts reads
+ *   the connection string when it is first imported.
+ */
+
+import { config } from 'dotenv';
+import type { UserRole } from '../backend/services/accessService';
+
+config({ path: '.env.local' });
+
+async function main() {
+  const { setUserRoleByEmail, userRoles } = await import('../backend/services/accessService');
+
+  const [email, role] = process.argv.slice(2);
+  if (!email || !userRoles.includes(role as UserRole)) {
+    console.error(`Uso: npm run user:role -- <email> <${userRoles.join('|')}>`);
+    process.exit(1);
+  }
+
+  const user = await setUserRoleByEmail(email, role as UserRole);
+  if (!user) {
+    console.error(`Nessun utente registrato con l'email ${email}.`);
+    process.exit(1);
+  }
+  console.log(`Ruolo di ${user.username} (${user.email}): ${user.role}.`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Errore nell'assegnazione del ruolo:", error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview
+ * Entry point of the background worker that processes the job queue (npm run worker).
+ *
+ * @dependencies
+ * - dotenv for loading the environment from .env.local, as drizzle.config.ts does.
+ * - backend/workers/jobWorker.ts for the worker loop.
+ *
+ * @notes
+ * - The worker is imported after loading the environment, since backend/db.ts reads
+ *   the connection string when it is first imported.
+ * - SIGINT and SIGTERM stop the worker once the current job has been processed.
+ */
+
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+async function main() {
+  const { runWorker } = await import('../backend/workers/jobWorker');
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  await runWorker(controller.signal);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Errore fatale del worker:', error);
+  process.exit(1);
+});
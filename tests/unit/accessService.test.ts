@@ -0,0 +1,114 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the role-based access control in backend/services/accessService.ts
+ * and backend/middleware/roleMiddleware.ts.
+ * It verifies which files each role can see or delete, and that withRole only lets the allowed
+ * roles through.
+ *
+ * Key features:
+ * - Tests that admins see every file and that the other roles get a condition on the owner.
+ * - Tests canDeleteFile for owners, editors and admins.
+ * - Tests that withRole attaches the role and the imprint, and answers 403 and 401.
+ *
+ * @dependencies
+ * - jest: For testing.
+ *
+ * @notes
+ * - The database module is mocked with the query builder used by getUserAccess; the condition of the
+ *   editors of an imprint needs the real query builder and is not tested here.
+ */
+
+const mockSelectResults: unknown[][] = [];
+
+jest.mock('../../backend/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: async () => mockSelectResults.shift() ?? [] }) }),
+  },
+}));
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { canDeleteFile, fileAccessCondition, UserAccess } from '../../backend/services/accessService';
+import { withRole, AuthorizedNextApiRequest } from '../../backend/middleware/roleMiddleware';
+
+const author: UserAccess = { user_id: 'user-1', role: 'author', imprint: 'Narrativa' };
+const editor: UserAccess = { user_id: 'user-2', role: 'editor', imprint: 'Narrativa' };
+const admin: UserAccess = { user_id: 'user-3', role: 'admin', imprint: null };
+
+/**
+ * Builds an authenticated request and a response recording its status and body.
+ */
+function buildRequest(userId: string) {
+  const req = { user: { user_id: userId, username: 'utente', email: 'utente@example.com', sid: 'sid-1' } };
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  return { req: req as unknown as NextApiRequest, res: res as unknown as NextApiResponse & typeof res };
+}
+
+beforeEach(() => {
+  mockSelectResults.length = 0;
+});
+
+describe('fileAccessCondition', () => {
+  it('lets the admins see every file', () => {
+    expect(fileAccessCondition(admin)).toBeUndefined();
+  });
+
+  it('restricts authors and editors to a set of owners', () => {
+    expect(fileAccessCondition(author)).toBeDefined();
+    expect(fileAccessCondition({ ...editor, imprint: null })).toBeDefined();
+  });
+});
+
+describe('canDeleteFile', () => {
+  it('lets only the owner and the admins delete a file', () => {
+    const file = { user_id: 'user-1' };
+    expect(canDeleteFile(file, author)).toBe(true);
+    expect(canDeleteFile(file, editor)).toBe(false);
+    expect(canDeleteFile(file, admin)).toBe(true);
+  });
+});
+
+describe('withRole', () => {
+  it('attaches the role and the imprint for an allowed role', async () => {
+    mockSelectResults.push([editor]);
+    const handler = jest.fn();
+    const { req, res } = buildRequest('user-2');
+
+    await withRole(['editor', 'admin'], handler)(req, res);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    const { user } = handler.mock.calls[0][0] as AuthorizedNextApiRequest;
+    expect(user).toMatchObject({ user_id: 'user-2', role: 'editor', imprint: 'Narrativa', sid: 'sid-1' });
+  });
+
+  it('answers 403 to the other roles', async () => {
+    mockSelectResults.push([author]);
+    const handler = jest.fn();
+    const { req, res } = buildRequest('user-1');
+
+    await withRole(['admin'], handler)(req, res);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it('answers 401 when the user no longer exists', async () => {
+    const handler = jest.fn();
+    const { req, res } = buildRequest('user-9');
+
+    await withRole(['admin'], handler)(req, res);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the account service in backend/services/accountService.ts.
+ * It verifies the password requirements and that invalid or unknown inputs do not change
+ * any account or send any email.
+ *
+ * Key features:
+ * - Tests validatePassword and isEmailVerificationRequired.
+ * - Tests that verifyEmail and resetPassword reject a token that is not consumed.
+ * - Tests that requestPasswordReset and resendVerificationEmail send nothing for an unknown or verified
+ *   address, or while the last link is recent, and that the cooldown is checked under a row lock.
+ * - Tests that waitForAccountEmailResponse gives the responses a fixed minimum duration.
+ *
+ * @dependencies
+ * - jest: For testing.
+ *
+ * @notes
+ * - The database module is mocked with the few query builders used by the service, and the
+ *   mailer is replaced by a mock.
+ */
+
+const mockSelectResults: unknown[][] = [];
+const mockUpdateReturning = jest.fn();
+const mockInsertValues = jest.fn();
+const mockLockFor = jest.fn();
+const mockSend = jest.fn();
+
+jest.mock('../../backend/db', () => {
+  const db = {
+    select: () => ({
+      from: () => ({
+        where: () => {
+          const result = mockSelectResults.shift() ?? [];
+          return Object.assign(Promise.resolve(result), {
+            for: async (strength: string) => {
+              mockLockFor(strength);
+              return result;
+            },
+          });
+        },
+      }),
+    }),
+    update: () => ({
+      set: () => ({
+        where: () => Object.assign(Promise.resolve(), { returning: mockUpdateReturning }),
+      }),
+    }),
+    insert: () => ({ values: mockInsertValues }),
+    transaction: (callback: (tx: unknown) => Promise<unknown>) => callback(db),
+  };
+  return { db };
+});
+
+jest.mock('../../backend/services/mailer', () => ({
+  getMailer: () => ({ driver: 'console', send: mockSend }),
+}));
+
+import {
+  ACCOUNT_EMAIL_RESPONSE_MS,
+  MIN_PASSWORD_LENGTH,
+  isEmailVerificationRequired,
+  requestPasswordReset,
+  resendVerificationEmail,
+  resetPassword,
+  validatePassword,
+  verifyEmail,
+  waitForAccountEmailResponse,
+} from '../../backend/services/accountService';
+
+beforeEach(() => {
+  mockSelectResults.length = 0;
+  mockUpdateReturning.mockReset();
+  mockInsertValues.mockReset();
+  mockLockFor.mockReset();
+  mockSend.mockReset();
+});
+
+describe('validatePassword', () => {
+  it('accepts a password of the minimum length', () => {
+    expect(validatePassword('a'.repeat(MIN_PASSWORD_LENGTH))).toBeNull();
+  });
+
+  it('rejects short or missing passwords', () => {
+    expect(validatePassword('breve')).toContain(`${MIN_PASSWORD_LENGTH} caratteri`);
+    expect(validatePassword(undefined)).not.toBeNull();
+  });
+});
+
+describe('isEmailVerificationRequired', () => {
+  const original = process.env.REQUIRE_EMAIL_VERIFICATION;
+
+  afterEach(() => {
+    process.env.REQUIRE_EMAIL_VERIFICATION = original;
+  });
+
+  it('is enabled only by "true"', () => {
+    process.env.REQUIRE_EMAIL_VERIFICATION = 'true';
+    expect(isEmailVerificationRequired()).toBe(true);
+    process.env.REQUIRE_EMAIL_VERIFICATION = '1';
+    expect(isEmailVerificationRequired()).toBe(false);
+  });
+});
+
+describe('single-use tokens', () => {
+  it('does not verify the email with an invalid, expired or used token', async () => {
+    mockUpdateReturning.mockResolvedValueOnce([]);
+    await expect(verifyEmail('token-usato')).resolves.toBe(false);
+    expect(mockUpdateReturning).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not reset the password with an invalid, expired or used token', async () => {
+    mockUpdateReturning.mockResolvedValueOnce([]);
+    await expect(resetPassword('token-usato', 'nuovapassword')).resolves.toBe(false);
+  });
+});
+
+describe('requestPasswordReset', () => {
+  it('sends nothing for an unknown address', async () => {
+    mockSelectResults.push([]);
+    await requestPasswordReset('nessuno@example.com');
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing while the last link is recent', async () => {
+    mockSelectResults.push([{ user_id: 'user-1', username: 'mario', email: 'mario@example.com', email_verified_at: null }]);
+    mockSelectResults.push([{ user_id: 'user-1' }], [{ token_id: 'token-1' }]);
+    await requestPasswordReset('mario@example.com');
+    expect(mockLockFor).toHaveBeenCalledWith('update');
+    expect(mockInsertValues).not.toHaveBeenCalled();
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('issues a token under the lock of the user and sends the link', async () => {
+    mockSelectResults.push([{ user_id: 'user-1', username: 'mario', email: 'mario@example.com', email_verified_at: null }]);
+    mockSelectResults.push([{ user_id: 'user-1' }], []);
+    await requestPasswordReset('mario@example.com');
+    expect(mockLockFor).toHaveBeenCalledWith('update');
+    expect(mockInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: 'user-1', purpose: 'password_reset' })
+    );
+    expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ to: 'mario@example.com' }));
+  });
+});
+
+describe('resendVerificationEmail', () => {
+  it('sends nothing to a verified address', async () => {
+    mockSelectResults.push([
+      { user_id: 'user-1', username: 'mario', email: 'mario@example.com', email_verified_at: new Date() },
+    ]);
+    await resendVerificationEmail('mario@example.com');
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing while the last link is recent', async () => {
+    mockSelectResults.push([{ user_id: 'user-1', username: 'mario', email: 'mario@example.com', email_verified_at: null }]);
+    mockSelectResults.push([{ user_id: 'user-1' }], [{ token_id: 'token-1' }]);
+    await resendVerificationEmail('mario@example.com');
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
+
+describe('waitForAccountEmailResponse', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resolves once the minimum duration has passed since the start', async () => {
+    jest.useFakeTimers();
+    const startedAt = Date.now();
+    let resolved = false;
+    const waiting = waitForAccountEmailResponse(startedAt - 500).then(() => {
+      resolved = true;
+    });
+
+    await jest.advanceTimersByTimeAsync(ACCOUNT_EMAIL_RESPONSE_MS - 600);
+    expect(resolved).toBe(false);
+    await jest.advanceTimersByTimeAsync(100);
+    await waiting;
+    expect(resolved).toBe(true);
+  });
+
+  it('does not wait when the request has already taken longer', async () => {
+    await expect(waitForAccountEmailResponse(Date.now() - ACCOUNT_EMAIL_RESPONSE_MS - 1)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the storage of the generated content in
+ * backend/services/aiOutputService.ts. It verifies that each version fills the column of its
+ * generation type and that the history groups the versions by type.
+ *
+ * Key features:
+ * - Tests saveAIOutput for text content, JSON categories and edited versions.
+ * - Tests getOutputHistory, grouping the rows by generation type from the most recent.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The database module is mocked with the query builders used by the service.
+ */
+
+const mockValues = jest.fn();
+const mockRecords: unknown[] = [];
+
+jest.mock('../../backend/db', () => ({
+  db: {
+    insert: () => ({
+      values: (row: Record<string, unknown>) => {
+        mockValues(row);
+        return { returning: async () => [{ output_id: 'output-1', ...row }] };
+      },
+    }),
+    select: () => ({ from: () => ({ where: () => ({ orderBy: async () => mockRecords }) }) }),
+  },
+}));
+
+import { getOutputHistory, saveAIOutput } from '../../backend/services/aiOutputService';
+
+beforeEach(() => {
+  mockValues.mockClear();
+  mockRecords.length = 0;
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('saveAIOutput', () => {
+  it('stores the text in the column of its generation type', async () => {
+    const record = await saveAIOutput('file-1', 'blurb', 'Una storia avvincente.');
+    expect(mockValues).toHaveBeenCalledWith({
+      file_id: 'file-1',
+      edited: false,
+      language: 'it',
+      blurb: 'Una storia avvincente.',
+    });
+    expect(record.output_id).toBe('output-1');
+  });
+
+  it('stores the categories as JSON and records edits and their language', async () => {
+    await saveAIOutput('file-1', 'categories', '{"main": "FIC", "sub": ["FIC022", "FIC027"]}', true, 'en');
+    expect(mockValues).toHaveBeenCalledWith({
+      file_id: 'file-1',
+      edited: true,
+      language: 'en',
+      categories: { main: 'FIC', sub: ['FIC022', 'FIC027'] },
+    });
+  });
+
+  it('keeps categories that are not valid JSON as text', async () => {
+    await saveAIOutput('file-1', 'categories', 'Narrativa');
+    expect(mockValues).toHaveBeenCalledWith(expect.objectContaining({ categories: 'Narrativa' }));
+  });
+});
+
+describe('getOutputHistory', () => {
+  it('groups the versions by generation type', async () => {
+    const row = (output_id: string, columns: Record<string, unknown>, generated_at: string) => ({
+      output_id,
+      file_id: 'file-1',
+      blurb: null,
+      description: null,
+      keywords: null,
+      categories: null,
+      foreword: null,
+      analysis: null,
+      edited: false,
+      language: 'it',
+      generated_at: new Date(generated_at),
+      ...columns,
+    });
+    mockRecords.push(
+      row('output-2', { blurb: 'Seconda versione', edited: true }, '2026-03-02T10:00:00Z'),
+      row('output-1', { blurb: 'Prima versione' }, '2026-03-01T10:00:00Z'),
+      row('output-3', { categories: { main: 'FIC', sub: [] } }, '2026-03-01T09:00:00Z')
+    );
+
+    const history = await getOutputHistory('file-1');
+
+    expect(history.blurb).toEqual([
+      {
+        output_id: 'output-2',
+        content: 'Seconda versione',
+        edited: true,
+        language: 'it',
+        generated_at: '2026-03-02T10:00:00.000Z',
+      },
+      {
+        output_id: 'output-1',
+        content: 'Prima versione',
+        edited: false,
+        language: 'it',
+        generated_at: '2026-03-01T10:00:00.000Z',
+      },
+    ]);
+    expect(history.categories.map((version) => version.output_id)).toEqual(['output-3']);
+    expect(history.keywords).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the session cookies and the CSRF check in
+ * backend/utils/authCookies.ts.
+ *
+ * Key features:
+ * - Tests the Set-Cookie headers of a new session and of a logout.
+ * - Tests that the tokens of a new session reach the response body only when the client asks for them.
+ * - Tests that the CSRF token is required only for the requests that modify data, and that it
+ *   must match the cookie.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The database module is mocked, as no session is stored.
+ */
+
+jest.mock('../../backend/db', () => ({ db: {} }));
+
+import type { NextApiResponse } from 'next';
+import {
+  clearSessionCookies,
+  deliverSessionTokens,
+  isCsrfValid,
+  serializeCookie,
+  setSessionCookies,
+  ACCESS_TOKEN_COOKIE,
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  REFRESH_TOKEN_COOKIE,
+} from '../../backend/utils/authCookies';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../../backend/services/authService';
+
+// Collects the Set-Cookie headers of a response
+const captureCookies = (write: (res: NextApiResponse) => void): string[] => {
+  const setHeader = jest.fn();
+  write({ setHeader } as unknown as NextApiResponse);
+  expect(setHeader).toHaveBeenCalledWith('Set-Cookie', expect.any(Array));
+  return setHeader.mock.calls[0][1];
+};
+
+describe('serializeCookie', () => {
+  it('encodes the value and adds the attributes', () => {
+    expect(serializeCookie('nome', 'a b', { maxAge: 60, httpOnly: true, secure: true })).toBe(
+      'nome=a%20b; Path=/; Max-Age=60; SameSite=Lax; HttpOnly; Secure'
+    );
+  });
+
+  it('expires the cookie when the duration is zero', () => {
+    expect(serializeCookie('nome', '', { maxAge: 0, path: '/api' })).toBe(
+      'nome=; Path=/api; Max-Age=0; SameSite=Lax; Expires=Thu, 01 Jan 1970 00:00:00 GMT'
+    );
+  });
+});
+
+describe('setSessionCookies and clearSessionCookies', () => {
+  it('sets the tokens in HttpOnly cookies and the CSRF token in a readable one', () => {
+    const [access, refresh, csrf] = captureCookies((res) =>
+      setSessionCookies(res, { token: 'access-token', refresh_token: 'refresh-token', expires_in: 900 })
+    );
+    expect(access).toContain(`${ACCESS_TOKEN_COOKIE}=access-token`);
+    expect(access).toContain(`Max-Age=${ACCESS_TOKEN_TTL_SECONDS}`);
+    expect(access).toContain('HttpOnly');
+    expect(refresh).toContain(`${REFRESH_TOKEN_COOKIE}=refresh-token; Path=/api/auth`);
+    expect(refresh).toContain('HttpOnly');
+    expect(csrf).toMatch(new RegExp(`^${CSRF_COOKIE}=[\\w-]{43}; `));
+    expect(csrf).not.toContain('HttpOnly');
+  });
+
+  it('expires all the cookies of the session', () => {
+    const cookies = captureCookies(clearSessionCookies);
+    expect(cookies).toHaveLength(3);
+    cookies.forEach((cookie) => expect(cookie).toContain('Max-Age=0'));
+  });
+});
+
+describe('deliverSessionTokens', () => {
+  const tokens = { token: 'access-token', refresh_token: 'refresh-token', expires_in: 900 };
+
+  it('keeps the tokens out of the body of the web application', () => {
+    let fields = {};
+    const cookies = captureCookies((res) => {
+      fields = deliverSessionTokens(res, tokens, undefined);
+    });
+    expect(cookies).toHaveLength(3);
+    expect(fields).toEqual({ expires_in: 900 });
+  });
+
+  it('returns the tokens without cookies to the API clients that ask for them', () => {
+    const setHeader = jest.fn();
+    const fields = deliverSessionTokens({ setHeader } as unknown as NextApiResponse, tokens, true);
+    expect(fields).toEqual(tokens);
+    expect(setHeader).not.toHaveBeenCalled();
+  });
+});
+
+describe('isCsrfValid', () => {
+  const request = (method: string, header?: string, cookie?: string) => ({
+    method,
+    headers: header === undefined ? {} : { [CSRF_HEADER]: header },
+    cookies: cookie === undefined ? {} : { [CSRF_COOKIE]: cookie },
+  });
+
+  it('does not check the requests that only read data', () => {
+    expect(isCsrfValid(request('GET'))).toBe(true);
+    expect(isCsrfValid(request('HEAD'))).toBe(true);
+  });
+
+  it('requires the header to match the cookie for the other requests', () => {
+    expect(isCsrfValid(request('POST', 'token-csrf', 'token-csrf'))).toBe(true);
+    expect(isCsrfValid(request('DELETE', 'token-csrf', 'altro-token'))).toBe(false);
+    expect(isCsrfValid(request('POST', undefined, 'token-csrf'))).toBe(false);
+    expect(isCsrfValid(request('PUT', 'token-csrf'))).toBe(false);
+  });
+});
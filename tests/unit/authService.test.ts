@@ -2,12 +2,15 @@
  * @fileoverview
  * This file contains unit tests for the authentication service in
  * backend/services/authService.ts. It verifies that password hashing,
- * password comparison, and JWT token generation and verification function correctly.
+ * password comparison, and JWT token generation and verification function correctly, and
+ * that refresh tokens are rejected when unknown, expired or reused.
  *
  * Key features:
  * - Tests that a password is hashed and can be validated.
  * - Tests JWT token generation and verification.
  * - Ensures that invalid tokens throw an error.
+ * - Tests that JWT_SECRET is required in production.
+ * - Tests that reusing a refresh token revokes its whole session.
  *
  * @dependencies
  * - jest: For testing.
@@ -16,9 +19,28 @@
  *
  * @notes
  * - The tests assume that the environment variable JWT_SECRET is set (or defaults to 'default_jwt_secret').
+ * - The database module is mocked with the few query builders used by refreshSession.
  */
 
-import { hashPassword, comparePassword, generateToken, verifyToken } from '../../backend/services/authService';
+const mockSelectResults: unknown[][] = [];
+const mockUpdateWhere = jest.fn();
+
+jest.mock('../../backend/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: async () => mockSelectResults.shift() ?? [] }) }),
+    update: () => ({ set: () => ({ where: mockUpdateWhere }) }),
+  },
+}));
+
+import {
+  hashPassword,
+  comparePassword,
+  generateToken,
+  verifyToken,
+  getJwtSecret,
+  hashRefreshToken,
+  refreshSession,
+} from '../../backend/services/authService';
 import jwt from 'jsonwebtoken';
 
 describe('Auth Service', () => {
@@ -60,3 +82,58 @@ describe('Auth Service', () => {
     expect(() => verifyToken('invalid.token.here')).toThrow();
   });
 });
+
+describe('getJwtSecret', () => {
+  it('returns JWT_SECRET when it is set', () => {
+    expect(getJwtSecret({ NODE_ENV: 'production', JWT_SECRET: 'segreto' } as NodeJS.ProcessEnv)).toBe('segreto');
+  });
+
+  it('falls back to a development secret outside production only', () => {
+    expect(getJwtSecret({ NODE_ENV: 'development' } as NodeJS.ProcessEnv)).toBe('default_jwt_secret');
+    expect(() => getJwtSecret({ NODE_ENV: 'production' } as NodeJS.ProcessEnv)).toThrow('JWT_SECRET');
+  });
+});
+
+describe('refreshSession', () => {
+  const storedToken = {
+    token_id: 'token-1',
+    user_id: 'user-1',
+    family_id: 'session-1',
+    token_hash: hashRefreshToken('refresh-token'),
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    revoked_at: null as Date | null,
+    replaced_by: null as string | null,
+    created_at: new Date(),
+  };
+
+  afterEach(() => {
+    mockSelectResults.length = 0;
+    mockUpdateWhere.mockReset();
+  });
+
+  it('stores refresh tokens as SHA-256 hashes', () => {
+    expect(hashRefreshToken('refresh-token')).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashRefreshToken('refresh-token')).toBe(storedToken.token_hash);
+    expect(hashRefreshToken('other-token')).not.toBe(storedToken.token_hash);
+  });
+
+  it('rejects unknown and expired tokens', async () => {
+    await expect(refreshSession('unknown')).resolves.toBeNull();
+
+    mockSelectResults.push([{ ...storedToken, expires_at: new Date(Date.now() - 1000) }]);
+    await expect(refreshSession('refresh-token')).resolves.toBeNull();
+    expect(mockUpdateWhere).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole session when a used token is presented again', async () => {
+    mockSelectResults.push([{ ...storedToken, revoked_at: new Date(), replaced_by: 'token-2' }]);
+    await expect(refreshSession('refresh-token')).resolves.toBeNull();
+    expect(mockUpdateWhere).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not revoke the session for a token revoked at logout', async () => {
+    mockSelectResults.push([{ ...storedToken, revoked_at: new Date() }]);
+    await expect(refreshSession('refresh-token')).resolves.toBeNull();
+    expect(mockUpdateWhere).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the catalog importer in
+ * backend/services/catalogImporter.ts. It verifies that BISAC and Thema
+ * category lists are converted into a catalog tree and that invalid
+ * structures are reported.
+ *
+ * Key features:
+ * - Tests CSV parsing with quoted fields and explicit parents.
+ * - Tests parent inference for BISAC headings and Thema prefixes.
+ * - Tests the validation errors returned for malformed lists, including duplicate codes and parents
+ *   that form a cycle.
+ *
+ * @dependencies
+ * - jest: For testing.
+ */
+
+import { importCatalog, parseCatalogCsv } from '../../backend/services/catalogImporter';
+
+describe('Catalog Importer', () => {
+  describe('parseCatalogCsv', () => {
+    it('should read quoted fields and the optional parent column', () => {
+      const rows = parseCatalogCsv('code,label,parent\nFIC,Narrativa,\nFIC022000,"Gialli, noir",FIC\n');
+      expect(rows).toEqual([
+        { code: 'FIC', label: 'Narrativa', parent: undefined },
+        { code: 'FIC022000', label: 'Gialli, noir', parent: 'FIC' },
+      ]);
+    });
+
+    it('should throw if the required columns are missing', () => {
+      expect(() => parseCatalogCsv('codice,nome\nFIC,Narrativa')).toThrow(
+        'Il CSV deve contenere le colonne "code" e "label".'
+      );
+    });
+  });
+
+  describe('importCatalog', () => {
+    it('should group BISAC codes under their subject heading', () => {
+      const csv = 'code,label\nFIC022000,FICTION / Mystery & Detective / General\nFIC027000,FICTION / Romance / General';
+      const result = importCatalog(csv, 'csv', 'bisac');
+      expect(result.valid).toBe(true);
+      expect(result.catalog).toEqual({
+        categories: [
+          {
+            code: 'FIC',
+            label: 'FICTION',
+            children: [
+              { code: 'FIC022000', label: 'FICTION / Mystery & Detective / General' },
+              { code: 'FIC027000', label: 'FICTION / Romance / General' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should infer Thema parents from the code prefix', () => {
+      const rows = [
+        { code: 'F', label: 'Narrativa' },
+        { code: 'FF', label: 'Gialli' },
+        { code: 'FFJ', label: 'Gialli storici' },
+      ];
+      const result = importCatalog(rows, 'json', 'thema');
+      expect(result.valid).toBe(true);
+      expect(result.catalog?.categories[0].children?.[0].children?.[0].code).toBe('FFJ');
+    });
+
+    it('should accept an already nested JSON tree', () => {
+      const tree = JSON.stringify({ categories: [{ code: 'FF', label: 'Gialli', children: [{ code: 'FFJ', label: 'Gialli storici' }] }] });
+      expect(importCatalog(tree, 'json', 'thema').valid).toBe(true);
+    });
+
+    it('should report duplicate and malformed codes', () => {
+      const tree = { categories: [{ code: 'fic', label: 'Narrativa' }, { code: 'HIS000000', label: '' }, { code: 'HIS000000', label: 'Storia' }] };
+      const result = importCatalog(tree, 'json', 'bisac');
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Codice non valido per lo schema bisac: fic.',
+        'Etichetta mancante (HIS000000).',
+        'Codice duplicato: HIS000000.',
+      ]);
+    });
+
+    it('should report unknown parents in flat lists', () => {
+      const result = importCatalog('code,label,parent\nFFJ,Gialli storici,FF', 'csv', 'thema');
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['Riga 1: categoria padre sconosciuta (FF).']);
+    });
+
+    it('should report duplicate codes in flat lists', () => {
+      const csv = 'code,label\nFF,Gialli\nFFJ,Gialli storici\nFF,Polizieschi';
+      const result = importCatalog(csv, 'csv', 'thema');
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['Riga 3: codice duplicato (FF, già presente alla riga 1).']);
+    });
+
+    it('should report categories that are their own ancestors', () => {
+      const csv = 'code,label,parent\nA1,Narrativa,A1\nB1,Gialli,C1\nC1,Gialli storici,B1\nD1,Storia,';
+      const result = importCatalog(csv, 'csv', 'custom');
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Riga 1: la categoria non può essere padre di se stessa (A1).',
+        'Riga 2: le categorie padre formano un ciclo (B1 > C1 > B1).',
+        'Riga 3: le categorie padre formano un ciclo (C1 > B1 > C1).',
+      ]);
+    });
+
+    it('should report a cycle between an explicit and an inferred Thema parent', () => {
+      const rows = [
+        { code: 'F', label: 'Narrativa', parent: 'FF' },
+        { code: 'FF', label: 'Gialli' },
+      ];
+      expect(importCatalog(rows, 'json', 'thema').errors).toEqual([
+        'Riga 1: le categorie padre formano un ciclo (F > FF > F).',
+        'Riga 2: le categorie padre formano un ciclo (FF > F > FF).',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the catalog helpers in
+ * backend/services/catalogService.ts. It verifies that the catalog tree is
+ * rendered for the prompt and that category assignments returned by the model
+ * are checked against the stored taxonomy.
+ *
+ * Key features:
+ * - Tests formatCatalogForPrompt and flattenCatalog on a nested tree.
+ * - Tests parseCatalogBranches and selectCatalogBranches, which narrow a large tree for the prompt.
+ * - Tests validateCategoryAssignment with valid, unknown and malformed replies.
+ * - Tests that createCatalogSnapshot takes the next free version when a concurrent import wins the race.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The database connection is mocked: no database is needed.
+ */
+
+jest.mock('../../backend/db', () => ({ db: { select: jest.fn(), insert: jest.fn() } }));
+
+import { db } from '../../backend/db';
+import {
+  CatalogData,
+  createCatalogSnapshot,
+  flattenCatalog,
+  formatCatalogForPrompt,
+  parseCatalogBranches,
+  selectCatalogBranches,
+  validateCategoryAssignment,
+} from '../../backend/services/catalogService';
+
+const catalog: CatalogData = {
+  categories: [
+    {
+      code: 'FIC',
+      label: 'Narrativa',
+      children: [
+        { code: 'FIC022', label: 'Gialli' },
+        { code: 'FIC027', label: 'Rosa' },
+      ],
+    },
+    { code: 'HIS', label: 'Storia' },
+  ],
+};
+
+describe('Catalog Service', () => {
+  describe('flattenCatalog', () => {
+    it('should collect codes at every depth', () => {
+      const codes = flattenCatalog(catalog);
+      expect([...codes.keys()]).toEqual(['FIC', 'FIC022', 'FIC027', 'HIS']);
+      expect(codes.get('FIC022')).toBe('Gialli');
+    });
+  });
+
+  describe('formatCatalogForPrompt', () => {
+    it('should render an indented list of codes and labels', () => {
+      expect(formatCatalogForPrompt(catalog)).toBe(
+        'FIC - Narrativa\n  FIC022 - Gialli\n  FIC027 - Rosa\nHIS - Storia'
+      );
+    });
+
+    it('should render only the requested levels', () => {
+      expect(formatCatalogForPrompt(catalog, 1)).toBe('FIC - Narrativa\nHIS - Storia');
+    });
+  });
+
+  describe('parseCatalogBranches and selectCatalogBranches', () => {
+    it('should keep the known top-level codes of the reply', () => {
+      expect(parseCatalogBranches('```json\n["HIS", "FIC022", "XYZ", "FIC", "HIS"]\n```', catalog, 3)).toEqual([
+        'HIS',
+        'FIC',
+      ]);
+      expect(parseCatalogBranches('["FIC", "HIS"]', catalog, 1)).toEqual(['FIC']);
+      expect(parseCatalogBranches('Narrativa', catalog, 3)).toEqual([]);
+    });
+
+    it('should keep the subtrees of the selected categories', () => {
+      expect(selectCatalogBranches(catalog, ['FIC'])).toEqual({ categories: [catalog.categories[0]] });
+    });
+  });
+
+  describe('validateCategoryAssignment', () => {
+    it('should accept a reply with known codes', () => {
+      const result = validateCategoryAssignment('{"main": "FIC", "sub": ["FIC022", "FIC027"]}', catalog);
+      expect(result.valid).toBe(true);
+      expect(result.assignment).toEqual({ main: 'FIC', sub: ['FIC022', 'FIC027'] });
+    });
+
+    it('should accept a reply wrapped in a markdown code fence', () => {
+      const result = validateCategoryAssignment('```json\n{"main": "HIS", "sub": ["FIC022", "FIC027"]}\n```', catalog);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject unknown codes', () => {
+      const result = validateCategoryAssignment('{"main": "XYZ", "sub": ["FIC022", "ABC"]}', catalog);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Categoria principale sconosciuta: XYZ.',
+        'Sottocategoria sconosciuta: ABC.',
+      ]);
+    });
+
+    it('should reject a wrong number of subcategories', () => {
+      const result = validateCategoryAssignment('{"main": "FIC", "sub": ["FIC022"]}', catalog);
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject a reply that is not valid JSON', () => {
+      const result = validateCategoryAssignment('Narrativa, Gialli, Rosa', catalog);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['La risposta non è un JSON valido.']);
+    });
+  });
+
+  describe('createCatalogSnapshot', () => {
+    it('should retry with the next version when the version has just been taken', async () => {
+      const versions = [2, 3];
+      (db.select as jest.Mock).mockImplementation(() => ({
+        from: () => ({ where: async () => [{ latestVersion: versions.shift() }] }),
+      }));
+      const values = jest.fn();
+      (db.insert as jest.Mock).mockImplementation(() => ({
+        values: (row: { version: number }) => {
+          values(row);
+          return {
+            returning: async () => {
+              if (row.version === 3) {
+                throw Object.assign(new Error('duplicate key value'), { code: '23505' });
+              }
+              return [{ catalog_id: 'catalog-1', ...row }];
+            },
+          };
+        },
+      }));
+
+      const record = await createCatalogSnapshot('thema', catalog);
+
+      expect(values).toHaveBeenCalledTimes(2);
+      expect(record.version).toBe(4);
+    });
+  });
+});
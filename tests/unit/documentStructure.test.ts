@@ -0,0 +1,114 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the structure detection in backend/services/documentStructure.ts.
+ *
+ * Key features:
+ * - Tests the recognition of the headings of a flat text with textToBlocks.
+ * - Tests the chapters, title, table of contents, front matter and back matter built by buildStructuredDocument.
+ * - Tests getSectionText on the detected chapters.
+ *
+ * @dependencies
+ * - jest: For testing.
+ *
+ * @notes
+ * - The module is pure, so nothing is mocked.
+ */
+
+import {
+  buildStructuredDocument,
+  DocumentBlock,
+  getSectionText,
+  textToBlocks,
+} from '../../backend/services/documentStructure';
+
+const heading = (text: string, level: number): DocumentBlock => ({ type: 'heading', text, level });
+const paragraph = (text: string): DocumentBlock => ({ type: 'paragraph', text });
+
+describe('textToBlocks', () => {
+  it('recognizes parts, chapters and standalone headings inside paragraphs', () => {
+    const text = 'Parte prima\nCapitolo 1\nEra una notte\nbuia e tempestosa.\n\nRingraziamenti:\nGrazie a tutti.';
+    expect(textToBlocks(text)).toEqual([
+      heading('Parte prima', 1),
+      heading('Capitolo 1', 2),
+      paragraph('Era una notte\nbuia e tempestosa.'),
+      heading('Ringraziamenti:', 2),
+      paragraph('Grazie a tutti.'),
+    ]);
+  });
+
+  it('does not treat long lines as headings', () => {
+    const line = `Capitolo ${'molto '.repeat(20)}lungo`;
+    expect(textToBlocks(line)).toEqual([paragraph(line)]);
+  });
+});
+
+describe('buildStructuredDocument', () => {
+  const blocks = [
+    heading('Il romanzo', 1),
+    paragraph('Copyright 2024'),
+    heading('Dedica', 3),
+    paragraph('A mia madre.'),
+    heading('Parte prima', 2),
+    heading('Uno', 3),
+    paragraph('Primo capitolo, tre parole.'),
+    heading('Una scena', 4),
+    paragraph('Ancora il primo.'),
+    heading('Due', 3),
+    paragraph('Secondo capitolo.'),
+    heading('Ringraziamenti', 3),
+    paragraph('Grazie.'),
+  ];
+
+  it('joins the blocks into the plain text', () => {
+    const { text } = buildStructuredDocument([paragraph(' Uno '), paragraph(''), heading('Due', 1)]);
+    expect(text).toBe('Uno\n\nDue');
+  });
+
+  it('detects the chapter level, the title and the table of contents', () => {
+    const { structure } = buildStructuredDocument(blocks);
+    expect(structure.title).toBe('Il romanzo');
+    expect(structure.author).toBeNull();
+    expect(structure.chapters.map((chapter) => chapter.heading)).toEqual(['Uno', 'Due']);
+    expect(structure.toc[0]).toEqual({ heading: 'Dedica', level: 3, start: 28 });
+    expect(structure.toc).toHaveLength(6);
+  });
+
+  it('separates the front matter and the back matter from the chapters', () => {
+    const { structure } = buildStructuredDocument(blocks);
+    expect(structure.frontMatter.map((section) => section.heading)).toEqual([null, 'Dedica']);
+    expect(structure.backMatter.map((section) => section.heading)).toEqual(['Ringraziamenti']);
+    expect(structure.backMatter[0].kind).toBe('back_matter');
+  });
+
+  it('counts the words of each chapter and returns its text', () => {
+    const { text, structure } = buildStructuredDocument(blocks);
+    expect(structure.chapters.map((chapter) => chapter.wordCount)).toEqual([10, 3]);
+    expect(getSectionText(text, structure.chapters[1])).toBe('Due\n\nSecondo capitolo.');
+  });
+
+  it('keeps front matter headings after the first chapter among the chapters', () => {
+    const { structure } = buildStructuredDocument([
+      heading('Prefazione', 1),
+      paragraph('Perché questo libro.'),
+      heading('Capitolo 1', 1),
+      paragraph('Inizio.'),
+      heading('Introduzione', 1),
+      paragraph('Una nuova parte.'),
+    ]);
+    expect(structure.title).toBeNull();
+    expect(structure.frontMatter.map((section) => section.heading)).toEqual(['Prefazione']);
+    expect(structure.chapters.map((chapter) => chapter.heading)).toEqual(['Capitolo 1', 'Introduzione']);
+  });
+
+  it('prefers the metadata stored in the file', () => {
+    const { structure } = buildStructuredDocument(blocks, { title: ' Titolo ', author: 'Anna Rossi' });
+    expect(structure.title).toBe('Titolo');
+    expect(structure.author).toBe('Anna Rossi');
+  });
+
+  it('returns no chapters for a text without headings', () => {
+    const { structure } = buildStructuredDocument([paragraph('Solo testo.')]);
+    expect(structure.chapters).toEqual([]);
+    expect(structure.frontMatter).toEqual([]);
+  });
+});
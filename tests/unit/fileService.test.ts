@@ -0,0 +1,79 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the query parsing of the file listing
+ * and for the file lookup in backend/services/fileService.ts.
+ *
+ * Key features:
+ * - Tests the defaults of parseFileListQuery.
+ * - Tests the validation of page, pageSize, sort and status.
+ * - Tests that getFileForUser treats an identifier that is not a UUID as a missing file.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The database module is mocked: no database is needed.
+ */
+
+const mockRecords: unknown[] = [];
+
+jest.mock('../../backend/db', () => ({
+  db: { select: jest.fn(() => ({ from: () => ({ where: async () => mockRecords }) })) },
+}));
+
+import { db } from '../../backend/db';
+import { DEFAULT_FILE_PAGE_SIZE, getFileForUser, parseFileListQuery } from '../../backend/services/fileService';
+
+describe('parseFileListQuery', () => {
+  it('applies the defaults when no parameter is given', () => {
+    expect(parseFileListQuery({})).toEqual({
+      options: { page: 1, pageSize: DEFAULT_FILE_PAGE_SIZE, sort: 'desc', status: undefined, search: undefined },
+    });
+  });
+
+  it('reads the filters and trims the search text', () => {
+    const { options } = parseFileListQuery({
+      page: '3',
+      pageSize: '10',
+      sort: 'asc',
+      status: 'complete',
+      search: '  romanzo ',
+    });
+    expect(options).toEqual({ page: 3, pageSize: 10, sort: 'asc', status: 'complete', search: 'romanzo' });
+  });
+
+  it('uses the first value of repeated parameters', () => {
+    expect(parseFileListQuery({ page: ['2', '5'] }).options?.page).toBe(2);
+  });
+
+  it('rejects invalid pages and page sizes', () => {
+    expect(parseFileListQuery({ page: '0' }).error).toMatch('"page"');
+    expect(parseFileListQuery({ page: 'abc' }).error).toMatch('"page"');
+    expect(parseFileListQuery({ pageSize: '1000' }).error).toMatch('"pageSize"');
+  });
+
+  it('rejects unknown sort orders and statuses', () => {
+    expect(parseFileListQuery({ sort: 'name' }).error).toMatch('"sort"');
+    expect(parseFileListQuery({ status: 'archived' }).error).toBe('Stato di elaborazione non supportato.');
+  });
+});
+
+describe('getFileForUser', () => {
+  const access = { user_id: '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f', role: 'author' as const, imprint: null };
+
+  beforeEach(() => {
+    mockRecords.length = 0;
+    (db.select as jest.Mock).mockClear();
+  });
+
+  it('does not query the database for an identifier that is not a UUID', async () => {
+    await expect(getFileForUser('non-un-uuid', access)).resolves.toBeNull();
+    expect(db.select).not.toHaveBeenCalled();
+  });
+
+  it('returns the file visible to the user', async () => {
+    const file = { file_id: '0e6b8a52-3f1d-4c2b-9a7e-5d4c3b2a1f0e', user_id: access.user_id };
+    mockRecords.push(file);
+    await expect(getFileForUser(file.file_id, access)).resolves.toBe(file);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the search helpers in backend/services/fileTextService.ts.
+ *
+ * Key features:
+ * - Tests the parsing and validation of the query string of GET /api/search.
+ * - Tests that the snippets keep the highlighted matches and escape the rest of the text.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The database module is mocked, as only the pure functions are tested.
+ */
+
+jest.mock('../../backend/db', () => ({ db: {} }));
+
+import {
+  parseSearchQuery,
+  toSnippetHtml,
+  DEFAULT_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_PAGE_SIZE,
+} from '../../backend/services/fileTextService';
+
+describe('parseSearchQuery', () => {
+  it('applies the defaults and trims the search text', () => {
+    expect(parseSearchQuery({ q: '  "notte stellata" -luna ' })).toEqual({
+      options: { query: '"notte stellata" -luna', page: 1, pageSize: DEFAULT_SEARCH_PAGE_SIZE },
+    });
+  });
+
+  it('reads the page and the page size, taking the first value of repeated parameters', () => {
+    expect(parseSearchQuery({ q: ['romanzo', 'altro'], page: '3', pageSize: '25' })).toEqual({
+      options: { query: 'romanzo', page: 3, pageSize: 25 },
+    });
+  });
+
+  it('rejects a missing, too short or too long search text', () => {
+    expect(parseSearchQuery({}).error).toContain('"q"');
+    expect(parseSearchQuery({ q: ' a ' }).error).toContain('"q"');
+    expect(parseSearchQuery({ q: 'a'.repeat(201) }).error).toContain('"q"');
+  });
+
+  it('rejects invalid pages and page sizes', () => {
+    expect(parseSearchQuery({ q: 'romanzo', page: '0' }).error).toContain('"page"');
+    expect(parseSearchQuery({ q: 'romanzo', page: 'due' }).error).toContain('"page"');
+    expect(parseSearchQuery({ q: 'romanzo', pageSize: String(MAX_SEARCH_PAGE_SIZE + 1) }).error).toContain(
+      '"pageSize"'
+    );
+  });
+});
+
+describe('toSnippetHtml', () => {
+  it('keeps the highlighted matches and collapses the whitespace', () => {
+    expect(toSnippetHtml('Era una <mark>notte</mark>\n\nbuia e <mark>tempestosa</mark>.')).toBe(
+      'Era una <mark>notte</mark> buia e <mark>tempestosa</mark>.'
+    );
+  });
+
+  it('escapes the markup of the manuscript', () => {
+    expect(toSnippetHtml('<script>alert("x")</script> & <mark>l\'alba</mark>')).toBe(
+      '&#60;script&#62;alert(&#34;x&#34;)&#60;/script&#62; &#38; <mark>l&#39;alba</mark>'
+    );
+  });
+});
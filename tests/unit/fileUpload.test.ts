@@ -1,17 +1,21 @@
 /**
  * @fileoverview
  * This file contains unit tests for the file parsing utility functions in
- * backend/services/fileParser.ts. It verifies that DOCX and PDF parsing functions
- * correctly extract text from file buffers and properly handle errors.
+ * backend/services/fileParser.ts and for the upload validation in backend/utils/fileUtils.ts.
+ * It verifies that the parsing functions correctly extract text from file buffers
+ * and properly handle errors.
  *
  * Key features:
- * - Tests parseDocx using the Mammoth library.
- * - Tests parsePdf using the pdf-parse library.
+ * - Tests parseDocx using the Mammoth library, including the headings of the converted HTML.
+ * - Tests parsePdf using the pdf-parse library, including the document properties and the OCR fallback.
+ * - Tests parseEpub and parseOdt on containers built with JSZip, and the RTF and Markdown converters.
+ * - Tests validateUploadedFile against the format registry.
  *
  * @dependencies
  * - jest: For testing and mocking.
  * - mammoth: Mocked to simulate DOCX parsing.
  * - pdf-parse: Manually mocked to prevent file system access.
+ * - backend/services/ocrService.ts: recognizePdfPages is mocked, so that pdftoppm and tesseract are not run.
  *
  * @notes
  * - The external libraries are mocked to ensure unit tests run reliably.
@@ -20,35 +24,129 @@
 
 // Manually mock pdf-parse to be a jest mock function
 jest.mock('pdf-parse', () => jest.fn());
+jest.mock('../../backend/services/ocrService', () => ({
+  ...jest.requireActual('../../backend/services/ocrService'),
+  recognizePdfPages: jest.fn(),
+}));
 
-import { parseDocx, parsePdf } from '../../backend/services/fileParser';
+import JSZip from 'jszip';
+import { File as FormidableFile } from 'formidable';
+import {
+  markdownToText,
+  parseDocx,
+  parseEpub,
+  parseManuscript,
+  parseMarkdown,
+  parseOdt,
+  parsePdf,
+  parseRtf,
+  rtfToText,
+} from '../../backend/services/fileParser';
+import { validateUploadedFile } from '../../backend/utils/fileUtils';
 import mammoth from 'mammoth';
 import pdfParse from 'pdf-parse';
+import { recognizePdfPages } from '../../backend/services/ocrService';
 
 jest.mock('mammoth');
 
 describe('File Parser Utility Functions', () => {
   describe('parseDocx', () => {
-    it('should extract text from a DOCX file buffer', async () => {
+    it('should extract text and chapters from a DOCX file buffer', async () => {
       const fakeBuffer = Buffer.from('fake docx data');
-      (<jest.Mock>mammoth.extractRawText).mockResolvedValue({ value: 'Extracted DOCX text' });
+      (<jest.Mock>mammoth.convertToHtml).mockResolvedValue({
+        value: '<h1>Il romanzo</h1><h2>Uno</h2><p>Primo <strong>capitolo</strong>.</p><h2>Due</h2><p>Secondo.</p>',
+        messages: [],
+      });
       const result = await parseDocx(fakeBuffer);
-      expect(result).toBe('Extracted DOCX text');
+      expect(result.text).toBe('Il romanzo\n\nUno\n\nPrimo capitolo.\n\nDue\n\nSecondo.');
+      expect(result.structure.title).toBe('Il romanzo');
+      expect(result.structure.chapters.map((chapter) => chapter.heading)).toEqual(['Uno', 'Due']);
     });
 
     it('should throw an error if mammoth fails', async () => {
       const fakeBuffer = Buffer.from('fake docx data');
-      (<jest.Mock>mammoth.extractRawText).mockRejectedValue(new Error('Mammoth error'));
+      (<jest.Mock>mammoth.convertToHtml).mockRejectedValue(new Error('Mammoth error'));
       await expect(parseDocx(fakeBuffer)).rejects.toThrow('Impossibile estrarre il testo dal file DOCX.');
     });
   });
 
   describe('parsePdf', () => {
+    const page = (pageNumber: number, rows: string[]) => ({
+      pageNumber,
+      getTextContent: async () => ({ items: rows.map((str, index) => ({ str, transform: [0, 0, 0, 0, 0, index] })) }),
+    });
+
+    // Simulates pdf-parse, rendering the given pages with the pagerender option
+    const mockPdfPages = (pages: ReturnType<typeof page>[]) => {
+      (<jest.Mock>pdfParse).mockImplementation(async (_buffer, options) => {
+        const texts = [];
+        for (const pageData of pages) {
+          texts.push(await options.pagerender(pageData));
+        }
+        return { text: texts.join('\n\n'), info: {} };
+      });
+    };
+
+    beforeEach(() => {
+      (<jest.Mock>recognizePdfPages).mockReset();
+    });
+
     it('should extract text from a PDF file buffer', async () => {
       const fakeBuffer = Buffer.from('fake pdf data');
-      (<jest.Mock>pdfParse).mockResolvedValue({ text: 'Extracted PDF text' });
+      (<jest.Mock>pdfParse).mockResolvedValue({ text: 'Extracted PDF text', info: { Author: 'Anna Rossi' } });
       const result = await parsePdf(fakeBuffer);
-      expect(result).toBe('Extracted PDF text');
+      expect(result.text).toBe('Extracted PDF text');
+      expect(result.structure.author).toBe('Anna Rossi');
+    });
+
+    it('should not run the OCR on a PDF with a text layer', async () => {
+      const paragraph = 'Era una notte buia e tempestosa sulla città addormentata. '.repeat(6);
+      mockPdfPages([page(1, ['Capitolo 1', paragraph]), page(2, [])]);
+      const result = await parsePdf(Buffer.from('fake pdf data'));
+      expect(recognizePdfPages).not.toHaveBeenCalled();
+      expect(result.emptyPages).toEqual([2]);
+      expect(result.ocr).toBeUndefined();
+    });
+
+    it('should report the pages without text', async () => {
+      mockPdfPages([page(1, ['Capitolo 1', 'Testo.']), page(2, []), page(3, ['12'])]);
+      // Nothing recognized in the pages
+      (<jest.Mock>recognizePdfPages).mockImplementation(async (_buffer, pages: number[]) =>
+        pages.map((pageNumber) => ({ page: pageNumber, text: '', confidence: 0, wordCount: 0 }))
+      );
+      const result = await parsePdf(Buffer.from('fake pdf data'));
+      expect(result.text).toBe('Capitolo 1\n\nTesto.\n\n12');
+      expect(result.emptyPages).toEqual([2, 3]);
+    });
+
+    it('should recognize the pages of a scanned PDF with the OCR', async () => {
+      mockPdfPages([page(1, []), page(2, ['7'])]);
+      (<jest.Mock>recognizePdfPages).mockResolvedValue([
+        { page: 1, text: 'Capitolo 1\n\nEra una notte buia.', confidence: 90, wordCount: 6 },
+        { page: 2, text: 'E tempestosa.', confidence: 60, wordCount: 2 },
+      ]);
+      const result = await parsePdf(Buffer.from('fake pdf data'));
+      expect(recognizePdfPages).toHaveBeenCalledWith(expect.any(Buffer), [1, 2], expect.objectContaining({ language: 'ita' }));
+      expect(result.text).toBe('Capitolo 1\n\nEra una notte buia.\n\nE tempestosa.');
+      expect(result.structure.chapters.map((chapter) => chapter.heading)).toEqual(['Capitolo 1']);
+      expect(result.emptyPages).toEqual([]);
+      expect(result.ocr).toEqual({ engine: 'tesseract', language: 'ita', pages: [1, 2], confidence: 82.5 });
+    });
+
+    it('should keep the text layer if the OCR fails', async () => {
+      mockPdfPages([page(1, ['Titolo']), page(2, [])]);
+      (<jest.Mock>recognizePdfPages).mockRejectedValue(new Error('tesseract not found'));
+      const result = await parsePdf(Buffer.from('fake pdf data'));
+      expect(result.text).toBe('Titolo');
+      expect(result.ocr).toBeUndefined();
+    });
+
+    it('should throw an error if the OCR of a PDF without text fails', async () => {
+      mockPdfPages([page(1, []), page(2, [])]);
+      (<jest.Mock>recognizePdfPages).mockRejectedValue(new Error('tesseract not found'));
+      await expect(parsePdf(Buffer.from('fake pdf data'))).rejects.toThrow(
+        'Il PDF sembra una scansione e non è stato possibile riconoscerne il testo.'
+      );
     });
 
     it('should throw an error if pdf-parse fails', async () => {
@@ -57,4 +155,150 @@ describe('File Parser Utility Functions', () => {
       await expect(parsePdf(fakeBuffer)).rejects.toThrow('Impossibile estrarre il testo dal file PDF.');
     });
   });
+
+  describe('parseEpub', () => {
+    it('should extract the text of the content documents in spine order', async () => {
+      const zip = new JSZip();
+      zip.file('mimetype', 'application/epub+zip');
+      zip.file(
+        'META-INF/container.xml',
+        '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'
+      );
+      zip.file(
+        'OEBPS/content.opf',
+        '<package><manifest>' +
+          '<item id="c2" href="text/cap%202.xhtml" media-type="application/xhtml+xml"/>' +
+          '<item id="c1" href="text/cap1.xhtml" media-type="application/xhtml+xml"/>' +
+          '</manifest><spine><itemref idref="c1"/><itemref idref="c2"/></spine></package>'
+      );
+      zip.file(
+        'OEBPS/text/cap1.xhtml',
+        '<html><head><title>Ignorato</title></head><body><h1>Capitolo 1</h1><p>C&#x27;era una volta&hellip;</p></body></html>'
+      );
+      zip.file('OEBPS/text/cap 2.xhtml', '<html><body><p>Fine<br/>della storia.</p></body></html>');
+
+      const result = await parseEpub(await zip.generateAsync({ type: 'nodebuffer' }));
+      expect(result.text).toBe("Capitolo 1\n\nC'era una volta…\n\nFine\ndella storia.");
+    });
+
+    it('should throw an error if the file is not an EPUB container', async () => {
+      await expect(parseEpub(Buffer.from('not a zip'))).rejects.toThrow('Impossibile estrarre il testo dal file EPUB.');
+    });
+  });
+
+  describe('parseOdt', () => {
+    it('should extract paragraphs, headings, spaces and tabs from content.xml', async () => {
+      const zip = new JSZip();
+      zip.file(
+        'content.xml',
+        '<office:document-content><office:automatic-styles><style:style style:name="P1"/></office:automatic-styles>' +
+          '<office:body><office:text><text:h text:outline-level="1">Titolo</text:h>' +
+          '<text:p>Uno<text:s text:c="2"/>due<text:tab/>tre &amp; quattro<text:note-citation>1</text:note-citation></text:p>' +
+          '</office:text></office:body></office:document-content>'
+      );
+
+      const result = await parseOdt(await zip.generateAsync({ type: 'nodebuffer' }));
+      expect(result.text).toBe('Titolo\n\nUno  due tre & quattro');
+      expect(result.structure.toc).toEqual([{ heading: 'Titolo', level: 1, start: 0 }]);
+    });
+  });
+
+  describe('parseRtf', () => {
+    it('should convert RTF markup to text, decoding escaped characters', async () => {
+      const rtf =
+        "{\\rtf1\\ansi\\ansicpg1252{\\fonttbl{\\f0 Times New Roman;}}{\\*\\generator Word;}" +
+        "\\f0\\fs24 Capitolo primo\\par " +
+        "\\b Perch\\'e9\\b0  no? \\u8220\\'93citato\\u8221\\'94\\par}";
+      expect((await parseRtf(Buffer.from(rtf, 'latin1'))).text).toBe('Capitolo primo\n\nPerché no? “citato”');
+    });
+
+    it('should reject files without the RTF header', async () => {
+      await expect(parseRtf(Buffer.from('testo semplice'))).rejects.toThrow('Impossibile estrarre il testo dal file RTF.');
+    });
+
+    it('should keep escaped braces and backslashes', () => {
+      expect(rtfToText('{\\rtf1 a \\{b\\} c\\\\d}')).toBe('a {b} c\\d');
+    });
+  });
+
+  describe('markdownToText', () => {
+    it('should remove the Markdown markup and keep the text', () => {
+      const markdown = [
+        '---',
+        'title: Il romanzo',
+        '---',
+        '# Capitolo 1',
+        '',
+        'Un **giorno** di _pioggia_ con [un link](http://example.com) e `codice`.',
+        '',
+        '> Una citazione',
+        '',
+        '- primo punto',
+        '* secondo punto',
+        '',
+        '***',
+        '',
+        'snake_case_name resta intatto.',
+      ].join('\n');
+      expect(markdownToText(markdown)).toBe(
+        'Capitolo 1\n\nUn giorno di pioggia con un link e codice.\n\nUna citazione\n\nprimo punto\nsecondo punto\n\nsnake_case_name resta intatto.'
+      );
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should read the front matter and the ATX and setext headings', async () => {
+      const markdown = [
+        '---',
+        'title: "Il romanzo"',
+        'author: Anna Rossi',
+        '---',
+        'Capitolo 1',
+        '==========',
+        '',
+        'Testo del **primo** capitolo.',
+        '',
+        '# Capitolo 2',
+        '',
+        'Testo del secondo.',
+      ].join('\n');
+      const { text, structure } = await parseMarkdown(Buffer.from(markdown));
+      expect(text).toBe('Capitolo 1\n\nTesto del primo capitolo.\n\nCapitolo 2\n\nTesto del secondo.');
+      expect(structure.title).toBe('Il romanzo');
+      expect(structure.author).toBe('Anna Rossi');
+      expect(structure.chapters.map((chapter) => chapter.wordCount)).toEqual([6, 5]);
+    });
+  });
+
+  describe('parseManuscript', () => {
+    it('should select the parser from the file extension', async () => {
+      expect((await parseManuscript(Buffer.from('## Titolo'), 'libro.MD')).text).toBe('Titolo');
+    });
+
+    it('should reject unsupported extensions', async () => {
+      await expect(parseManuscript(Buffer.from(''), 'libro.txt')).rejects.toThrow('Estensione file non supportata.');
+    });
+  });
+});
+
+describe('validateUploadedFile', () => {
+  const makeFile = (originalFilename: string, mimetype: string | null, size = 1024) =>
+    ({ originalFilename, mimetype, size } as unknown as FormidableFile);
+
+  it('should accept the registered formats with a matching or generic MIME type', () => {
+    expect(validateUploadedFile(makeFile('libro.epub', 'application/epub+zip'), 1024 * 1024).valid).toBe(true);
+    expect(validateUploadedFile(makeFile('libro.md', 'application/octet-stream'), 1024 * 1024).valid).toBe(true);
+    expect(validateUploadedFile(makeFile('libro.rtf', 'text/rtf'), 1024 * 1024).valid).toBe(true);
+  });
+
+  it('should reject unknown extensions and mismatching MIME types', () => {
+    expect(validateUploadedFile(makeFile('libro.exe', 'application/octet-stream'), 1024 * 1024).error).toBe(
+      'Tipo di file non supportato. Carica solo DOCX, PDF, EPUB, ODT, RTF o Markdown.'
+    );
+    expect(validateUploadedFile(makeFile('libro.pdf', 'text/html'), 1024 * 1024).valid).toBe(false);
+  });
+
+  it('should reject files over the size limit', () => {
+    expect(validateUploadedFile(makeFile('libro.pdf', 'application/pdf', 2048), 1024).valid).toBe(false);
+  });
 });
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the background job processing in
+ * backend/workers/jobWorker.ts and backend/services/jobQueue.ts.
+ * It verifies that a processed upload stores its result and completes the file,
+ * and that failures are retried before the file is marked as failed.
+ *
+ * Key features:
+ * - Tests runJob for successful, retried and finally failed "process_upload" jobs.
+ * - Tests that a worker which lost the lock of a job does not record its outcome on the file,
+ *   and stops the job at its next progress report.
+ * - Tests that an idle worker does not accumulate listeners on its stop signal.
+ * - Tests that an error in the hooks of a job does not change its recorded outcome.
+ * - Tests the exponential backoff of computeRetryDelay.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The queue, the file service and the upload processor are mocked: no database is needed.
+ */
+
+jest.mock('../../backend/db', () => ({ db: {} }));
+jest.mock('../../backend/services/jobQueue', () => ({
+  ...jest.requireActual('../../backend/services/jobQueue'),
+  claimNextJob: jest.fn(),
+  completeJob: jest.fn(),
+  failJob: jest.fn(),
+  failStaleJobs: jest.fn(),
+  updateJobProgress: jest.fn(),
+}));
+jest.mock('../../backend/services/fileService', () => ({ updateFileStatus: jest.fn() }));
+jest.mock('../../backend/services/uploadProcessor', () => ({ processUpload: jest.fn() }));
+
+import { runJob, runWorker } from '../../backend/workers/jobWorker';
+import {
+  claimNextJob,
+  completeJob,
+  computeRetryDelay,
+  failJob,
+  failStaleJobs,
+  updateJobProgress,
+  JobRecord,
+} from '../../backend/services/jobQueue';
+import { updateFileStatus } from '../../backend/services/fileService';
+import { processUpload } from '../../backend/services/uploadProcessor';
+
+const buildJob = (overrides: Partial<JobRecord> = {}): JobRecord => ({
+  job_id: 'job-1',
+  type: 'process_upload',
+  file_id: 'file-1',
+  payload: { file_id: 'file-1' },
+  status: 'running',
+  progress: 0,
+  attempts: 1,
+  max_attempts: 3,
+  error: null,
+  result: null,
+  run_at: new Date(),
+  locked_at: new Date(),
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides,
+});
+
+describe('runJob', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('stores the result and completes the file of a processed upload', async () => {
+    const result = { extractedText: 'Testo', technicalAnalysis: { wordCount: 1 } };
+    (processUpload as jest.Mock).mockResolvedValue(result);
+    (completeJob as jest.Mock).mockResolvedValue(true);
+
+    const job = buildJob();
+    await runJob(job);
+
+    expect(processUpload).toHaveBeenCalledWith({ file_id: 'file-1' }, expect.any(Function));
+    expect(completeJob).toHaveBeenCalledWith(job, result);
+    expect(updateFileStatus).toHaveBeenCalledWith('file-1', 'complete');
+    expect(failJob).not.toHaveBeenCalled();
+  });
+
+  it('puts the file back in pending state when the job will be retried', async () => {
+    (processUpload as jest.Mock).mockRejectedValue(new Error('Impossibile estrarre il testo dal file PDF.'));
+    (failJob as jest.Mock).mockResolvedValue('retrying');
+
+    const job = buildJob();
+    await runJob(job);
+
+    expect(failJob).toHaveBeenCalledWith(job, 'Impossibile estrarre il testo dal file PDF.');
+    expect(updateFileStatus).toHaveBeenCalledWith('file-1', 'pending');
+    expect(completeJob).not.toHaveBeenCalled();
+  });
+
+  it('marks the file as failed after the last attempt', async () => {
+    (processUpload as jest.Mock).mockRejectedValue(new Error('File non trovato.'));
+    (failJob as jest.Mock).mockResolvedValue('failed');
+
+    await runJob(buildJob({ attempts: 3 }));
+
+    expect(updateFileStatus).toHaveBeenCalledWith('file-1', 'error');
+  });
+
+  it('leaves the file alone when another worker has taken over the job', async () => {
+    (processUpload as jest.Mock).mockResolvedValue({});
+    (completeJob as jest.Mock).mockResolvedValue(false);
+
+    await runJob(buildJob());
+
+    expect(updateFileStatus).not.toHaveBeenCalled();
+
+    (processUpload as jest.Mock).mockRejectedValue(new Error('File non trovato.'));
+    (failJob as jest.Mock).mockResolvedValue('lock_lost');
+
+    await runJob(buildJob());
+
+    expect(updateFileStatus).not.toHaveBeenCalled();
+  });
+
+  it('stops a job whose lock has been lost at its next progress report', async () => {
+    const steps: number[] = [];
+    (processUpload as jest.Mock).mockImplementation(async (_payload, reportProgress) => {
+      for (const progress of [10, 50, 90]) {
+        await reportProgress(progress);
+        steps.push(progress);
+      }
+      return {};
+    });
+    (updateJobProgress as jest.Mock).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    await runJob(buildJob());
+
+    expect(steps).toEqual([10]);
+    expect(completeJob).not.toHaveBeenCalled();
+    expect(failJob).not.toHaveBeenCalled();
+    expect(updateFileStatus).not.toHaveBeenCalled();
+  });
+
+  it('only logs an error thrown by the hooks of a job', async () => {
+    (processUpload as jest.Mock).mockResolvedValue({});
+    (completeJob as jest.Mock).mockResolvedValue(true);
+    (updateFileStatus as jest.Mock).mockRejectedValue(new Error('Connessione persa.'));
+
+    await expect(runJob(buildJob())).resolves.toBeUndefined();
+    expect(failJob).not.toHaveBeenCalled();
+
+    (processUpload as jest.Mock).mockRejectedValue(new Error('File non trovato.'));
+    (failJob as jest.Mock).mockResolvedValue('failed');
+
+    await expect(runJob(buildJob())).resolves.toBeUndefined();
+    expect(failJob).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledWith(
+      "Errore nell'hook onSuccess del job process_upload job-1:",
+      expect.any(Error)
+    );
+  });
+
+  it('fails unknown job types without retrying them', async () => {
+    await runJob(buildJob({ type: 'unknown' }));
+
+    expect(failJob).toHaveBeenCalledWith(
+      expect.objectContaining({ max_attempts: 1 }),
+      'Tipo di job non supportato: unknown.'
+    );
+  });
+});
+
+describe('runWorker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('removes the stop listener of every idle poll', async () => {
+    jest.useFakeTimers();
+    (failStaleJobs as jest.Mock).mockResolvedValue([]);
+    (claimNextJob as jest.Mock).mockResolvedValue(null);
+    const controller = new AbortController();
+    const addListener = jest.spyOn(controller.signal, 'addEventListener');
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    const worker = runWorker(controller.signal);
+    for (let poll = 0; poll < 5; poll++) {
+      await jest.advanceTimersByTimeAsync(2000);
+    }
+    expect(removeListener).toHaveBeenCalledTimes(5);
+    expect(addListener).toHaveBeenCalledTimes(6);
+
+    controller.abort();
+    await worker;
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('doubles the delay at every attempt up to ten minutes', () => {
+    expect(computeRetryDelay(1)).toBe(30 * 1000);
+    expect(computeRetryDelay(2)).toBe(60 * 1000);
+    expect(computeRetryDelay(3)).toBe(120 * 1000);
+    expect(computeRetryDelay(10)).toBe(10 * 60 * 1000);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the KDP keyword helpers in
+ * backend/services/keywordService.ts. It verifies that the keywords returned by the model
+ * are reduced to seven distinct phrases that respect the rules of Amazon KDP.
+ *
+ * Key features:
+ * - Tests validateKeywords with valid, duplicated, oversized, banned and malformed replies.
+ * - Tests the rejection of the words of the title.
+ * - Tests formatKeywords.
+ *
+ * @dependencies
+ * - jest: For testing.
+ */
+
+import { formatKeywords, validateKeywords, KDP_KEYWORD_MAX_BYTES } from '../../backend/services/keywordService';
+
+const phrases = [
+  'giallo ambientato a milano',
+  'commissario in pensione',
+  'romanzo poliziesco italiano',
+  'indagine tra i navigli',
+  'mistero anni sessanta',
+  'thriller psicologico',
+  'noir lombardo',
+];
+
+describe('validateKeywords', () => {
+  it('accepts seven distinct valid phrases', () => {
+    const result = validateKeywords(JSON.stringify(phrases));
+    expect(result).toEqual({ valid: true, keywords: phrases, errors: [] });
+  });
+
+  it('strips markdown code fences and extra whitespace', () => {
+    const reply = '```json\n' + JSON.stringify(phrases.map((phrase) => `  ${phrase.replace(' ', '   ')} `)) + '\n```';
+    expect(validateKeywords(reply).keywords).toEqual(phrases);
+  });
+
+  it('removes duplicates, ignoring case and accents, and keeps only seven phrases', () => {
+    const result = validateKeywords(
+      JSON.stringify(['Città di notte', 'citta di NOTTE', ...phrases.slice(0, 6), 'extra phrase'])
+    );
+    expect(result.valid).toBe(true);
+    expect(result.keywords).toEqual(['Città di notte', ...phrases.slice(0, 6)]);
+  });
+
+  it('discards phrases over the byte limit, counting multi-byte characters', () => {
+    const long = 'è'.repeat(KDP_KEYWORD_MAX_BYTES / 2 + 1);
+    const result = validateKeywords(JSON.stringify([long, ...phrases.slice(0, 6)]));
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      `"${long}" supera il limite di ${KDP_KEYWORD_MAX_BYTES} byte.`,
+      'Sono richieste 7 parole chiave valide e distinte, ricevute 6.',
+    ]);
+  });
+
+  it('rejects banned terms and words of the title', () => {
+    const result = validateKeywords(
+      JSON.stringify(['ebook gratis', 'best-seller giallo', 'Il commissario Neri', ...phrases.slice(2)]),
+      { title: 'Il commissario e la nebbia' }
+    );
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      '"ebook gratis" contiene il termine non consentito "gratis".',
+      '"best-seller giallo" contiene il termine non consentito "best seller".',
+      '"Il commissario Neri" ripete la parola "commissario" del titolo.',
+      'Sono richieste 7 parole chiave valide e distinte, ricevute 5.',
+    ]);
+  });
+
+  it('reports malformed replies', () => {
+    expect(validateKeywords('parole chiave: giallo, noir').errors).toEqual(['La risposta non è un JSON valido.']);
+    expect(validateKeywords('{"keywords": []}').errors).toEqual(['La risposta deve essere un array di stringhe.']);
+  });
+});
+
+describe('formatKeywords', () => {
+  it('stores one phrase per line', () => {
+    expect(formatKeywords(['giallo', 'noir'])).toBe('giallo\nnoir');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the LLM provider abstraction in
+ * backend/services/llmProviders.ts. It verifies the provider and model selection
+ * per content type, the deterministic mock provider and the requests sent to
+ * OpenAI-compatible servers.
+ *
+ * Key features:
+ * - Tests resolveLlmSelection with global and per-type environment variables.
+ * - Tests that the mock provider is deterministic and answers category prompts with catalog codes.
+ * - Tests that the compatible provider calls the configured base URL and passes streamed deltas through.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ * - global.fetch: Mocked to simulate the OpenAI-compatible server.
+ */
+
+import {
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  resolveLlmSelection,
+  LlmRequest,
+} from '../../backend/services/llmProviders';
+
+global.fetch = jest.fn();
+
+const request = (content: string): LlmRequest => ({
+  model: 'test-model',
+  messages: [{ role: 'user', content }],
+  temperature: 0.5,
+  max_tokens: 100,
+});
+
+describe('LLM Providers', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('resolveLlmSelection', () => {
+    it('should default to OpenAI and gpt-3.5-turbo', () => {
+      delete process.env.LLM_PROVIDER;
+      delete process.env.LLM_MODEL;
+      expect(resolveLlmSelection('blurb')).toEqual({ provider: 'openai', model: 'gpt-3.5-turbo' });
+    });
+
+    it('should prefer the per-type configuration', () => {
+      process.env.LLM_PROVIDER = 'compatible';
+      process.env.LLM_MODEL = 'llama3';
+      process.env.LLM_ANALYSIS_PROVIDER = 'mock';
+      process.env.LLM_ANALYSIS_MODEL = 'mock-large';
+      expect(resolveLlmSelection('blurb')).toEqual({ provider: 'compatible', model: 'llama3' });
+      expect(resolveLlmSelection('analysis')).toEqual({ provider: 'mock', model: 'mock-large' });
+    });
+
+    it('should throw for an unknown provider', () => {
+      process.env.LLM_PROVIDER = 'unknown';
+      expect(() => resolveLlmSelection('blurb')).toThrow('Provider LLM non supportato: unknown.');
+    });
+  });
+
+  describe('mock provider', () => {
+    it('should return the same output for the same request', async () => {
+      const provider = createMockProvider();
+      const first = await provider.complete(request('Genera un blurb'));
+      expect(await provider.complete(request('Genera un blurb'))).toBe(first);
+      expect(await provider.complete(request('Genera una descrizione'))).not.toBe(first);
+    });
+
+    it('should answer category prompts with codes from the catalog', async () => {
+      const provider = createMockProvider();
+      const output = await provider.complete(
+        request('Catalogo:\n\nFIC - Narrativa\n  FIC022 - Gialli\n  FIC027 - Rosa\n\nRispondi con "main" e "sub".')
+      );
+      expect(JSON.parse(output)).toEqual({ main: 'FIC', sub: ['FIC022', 'FIC027'] });
+    });
+
+    it('should answer keyword prompts with a JSON array of distinct phrases', async () => {
+      const provider = createMockProvider();
+      const output = await provider.complete(request('Rispondi solo con un array JSON di 7 frasi chiave distinte.'));
+      const keywords = JSON.parse(output);
+      expect(keywords).toHaveLength(7);
+      expect(new Set(keywords).size).toBe(7);
+    });
+  });
+
+  describe('OpenAI-compatible provider', () => {
+    it('should call the chat completions endpoint of the base URL', async () => {
+      (<jest.Mock>global.fetch).mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Risposta locale' } }] }),
+      });
+      const provider = createOpenAICompatibleProvider('compatible', 'http://localhost:11434/v1/');
+      const result = await provider.complete(request('Ciao'));
+
+      expect(result).toBe('Risposta locale');
+      const [url, options] = (<jest.Mock>global.fetch).mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(options.headers).not.toHaveProperty('Authorization');
+    });
+
+    it('should yield the deltas of a streamed completion', async () => {
+      const events = [
+        'data: {"choices":[{"delta":{"content":"Cap"}}]}\n\ndata: {"choices":[{"delta":{"con',
+        'tent":"itolo"}}]}\n\ndata: {"choices":[{"delta":{}}]}\n\ndata: [DONE]\n\n',
+      ];
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          events.forEach((event) => controller.enqueue(new TextEncoder().encode(event)));
+          controller.close();
+        },
+      });
+      (<jest.Mock>global.fetch).mockResolvedValue({ ok: true, body });
+
+      const provider = createOpenAICompatibleProvider('openai', 'https://api.openai.com/v1', 'key');
+      const deltas: string[] = [];
+      for await (const delta of provider.stream(request('Scrivi'))) {
+        deltas.push(delta);
+      }
+
+      expect(deltas).toEqual(['Cap', 'itolo']);
+      expect(JSON.parse((<jest.Mock>global.fetch).mock.calls.at(-1)[1].body)).toMatchObject({ stream: true });
+    });
+  });
+});
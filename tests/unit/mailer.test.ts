@@ -0,0 +1,161 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the mailer in backend/services/mailer.ts.
+ * It verifies the message source, the file mailer and the SMTP dialogue of the smtp mailer.
+ *
+ * Key features:
+ * - Tests buildMimeMessage with non-ASCII subjects and bodies, and dotStuff.
+ * - Tests that the file mailer writes one .eml file per message in a temporary directory.
+ * - Tests the commands sent by the smtp mailer to a fake SMTP server on localhost.
+ *
+ * @dependencies
+ * - jest: For testing.
+ * - net: For the fake SMTP server.
+ *
+ * @notes
+ * - The fake server does not offer STARTTLS, so the whole dialogue happens in clear text.
+ */
+
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { buildMimeMessage, createFileMailer, createSmtpMailer, dotStuff } from '../../backend/services/mailer';
+
+const message = {
+  to: 'autore@example.com',
+  subject: 'Verifica è richiesta',
+  text: 'Ciao,\napri il link.',
+};
+
+describe('buildMimeMessage', () => {
+  it('encodes the subject and the body as UTF-8', () => {
+    const source = buildMimeMessage('YCP <noreply@ycp.it>', message, new Date('2025-01-02T03:04:05Z'));
+    const [headers, body] = source.split('\r\n\r\n');
+
+    expect(headers).toContain('From: YCP <noreply@ycp.it>');
+    expect(headers).toContain('To: autore@example.com');
+    expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`);
+    expect(headers).toContain('Date: Thu, 02 Jan 2025 03:04:05 GMT');
+    expect(headers).toMatch(/Message-ID: <[0-9a-f-]+@ycp\.it>/);
+    expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')).toBe('Ciao,\r\napri il link.');
+  });
+
+  it('keeps ASCII subjects as they are', () => {
+    expect(buildMimeMessage('noreply@ycp.it', { ...message, subject: 'Benvenuto' })).toContain('Subject: Benvenuto\r\n');
+  });
+});
+
+describe('dotStuff', () => {
+  it('doubles the dots at the start of a line', () => {
+    expect(dotStuff('.inizio\r\nmezzo.\r\n.')).toBe('..inizio\r\nmezzo.\r\n..');
+  });
+});
+
+describe('createFileMailer', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mailer-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes one .eml file per message', async () => {
+    const mailer = createFileMailer('noreply@ycp.it', path.join(directory, 'mail'));
+    await mailer.send(message);
+    await mailer.send(message);
+
+    const files = await fs.promises.readdir(path.join(directory, 'mail'));
+    expect(files).toHaveLength(2);
+    expect(files.every((file) => file.endsWith('.eml'))).toBe(true);
+    const source = await fs.promises.readFile(path.join(directory, 'mail', files[0]), 'utf8');
+    expect(source).toContain('To: autore@example.com');
+  });
+});
+
+describe('createSmtpMailer', () => {
+  let server: net.Server;
+  let commands: string[];
+  let data: string;
+
+  beforeEach(async () => {
+    commands = [];
+    data = '';
+    server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith('EHLO')) {
+            socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+          } else if (line.startsWith('AUTH')) {
+            socket.write('235 ok\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('authenticates and sends the message', async () => {
+    const { port } = server.address() as net.AddressInfo;
+    const mailer = createSmtpMailer('YCP <noreply@ycp.it>', {
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'utente',
+      password: 'segreta',
+    });
+
+    await mailer.send({ ...message, text: '.riga con punto' });
+
+    expect(commands[0]).toMatch(/^EHLO /);
+    expect(commands[1]).toBe(`AUTH PLAIN ${Buffer.from('\u0000utente\u0000segreta').toString('base64')}`);
+    expect(commands.slice(2)).toEqual(['MAIL FROM:<noreply@ycp.it>', 'RCPT TO:<autore@example.com>', 'DATA', 'QUIT']);
+    expect(data).toContain('To: autore@example.com\r\n');
+  });
+
+  it('rejects when the server refuses the recipient', async () => {
+    server.removeAllListeners('connection');
+    server.on('connection', (socket) => {
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        const line = chunk.toString('utf8');
+        socket.write(line.startsWith('RCPT') ? '550 no such user\r\n' : '250 ok\r\n');
+      });
+    });
+    const { port } = server.address() as net.AddressInfo;
+    const mailer = createSmtpMailer('noreply@ycp.it', { host: '127.0.0.1', port, secure: false });
+
+    await expect(mailer.send(message)).rejects.toThrow('550 no such user');
+  });
+});
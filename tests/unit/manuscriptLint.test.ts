@@ -0,0 +1,116 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the manuscript lint in backend/services/manuscriptLint.ts.
+ *
+ * Key features:
+ * - Tests every check: double spaces, quotation marks, apostrophes, ellipses, orphan headings,
+ *   empty pages, long paragraphs and repeated words.
+ * - Tests the locations (line and section), the excerpts, the counts and the cap on listed issues.
+ *
+ * @dependencies
+ * - jest: For testing.
+ *
+ * @notes
+ * - The documents are built with buildStructuredDocument, as the parsers do.
+ */
+
+import { buildStructuredDocument, DocumentBlock, StructuredDocument } from '../../backend/services/documentStructure';
+import { lintManuscript, MAX_ISSUES_PER_RULE, MAX_PARAGRAPH_WORDS } from '../../backend/services/manuscriptLint';
+
+const heading = (text: string, level: number): DocumentBlock => ({ type: 'heading', text, level });
+const paragraph = (text: string): DocumentBlock => ({ type: 'paragraph', text });
+const documentOf = (...texts: string[]): StructuredDocument => buildStructuredDocument(texts.map(paragraph));
+
+describe('lintManuscript', () => {
+  it('returns an empty report for a clean manuscript', () => {
+    const report = lintManuscript(documentOf('Un testo «pulito», senza problemi.', 'L’ultima riga… e basta.'));
+    expect(report.total).toBe(0);
+    expect(report.issues).toEqual([]);
+    expect(report.counts.double_space).toBe(0);
+  });
+
+  it('reports double spaces with their line and excerpt', () => {
+    const report = lintManuscript(documentOf('Prima riga.', 'Una frase.  Poi  un altra.'));
+    expect(report.counts.double_space).toBe(2);
+    expect(report.issues[0]).toEqual({
+      rule: 'double_space',
+      message: 'Spazi multipli consecutivi.',
+      location: { offset: 23, line: 3, section: null },
+      excerpt: 'Prima riga. Una frase.  Poi  un altra.',
+    });
+  });
+
+  it('reports the quotation marks of the minority style', () => {
+    const report = lintManuscript(documentOf('«Uno» e «due».', 'Poi "tre".'));
+    expect(report.counts.mixed_quotes).toBe(1);
+    expect(report.issues[0].message).toBe(
+      'Virgolette dritte (" ") in un testo che usa prevalentemente le virgolette basse (« »).'
+    );
+    expect(report.issues[0].location.offset).toBe(20);
+  });
+
+  it('reports straight apostrophes in a text with typographic ones', () => {
+    const report = lintManuscript(documentOf('L’amico dell’isola', "e l'altro."));
+    expect(report.counts.mixed_apostrophes).toBe(1);
+    expect(report.issues[0].message).toContain("Apostrofo dritto (')");
+  });
+
+  it('reports malformed and inconsistent ellipses', () => {
+    const report = lintManuscript(documentOf('Forse… forse no… e poi...', 'Mah.. chissà. . .'));
+    expect(report.counts.inconsistent_ellipsis).toBe(3);
+    expect(report.issues.map((issue) => issue.message)).toEqual([
+      'Puntini di sospensione scritti con tre punti (...) in un testo che usa prevalentemente il carattere unico (…).',
+      'Puntini di sospensione irregolari (".."): usare tre punti o il carattere "…".',
+      'Puntini di sospensione irregolari (". . ."): usare tre punti o il carattere "…".',
+    ]);
+  });
+
+  it('reports the headings without text, but not those followed by a subsection', () => {
+    const document = buildStructuredDocument([
+      heading('Parte prima', 1),
+      heading('Capitolo 1', 2),
+      paragraph('Testo.'),
+      heading('Capitolo 2', 2),
+      heading('Capitolo 3', 2),
+      paragraph('Altro testo.'),
+      heading('Ringraziamenti', 2),
+    ]);
+    const report = lintManuscript(document);
+    expect(report.issues.map((issue) => [issue.message, issue.location.section])).toEqual([
+      ['Titolo "Capitolo 2" senza testo.', 'Capitolo 2'],
+      ['Titolo "Ringraziamenti" senza testo.', 'Ringraziamenti'],
+    ]);
+  });
+
+  it('reports the empty pages first', () => {
+    const report = lintManuscript({ ...documentOf('Testo  doppio.'), emptyPages: [2, 5] });
+    expect(report.issues.map((issue) => issue.location)).toEqual([
+      { page: 2 },
+      { page: 5 },
+      { offset: 5, line: 1, section: null },
+    ]);
+    expect(report.issues[0].message).toBe('La pagina 2 non contiene testo.');
+  });
+
+  it('reports the very long paragraphs', () => {
+    const long = `${'parola '.repeat(MAX_PARAGRAPH_WORDS)}fine.`;
+    const report = lintManuscript(documentOf('Breve.', long));
+    expect(report.counts.long_paragraph).toBe(1);
+    expect(report.issues[0].message).toBe(`Paragrafo molto lungo (${MAX_PARAGRAPH_WORDS + 1} parole): valutare di suddividerlo.`);
+    expect(report.issues[0].location.line).toBe(3);
+  });
+
+  it('reports repeated words, except across paragraphs and the intentional reduplications', () => {
+    const report = lintManuscript(documentOf('Era il il giorno, piano piano.', 'Giorno dopo giorno', 'giorno.'));
+    expect(report.counts.repeated_word).toBe(1);
+    expect(report.issues[0].message).toBe('Parola ripetuta: "il il".');
+  });
+
+  it('lists a limited number of issues for each rule but counts them all', () => {
+    const words = Array.from({ length: MAX_ISSUES_PER_RULE + 11 }, (_value, index) => `n${index}`);
+    const report = lintManuscript(documentOf(words.join('  ')));
+    expect(report.counts.double_space).toBe(MAX_ISSUES_PER_RULE + 10);
+    expect(report.total).toBe(MAX_ISSUES_PER_RULE + 10);
+    expect(report.issues).toHaveLength(MAX_ISSUES_PER_RULE);
+  });
+});
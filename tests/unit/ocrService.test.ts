@@ -0,0 +1,108 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the OCR fallback in backend/services/ocrService.ts.
+ *
+ * Key features:
+ * - Tests the detection of scanned PDFs from the letters of each page.
+ * - Tests the rebuilding of lines and paragraphs from the TSV output of Tesseract.
+ * - Tests the page by page calls to pdftoppm and tesseract, and the OCR summary.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ * - child_process: Mocked, so that pdftoppm and tesseract are not needed.
+ */
+
+jest.mock('child_process', () => ({ execFile: jest.fn() }));
+
+import { execFile } from 'child_process';
+import {
+  findPagesToOcr,
+  getOcrConfig,
+  parseTesseractTsv,
+  recognizePdfPages,
+  summarizeOcr,
+  MIN_LETTERS_PER_PAGE,
+} from '../../backend/services/ocrService';
+
+const TSV_HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+
+// Builds a TSV row of a word: block, paragraph, line, confidence and text
+const word = (block: number, paragraph: number, line: number, conf: number, text: string) =>
+  `5\t1\t${block}\t${paragraph}\t${line}\t1\t0\t0\t10\t10\t${conf}\t${text}`;
+
+describe('findPagesToOcr', () => {
+  const fullPage = 'a'.repeat(MIN_LETTERS_PER_PAGE * 2);
+
+  it('returns no pages for a PDF with a text layer', () => {
+    expect(findPagesToOcr([fullPage, '', fullPage])).toEqual([]);
+    expect(findPagesToOcr([])).toEqual([]);
+  });
+
+  it('returns the pages with little text of a scanned PDF', () => {
+    expect(findPagesToOcr(['', '12', fullPage, '13'])).toEqual([1, 2, 4]);
+  });
+});
+
+describe('parseTesseractTsv', () => {
+  it('rebuilds lines and paragraphs and averages the word confidences', () => {
+    const tsv = [
+      TSV_HEADER,
+      '1\t1\t0\t0\t0\t0\t0\t0\t100\t100\t-1\t',
+      word(1, 1, 1, 96, 'Capitolo'),
+      word(1, 1, 1, 94, '1'),
+      word(1, 2, 1, 90, 'Era'),
+      word(1, 2, 1, 80, 'una'),
+      word(1, 2, 2, 70, 'notte.'),
+      word(1, 2, 2, -1, ''),
+    ].join('\n');
+    expect(parseTesseractTsv(tsv)).toEqual({ text: 'Capitolo 1\n\nEra una\nnotte.', confidence: 86, wordCount: 5 });
+  });
+
+  it('returns an empty text for a page without words', () => {
+    expect(parseTesseractTsv(`${TSV_HEADER}\n`)).toEqual({ text: '', confidence: 0, wordCount: 0 });
+  });
+});
+
+describe('recognizePdfPages', () => {
+  afterEach(() => {
+    (<jest.Mock>(<unknown>execFile)).mockReset();
+  });
+
+  it('renders and recognizes the pages one at a time', async () => {
+    (<jest.Mock>(<unknown>execFile)).mockImplementation((command: string, _args: string[], _options, callback) => {
+      callback(null, { stdout: command === 'tesseract' ? `${TSV_HEADER}\n${word(1, 1, 1, 90, 'Testo')}` : '', stderr: '' });
+    });
+    const config = { ...getOcrConfig(), language: 'ita', tessdataDir: '/opt/tessdata', dpi: 200 };
+    const results = await recognizePdfPages(Buffer.from('fake pdf data'), [2, 5], config);
+
+    expect(results).toEqual([
+      { page: 2, text: 'Testo', confidence: 90, wordCount: 1 },
+      { page: 5, text: 'Testo', confidence: 90, wordCount: 1 },
+    ]);
+    const calls = (<jest.Mock>(<unknown>execFile)).mock.calls;
+    expect(calls.map(([command]) => command)).toEqual(['pdftoppm', 'tesseract', 'pdftoppm', 'tesseract']);
+    expect(calls[0][1]).toEqual(expect.arrayContaining(['-f', '2', '-l', '2', '-r', '200']));
+    expect(calls[1][1]).toEqual(expect.arrayContaining(['-l', 'ita', '--tessdata-dir', '/opt/tessdata', 'tsv']));
+  });
+
+  it('fails if a tool cannot be run', async () => {
+    (<jest.Mock>(<unknown>execFile)).mockImplementation((_command, _args, _options, callback) => {
+      callback(new Error('spawn pdftoppm ENOENT'));
+    });
+    await expect(recognizePdfPages(Buffer.from('fake pdf data'), [1], getOcrConfig())).rejects.toThrow('ENOENT');
+  });
+});
+
+describe('summarizeOcr', () => {
+  it('lists the pages and weights the confidence by the words of each page', () => {
+    const summary = summarizeOcr(
+      [
+        { page: 1, text: 'a b c', confidence: 90, wordCount: 3 },
+        { page: 2, text: 'd', confidence: 50, wordCount: 1 },
+        { page: 3, text: '', confidence: 0, wordCount: 0 },
+      ],
+      'ita'
+    );
+    expect(summary).toEqual({ engine: 'tesseract', language: 'ita', pages: [1, 2, 3], confidence: 80 });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the API endpoint of the generated content history,
+ * pages/api/files/[id]/outputs.ts. It verifies the access check, the history returned by GET
+ * and the edited versions saved by POST.
+ *
+ * Key features:
+ * - Tests that a file the user cannot see gets a 404.
+ * - Tests GET with the history of the file.
+ * - Tests POST with valid and invalid edits, and the record in the session history.
+ * - Tests that edited keywords and categories are checked like the generated ones, the keywords
+ *   against the title of the book too.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The authentication and role middlewares are replaced by pass-through wrappers, and the services
+ *   are mocked: the handler receives the request as withAuth and withRole would leave it.
+ */
+
+jest.mock('../../backend/db', () => ({ db: {} }));
+jest.mock('../../backend/middleware/authMiddleware', () => ({ withAuth: (handler: unknown) => handler }));
+jest.mock('../../backend/middleware/roleMiddleware', () => ({
+  withRole: (_roles: unknown, handler: unknown) => handler,
+}));
+jest.mock('../../backend/services/fileService', () => ({ getFileForUser: jest.fn() }));
+jest.mock('../../backend/services/aiOutputService', () => ({
+  ...jest.requireActual('../../backend/services/aiOutputService'),
+  getOutputHistory: jest.fn(),
+  saveAIOutput: jest.fn(),
+}));
+jest.mock('../../backend/services/logService', () => ({ recordSessionHistory: jest.fn() }));
+jest.mock('../../backend/services/catalogService', () => ({
+  ...jest.requireActual('../../backend/services/catalogService'),
+  getCurrentCatalog: jest.fn(),
+}));
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '../../pages/api/files/[id]/outputs';
+import { getFileForUser } from '../../backend/services/fileService';
+import { getOutputHistory, saveAIOutput } from '../../backend/services/aiOutputService';
+import { recordSessionHistory } from '../../backend/services/logService';
+import { getCurrentCatalog } from '../../backend/services/catalogService';
+
+const fileId = '0e6b8a52-3f1d-4c2b-9a7e-5d4c3b2a1f0e';
+const user = { user_id: 'user-1', username: 'mario', email: 'mario@example.com', role: 'author', imprint: null };
+
+// Calls the handler and returns the status and the body of the response
+const call = async (method: string, body?: unknown) => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  const req = { method, query: { id: fileId }, body, user } as unknown as NextApiRequest;
+  await handler(req, res as unknown as NextApiResponse);
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (getFileForUser as jest.Mock).mockResolvedValue({ file_id: fileId, user_id: 'user-1', file_name: 'La nebbia di Milano.docx' });
+  (saveAIOutput as jest.Mock).mockResolvedValue({ output_id: 'output-2' });
+});
+
+describe('GET /api/files/[id]/outputs', () => {
+  it('returns the history of the file', async () => {
+    const outputs = { blurb: [{ output_id: 'output-1', content: 'Testo' }] };
+    (getOutputHistory as jest.Mock).mockResolvedValue(outputs);
+
+    const { status, body } = await call('GET');
+
+    expect(status).toBe(200);
+    expect(body.data).toEqual({ file_id: fileId, outputs });
+    expect(getFileForUser).toHaveBeenCalledWith(fileId, user);
+  });
+
+  it('answers 404 for a file the user cannot see', async () => {
+    (getFileForUser as jest.Mock).mockResolvedValue(null);
+
+    const { status } = await call('GET');
+
+    expect(status).toBe(404);
+    expect(getOutputHistory).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/files/[id]/outputs', () => {
+  it('saves an edited version and records it in the session history', async () => {
+    const { status, body } = await call('POST', {
+      type: 'blurb',
+      content: 'Una nuova quarta di copertina.',
+      language: 'en',
+      previous_output_id: 'output-1',
+    });
+
+    expect(status).toBe(201);
+    expect(body.data).toEqual({ output_id: 'output-2' });
+    expect(saveAIOutput).toHaveBeenCalledWith(fileId, 'blurb', 'Una nuova quarta di copertina.', true, 'en');
+    expect(recordSessionHistory).toHaveBeenCalledWith('user-1', fileId, {
+      action: 'edit',
+      type: 'blurb',
+      language: 'en',
+      output_id: 'output-2',
+      previous_output_id: 'output-1',
+    });
+  });
+
+  it('rejects missing content, unknown types and unsupported languages', async () => {
+    expect((await call('POST', { type: 'blurb', content: '  ' })).status).toBe(400);
+    expect((await call('POST', { type: 'poem', content: 'Testo' })).status).toBe(400);
+    expect((await call('POST', { type: 'blurb', content: 'Testo', language: 'pt' })).status).toBe(400);
+    expect(saveAIOutput).not.toHaveBeenCalled();
+  });
+
+  it('rejects edited keywords that break the KDP rules', async () => {
+    const { status, body } = await call('POST', { type: 'keywords', content: 'giallo\nbestseller assoluto' });
+
+    expect(status).toBe(400);
+    expect(body.details).toContain('"bestseller assoluto" contiene il termine non consentito "bestseller".');
+    expect(saveAIOutput).not.toHaveBeenCalled();
+  });
+
+  it('rejects edited keywords that repeat the words of the title taken from the file name', async () => {
+    const { status, body } = await call('POST', { type: 'keywords', content: 'giallo\nnebbia padana' });
+
+    expect(status).toBe(400);
+    expect(body.details).toContain('"nebbia padana" ripete la parola "nebbia" del titolo.');
+    expect(saveAIOutput).not.toHaveBeenCalled();
+  });
+
+  it('saves edited keywords that respect the KDP rules, one per line', async () => {
+    const phrases = ['giallo storico', 'romanzo noir', 'indagine', 'commissario', 'delitto', 'mistero', 'thriller'];
+
+    const { status } = await call('POST', { type: 'keywords', content: `${phrases.join('\n')}\n\n` });
+
+    expect(status).toBe(201);
+    expect(saveAIOutput).toHaveBeenCalledWith(fileId, 'keywords', phrases.join('\n'), true, 'it');
+  });
+
+  it('checks edited categories against the current catalog', async () => {
+    (getCurrentCatalog as jest.Mock).mockResolvedValue({
+      categories: [{ code: 'FIC', label: 'Narrativa', children: [{ code: 'FIC022', label: 'Gialli' }] }],
+    });
+
+    const invalid = await call('POST', { type: 'categories', content: '{"main": "FIC", "sub": ["FIC022", "HIS"]}' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.details).toContain('Sottocategoria sconosciuta: HIS.');
+    expect(saveAIOutput).not.toHaveBeenCalled();
+
+    (getCurrentCatalog as jest.Mock).mockResolvedValue({
+      categories: [
+        { code: 'FIC', label: 'Narrativa', children: [{ code: 'FIC022', label: 'Gialli' }] },
+        { code: 'HIS', label: 'Storia' },
+      ],
+    });
+    const valid = await call('POST', { type: 'categories', content: '{"main": "FIC", "sub": ["FIC022", "HIS"]}' });
+    expect(valid.status).toBe(201);
+    expect(saveAIOutput).toHaveBeenCalledWith(fileId, 'categories', '{"main":"FIC","sub":["FIC022","HIS"]}', true, 'it');
+  });
+
+  it('rejects the other methods', async () => {
+    expect((await call('DELETE')).status).toBe(405);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the prompt template helpers in
+ * backend/services/promptTemplateService.ts. It verifies that the {{variable}}
+ * placeholders are filled in and that invalid templates are rejected before being stored.
+ *
+ * Key features:
+ * - Tests renderPromptTemplate with all, some and unknown variables.
+ * - Tests validatePromptTemplate and validatePromptVariables.
+ * - Tests canViewTemplate and canManageTemplate for user and imprint templates and for each role.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The database connection is mocked since only the pure helpers are tested.
+ */
+
+jest.mock('../../backend/db', () => ({ db: {} }));
+
+import {
+  canManageTemplate,
+  canViewTemplate,
+  defaultPromptTemplates,
+  renderPromptTemplate,
+  validatePromptTemplate,
+  validatePromptVariables,
+  PromptTemplateRecord,
+} from '../../backend/services/promptTemplateService';
+import type { UserAccess } from '../../backend/services/accessService';
+
+const buildTemplate = (overrides: Partial<PromptTemplateRecord>): PromptTemplateRecord => ({
+  template_id: 'tpl-1',
+  scope: 'user',
+  user_id: 'user-1',
+  imprint: null,
+  generation_type: 'blurb',
+  language: 'it',
+  template: 'Scrivi una quarta di copertina:\n\n{{text}}',
+  created_at: null,
+  updated_at: null,
+  ...overrides,
+});
+
+describe('renderPromptTemplate', () => {
+  it('replaces every supported variable', () => {
+    const prompt = renderPromptTemplate(
+      'Quarta di "{{title}}" per {{ audience }}, al massimo {{maxWords}} parole:\n\n{{text}}',
+      { text: 'Testo del libro', title: 'Il mare', audience: 'ragazzi', maxWords: 120 }
+    );
+    expect(prompt).toBe('Quarta di "Il mare" per ragazzi, al massimo 120 parole:\n\nTesto del libro');
+  });
+
+  it('replaces variables without a value with an empty string', () => {
+    expect(renderPromptTemplate('{{title}}|{{audience}}|{{text}}', { text: 'T' })).toBe('||T');
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    expect(renderPromptTemplate('{{genre}} {{text}}', { text: 'T' })).toBe('{{genre}} T');
+  });
+
+  it('renders the built-in defaults of every language with the source text', () => {
+    expect(renderPromptTemplate(defaultPromptTemplates.it.blurb, { text: 'Testo' })).toMatch(/contenuto:\n\nTesto$/);
+    expect(renderPromptTemplate(defaultPromptTemplates.en.blurb, { text: 'Testo' })).toMatch(/in English .*:\n\nTesto$/);
+  });
+
+  it('defines a valid built-in template for every language and type', () => {
+    for (const templates of Object.values(defaultPromptTemplates)) {
+      for (const template of Object.values(templates)) {
+        expect(validatePromptTemplate(template)).toEqual([]);
+      }
+    }
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it('accepts a template using the supported variables', () => {
+    expect(validatePromptTemplate('Per {{audience}}, {{maxWords}} parole: {{text}}')).toEqual([]);
+  });
+
+  it('requires the {{text}} variable', () => {
+    expect(validatePromptTemplate('Scrivi una quarta per {{title}}')).toEqual([
+      'Il modello deve contenere la variabile {{text}}.',
+    ]);
+  });
+
+  it('reports unknown variables and empty templates', () => {
+    expect(validatePromptTemplate('{{genre}} {{text}}')).toEqual(['Variabile sconosciuta: {{genre}}.']);
+    expect(validatePromptTemplate('   ')).toEqual(['Il modello non può essere vuoto.']);
+  });
+});
+
+describe('validatePromptVariables', () => {
+  it('accepts missing or well-formed variables', () => {
+    expect(validatePromptVariables({})).toEqual([]);
+    expect(validatePromptVariables({ title: 'Il mare', audience: 'adulti', maxWords: 200 })).toEqual([]);
+  });
+
+  it('rejects a maxWords value that is not a positive integer', () => {
+    expect(validatePromptVariables({ maxWords: 0 })).toHaveLength(1);
+    expect(validatePromptVariables({ maxWords: 12.5 })).toHaveLength(1);
+  });
+});
+
+const editor = (imprint: string | null): UserAccess => ({ user_id: 'user-2', role: 'editor', imprint });
+
+describe('canManageTemplate', () => {
+  it('lets users manage only their own user templates', () => {
+    const template = buildTemplate({});
+    expect(canManageTemplate(template, { user_id: 'user-1', role: 'author', imprint: null })).toBe(true);
+    expect(canManageTemplate(template, { user_id: 'user-2', role: 'author', imprint: null })).toBe(false);
+  });
+
+  it('lets the editors of an imprint manage its templates', () => {
+    const template = buildTemplate({ scope: 'imprint', user_id: null, imprint: 'Narrativa' });
+    expect(canManageTemplate(template, editor('Narrativa'))).toBe(true);
+    expect(canManageTemplate(template, editor('Saggistica'))).toBe(false);
+    expect(canManageTemplate(template, editor(null))).toBe(false);
+  });
+
+  it('lets the authors of an imprint read its templates without changing them', () => {
+    const template = buildTemplate({ scope: 'imprint', user_id: null, imprint: 'Narrativa' });
+    const author: UserAccess = { user_id: 'user-3', role: 'author', imprint: 'Narrativa' };
+    expect(canViewTemplate(template, author)).toBe(true);
+    expect(canManageTemplate(template, author)).toBe(false);
+  });
+
+  it('lets the admins manage every template', () => {
+    const admin: UserAccess = { user_id: 'admin-1', role: 'admin', imprint: null };
+    expect(canManageTemplate(buildTemplate({}), admin)).toBe(true);
+    expect(canManageTemplate(buildTemplate({ scope: 'imprint', user_id: null, imprint: 'Narrativa' }), admin)).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the API endpoint of a single prompt template,
+ * pages/api/templates/[id].ts. It verifies the identifiers that are not UUIDs and the log entries
+ * written for the changes and the deletions of a template.
+ *
+ * Key features:
+ * - Tests that an identifier that is not a UUID gets a 404 without querying the templates.
+ * - Tests that PUT and DELETE record the template_update and template_delete log entries.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The authentication and role middlewares are replaced by pass-through wrappers, and the storage
+ *   functions of the service are mocked; the access checks are the real ones.
+ */
+
+jest.mock('../../backend/db', () => ({ db: {} }));
+jest.mock('../../backend/middleware/authMiddleware', () => ({ withAuth: (handler: unknown) => handler }));
+jest.mock('../../backend/middleware/roleMiddleware', () => ({
+  withRole: (_roles: unknown, handler: unknown) => handler,
+}));
+jest.mock('../../backend/services/promptTemplateService', () => ({
+  ...jest.requireActual('../../backend/services/promptTemplateService'),
+  getPromptTemplateById: jest.fn(),
+  updatePromptTemplate: jest.fn(),
+  deletePromptTemplate: jest.fn(),
+}));
+jest.mock('../../backend/services/logService', () => ({ recordLog: jest.fn() }));
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '../../pages/api/templates/[id]';
+import {
+  deletePromptTemplate,
+  getPromptTemplateById,
+  updatePromptTemplate,
+} from '../../backend/services/promptTemplateService';
+import { recordLog } from '../../backend/services/logService';
+
+const templateId = '5b7c1e2a-9d3f-4a6b-8c1d-2e3f4a5b6c7d';
+const user = { user_id: 'user-1', username: 'mario', email: 'mario@example.com', role: 'author', imprint: null };
+const record = {
+  template_id: templateId,
+  scope: 'user',
+  user_id: 'user-1',
+  imprint: null,
+  generation_type: 'blurb',
+  language: 'it',
+  template: 'Scrivi una quarta di copertina per {{text}}',
+};
+
+// Calls the handler and returns the status and the body of the response
+const call = async (method: string, id: string, body?: unknown) => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  const req = { method, query: { id }, body, user } as unknown as NextApiRequest;
+  await handler(req, res as unknown as NextApiResponse);
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (getPromptTemplateById as jest.Mock).mockResolvedValue(record);
+});
+
+describe('/api/templates/[id]', () => {
+  it('answers 404 for an identifier that is not a UUID', async () => {
+    const { status } = await call('GET', 'non-un-uuid');
+
+    expect(status).toBe(404);
+    expect(getPromptTemplateById).not.toHaveBeenCalled();
+  });
+
+  it('logs the change of a template', async () => {
+    const template = 'Scrivi una quarta di copertina breve per {{text}}';
+    (updatePromptTemplate as jest.Mock).mockResolvedValue({ ...record, template });
+
+    const { status } = await call('PUT', templateId, { template });
+
+    expect(status).toBe(200);
+    expect(recordLog).toHaveBeenCalledWith('user-1', 'template_update', 'Updated user template for blurb (it).', {
+      template_id: templateId,
+      scope: 'user',
+      generation_type: 'blurb',
+      language: 'it',
+    });
+  });
+
+  it('logs the deletion of a template', async () => {
+    (deletePromptTemplate as jest.Mock).mockResolvedValue(true);
+
+    const { status } = await call('DELETE', templateId);
+
+    expect(status).toBe(200);
+    expect(recordLog).toHaveBeenCalledWith(
+      'user-1',
+      'template_delete',
+      'Deleted user template for blurb (it).',
+      expect.objectContaining({ template_id: templateId })
+    );
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the manuscript chunking utilities in
+ * backend/utils/textChunker.ts. It verifies that long texts are split on
+ * chapter headings and that every chunk respects the token limit.
+ *
+ * Key features:
+ * - Tests chapter detection and merging of short chapters.
+ * - Tests paragraph splitting of oversized chapters.
+ * - Tests the truncation of a text to a token limit.
+ *
+ * @dependencies
+ * - jest: For testing.
+ */
+
+import { estimateTokens, splitIntoChunks, truncateToTokens } from '../../backend/utils/textChunker';
+
+const paragraph = (words: number) => Array.from({ length: words }, () => 'parola').join(' ') + '.';
+
+describe('Text Chunker', () => {
+  it('should return an empty list for an empty text', () => {
+    expect(splitIntoChunks('   ', 100)).toEqual([]);
+  });
+
+  it('should keep a short text in a single chunk', () => {
+    expect(splitIntoChunks('Capitolo 1\nC’era una volta.', 100)).toEqual(['Capitolo 1\nC’era una volta.']);
+  });
+
+  it('should split on chapter headings when chapters do not fit together', () => {
+    const text = `Capitolo 1\n${paragraph(60)}\n\nCAPITOLO II\n${paragraph(60)}\n\nCapitolo terzo\n${paragraph(60)}`;
+    const chunks = splitIntoChunks(text, 120);
+    expect(chunks).toHaveLength(3);
+    expect(chunks[1].startsWith('CAPITOLO II')).toBe(true);
+    expect(chunks[2].startsWith('Capitolo terzo')).toBe(true);
+  });
+
+  it('should not treat sentences starting with a keyword as headings', () => {
+    const text = `${paragraph(10)}\nParte di lui voleva restare.`;
+    expect(splitIntoChunks(text, 1000)).toHaveLength(1);
+  });
+
+  it('should split oversized chapters by paragraph within the limit', () => {
+    const text = ['Capitolo 1', paragraph(50), paragraph(50), paragraph(50)].join('\n\n');
+    const chunks = splitIntoChunks(text, 100);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(estimateTokens(chunk)).toBeLessThanOrEqual(100));
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('should keep a text within the limit unchanged', () => {
+    expect(truncateToTokens('Breve testo.', 100)).toBe('Breve testo.');
+  });
+
+  it('should cut at the end of the last paragraph that fits', () => {
+    const text = `${paragraph(10)}\n\n${paragraph(10)}\n\n${paragraph(10)}`;
+    expect(truncateToTokens(text, 40)).toBe(`${paragraph(10)}\n\n${paragraph(10)}`);
+  });
+
+  it('should cut inside a paragraph longer than the limit', () => {
+    const truncated = truncateToTokens(paragraph(100), 10);
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(10);
+    expect(truncated.length).toBeGreaterThan(0);
+  });
+});
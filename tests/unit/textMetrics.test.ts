@@ -0,0 +1,147 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the Italian text metrics in backend/utils/textMetrics.ts
+ * and for their use in analyzeDocument (backend/services/fileAnalysis.ts).
+ *
+ * Key features:
+ * - Tests the sentence split on abbreviations, initials, decimals, ellipses and paragraphs.
+ * - Tests the syllable count and the Gulpease and Flesch-Vacca indexes.
+ * - Tests the dialogue ratio, sentence length statistics, type-token ratio, frequent terms and reading time.
+ *
+ * @dependencies
+ * - jest: For testing.
+ */
+
+import { analyzeDocument } from '../../backend/services/fileAnalysis';
+import {
+  countSyllables,
+  dialogueRatio,
+  estimateReadingTime,
+  fleschVaccaIndex,
+  gulpeaseIndex,
+  sentenceLengthStats,
+  splitSentences,
+  tokenizeWords,
+  topTerms,
+  typeTokenRatio,
+} from '../../backend/utils/textMetrics';
+
+describe('splitSentences', () => {
+  it('does not split on abbreviations, initials, decimals and ellipses within a sentence', () => {
+    const text = 'Il Sig. Rossi arrivò alle 3.15 in punto... e nessuno lo vide. A. Manzoni lavorava alla S.p.A. di famiglia.';
+    expect(splitSentences(text)).toEqual([
+      'Il Sig. Rossi arrivò alle 3.15 in punto... e nessuno lo vide.',
+      'A. Manzoni lavorava alla S.p.A. di famiglia.',
+    ]);
+  });
+
+  it('splits on question and exclamation marks, closing quotes and sentence-final abbreviations', () => {
+    expect(splitSentences('Lei rispose: «Non posso.» Perché? Frutta, verdura ecc. Poi partì!')).toEqual([
+      'Lei rispose: «Non posso.»',
+      'Perché?',
+      'Frutta, verdura ecc.',
+      'Poi partì!',
+    ]);
+  });
+
+  it('ends a sentence at every paragraph and ignores lines without words', () => {
+    expect(splitSentences('Capitolo 1\n\nEra notte\nsulla città.\n\n* * *\n\nFine')).toEqual([
+      'Capitolo 1',
+      'Era notte sulla città.',
+      'Fine',
+    ]);
+  });
+});
+
+describe('countSyllables', () => {
+  it('counts vowel groups and separates the hiatuses', () => {
+    expect(countSyllables('gatto')).toBe(2);
+    expect(countSyllables('giorno')).toBe(2);
+    expect(countSyllables('chiesa')).toBe(2);
+    expect(countSyllables('poeta')).toBe(3);
+    expect(countSyllables('mormorìo')).toBe(4);
+    expect(countSyllables('città')).toBe(2);
+  });
+});
+
+describe('readability indexes', () => {
+  it('computes the Gulpease index from letters, words and sentences', () => {
+    const words = tokenizeWords('La documentazione amministrativa richiede approfondimenti.');
+    // 89 + (300 * 1 - 10 * 53) / 5
+    expect(gulpeaseIndex(words, 1)).toBe(43);
+  });
+
+  it('computes the Flesch-Vacca index from syllables and sentence length', () => {
+    const words = tokenizeWords('Il gatto dorme sul letto.');
+    // 206 - 0.65 * (8 / 5 * 100) - 5
+    expect(fleschVaccaIndex(words, 1)).toBe(97);
+  });
+
+  it('keeps the indexes between 0 and 100', () => {
+    expect(gulpeaseIndex(tokenizeWords('Il mare era blu.'), 1)).toBe(100);
+    expect(fleschVaccaIndex(tokenizeWords('La documentazione amministrativa richiede approfondimenti.'), 1)).toBe(0);
+    expect(gulpeaseIndex([], 0)).toBe(0);
+  });
+});
+
+describe('dialogueRatio', () => {
+  it('counts the lines of dialogue introduced by dashes, excluding the narrative between dashes', () => {
+    // 4 words of dialogue ("Vieni qui", "subito adesso") out of 6
+    expect(dialogueRatio('— Vieni qui, — disse Marco, — subito adesso.')).toBe(0.67);
+  });
+
+  it('counts the quoted dialogue', () => {
+    expect(dialogueRatio('Lei rispose: «Non posso venire».')).toBe(0.6);
+    expect(dialogueRatio('Nessun dialogo qui.')).toBe(0);
+  });
+});
+
+describe('sentenceLengthStats', () => {
+  it('returns the average, median, deviation, maximum and length distribution', () => {
+    const sentences = ['Uno due.', 'Uno due tre quattro.', `${'parola '.repeat(30)}fine.`];
+    expect(sentenceLengthStats(sentences)).toEqual({
+      average: 12.3,
+      median: 4,
+      standardDeviation: 13.2,
+      max: 31,
+      distribution: { short: 2, medium: 0, long: 1, veryLong: 0 },
+    });
+  });
+});
+
+describe('lexical metrics', () => {
+  it('computes the type-token ratio ignoring case', () => {
+    expect(typeTokenRatio(tokenizeWords('Il mare, il cielo e il MARE.'))).toBe(0.571);
+  });
+
+  it('returns the most frequent terms without stopwords', () => {
+    const words = tokenizeWords("Il mare dell'isola. Il mare e la barca. La barca e il mare.");
+    expect(topTerms(words, 2)).toEqual([
+      { term: 'mare', count: 3 },
+      { term: 'barca', count: 2 },
+    ]);
+  });
+
+  it('estimates the reading time in minutes', () => {
+    expect(estimateReadingTime(0)).toBe(0);
+    expect(estimateReadingTime(201)).toBe(2);
+  });
+});
+
+describe('analyzeDocument', () => {
+  it('includes the readability and style metrics in the analysis', () => {
+    const analysis = analyzeDocument('Il Dott. Bianchi entrò. «Buongiorno» disse. Il mare era calmo.');
+    expect(analysis.sentenceCount).toBe(3);
+    expect(analysis.readability.gulpease).toBeGreaterThan(0);
+    expect(analysis.dialogueRatio).toBeGreaterThan(0);
+    expect(analysis.topTerms[0]).toEqual({ term: 'bianchi', count: 1 });
+    expect(analysis.readingTimeMinutes).toBe(1);
+  });
+
+  it('returns zeros for an empty text', () => {
+    const analysis = analyzeDocument('   ');
+    expect(analysis.readability).toEqual({ gulpease: 0, fleschVacca: 0 });
+    expect(analysis.sentenceLength.max).toBe(0);
+    expect(analysis.topTerms).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the MinHash similarity in backend/utils/textSimilarity.ts
+ * and for the choice of the most similar file in backend/services/duplicateService.ts.
+ *
+ * Key features:
+ * - Tests the shingles of short and long texts, ignoring case and punctuation.
+ * - Tests that identical texts have the same signature and that a revision stays above the
+ *   revision threshold, while an unrelated text stays below it.
+ * - Tests findMostSimilar on candidates with and without a signature.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - The database module is mocked, as only the pure functions are tested.
+ */
+
+jest.mock('../../backend/db', () => ({ db: {} }));
+
+import {
+  buildShingles,
+  computeMinHash,
+  estimateSimilarity,
+  MINHASH_SIZE,
+  SHINGLE_SIZE,
+} from '../../backend/utils/textSimilarity';
+import { findMostSimilar, REVISION_SIMILARITY_THRESHOLD } from '../../backend/services/duplicateService';
+
+// Writes a number with letters only (digits are not words): 0 is "a", 27 is "bb"
+const toLetters = (value: number) =>
+  value.toString(26).replace(/./g, (digit) => String.fromCharCode(97 + parseInt(digit, 26)));
+
+// Builds a text of distinct sentences, different from the texts built with another prefix
+const buildText = (prefix: string, sentences: number) =>
+  Array.from(
+    { length: sentences },
+    (_, index) => `${prefix} frase ${toLetters(index)} del romanzo ${toLetters(index * 31 + 7)} di prova.`
+  ).join(' ');
+
+describe('buildShingles', () => {
+  it('builds one shingle per window of words, ignoring case and punctuation', () => {
+    const words = 'uno due tre quattro cinque sei sette';
+    expect(buildShingles(words).size).toBe(7 - SHINGLE_SIZE + 1);
+    expect(buildShingles('Uno, DUE; tre... quattro! cinque sei sette')).toEqual(buildShingles(words));
+  });
+
+  it('builds a single shingle for a short text and none for a text without words', () => {
+    expect(buildShingles('Solo tre parole').size).toBe(1);
+    expect(buildShingles(' ... ').size).toBe(0);
+  });
+});
+
+describe('computeMinHash', () => {
+  it('gives the same signature to the same text', () => {
+    const signature = computeMinHash(buildText('Alfa', 50));
+    expect(signature).toHaveLength(MINHASH_SIZE);
+    expect(computeMinHash(buildText('Alfa', 50))).toEqual(signature);
+    expect(computeMinHash('')).toEqual([]);
+  });
+
+  it('estimates a high similarity for a revision and a low one for another book', () => {
+    const original = buildText('Alfa', 100);
+    // The revision changes the last tenth of the sentences
+    const revision = `${buildText('Alfa', 90)} ${buildText('Beta', 10)}`;
+    const otherBook = buildText('Gamma', 100);
+
+    const signature = computeMinHash(original);
+    expect(estimateSimilarity(signature, computeMinHash(revision))).toBeGreaterThanOrEqual(REVISION_SIMILARITY_THRESHOLD);
+    expect(estimateSimilarity(signature, computeMinHash(otherBook))).toBeLessThan(REVISION_SIMILARITY_THRESHOLD);
+  });
+
+  it('does not compare signatures of different lengths', () => {
+    expect(estimateSimilarity([1, 2], [1, 2, 3])).toBe(0);
+    expect(estimateSimilarity([], [])).toBe(0);
+  });
+});
+
+describe('findMostSimilar', () => {
+  it('returns the candidate with the closest signature, skipping those without one', () => {
+    const signature = computeMinHash(buildText('Alfa', 100));
+    const candidate = (file_id: string, text: string | null) => ({
+      file_id,
+      file_name: `${file_id}.docx`,
+      version_of: null,
+      text_signature: text === null ? null : computeMinHash(text),
+    });
+    const candidates = [
+      candidate('other', buildText('Gamma', 100)),
+      candidate('unprocessed', null),
+      candidate('revision', `${buildText('Alfa', 95)} ${buildText('Beta', 5)}`),
+    ];
+
+    const match = findMostSimilar(signature, candidates);
+    expect(match?.candidate.file_id).toBe('revision');
+    expect(match?.similarity).toBeGreaterThan(0.8);
+    expect(findMostSimilar(signature, [candidates[1]])).toBeNull();
+  });
+});
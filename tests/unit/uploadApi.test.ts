@@ -0,0 +1,171 @@
+/**
+ * @fileoverview
+ * This file contains unit tests for the upload endpoint, pages/api/upload.ts, when a request
+ * carries several files. It verifies that every file gets its own outcome and that the status of
+ * the response depends on how many files were stored.
+ *
+ * Key features:
+ * - Tests a request whose files are all stored (202).
+ * - Tests that a file whose job cannot be queued is reported as failed.
+ * - Tests a request with rejected and failing files next to stored ones (202 with the counts).
+ * - Tests a request whose files all fail (400), with the error of a single file when it is alone.
+ * - Tests that the temporary copies made by formidable are always removed.
+ *
+ * @dependencies
+ * - jest: For testing and mocking.
+ *
+ * @notes
+ * - formidable is replaced by a stub returning the files of the test, written to a temporary
+ *   directory; the storage, the database and the job queue are mocked.
+ * - The authentication middleware is replaced by a pass-through wrapper.
+ */
+
+const mockParsedFiles: { file?: unknown } = {};
+const mockStoreFile = jest.fn();
+
+jest.mock('formidable', () => ({
+  __esModule: true,
+  default: {
+    IncomingForm: jest.fn(() => ({
+      parse: (_req: unknown, callback: (err: unknown, fields: unknown, files: unknown) => void) =>
+        callback(null, {}, mockParsedFiles),
+    })),
+  },
+}));
+jest.mock('../../backend/db', () => {
+  const db = {
+    insert: () => ({
+      values: (row: Record<string, unknown>) => ({
+        returning: async () => [{ file_id: `id-${row.file_name}`, ...row }],
+      }),
+    }),
+    transaction: (callback: (tx: unknown) => Promise<unknown>) => callback(db),
+  };
+  return { db };
+});
+jest.mock('../../backend/middleware/authMiddleware', () => ({ withAuth: (handler: unknown) => handler }));
+jest.mock('../../backend/services/storage', () => ({ storeFile: mockStoreFile }));
+jest.mock('../../backend/services/duplicateService', () => ({ findDuplicateUpload: jest.fn(async () => null) }));
+jest.mock('../../backend/services/jobQueue', () => ({
+  enqueueJob: jest.fn(),
+}));
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '../../pages/api/upload';
+import { enqueueJob } from '../../backend/services/jobQueue';
+
+let tempDir: string;
+
+// Writes a file to the temporary directory and describes it as formidable does
+const uploadedFile = (name: string, mimetype: string, content = 'Capitolo 1\nTesto.') => {
+  const filepath = path.join(tempDir, `${Math.random().toString(36).slice(2)}-${name}`);
+  fs.writeFileSync(filepath, content);
+  return { filepath, originalFilename: name, mimetype, size: Buffer.byteLength(content) };
+};
+
+// Calls the handler and returns the status and the body of the response
+const call = async () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  const req = { method: 'POST', user: { user_id: 'user-1' } } as unknown as NextApiRequest;
+  await handler(req, res as unknown as NextApiResponse);
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+};
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-test-'));
+  mockStoreFile.mockReset();
+  mockStoreFile.mockImplementation(async () => ({ key: 'uploads/file.md', contentHash: 'hash' }));
+  (enqueueJob as jest.Mock).mockReset();
+  (enqueueJob as jest.Mock).mockImplementation(async (_type: string, payload: { file_id: string }) => ({
+    job_id: `job-${payload.file_id}`,
+  }));
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('POST /api/upload with several files', () => {
+  it('stores every file and queues its processing', async () => {
+    mockParsedFiles.file = [uploadedFile('primo.md', 'text/markdown'), uploadedFile('secondo.md', 'text/plain')];
+
+    const { status, body } = await call();
+
+    expect(status).toBe(202);
+    expect(body.message).toBe('File caricati. Elaborazione in corso.');
+    expect(body.data).toMatchObject({ uploaded: 2, failed: 0 });
+    expect(body.data.results).toEqual([
+      expect.objectContaining({ file_name: 'primo.md', success: true, job_id: 'job-id-primo.md' }),
+      expect.objectContaining({ file_name: 'secondo.md', success: true, job_id: 'job-id-secondo.md' }),
+    ]);
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+
+  it('reports the outcome of each file when only some are stored', async () => {
+    mockParsedFiles.file = [
+      uploadedFile('romanzo.md', 'text/markdown'),
+      uploadedFile('foto.png', 'image/png'),
+      uploadedFile('saggio.md', 'text/markdown'),
+    ];
+    mockStoreFile
+      .mockImplementationOnce(async () => ({ key: 'uploads/romanzo.md', contentHash: 'hash-1' }))
+      .mockImplementationOnce(async () => {
+        throw new Error('Spazio esaurito.');
+      });
+
+    const { status, body } = await call();
+
+    expect(status).toBe(202);
+    expect(body.message).toBe('Caricati 1 file su 3. Elaborazione in corso.');
+    expect(body.data).toMatchObject({ uploaded: 1, failed: 2 });
+    expect(body.data.results.map((result: { success: boolean }) => result.success)).toEqual([true, false, false]);
+    expect(body.data.results[1].error).toMatch('Tipo di file non supportato.');
+    expect(body.data.results[2].error).toBe('Errore durante il salvataggio del file.');
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+
+  it('reports a file whose processing job cannot be queued as failed', async () => {
+    mockParsedFiles.file = [uploadedFile('primo.md', 'text/markdown'), uploadedFile('secondo.md', 'text/markdown')];
+    (enqueueJob as jest.Mock).mockImplementationOnce(async () => {
+      throw new Error('Unable to enqueue job.');
+    });
+
+    const { status, body } = await call();
+
+    expect(status).toBe(202);
+    expect(body.data).toMatchObject({ uploaded: 1, failed: 1 });
+    expect(body.data.results[0]).toMatchObject({ success: false, error: 'Errore durante il salvataggio del file.' });
+    expect(enqueueJob).toHaveBeenCalledWith(
+      'process_upload',
+      { file_id: 'id-secondo.md' },
+      { fileId: 'id-secondo.md' },
+      expect.anything()
+    );
+  });
+
+  it('fails the request when no file is stored', async () => {
+    mockParsedFiles.file = [uploadedFile('foto.png', 'image/png'), uploadedFile('video.mp4', 'video/mp4')];
+
+    const { status, body } = await call();
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('Nessuno dei file è stato caricato.');
+    expect(body.data).toMatchObject({ uploaded: 0, failed: 2 });
+    expect(mockStoreFile).not.toHaveBeenCalled();
+  });
+
+  it('reports the error of the file when a single file fails', async () => {
+    mockParsedFiles.file = uploadedFile('foto.png', 'image/png');
+
+    const { status, body } = await call();
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch('Tipo di file non supportato.');
+  });
+});
@@ -12,10 +12,24 @@
  * - These interfaces help ensure type safety across API endpoints.
  */
 
+import type { OutputHistory } from '../backend/services/aiOutputService';
+import type { FileRecord, FileSummary, ProcessingStatus } from '../backend/services/fileService';
+import type { DocumentAnalysis } from '../backend/services/fileAnalysis';
+import type { DocumentStructure } from '../backend/services/documentStructure';
+import type { LintReport } from '../backend/services/manuscriptLint';
+import type { RevisionMatch } from '../backend/services/duplicateService';
+import type { SearchMatch } from '../backend/services/fileTextService';
+import type { CatalogRecord, CatalogSummary } from '../backend/services/catalogService';
+import type { PromptTemplateRecord, TemplateVariable } from '../backend/services/promptTemplateService';
+import type { OutputLanguage, TemplateGenerationType } from '../backend/services/openaiService';
+import type { UserAccount, UserRole } from '../backend/services/accessService';
+
 export interface ApiResponse<T> {
     message: string;
     data?: T;
     error?: string;
+    // Optional list of detailed validation errors
+    details?: string[];
   }
   
   export interface ErrorResponse {
@@ -26,22 +40,109 @@ export interface ApiResponse<T> {
     user_id: string;
     username: string;
     email: string;
+    role: UserRole;
   }
   
-  export interface LoginResponse extends UserResponse {
+  // Tokens of a session: a short-lived access token and the refresh token that renews it
+  export interface SessionTokensResponse {
     token: string;
+    refresh_token: string;
+    // Lifetime of the access token, in seconds
+    expires_in: number;
   }
   
-  export interface RegisterResponse extends UserResponse {
-    token: string;
+  // The tokens are in the body only for the API clients that ask for them ("token_in_body": true);
+  // the web application receives them in HttpOnly cookies
+  export interface LoginResponse extends UserResponse, Partial<SessionTokensResponse> {}
+  
+  // Without a session when the email address must be verified before logging in
+  export interface RegisterResponse extends LoginResponse {
+    verification_required: boolean;
+  }
+  
+  export interface LogoutResponse {
+    // Whether all the sessions of the user were ended, or only the current one
+    all: boolean;
+  }
+  
+  // Outcome of the upload of a single file of the request
+  export interface UploadFileResult {
+    file_name: string;
+    success: boolean;
+    file?: FileRecord;
+    job_id?: string;
+    error?: string;
+    // True when the same file had already been uploaded: "file" is the previous upload
+    duplicate?: boolean;
+  }
+
+  export interface UploadResponse {
+    // One result per file, in the order of the request
+    results: UploadFileResult[];
+    uploaded: number;
+    failed: number;
+  }
+  
+  export interface FileStatusResponse {
+    file_id: string;
+    file_name: string;
+    processing_status: ProcessingStatus;
+    // Progress of the processing, from 0 to 100
+    progress: number;
+    // Error message of the last failed attempt, if any
+    error: string | null;
+    // Version of the book, from 1, and its first version (null for the first version itself)
+    version: number;
+    version_of: string | null;
+    // Available once the processing is complete, the text only with ?include=text
+    extractedText?: string;
+    structure?: DocumentStructure;
+    technicalAnalysis?: DocumentAnalysis;
+    lintReport?: LintReport;
+    revisionOf?: RevisionMatch | null;
+  }
+  
+  export interface LintReportResponse {
+    file_id: string;
+    report: LintReport;
+  }
+  
+  export interface FileListResponse {
+    files: FileSummary[];
+    // Number of files matching the filters, across all pages
+    total: number;
+    page: number;
+    pageSize: number;
+  }
+  
+  export interface SearchResponse {
+    // Matching manuscripts of the page, the most relevant first
+    results: SearchMatch[];
+    // Number of matching manuscripts, across all pages
+    total: number;
+    page: number;
+    pageSize: number;
   }
   
   export interface GenerateResponse {
     output: string;
+    output_id: string;
+    // The seven KDP keyword phrases, only for the "keywords" type
+    keywords?: string[];
+  }
+  
+  export interface OutputHistoryResponse {
+    file_id: string;
+    outputs: OutputHistory;
+  }
+  
+  export interface SaveOutputResponse {
+    output_id: string;
   }
   
   export interface LogEntry {
     log_id: string;
+    user_id: string;
     timestamp: string;
     action_type: string;
     description: string;
@@ -55,4 +156,30 @@ export interface ApiResponse<T> {
     session?: any;
     sessions?: any;
   }
-  
\ No newline at end of file
+  
+  export interface CatalogListResponse {
+    catalogs: CatalogSummary[];
+  }
+  
+  export interface CatalogResponse {
+    catalog: CatalogRecord;
+  }
+  
+  export interface PromptTemplateListResponse {
+    templates: PromptTemplateRecord[];
+    defaults: Record<OutputLanguage, Record<TemplateGenerationType, string>>;
+    variables: TemplateVariable[];
+    languages: OutputLanguage[];
+  }
+  
+  export interface PromptTemplateResponse {
+    template: PromptTemplateRecord;
+  }
+  
+  export interface UserListResponse {
+    users: UserAccount[];
+  }
+  
+  export interface UserAccountResponse {
+    user: UserAccount;
+  }
@@ -13,44 +13,67 @@
  */
 
 declare module 'pdf-parse' {
-    /**
-     * Interfaccia per i dati estratti da un file PDF.
-     */
-    interface PDFData {
-      text: string;
-      info?: any;
-      metadata?: any;
-      version?: string;
-    }
-  
-    /**
-     * Interfaccia per le opzioni di parsing del PDF.
-     */
-    interface PDFParseOptions {
+    // Tipi accessibili come pdf.PDFData, pdf.PDFPageData...
+    namespace pdf {
       /**
-       * Funzione per il rendering della pagina.
-       * @param pageData Dati relativi alla pagina da renderizzare.
-       * @returns La stringa di testo renderizzata.
+       * Interfaccia per i dati estratti da un file PDF.
        */
-      pagerender?: (pageData: any) => string;
+      export interface PDFData {
+        text: string;
+        info?: any;
+        metadata?: any;
+        version?: string;
+        numpages?: number;
+      }
+
       /**
-       * Numero massimo di pagine da processare.
+       * Elemento di testo di una pagina, con la matrice di trasformazione (transform[5] è la coordinata y).
        */
-      max?: number;
+      export interface PDFTextItem {
+        str: string;
+        transform: number[];
+      }
+
       /**
-       * Versione del parser o altre opzioni specifiche.
+       * Pagina passata alla funzione pagerender (PDFPageProxy di pdf.js).
        */
-      version?: string;
-    }
+      export interface PDFPageData {
+        // Numero della pagina, a partire da 1
+        pageNumber: number;
+        getTextContent(options?: {
+          normalizeWhitespace?: boolean;
+          disableCombineTextItems?: boolean;
+        }): Promise<{ items: PDFTextItem[] }>;
+      }
   
+      /**
+       * Interfaccia per le opzioni di parsing del PDF.
+       */
+      export interface PDFParseOptions {
+        /**
+         * Funzione per il rendering della pagina.
+         * @param pageData Dati relativi alla pagina da renderizzare.
+         * @returns La stringa di testo renderizzata.
+         */
+        pagerender?: (pageData: PDFPageData) => string | Promise<string>;
+        /**
+         * Numero massimo di pagine da processare.
+         */
+        max?: number;
+        /**
+         * Versione del parser o altre opzioni specifiche.
+         */
+        version?: string;
+      }
+    }
+
     /**
      * Funzione principale per l'estrazione del testo da un Buffer contenente un PDF.
      * @param buffer Buffer contenente i dati del file PDF.
      * @param options Opzionali, impostazioni per il parsing.
      * @returns Una Promise che risolve con i dati estratti dal PDF.
      */
-    function pdf(buffer: Buffer, options?: PDFParseOptions): Promise<PDFData>;
+    function pdf(buffer: Buffer, options?: pdf.PDFParseOptions): Promise<pdf.PDFData>;
   
     export = pdf;
   }
-  
\ No newline at end of file